@@ -11,18 +11,29 @@
  *   status     - Show current authentication status
  *   check      - Check if token is valid/expiring
  *   login      - Perform real OAuth login via browser
+ *                (--headless: print the URL and a QR code instead, for SSH/containers)
  *   logout     - Clear stored credentials
  *   refresh    - Force token refresh (requires API key)
  *   demo       - Run full demo with mock interceptor
  *   auth-key   - Authenticate using API key (from env or arg)
  *   auth-token - Authenticate using direct token (from env or arg)
+ *   profiles   - List credential profiles
+ *   profile-use <name>    - Make a profile the default
+ *   profile-remove <name> - Delete a profile's credentials
+ *
+ * Pass --profile <name> (or set CURSOR_AUTH_PROFILE) to run a command against
+ * a specific profile, e.g. `login --profile work`.
  */
 
-import { platform, homedir } from "node:os";
-import { join, dirname } from "node:path";
-import { promises as fs } from "node:fs";
+import { platform } from "node:os";
 import { createHash, randomBytes, randomUUID } from "node:crypto";
 import { exec } from "node:child_process";
+import {
+  createCredentialManager as createStorageCredentialManager,
+  EncryptedCredentialManager,
+  FileCredentialManager,
+} from "../src/lib/storage";
+import { startHeadlessLogin, terminalLoginProgress } from "../src/lib/auth/headless-login";
 
 // --- Configuration ---
 
@@ -196,168 +207,19 @@ function sleep(ms: number): Promise<void> {
 
 // --- Credential Manager ---
 
-/**
- * FileCredentialManager - File-based credential storage
- */
-class FileCredentialManager implements CredentialManager {
-  private cachedAccessToken: string | null = null;
-  private cachedRefreshToken: string | null = null;
-  private cachedApiKey: string | null = null;
-  private authFilePath: string;
-
-  constructor(domain: string) {
-    this.authFilePath = this.getAuthFilePath(domain);
-  }
-
-  private toWindowsTitleCase(domain: string): string {
-    if (domain.length === 0) return domain;
-    return domain.charAt(0).toUpperCase() + domain.slice(1).toLowerCase();
-  }
-
-  private getAuthFilePath(domain: string): string {
-    const currentPlatform = platform();
-
-    switch (currentPlatform) {
-      case "win32": {
-        const appData =
-          process.env.APPDATA || join(homedir(), "AppData", "Roaming");
-        const folder = this.toWindowsTitleCase(domain);
-        return join(appData, folder, "auth.json");
-      }
-      case "darwin":
-        return join(homedir(), `.${domain}`, "auth.json");
-      default: {
-        const configDir =
-          process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
-        return join(configDir, domain, "auth.json");
-      }
-    }
-  }
-
-  getStoragePath(): string {
-    return this.authFilePath;
-  }
-
-  private async ensureDirectoryExists(): Promise<void> {
-    const dir = dirname(this.authFilePath);
-    try {
-      await fs.mkdir(dir, { recursive: true });
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
-    }
-  }
-
-  private async readAuthData(): Promise<{
-    accessToken?: string;
-    refreshToken?: string;
-    apiKey?: string;
-  } | null> {
-    try {
-      const data = await fs.readFile(this.authFilePath, "utf-8");
-      return JSON.parse(data);
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
-      return null;
-    }
-  }
-
-  private async writeAuthData(data: {
-    accessToken: string;
-    refreshToken: string;
-    apiKey?: string;
-  }): Promise<void> {
-    await this.ensureDirectoryExists();
-    await fs.writeFile(
-      this.authFilePath,
-      JSON.stringify(data, null, 2),
-      "utf-8"
-    );
-  }
-
-  async setAuthentication(
-    accessToken: string,
-    refreshToken: string,
-    apiKey?: string
-  ): Promise<void> {
-    await this.writeAuthData({ accessToken, refreshToken, apiKey });
-    this.cachedAccessToken = accessToken;
-    this.cachedRefreshToken = refreshToken;
-    this.cachedApiKey = apiKey ?? null;
-  }
-
-  async getAccessToken(): Promise<string | undefined> {
-    if (this.cachedAccessToken) return this.cachedAccessToken;
-    const authData = await this.readAuthData();
-    if (authData?.accessToken) {
-      this.cachedAccessToken = authData.accessToken;
-      this.cachedRefreshToken = authData.refreshToken ?? null;
-      return authData.accessToken;
-    }
-    return undefined;
-  }
-
-  async getRefreshToken(): Promise<string | undefined> {
-    if (this.cachedRefreshToken) return this.cachedRefreshToken;
-    const authData = await this.readAuthData();
-    if (authData?.refreshToken) {
-      this.cachedAccessToken = authData.accessToken ?? null;
-      this.cachedRefreshToken = authData.refreshToken;
-      return authData.refreshToken;
-    }
-    return undefined;
-  }
-
-  async getApiKey(): Promise<string | undefined> {
-    if (this.cachedApiKey) return this.cachedApiKey;
-    const authData = await this.readAuthData();
-    if (authData?.apiKey) {
-      this.cachedApiKey = authData.apiKey;
-      return authData.apiKey;
-    }
-    return undefined;
-  }
-
-  async getAllCredentials(): Promise<{
-    accessToken?: string;
-    refreshToken?: string;
-    apiKey?: string;
-  }> {
-    if (this.cachedAccessToken !== null && this.cachedRefreshToken !== null) {
-      return {
-        accessToken: this.cachedAccessToken || undefined,
-        refreshToken: this.cachedRefreshToken || undefined,
-        apiKey: this.cachedApiKey || undefined,
-      };
-    }
-    const authData = await this.readAuthData();
-    if (authData) {
-      this.cachedAccessToken = authData.accessToken || null;
-      this.cachedRefreshToken = authData.refreshToken || null;
-      this.cachedApiKey = authData.apiKey || null;
-      return authData;
-    }
-    return {};
-  }
-
-  async clearAuthentication(): Promise<void> {
-    try {
-      await fs.unlink(this.authFilePath);
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
-    }
-    this.cachedAccessToken = null;
-    this.cachedRefreshToken = null;
-    this.cachedApiKey = null;
-  }
-}
-
 /**
  * Create appropriate credential manager for the current platform
  */
-function createCredentialManager(domain: string): FileCredentialManager {
+function createCredentialManager(domain: string, profile?: string): FileCredentialManager {
   console.log(`[CredentialManager] Platform: ${platform()}`);
   console.log(`[CredentialManager] Domain: ${domain}`);
-  return new FileCredentialManager(domain);
+  if (profile) console.log(`[CredentialManager] Profile: ${profile}`);
+  // CURSOR_CREDENTIAL_ENCRYPTION=1 selects encrypted storage
+  const credentialManager = createStorageCredentialManager(domain, profile);
+  if (credentialManager instanceof EncryptedCredentialManager) {
+    console.log("[CredentialManager] Encryption: enabled");
+  }
+  return credentialManager;
 }
 
 // --- LoginManager (from cursor-config/dist/auth/login.js) ---
@@ -574,6 +436,7 @@ async function showStatus(credentialManager: FileCredentialManager) {
   console.log("\n=== Authentication Status ===\n");
 
   console.log(`Storage: ${credentialManager.getStoragePath()}`);
+  console.log(`Profile: ${await credentialManager.getProfile()}`);
 
   const creds = await credentialManager.getAllCredentials();
 
@@ -686,6 +549,44 @@ async function performLogin(credentialManager: CredentialManager) {
   }
 }
 
+async function performHeadlessLogin(
+  credentialManager: CredentialManager,
+  options: { timeoutMs?: number; callbackPort?: number }
+) {
+  console.log("\n=== Headless Login ===\n");
+
+  const login = await startHeadlessLogin({
+    timeoutMs: options.timeoutMs,
+    callbackPort: options.callbackPort,
+    onProgress: terminalLoginProgress(),
+  });
+  console.log(login.instructions);
+  console.log();
+
+  const cancel = () => {
+    login.cancel();
+  };
+  process.once("SIGINT", cancel);
+  const authResult = await login.wait();
+  process.off("SIGINT", cancel);
+  process.stderr.write("\n");
+
+  if (authResult) {
+    await credentialManager.setAuthentication(
+      authResult.accessToken,
+      authResult.refreshToken
+    );
+
+    const payload = decodeJwtPayload(authResult.accessToken);
+    console.log("Login successful!");
+    console.log(`  Auth ID: ${payload?.sub || "(unknown)"}`);
+    console.log(`  Token stored securely.`);
+  } else {
+    console.log("Login timed out or was cancelled.");
+    process.exit(1);
+  }
+}
+
 async function runDemo(credentialManager: CredentialManager) {
   console.log("\n=== Authentication Flow Demo ===\n");
 
@@ -757,11 +658,55 @@ async function runDemo(credentialManager: CredentialManager) {
   console.log("\n Demo complete.");
 }
 
-async function clearCredentials(credentialManager: CredentialManager) {
+async function clearCredentials(credentialManager: FileCredentialManager) {
   console.log("\n=== Clearing Credentials ===\n");
 
+  const profile = await credentialManager.getProfile();
   await credentialManager.clearAuthentication();
-  console.log("All stored credentials have been cleared.");
+  console.log(`Stored credentials for profile "${profile}" have been cleared.`);
+}
+
+// --- Profile Commands ---
+
+async function listProfiles(credentialManager: FileCredentialManager) {
+  console.log("\n=== Credential Profiles ===\n");
+
+  const profiles = await credentialManager.listProfiles();
+  if (profiles.length === 0) {
+    console.log("No profiles stored. Run `login --profile <name>` to add one.");
+    return;
+  }
+
+  const defaultProfile = await credentialManager.getDefaultProfile();
+  for (const profile of profiles) {
+    const creds = await credentialManager.forProfile(profile).getAllCredentials();
+    const sub = creds.accessToken ? decodeJwtPayload(creds.accessToken)?.sub : undefined;
+    const marker = profile === defaultProfile ? "*" : " ";
+    console.log(`${marker} ${profile.padEnd(16)} ${sub ? String(sub) : "(unknown account)"}`);
+  }
+  console.log("\n* = default profile");
+}
+
+async function useProfile(credentialManager: FileCredentialManager, profile?: string) {
+  if (!profile) {
+    console.log("Usage: bun scripts/auth-demo.ts profile-use <name>");
+    process.exit(1);
+  }
+  await credentialManager.setDefaultProfile(profile);
+  console.log(`Default profile is now "${profile}".`);
+}
+
+async function removeProfile(credentialManager: FileCredentialManager, profile?: string) {
+  if (!profile) {
+    console.log("Usage: bun scripts/auth-demo.ts profile-remove <name>");
+    process.exit(1);
+  }
+  if (!(await credentialManager.listProfiles()).includes(profile)) {
+    console.log(`Unknown profile: ${profile}`);
+    process.exit(1);
+  }
+  await credentialManager.removeProfile(profile);
+  console.log(`Profile "${profile}" removed.`);
 }
 
 async function authenticateWithApiKey(
@@ -845,11 +790,46 @@ async function authenticateWithToken(
   }
 }
 
+/**
+ * Re-encrypt stored credentials under CURSOR_NEW_SECRET_PASSPHRASE (or the
+ * machine key when it is unset)
+ */
+async function rotateKey(credentialManager: FileCredentialManager) {
+  if (!(credentialManager instanceof EncryptedCredentialManager)) {
+    console.error("\nCredentials are not encrypted; set CURSOR_CREDENTIAL_ENCRYPTION=1 first.");
+    process.exit(1);
+  }
+  const newPassphrase = process.env.CURSOR_NEW_SECRET_PASSPHRASE || undefined;
+  await credentialManager.rotateKey(newPassphrase);
+  console.log(`\n✅ Credentials re-encrypted with ${newPassphrase ? "the new passphrase" : "the machine key"}.`);
+  if (newPassphrase) console.log("Set CURSOR_SECRET_PASSPHRASE to the new passphrase from now on.");
+}
+
 // --- Main Entry Point ---
 
 async function main() {
-  const command = process.argv[2] || "help";
-  const arg = process.argv[3];
+  const args = process.argv.slice(2);
+  let profile = process.env.CURSOR_AUTH_PROFILE || undefined;
+  const profileFlag = args.indexOf("--profile");
+  if (profileFlag !== -1) {
+    profile = args[profileFlag + 1];
+    args.splice(profileFlag, 2);
+  }
+
+  const takeFlag = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    if (index === -1) return undefined;
+    const [, value] = args.splice(index, 2);
+    return value;
+  };
+  const timeoutSeconds = takeFlag("--timeout");
+  const callbackPort = takeFlag("--callback-port");
+  const headlessFlag = args.indexOf("--headless");
+  const headless = headlessFlag !== -1;
+  if (headless) args.splice(headlessFlag, 1);
+
+  const command = args[0] || "help";
+  const arg = args[1];
 
   // Use "cursor" domain to use the same credentials as real Cursor CLI
   // Use "cursor-demo" for isolated testing
@@ -858,7 +838,7 @@ async function main() {
   console.log("Cursor CLI Authentication Demo");
   console.log("==============================");
 
-  const credentialManager = createCredentialManager(domain);
+  const credentialManager = createCredentialManager(domain, profile);
 
   switch (command) {
     case "status":
@@ -870,7 +850,14 @@ async function main() {
       break;
 
     case "login":
-      await performLogin(credentialManager);
+      if (headless) {
+        await performHeadlessLogin(credentialManager, {
+          timeoutMs: timeoutSeconds ? Number(timeoutSeconds) * 1000 : undefined,
+          callbackPort: callbackPort ? Number(callbackPort) : undefined,
+        });
+      } else {
+        await performLogin(credentialManager);
+      }
       break;
 
     case "logout":
@@ -904,6 +891,22 @@ async function main() {
       await authenticateWithToken(credentialManager, arg);
       break;
 
+    case "profiles":
+      await listProfiles(credentialManager);
+      break;
+
+    case "profile-use":
+      await useProfile(credentialManager, arg);
+      break;
+
+    case "profile-remove":
+      await removeProfile(credentialManager, arg);
+      break;
+
+    case "rotate-key":
+      await rotateKey(credentialManager);
+      break;
+
     case "help":
     default:
       if (command !== "help") {
@@ -913,17 +916,31 @@ async function main() {
       console.log("  status     - Show current authentication status");
       console.log("  check      - Check if token is valid/expiring");
       console.log("  login      - Perform real OAuth login via browser");
+      console.log("  login --headless - Print the login URL and a QR code (SSH / containers)");
       console.log("  logout     - Clear stored credentials");
       console.log("  refresh    - Force token refresh (requires API key)");
       console.log("  demo       - Run demo with mock interceptor");
       console.log("  auth-key   - Authenticate using API key");
       console.log("  auth-token - Authenticate using direct token");
+      console.log("  profiles   - List credential profiles");
+      console.log("  profile-use <name>    - Make a profile the default");
+      console.log("  profile-remove <name> - Delete a profile's credentials");
+      console.log("  rotate-key - Re-encrypt credentials under CURSOR_NEW_SECRET_PASSPHRASE");
+      console.log("\nOptions:");
+      console.log("  --profile <name>    - Run the command against a profile");
+      console.log("  --timeout <seconds> - Headless login timeout (default: 300)");
+      console.log("  --callback-port <port> - Serve a local login status page (headless login)");
       console.log("\nEnvironment variables:");
       console.log("  CURSOR_API_KEY      - API key for authentication");
       console.log("  CURSOR_AUTH_TOKEN   - Direct JWT token");
       console.log(
         "  CURSOR_AUTH_DOMAIN  - Storage domain (default: cursor)"
       );
+      console.log(
+        "  CURSOR_AUTH_PROFILE - Profile to use (default: the stored default profile)"
+      );
+      console.log("  CURSOR_CREDENTIAL_ENCRYPTION - Set to 1 to encrypt stored credentials");
+      console.log("  CURSOR_SECRET_PASSPHRASE     - Encryption passphrase (default: machine-derived)");
       if (command !== "help") {
         process.exit(1);
       }
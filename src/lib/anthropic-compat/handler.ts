@@ -0,0 +1,286 @@
+/**
+ * Anthropic-Compatible Request Handler
+ *
+ * Serves /v1/messages on top of the same agent turn runner as the OpenAI
+ * route, so exec request mapping and session reuse behave identically.
+ */
+
+import { getCachedModels, resolveModel, type CursorModelInfo } from "../api/cursor-models";
+import type { AccountPool } from "../auth/account-pool";
+import { messagesToPrompt, makeStreamResponse } from "../openai-compat/utils";
+import { createTurnCancellation, runAgentTurn, type AgentTurnEvent, type AgentTurnHooks } from "../openai-compat/agent-turn";
+import { poolAccessToken, runWithFailover } from "../openai-compat/account-failover";
+import { collectImageAttachments } from "../openai-compat/images";
+import { buildAgentChatRequest } from "../openai-compat/conversation-state";
+import { enforceToolChoice, resolveToolChoice } from "../openai-compat/tool-choice";
+import { calculateTokenUsage } from "../utils/tokenizer";
+import type {
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicResponseBlock,
+  AnthropicStopReason,
+} from "./types";
+import {
+  anthropicToOpenAIMessages,
+  anthropicToolChoiceToToolChoice,
+  anthropicToolsToOpenAI,
+  createAnthropicErrorResponse,
+  createAnthropicSSEEvent,
+  generateMessageId,
+  toAnthropicStopReason,
+} from "./utils";
+
+/**
+ * Handle /v1/messages requests
+ */
+export async function handleAnthropicMessages(
+  req: Request,
+  pool: AccountPool,
+  log: (message: string, ...args: unknown[]) => void,
+  baseUrl?: string,
+  hooks: AgentTurnHooks = {}
+): Promise<Response> {
+  let body: AnthropicMessagesRequest;
+  try {
+    body = await req.json() as AnthropicMessagesRequest;
+  } catch {
+    return createAnthropicErrorResponse("Invalid JSON body");
+  }
+
+  if (!body.messages || !Array.isArray(body.messages) || body.messages.length === 0) {
+    return createAnthropicErrorResponse("messages: field required and must be a non-empty array");
+  }
+
+  // Resolve model name to internal model ID
+  let model: string;
+  let modelInfo: CursorModelInfo | undefined;
+  try {
+    const models = await getCachedModels(await poolAccessToken(pool), baseUrl);
+    model = resolveModel(body.model ?? "auto", models);
+    modelInfo = models.find(m => m.modelId === model);
+    log(`[Anthropic Compat] Resolved model "${body.model ?? "auto"}" to "${model}"`);
+  } catch (err) {
+    log("[Anthropic Compat] Failed to fetch models, using requested model directly:", err);
+    model = body.model ?? "default";
+  }
+
+  const messages = anthropicToOpenAIMessages(body);
+  const imageResult = await collectImageAttachments(messages, model, { modelInfo });
+  if ("error" in imageResult) {
+    return createAnthropicErrorResponse(imageResult.error);
+  }
+
+  const prompt = messagesToPrompt(messages);
+  const toolChoice = anthropicToolChoiceToToolChoice(body.tool_choice);
+  const resolvedToolChoice = resolveToolChoice(anthropicToolsToOpenAI(body.tools), toolChoice);
+  if ("error" in resolvedToolChoice) {
+    return createAnthropicErrorResponse(resolvedToolChoice.error);
+  }
+  const { tools, mode, toolInstructions } = resolvedToolChoice;
+
+  const messageId = generateMessageId();
+  const cancellation = createTurnCancellation(req.signal);
+
+  const turn = runWithFailover(pool, (client) => enforceToolChoice(runAgentTurn({
+    client,
+    request: buildAgentChatRequest(messages, { model, mode, tools, toolInstructions, images: imageResult.images }),
+    messages,
+    toolsProvided: tools !== undefined,
+    refuseExecRequests: toolChoice === "none",
+    fallbackToolCallId: (index) => `toolu_${messageId.slice(4, 12)}_${index}`,
+    signal: cancellation.signal,
+    ...hooks,
+    log,
+  }), toolChoice, log), { baseUrl, log });
+
+  // Thinking blocks are returned unless the client explicitly disables them
+  const includeThinking = body.thinking?.type !== "disabled";
+
+  if (body.stream) {
+    return streamAnthropicMessage({ turn, prompt, model, messageId, includeThinking, onCancel: cancellation.cancel, log });
+  }
+
+  // Non-streaming response
+  const content: AnthropicResponseBlock[] = [];
+  let accumulatedText = "";
+  let stopReason: AnthropicStopReason = "end_turn";
+
+  try {
+    for await (const event of turn) {
+      if (event.type === "text") {
+        accumulatedText += event.content;
+        const last = content[content.length - 1];
+        if (last?.type === "text") {
+          last.text += event.content;
+        } else {
+          content.push({ type: "text", text: event.content });
+        }
+      } else if (event.type === "thinking" && includeThinking) {
+        const last = content[content.length - 1];
+        if (last?.type === "thinking") {
+          last.thinking += event.content;
+        } else {
+          content.push({ type: "thinking", thinking: event.content, signature: "" });
+        }
+      } else if (event.type === "tool_call") {
+        const { toolCall } = event;
+        content.push({ type: "tool_use", id: toolCall.id, name: toolCall.name, input: toolCall.arguments });
+      } else if (event.type === "error") {
+        return event.errorKind
+          ? createAnthropicErrorResponse(event.message, "rate_limit_error", 429)
+          : createAnthropicErrorResponse(event.message, "api_error", 500);
+      } else if (event.type === "end") {
+        stopReason = toAnthropicStopReason(event.finishReason);
+      }
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return createAnthropicErrorResponse(message, "api_error", 500);
+  }
+
+  const usage = calculateTokenUsage(prompt, accumulatedText, model);
+  const response: AnthropicMessagesResponse = {
+    id: messageId,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: stopReason,
+    stop_sequence: null,
+    usage: { input_tokens: usage.prompt_tokens, output_tokens: usage.completion_tokens },
+  };
+
+  return new Response(JSON.stringify(response), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/**
+ * Stream an Anthropic message as named SSE events
+ */
+interface AnthropicStreamParams {
+  turn: AsyncGenerator<AgentTurnEvent>;
+  prompt: string;
+  model: string;
+  messageId: string;
+  includeThinking: boolean;
+  /** Called when the client cancels the response stream */
+  onCancel: () => void;
+  log: (message: string, ...args: unknown[]) => void;
+}
+
+function streamAnthropicMessage(params: AnthropicStreamParams): Response {
+  const { turn, prompt, model, messageId, includeThinking, onCancel, log } = params;
+
+  const encoder = new TextEncoder();
+  let isClosed = false;
+  let accumulatedText = "";
+
+  const readable = new ReadableStream({
+    async start(controller) {
+      const send = (event: Parameters<typeof createAnthropicSSEEvent>[0]) => {
+        controller.enqueue(encoder.encode(createAnthropicSSEEvent(event)));
+      };
+
+      // Index of the current content block, and which streamed block (if any) is open
+      let blockIndex = 0;
+      let openBlock: "text" | "thinking" | null = null;
+
+      const closeOpenBlock = () => {
+        if (!openBlock) return;
+        send({ type: "content_block_stop", index: blockIndex });
+        blockIndex++;
+        openBlock = null;
+      };
+
+      const openStreamedBlock = (type: "text" | "thinking") => {
+        if (openBlock === type) return;
+        closeOpenBlock();
+        send({
+          type: "content_block_start",
+          index: blockIndex,
+          content_block: type === "text" ? { type: "text", text: "" } : { type: "thinking", thinking: "", signature: "" },
+        });
+        openBlock = type;
+      };
+
+      try {
+        send({
+          type: "message_start",
+          message: {
+            id: messageId,
+            type: "message",
+            role: "assistant",
+            model,
+            content: [],
+            stop_reason: null,
+            stop_sequence: null,
+            usage: { input_tokens: calculateTokenUsage(prompt, "", model).prompt_tokens, output_tokens: 0 },
+          },
+        });
+
+        for await (const event of turn) {
+          if (isClosed) break;
+
+          if (event.type === "text") {
+            accumulatedText += event.content;
+            openStreamedBlock("text");
+            send({ type: "content_block_delta", index: blockIndex, delta: { type: "text_delta", text: event.content } });
+          } else if (event.type === "thinking" && includeThinking) {
+            openStreamedBlock("thinking");
+            send({ type: "content_block_delta", index: blockIndex, delta: { type: "thinking_delta", thinking: event.content } });
+          } else if (event.type === "tool_call") {
+            closeOpenBlock();
+            const { toolCall } = event;
+            send({
+              type: "content_block_start",
+              index: blockIndex,
+              content_block: { type: "tool_use", id: toolCall.id, name: toolCall.name, input: {} },
+            });
+            send({
+              type: "content_block_delta",
+              index: blockIndex,
+              delta: { type: "input_json_delta", partial_json: JSON.stringify(toolCall.arguments) },
+            });
+            send({ type: "content_block_stop", index: blockIndex });
+            blockIndex++;
+          } else if (event.type === "error") {
+            send({ type: "error", error: { type: event.errorKind ? "rate_limit_error" : "api_error", message: event.message } });
+            isClosed = true;
+            controller.close();
+            return;
+          } else if (event.type === "end") {
+            closeOpenBlock();
+            const usage = calculateTokenUsage(prompt, accumulatedText, model);
+            send({
+              type: "message_delta",
+              delta: { stop_reason: toAnthropicStopReason(event.finishReason), stop_sequence: null },
+              usage: { output_tokens: usage.completion_tokens },
+            });
+            send({ type: "message_stop" });
+            isClosed = true;
+            controller.close();
+            return;
+          }
+        }
+      } catch (err: unknown) {
+        if (!isClosed) {
+          try {
+            controller.error(err);
+          } catch (innerErr: unknown) {
+            log("[Anthropic Compat] Failed to signal stream error:", innerErr);
+          }
+        }
+      }
+    },
+    cancel() {
+      isClosed = true;
+      onCancel();
+    },
+  });
+
+  return makeStreamResponse(readable);
+}
@@ -0,0 +1,15 @@
+/**
+ * Anthropic-Compatible API Module
+ *
+ * Provides types and utilities for serving the Anthropic Messages API
+ * on top of Cursor's Agent API.
+ */
+
+// Export types
+export * from "./types";
+
+// Export utilities
+export * from "./utils";
+
+// Export request handler
+export * from "./handler";
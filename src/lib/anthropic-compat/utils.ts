@@ -0,0 +1,203 @@
+/**
+ * Anthropic-Compatible API Utilities
+ *
+ * Converts Anthropic Messages API requests into the OpenAI shapes the rest of
+ * the compatibility layer already understands, and formats Anthropic responses.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { OpenAIToolDefinition } from "../api/agent-service";
+import type { OpenAIImageContentPart, OpenAIMessage, OpenAIToolCall } from "../openai-compat/types";
+import type { ToolChoice } from "../openai-compat/tool-choice";
+import type {
+  AnthropicContentBlock,
+  AnthropicImageBlock,
+  AnthropicMessagesRequest,
+  AnthropicStopReason,
+  AnthropicStreamEvent,
+  AnthropicTextBlock,
+  AnthropicTool,
+  AnthropicToolResultBlock,
+} from "./types";
+
+/**
+ * Generate a unique message ID
+ */
+export function generateMessageId(): string {
+  return `msg_${randomUUID().replace(/-/g, "").slice(0, 24)}`;
+}
+
+function extractBlockText(content: string | AnthropicContentBlock[] | undefined): string {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+
+  return content
+    .filter((block): block is AnthropicTextBlock => block.type === "text")
+    .map(block => block.text)
+    .join("\n");
+}
+
+function imageBlocks(content: string | AnthropicContentBlock[] | undefined): AnthropicImageBlock[] {
+  return Array.isArray(content)
+    ? content.filter((block): block is AnthropicImageBlock => block.type === "image")
+    : [];
+}
+
+function imageBlockToPart(block: AnthropicImageBlock): OpenAIImageContentPart {
+  return {
+    type: "image_url",
+    image_url: {
+      url: block.source.type === "base64"
+        ? `data:${block.source.media_type};base64,${block.source.data}`
+        : block.source.url,
+    },
+  };
+}
+
+function toolResultToMessage(block: AnthropicToolResultBlock): OpenAIMessage {
+  const imageCount = imageBlocks(block.content).length;
+  const text = [
+    extractBlockText(block.content),
+    ...(imageCount > 0 ? [`[${imageCount} image(s) attached to the following message]`] : []),
+  ].filter(Boolean).join("\n");
+  return {
+    role: "tool",
+    tool_call_id: block.tool_use_id,
+    content: block.is_error ? `Error: ${text}` : text,
+  };
+}
+
+/**
+ * Convert an Anthropic Messages request into OpenAI chat messages.
+ *
+ * - `system` becomes a leading system message
+ * - assistant `tool_use` blocks become `tool_calls`
+ * - user `tool_result` blocks become `role: "tool"` messages, emitted before
+ *   any remaining user text so results directly follow the calls they answer
+ * - user `image` blocks, including those inside tool results, become
+ *   `image_url` parts of the user message that follows
+ */
+export function anthropicToOpenAIMessages(request: AnthropicMessagesRequest): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+
+  const system = typeof request.system === "string"
+    ? request.system
+    : extractBlockText(request.system);
+  if (system) {
+    messages.push({ role: "system", content: system });
+  }
+
+  for (const msg of request.messages) {
+    if (typeof msg.content === "string") {
+      messages.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const toolCalls: OpenAIToolCall[] = msg.content
+        .filter(block => block.type === "tool_use")
+        .map(block => ({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      const text = extractBlockText(msg.content);
+
+      messages.push({
+        role: "assistant",
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    for (const block of msg.content) {
+      if (block.type === "tool_result") {
+        messages.push(toolResultToMessage(block));
+      }
+    }
+
+    const text = extractBlockText(msg.content);
+    const images = [
+      ...msg.content.flatMap(block => (block.type === "tool_result" ? imageBlocks(block.content) : [])),
+      ...imageBlocks(msg.content),
+    ].map(imageBlockToPart);
+
+    if (images.length > 0) {
+      messages.push({ role: "user", content: [...(text ? [{ type: "text" as const, text }] : []), ...images] });
+    } else if (text) {
+      messages.push({ role: "user", content: text });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Convert Anthropic tool definitions to the OpenAI format used by the Agent API
+ */
+export function anthropicToolsToOpenAI(tools: AnthropicTool[] | undefined): OpenAIToolDefinition[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+
+  return tools.map(tool => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+/**
+ * Map an Anthropic tool_choice (`any` means some tool must be called)
+ */
+export function anthropicToolChoiceToToolChoice(choice: AnthropicMessagesRequest["tool_choice"]): ToolChoice {
+  switch (choice?.type) {
+    case "any":
+      return "required";
+    case "none":
+      return "none";
+    case "tool":
+      return { name: choice.name };
+    default:
+      return "auto";
+  }
+}
+
+/**
+ * Map an agent turn finish reason to an Anthropic stop reason
+ */
+export function toAnthropicStopReason(finishReason: "stop" | "tool_calls"): AnthropicStopReason {
+  return finishReason === "tool_calls" ? "tool_use" : "end_turn";
+}
+
+/**
+ * Create an error response in Anthropic format
+ */
+export function createAnthropicErrorResponse(
+  message: string,
+  type = "invalid_request_error",
+  status = 400
+): Response {
+  return new Response(
+    JSON.stringify({
+      type: "error",
+      error: { type, message },
+    }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      },
+    }
+  );
+}
+
+/**
+ * Create a named SSE event string (Anthropic streams use `event:` lines)
+ */
+export function createAnthropicSSEEvent(event: AnthropicStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
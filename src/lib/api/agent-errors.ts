@@ -0,0 +1,47 @@
+/**
+ * Agent Error Classification
+ *
+ * Sorts backend failures into the kinds callers can act on. Rate limits and
+ * exhausted usage quotas are tied to the account that made the request, so an
+ * account pool can cool that account down and retry elsewhere.
+ */
+
+import type { AgentErrorKind } from "./proto/types";
+
+// Phrases that name a usage allowance regardless of the status code
+const QUOTA_PATTERN = /quota|usage (?:limit|cap)|spend(?:ing)? limit|out of (?:fast |premium )?requests/i;
+// Weaker hints that a resource-exhausted error is about the plan rather than request rate
+const PLAN_PATTERN = /upgrade|billing|plan|monthly/i;
+const RATE_LIMIT_PATTERN = /rate.?limit|too many requests/i;
+
+// gRPC RESOURCE_EXHAUSTED
+const GRPC_RESOURCE_EXHAUSTED = 8;
+const HTTP_TOO_MANY_REQUESTS = 429;
+
+/**
+ * Classify a failed request from its status and error text; undefined when the
+ * error is not account-specific
+ */
+export function classifyAgentError(
+  status: { grpcStatus?: number; httpStatus?: number },
+  message: string
+): AgentErrorKind | undefined {
+  const resourceExhausted =
+    status.grpcStatus === GRPC_RESOURCE_EXHAUSTED || status.httpStatus === HTTP_TOO_MANY_REQUESTS;
+
+  if (QUOTA_PATTERN.test(message)) return "quota_exhausted";
+  if (resourceExhausted) return PLAN_PATTERN.test(message) ? "quota_exhausted" : "rate_limited";
+  if (RATE_LIMIT_PATTERN.test(message)) return "rate_limited";
+  return undefined;
+}
+
+/**
+ * Parse a retry-after value (delay in seconds, or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds >= 0 ? seconds * 1000 : undefined;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -61,11 +61,16 @@ import {
   encodeUserMessageAction,
   encodeConversationAction,
   encodeConversationActionWithResume,
+  encodeConversationActionWithCancel,
   encodeAgentClientMessageWithConversationAction,
   encodeModelDetails,
   encodeAgentRunRequest,
   encodeAgentClientMessage,
   parseInteractionUpdate,
+  parseInteractionQuery,
+  buildAgentClientMessageWithInteractionResponse,
+  encodeConversationStateBlobs,
+  encodeConversationState,
   analyzeBlobData,
   extractAssistantContent,
 } from "./proto";
@@ -77,14 +82,20 @@ import type {
   ChatTimingMetrics,
   AgentServiceOptions,
   AgentChatRequest,
+  AgentImageAttachment,
+  ConversationStateMessage,
   ToolCallInfo,
+  InteractionQuery,
+  InteractionResponse,
   AgentStreamChunk as AgentStreamChunkType,
 } from "./proto/types";
+import { createReplayDeduper, resolveStreamRecovery, type ReplayDeduper, type StreamRecoveryOptions } from "./stream-recovery";
+import { classifyAgentError, parseRetryAfter } from "./agent-errors";
 
 // Re-export types that external code may need
 export { AgentMode };
 export type AgentStreamChunk = AgentStreamChunkType;
-export type { ExecRequest, McpExecRequest, ToolCallInfo, OpenAIToolDefinition };
+export type { ExecRequest, McpExecRequest, ToolCallInfo, OpenAIToolDefinition, AgentChatRequest, AgentImageAttachment, ConversationStateMessage, InteractionQuery, InteractionResponse };
 
 // Debug logging - set to true to enable verbose logging
 const DEBUG = process.env.CURSOR_DEBUG === "1";
@@ -245,6 +256,42 @@ function decodeGrpcStatusDetailsBin(detailsB64: string): string | undefined {
   }
 }
 
+/**
+ * Outcome of a single RunSSE connection, filled in by streamAttempt
+ */
+interface StreamAttemptState {
+  /** ended: turn finished; dropped: connection lost or stalled mid-turn; failed: request rejected; cancelled: caller aborted */
+  outcome: "ended" | "dropped" | "failed" | "cancelled";
+  /** Whether the SSE response was established */
+  connected: boolean;
+  /** Why the attempt dropped */
+  error?: string;
+  /** Latest conversation checkpoint (ConversationStateStructure) received */
+  checkpoint?: Uint8Array;
+  /** Whether the server rejected the access token (HTTP 401) */
+  unauthorized?: boolean;
+}
+
+/**
+ * Identity of a chunk the server may replay after a reconnect: exec requests by
+ * exec ID (MCP calls by their tool call ID) and tool call updates by call ID. Numeric exec and query IDs restart
+ * with each stream, so they can't identify a replay.
+ */
+function replayKey(chunk: AgentStreamChunkType): string | undefined {
+  const execRequest = chunk.type === "exec_request" ? chunk.execRequest : undefined;
+  if (execRequest?.execId) return `exec:${execRequest.execId}`;
+  if (execRequest?.type === "mcp" && execRequest.toolCallId) return `mcp:${execRequest.toolCallId}`;
+  if ((chunk.type === "tool_call_started" || chunk.type === "tool_call_completed") && chunk.toolCall?.callId) {
+    return `${chunk.type}:${chunk.toolCall.callId}`;
+  }
+  return undefined;
+}
+
+// How long to wait for the RunSSE response headers
+const SSE_CONNECT_TIMEOUT_MS = 120000;
+// How long a best-effort CancelAction may take before it is abandoned
+const CANCEL_ACTION_TIMEOUT_MS = 5000;
+
 // --- Types are now imported from ./proto ---
 // ExecRequest types, ToolCallInfo, AgentStreamChunk, AgentServiceOptions, AgentChatRequest
 // are all imported from ./proto/types via the barrel export
@@ -266,6 +313,8 @@ export class AgentServiceClient {
   private privacyMode = true;
   private clientVersionHeader = "cli-unknown";
   private baseUrlAttempts: string[] | null = null;
+  private streamRecovery: Required<StreamRecoveryOptions>;
+  private refreshAccessToken?: () => Promise<string | null>;
 
   // For tool result submission during streaming
   private currentRequestId: string | null = null;
@@ -284,6 +333,8 @@ export class AgentServiceClient {
     this.baseUrl = options.baseUrl ?? CURSOR_API_URL;
     this.workspacePath = options.workspacePath ?? process.cwd();
     this.blobStore = new Map();
+    this.streamRecovery = resolveStreamRecovery(options.streamRecovery);
+    this.refreshAccessToken = options.refreshAccessToken;
 
     debugLog(
       `[DEBUG] AgentServiceClient using baseUrl: ${this.baseUrl}, privacyMode=${this.privacyMode}, clientVersion=${this.clientVersionHeader}`
@@ -362,24 +413,68 @@ export class AgentServiceClient {
 
     // Build RequestContext (REQUIRED for agent to work)
     // Include tools in RequestContext.tools (field 7) - CRITICAL for tool calling!
-    const requestContext = buildRequestContext(this.workspacePath, request.tools);
+    const requestContext = buildRequestContext(this.workspacePath, request.tools, request.toolInstructions);
+
+    // Prior turns go into the conversation state as KV blobs, served from blobStore on get_blob_args
+    let conversationState: Uint8Array | undefined;
+    if (request.history && request.history.length > 0) {
+      const blobs = encodeConversationStateBlobs(request.history);
+      for (const blob of blobs) {
+        this.blobStore.set(this.blobIdToKey(blob.blobId), blob.data);
+      }
+      conversationState = encodeConversationState(blobs.map(blob => blob.blobId));
+      debugLog(`[DEBUG] Conversation state: ${blobs.length} message blob(s), resume=${request.resume ?? false}`);
+    }
 
     // Build the message hierarchy
-    const userMessage = encodeUserMessage(request.message, messageId, mode);
-    const userMessageAction = encodeUserMessageAction(userMessage, requestContext);
-    const conversationAction = encodeConversationAction(userMessageAction);
+    let conversationAction: Uint8Array;
+    if (request.resume) {
+      conversationAction = encodeConversationActionWithResume(requestContext);
+    } else {
+      const userMessage = encodeUserMessage(request.message, messageId, mode, request.images);
+      const userMessageAction = encodeUserMessageAction(userMessage, requestContext);
+      conversationAction = encodeConversationAction(userMessageAction);
+    }
     const modelDetails = encodeModelDetails(model);
     // Pass tools to AgentRunRequest (field 4: mcp_tools) and workspace path (for field 6: mcp_file_system_options)
-    const agentRunRequest = encodeAgentRunRequest(conversationAction, modelDetails, conversationId, request.tools, this.workspacePath);
+    const agentRunRequest = encodeAgentRunRequest(
+      conversationAction,
+      modelDetails,
+      conversationId,
+      request.tools,
+      this.workspacePath,
+      conversationState
+    );
     const agentClientMessage = encodeAgentClientMessage(agentRunRequest);
 
     return agentClientMessage;
   }
 
+  /**
+   * Build the AgentClientMessage that resumes a dropped run from its latest checkpoint
+   */
+  private buildResumeMessage(request: AgentChatRequest, checkpoint: Uint8Array): Uint8Array {
+    const requestContext = buildRequestContext(this.workspacePath, request.tools, request.toolInstructions);
+    const agentRunRequest = encodeAgentRunRequest(
+      encodeConversationActionWithResume(requestContext),
+      encodeModelDetails(request.model ?? "gpt-4o"),
+      request.conversationId,
+      request.tools,
+      this.workspacePath,
+      checkpoint
+    );
+    return encodeAgentClientMessage(agentRunRequest);
+  }
+
   /**
    * Call BidiAppend to send a client message
    */
-  private async bidiAppend(requestId: string, appendSeqno: bigint, data: Uint8Array): Promise<void> {
+  private async bidiAppend(
+    requestId: string,
+    appendSeqno: bigint,
+    data: Uint8Array,
+    signal?: AbortSignal
+  ): Promise<void> {
     const startTime = Date.now();
     const hexData = Buffer.from(data).toString("hex");
     const appendRequest = encodeBidiAppendRequest(hexData, requestId, appendSeqno);
@@ -399,12 +494,13 @@ export class AgentServiceClient {
       method: "POST",
       headers: this.getHeaders(requestId),
       body: Buffer.from(envelope),
+      signal,
     });
     debugLog(`[TIMING] bidiAppend fetch took ${Date.now() - fetchStart}ms, status=${response.status}`);
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`BidiAppend failed: ${response.status} - ${errorText}`);
+      throw new Error(`BidiAppend failed: ${response.status} - ${errorText}`, { cause: { status: response.status } });
     }
 
     // Read the response body to see if there's any useful information
@@ -432,7 +528,8 @@ export class AgentServiceClient {
   private async handleKvMessage(
     kvMsg: KvServerMessage,
     requestId: string,
-    appendSeqno: bigint
+    appendSeqno: bigint,
+    signal?: AbortSignal
   ): Promise<bigint> {
     if (kvMsg.messageType === 'get_blob_args' && kvMsg.blobId) {
       const key = this.blobIdToKey(kvMsg.blobId);
@@ -442,7 +539,7 @@ export class AgentServiceClient {
       const kvClientMsg = buildKvClientMessage(kvMsg.id, 'get_blob_result', result);
       const responseMsg = buildAgentClientMessageWithKv(kvClientMsg);
 
-      await this.bidiAppend(requestId, appendSeqno, responseMsg);
+      await this.bidiAppend(requestId, appendSeqno, responseMsg, signal);
       return appendSeqno + 1n;
     }
 
@@ -470,7 +567,7 @@ export class AgentServiceClient {
       const kvClientMsg = buildKvClientMessage(kvMsg.id, 'set_blob_result', result);
       const responseMsg = buildAgentClientMessageWithKv(kvClientMsg);
 
-      await this.bidiAppend(requestId, appendSeqno, responseMsg);
+      await this.bidiAppend(requestId, appendSeqno, responseMsg, signal);
       return appendSeqno + 1n;
     }
     return appendSeqno;
@@ -636,22 +733,24 @@ export class AgentServiceClient {
   }
 
   /**
-   * Send a grep/glob result back to the server
+   * Send a grep/glob result back to the server. `error` is sent instead of the
+   * matches when the search couldn't run.
    */
   async sendGrepResult(
     id: number,
     execId: string | undefined,
     pattern: string,
     path: string,
-    files: string[]
+    files: string[],
+    error?: string
   ): Promise<void> {
     if (!this.currentRequestId) {
       throw new Error("No active chat stream - cannot send grep result");
     }
 
-    debugLog("[DEBUG] Sending grep result for id:", id, "pattern:", pattern, "files:", files.length);
+    debugLog("[DEBUG] Sending grep result for id:", id, "pattern:", pattern, "files:", files.length, "error:", error);
 
-    const execClientMsg = buildExecClientMessageWithGrepResult(id, execId, pattern, path, files);
+    const execClientMsg = buildExecClientMessageWithGrepResult(id, execId, pattern, path, files, error);
     const responseMsg = buildAgentClientMessageWithExec(execClientMsg);
 
     await this.bidiAppend(this.currentRequestId, this.currentAppendSeqno, responseMsg);
@@ -700,6 +799,22 @@ export class AgentServiceClient {
     debugLog("[DEBUG] Stream close sent for exec id:", id);
   }
 
+  /**
+   * Answer an interaction query (ask_question, switch_mode, web_search, ...)
+   * so the server can continue the turn
+   */
+  async sendInteractionResponse(queryId: number, response: InteractionResponse): Promise<void> {
+    if (!this.currentRequestId) {
+      throw new Error("No active chat stream - cannot send interaction response");
+    }
+
+    debugLog("[DEBUG] Sending interaction response for query id:", queryId, "type:", response.type);
+
+    const responseMsg = buildAgentClientMessageWithInteractionResponse(queryId, response);
+    await this.bidiAppend(this.currentRequestId, this.currentAppendSeqno, responseMsg);
+    this.currentAppendSeqno++;
+  }
+
   /**
    * Send a ResumeAction to signal the server to continue after tool results
    * Based on Cursor CLI analysis: after sending tool results, send ConversationAction with resume_action
@@ -725,6 +840,20 @@ export class AgentServiceClient {
     debugLog("[DEBUG] ResumeAction sent successfully, new seqno:", String(this.currentAppendSeqno));
   }
 
+  /**
+   * Ask the server to stop a running turn so an abandoned generation stops
+   * consuming quota. Best effort: failures are only logged.
+   */
+  private async sendCancelAction(requestId: string, appendSeqno: bigint): Promise<void> {
+    const agentClientMessage = encodeAgentClientMessageWithConversationAction(encodeConversationActionWithCancel());
+    try {
+      await this.bidiAppend(requestId, appendSeqno, agentClientMessage, AbortSignal.timeout(CANCEL_ACTION_TIMEOUT_MS));
+      debugLog("[DEBUG] CancelAction sent, seqno:", String(appendSeqno));
+    } catch (err: unknown) {
+      debugLog("[DEBUG] Failed to send CancelAction:", err);
+    }
+  }
+
   /**
    * Send a streaming chat request.
    *
@@ -745,8 +874,11 @@ export class AgentServiceClient {
 
       for await (const chunk of this.chatStreamOnce(request)) {
         if (chunk.type === "error") {
+          // The caller is gone; neither retry nor report
+          if (request.signal?.aborted) return;
           lastError = chunk;
-          if (!sawMeaningfulOutput && attemptIndex < baseUrlAttempts.length - 1) {
+          // Another backend would hit the same account limit
+          if (!sawMeaningfulOutput && !chunk.errorKind && attemptIndex < baseUrlAttempts.length - 1) {
             debugLog(
               `[DEBUG] chatStream retrying with next baseUrl after error: ${chunk.error}`
             );
@@ -760,6 +892,7 @@ export class AgentServiceClient {
 
         if (
           chunk.type === "text" ||
+          chunk.type === "thinking" ||
           chunk.type === "exec_request" ||
           chunk.type === "tool_call_started" ||
           chunk.type === "tool_call_completed" ||
@@ -783,13 +916,148 @@ export class AgentServiceClient {
     }
   }
 
+  /**
+   * Run a chat request on one backend, reconnecting when the SSE stream drops
+   * or stalls mid-turn.
+   *
+   * Reconnects resume from the latest conversation checkpoint. A stream that
+   * drops before any checkpoint fails instead: resending the original request
+   * would start a new (billed) turn. Text, thinking, exec requests and tool
+   * call updates the server replays after a reconnect are deduplicated against
+   * what was already yielded, so callers see one uninterrupted stream.
+   *
+   * Aborting `request.signal` cancels the running turn and ends the stream
+   * without reconnecting.
+   */
   private async *chatStreamOnce(
     request: AgentChatRequest
   ): AsyncGenerator<AgentStreamChunkType> {
+    const runRequest: AgentChatRequest = { ...request, conversationId: request.conversationId ?? randomUUID() };
+    const { maxReconnects, backoffMs } = this.streamRecovery;
+    const { signal } = request;
+
+    let emittedText = "";
+    let emittedThinking = "";
+    let checkpoint: Uint8Array | undefined;
+    let checkpointOffsets = { text: 0, thinking: 0 };
+    let textDeduper: ReplayDeduper | undefined;
+    let thinkingDeduper: ReplayDeduper | undefined;
+    // Exec requests and tool call updates already yielded, by replayKey()
+    const yieldedKeys = new Set<string>();
+    let yieldedAny = false;
+    let tokenRefreshed = false;
+
+    for (let reconnects = 0; ; reconnects++) {
+      const state: StreamAttemptState = { outcome: "failed", connected: false };
+      const resumeFrom = checkpoint;
+      const buildMessage = () => resumeFrom
+        ? this.buildResumeMessage(runRequest, resumeFrom)
+        : this.buildChatMessage(runRequest);
+
+      for await (const chunk of this.streamAttempt(buildMessage, state, signal)) {
+        if (chunk.type === "text" && chunk.content) {
+          const content = textDeduper ? textDeduper.push(chunk.content) : chunk.content;
+          if (!content) continue;
+          emittedText += content;
+          yieldedAny = true;
+          yield { ...chunk, content };
+          continue;
+        }
+
+        if (chunk.type === "thinking" && chunk.content) {
+          const content = thinkingDeduper ? thinkingDeduper.push(chunk.content) : chunk.content;
+          if (!content) continue;
+          emittedThinking += content;
+          yieldedAny = true;
+          yield { ...chunk, content };
+          continue;
+        }
+
+        const key = replayKey(chunk);
+        if (key) {
+          if (yieldedKeys.has(key)) {
+            debugLog("[DEBUG] Dropping replayed", key);
+            continue;
+          }
+          yieldedKeys.add(key);
+        }
+
+        if (chunk.type === "checkpoint" && state.checkpoint) {
+          checkpoint = state.checkpoint;
+          checkpointOffsets = { text: emittedText.length, thinking: emittedThinking.length };
+        }
+
+        if (chunk.type !== "heartbeat") yieldedAny = true;
+        yield chunk;
+      }
+
+      if (state.unauthorized) {
+        // Once output reached the caller, a retry can't pass for the same attempt
+        const token = tokenRefreshed || yieldedAny ? null : await this.refreshAccessToken?.();
+        if (!token) {
+          yield { type: "error", error: state.error ?? "Unauthorized" };
+          return;
+        }
+        debugLog("[DEBUG] Access token rejected; retrying with a refreshed token");
+        this.accessToken = token;
+        tokenRefreshed = true;
+        // Nothing was streamed yet, so retry as if the attempt never happened
+        reconnects--;
+        continue;
+      }
+
+      if (state.outcome !== "dropped" || signal?.aborted) return;
+
+      // A connection that never came up is left to chatStream's base URL fallback
+      if ((!state.connected && reconnects === 0) || reconnects >= maxReconnects) {
+        yield { type: "error", error: state.error ?? "SSE stream dropped" };
+        return;
+      }
+
+      if (!checkpoint) {
+        yield { type: "error", error: `${state.error ?? "SSE stream dropped"} (no checkpoint to resume from)` };
+        return;
+      }
+
+      const delay = backoffMs * 2 ** reconnects;
+      debugLog(
+        `[DEBUG] SSE stream dropped (${state.error}); reconnecting in ${delay}ms (${reconnects + 1}/${maxReconnects})`
+      );
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          resolve();
+        }, { once: true });
+      });
+      if (signal?.aborted) return;
+
+      // Text since the resume point may be sent again
+      textDeduper = createReplayDeduper(emittedText.slice(checkpointOffsets.text));
+      thinkingDeduper = createReplayDeduper(emittedThinking.slice(checkpointOffsets.thinking));
+    }
+  }
+
+  /**
+   * Run a single RunSSE connection, recording how it finished in `state`.
+   * Drops and stalls are reported through state (not as error chunks) so the
+   * caller can reconnect. Aborting `signal` sends a CancelAction for the run
+   * and tears down the SSE fetch and any in-flight BidiAppend.
+   */
+  private async *streamAttempt(
+    buildMessage: () => Uint8Array,
+    state: StreamAttemptState,
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentStreamChunkType> {
+    if (signal?.aborted) {
+      state.outcome = "cancelled";
+      return;
+    }
+
     const metrics = createTimingMetrics();
     const requestId = randomUUID();
 
-    const messageBody = this.buildChatMessage(request);
+    const messageBody = buildMessage();
     metrics.messageBuildMs = Date.now() - metrics.requestStart;
 
     let appendSeqno = 0n;
@@ -819,7 +1087,21 @@ export class AgentServiceClient {
     const sseUrl = `${this.baseUrl}/agent.v1.AgentService/RunSSE`;
 
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 120000);
+    let connectTimedOut = false;
+    const timeout = setTimeout(() => {
+      connectTimedOut = true;
+      controller.abort();
+    }, SSE_CONNECT_TIMEOUT_MS);
+
+    // Set once the run request has been appended, so there is a run to cancel
+    let runStarted = false;
+    const onAbort = () => {
+      debugLog("[DEBUG] Chat stream aborted by caller");
+      state.outcome = "cancelled";
+      if (runStarted) void this.sendCancelAction(requestId, this.currentAppendSeqno);
+      controller.abort();
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
 
     try {
       if (DEBUG && REDACTED_DEBUG) {
@@ -835,11 +1117,13 @@ export class AgentServiceClient {
       });
 
       // Send initial message
-      await this.bidiAppend(requestId, appendSeqno++, messageBody);
+      await this.bidiAppend(requestId, appendSeqno++, messageBody, controller.signal);
       metrics.firstBidiAppendMs = Date.now() - metrics.requestStart;
       this.currentAppendSeqno = appendSeqno;
+      runStarted = true;
 
       const sseResponse = await ssePromise;
+      clearTimeout(timeout);
       metrics.sseConnectionMs = Date.now() - metrics.requestStart;
 
       debugLog(
@@ -849,7 +1133,18 @@ export class AgentServiceClient {
       if (!sseResponse.ok) {
         clearTimeout(timeout);
         const errorText = await sseResponse.text();
-        yield { type: "error", error: `SSE stream failed: ${sseResponse.status} - ${errorText}` };
+        if (sseResponse.status === 401) {
+          state.unauthorized = true;
+          state.error = `SSE stream failed: 401 - ${errorText}`;
+          return;
+        }
+        const error = `SSE stream failed: ${sseResponse.status} - ${errorText}`;
+        yield {
+          type: "error",
+          error,
+          errorKind: classifyAgentError({ httpStatus: sseResponse.status }, error),
+          retryAfterMs: parseRetryAfter(sseResponse.headers.get("retry-after")),
+        };
         return;
       }
 
@@ -859,9 +1154,11 @@ export class AgentServiceClient {
         return;
       }
 
+      state.connected = true;
       const reader = sseResponse.body.getReader();
       let buffer = new Uint8Array(0);
       let turnEnded = false;
+      let sawTrailer = false;
       let firstContentLogged = false;
       let hasStreamedText = false; // Track if we received any text via streaming
       
@@ -870,9 +1167,25 @@ export class AgentServiceClient {
 
       try {
         while (!turnEnded) {
-          const { done, value } = await reader.read();
+          const next = await this.readWithIdleTimeout(reader);
+
+          if (next === "idle") {
+            state.outcome = "dropped";
+            state.error = `no data for ${this.streamRecovery.idleTimeoutMs}ms`;
+            controller.abort();
+            break;
+          }
+
+          const { done, value } = next;
 
           if (done) {
+            // gRPC-web streams always finish with a trailer; closing without one means the connection was lost
+            if (!sawTrailer) {
+              state.outcome = "dropped";
+              state.error = "stream closed before the turn ended";
+              break;
+            }
+            state.outcome = "ended";
             yield { type: "done" };
             break;
           }
@@ -906,6 +1219,7 @@ export class AgentServiceClient {
 
             // Check for trailer frame
             if ((flags ?? 0) & 0x80) {
+              sawTrailer = true;
               const trailer = new TextDecoder().decode(frameData);
               debugLog("Received trailer frame:", trailer.slice(0, 200));
               const meta = parseTrailerMetadata(trailer);
@@ -926,7 +1240,12 @@ export class AgentServiceClient {
                   : `${grpcMessage} (grpc-status ${grpcStatus})`;
 
                 console.error("gRPC error:", fullError);
-                yield { type: "error", error: fullError };
+                yield {
+                  type: "error",
+                  error: fullError,
+                  errorKind: classifyAgentError({ grpcStatus }, fullError),
+                  retryAfterMs: parseRetryAfter(meta["retry-after"]),
+                };
               }
               continue;
             }
@@ -954,6 +1273,12 @@ export class AgentServiceClient {
                     markProgress();
                   }
 
+                  // Yield thinking content
+                  if (parsed.thinking) {
+                    yield { type: "thinking", content: parsed.thinking };
+                    markProgress();
+                  }
+
                   // Yield tool call started
                   if (parsed.toolCallStarted) {
                     if (metrics.firstToolCallMs === undefined) {
@@ -1045,6 +1370,7 @@ export class AgentServiceClient {
                       } catch {}
                     }
                   }
+                  state.checkpoint = field.value;
                   yield { type: "checkpoint" };
                   markProgress();
                   // DO NOT set turnEnded here - exec messages may follow!
@@ -1091,7 +1417,7 @@ export class AgentServiceClient {
                   metrics.kvMessages++;
                   const kvMsg = parseKvServerMessage(field.value);
                   debugLog(`[DEBUG] KV message: id=${kvMsg.id}, type=${kvMsg.messageType}, blobId=${kvMsg.blobId ? Buffer.from(kvMsg.blobId).toString('hex').slice(0, 20) : 'none'}...`);
-                  appendSeqno = await this.handleKvMessage(kvMsg, requestId, appendSeqno);
+                  appendSeqno = await this.handleKvMessage(kvMsg, requestId, appendSeqno, controller.signal);
                   this.currentAppendSeqno = appendSeqno;
                 }
 
@@ -1121,43 +1447,15 @@ export class AgentServiceClient {
 
                 // field 7 = interaction_query (server asking for user approval/input)
                 if (field.fieldNumber === 7 && field.wireType === 2 && field.value instanceof Uint8Array) {
-                  debugLog("[DEBUG] Received interaction_query (field 7)!");
-                  const queryFields = parseProtoFields(field.value);
-                  debugLog("[DEBUG] interaction_query fields:", queryFields.map(f => `field${f.fieldNumber}:${f.wireType}`).join(", "));
-                  
-                  // InteractionQuery structure:
-                  // field 1 = id (uint32)
-                  // field 2 = web_search_request_query (oneof)
-                  // field 3 = ask_question_interaction_query (oneof)
-                  // field 4 = switch_mode_request_query (oneof)
-                  // field 5 = exa_search_request_query (oneof)
-                  // field 6 = exa_fetch_request_query (oneof)
-                  let queryId = 0;
-                  let queryType = 'unknown';
-                  
-                  for (const qf of queryFields) {
-                    if (qf.fieldNumber === 1 && qf.wireType === 0) {
-                      queryId = Number(qf.value);
-                    } else if (qf.fieldNumber === 2 && qf.wireType === 2) {
-                      queryType = 'web_search';
-                    } else if (qf.fieldNumber === 3 && qf.wireType === 2) {
-                      queryType = 'ask_question';
-                    } else if (qf.fieldNumber === 4 && qf.wireType === 2) {
-                      queryType = 'switch_mode';
-                    } else if (qf.fieldNumber === 5 && qf.wireType === 2) {
-                      queryType = 'exa_search';
-                    } else if (qf.fieldNumber === 6 && qf.wireType === 2) {
-                      queryType = 'exa_fetch';
-                    }
-                  }
-                  
-                  debugLog(`[DEBUG] InteractionQuery: id=${queryId}, type=${queryType}`);
-                  
-                  // Yield the interaction query for the server to handle
+                  const query = parseInteractionQuery(field.value);
+                  debugLog(`[DEBUG] InteractionQuery: id=${query.id}, type=${query.type}`);
+
+                  // Yield the interaction query for the caller to answer (sendInteractionResponse)
                   yield {
                     type: "interaction_query",
-                    queryId,
-                    queryType,
+                    queryId: query.id,
+                    queryType: query.type,
+                    interactionQuery: query,
                   };
                   markProgress();
                 }
@@ -1178,6 +1476,7 @@ export class AgentServiceClient {
 
         // Clean exit - check for KV blob assistant responses if no text was streamed
         if (turnEnded) {
+          state.outcome = "ended";
           controller.abort(); // Clean up the connection
           logTimingMetrics(metrics);
           
@@ -1201,12 +1500,43 @@ export class AgentServiceClient {
       clearTimeout(timeout);
       this.currentRequestId = null;
       const error = err as Error & { name?: string };
-      if (error.name === 'AbortError') {
+      if (signal?.aborted) {
+        state.outcome = "cancelled";
+        return;
+      }
+      if ((error.cause as { status?: number } | undefined)?.status === 401) {
+        state.unauthorized = true;
+        state.error = error.message;
+        return;
+      }
+      if (error.name === 'AbortError' && !connectTimedOut) {
         // Normal termination after turn ended
         return;
       }
       console.error("Agent stream error:", error.name, error.message, (err as Error).stack);
-      yield { type: "error", error: error.message || String(err) };
+      state.outcome = "dropped";
+      state.error = connectTimedOut
+        ? `no response within ${SSE_CONNECT_TIMEOUT_MS}ms`
+        : error.message || String(err);
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Read the next SSE chunk, or "idle" if nothing arrives within the idle timeout
+   */
+  private async readWithIdleTimeout<T>(
+    reader: { read(): Promise<T> }
+  ): Promise<T | "idle"> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<"idle">(resolve => {
+      timer = setTimeout(() => resolve("idle"), this.streamRecovery.idleTimeoutMs);
+    });
+    try {
+      return await Promise.race([reader.read(), idle]);
+    } finally {
+      clearTimeout(timer);
     }
   }
 
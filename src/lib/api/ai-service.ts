@@ -2,12 +2,21 @@ import { CursorClient } from "./cursor-client";
 
 const SERVICE_BASE = "aiserver.v1.AiService";
 
-type UsableModel = {
+export type UsableModel = {
   modelId?: string;
   displayModelId?: string;
   displayName?: string;
   displayNameShort?: string;
   aliases?: string[];
+  // Capability fields; not every backend version sends all of them
+  supportsThinking?: boolean;
+  thinkingDetails?: Record<string, unknown>;
+  supportsImages?: boolean;
+  supportsMaxMode?: boolean;
+  maxMode?: boolean;
+  // int64 fields arrive as strings in Connect JSON
+  contextTokenLimit?: number | string;
+  contextTokenLimitForMaxMode?: number | string;
 };
 
 export interface GetUsableModelsResponse {
@@ -1,5 +1,9 @@
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
 import { CursorClient } from "./cursor-client";
-import { AiServiceClient } from "./ai-service";
+import { AiServiceClient, type UsableModel } from "./ai-service";
+import { FileCredentialManager } from "../storage";
+import { decodeJwtPayload } from "../utils/jwt";
 
 export interface CursorModelInfo {
   modelId: string;
@@ -7,6 +11,58 @@ export interface CursorModelInfo {
   aliases: string[];
   displayName?: string;
   displayNameShort?: string;
+  /** Capabilities reported by GetUsableModels; undefined when the backend doesn't say */
+  thinking?: boolean;
+  vision?: boolean;
+  maxMode?: boolean;
+  contextTokens?: number;
+  maxModeContextTokens?: number;
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+function optionalTokenCount(value: unknown): number | undefined {
+  const count = typeof value === "string" ? Number(value) : value;
+  return typeof count === "number" && Number.isFinite(count) && count > 0 ? count : undefined;
+}
+
+/**
+ * Convert one GetUsableModels entry; undefined for entries without an ID
+ */
+function toModelInfo(m: UsableModel): CursorModelInfo | undefined {
+  const modelId = typeof m?.modelId === "string" ? m.modelId : undefined;
+  const displayModelId =
+    typeof m?.displayModelId === "string" ? m.displayModelId : undefined;
+  if (!modelId && !displayModelId) {
+    return undefined;
+  }
+  return {
+    modelId: modelId ?? displayModelId ?? "",
+    displayModelId,
+    aliases: Array.isArray(m?.aliases)
+      ? (m?.aliases as unknown[]).filter((a): a is string => typeof a === "string")
+      : [],
+    displayName: typeof m?.displayName === "string" ? m.displayName : undefined,
+    displayNameShort:
+      typeof m?.displayNameShort === "string" ? m.displayNameShort : undefined,
+    thinking: optionalBoolean(m?.supportsThinking) ?? (m?.thinkingDetails ? true : undefined),
+    vision: optionalBoolean(m?.supportsImages),
+    maxMode: optionalBoolean(m?.supportsMaxMode) ?? optionalBoolean(m?.maxMode),
+    contextTokens: optionalTokenCount(m?.contextTokenLimit),
+    maxModeContextTokens: optionalTokenCount(m?.contextTokenLimitForMaxMode),
+  };
+}
+
+/**
+ * Fetch available Cursor models using the GetUsableModels RPC over Connect JSON.
+ * Throws when the API can't be reached.
+ */
+export async function fetchCursorModels(cursorClient: CursorClient): Promise<CursorModelInfo[]> {
+  const aiService = new AiServiceClient(cursorClient);
+  const models = await aiService.getUsableModels();
+  return models.map(toModelInfo).filter((m): m is CursorModelInfo => m !== undefined);
 }
 
 /**
@@ -15,31 +71,173 @@ export interface CursorModelInfo {
  */
 export async function listCursorModels(cursorClient: CursorClient): Promise<CursorModelInfo[]> {
   try {
-    const aiService = new AiServiceClient(cursorClient);
-    const models = await aiService.getUsableModels();
-    const result: CursorModelInfo[] = [];
-
-    for (const m of models) {
-      const modelId = typeof m?.modelId === "string" ? m.modelId : undefined;
-      const displayModelId =
-        typeof m?.displayModelId === "string" ? m.displayModelId : undefined;
-      if (!modelId && !displayModelId) {
-        continue;
-      }
-      result.push({
-        modelId: modelId ?? displayModelId ?? "",
-        displayModelId,
-        aliases: Array.isArray(m?.aliases)
-          ? (m?.aliases as unknown[]).filter((a): a is string => typeof a === "string")
-          : [],
-        displayName: typeof m?.displayName === "string" ? m.displayName : undefined,
-        displayNameShort:
-          typeof m?.displayNameShort === "string" ? m.displayNameShort : undefined,
-      });
+    return await fetchCursorModels(cursorClient);
+  } catch {
+    return [];
+  }
+}
+
+// --- Model Cache ---
+interface ModelCache {
+  models: CursorModelInfo[];
+  time: number;
+}
+// Keyed by cacheKey(): accounts can be entitled to different models
+const modelCache = new Map<string, ModelCache>();
+const modelRefreshes = new Map<string, Promise<CursorModelInfo[] | undefined>>();
+const MODEL_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * On-disk copy of the last successful GetUsableModels result per API base URL
+ * and account, so models are still known after a restart without network access
+ */
+interface ModelCacheFile {
+  version: 1;
+  entries: Record<string, { fetchedAt: number; models: CursorModelInfo[] }>;
+}
+
+/**
+ * Where the catalog is persisted: CURSOR_MODEL_CACHE_PATH, or models.json next
+ * to auth.json. CURSOR_MODEL_CACHE=0 keeps the cache in memory only.
+ */
+export function modelCachePath(): string | undefined {
+  if (process.env.CURSOR_MODEL_CACHE === "0") return undefined;
+  return process.env.CURSOR_MODEL_CACHE_PATH ||
+    join(dirname(new FileCredentialManager("cursor", undefined, null).getStoragePath()), "models.json");
+}
+
+/**
+ * The API base URL (or "default"), plus the account the token belongs to when
+ * the token says (its JWT subject)
+ */
+function cacheKey(accessToken: string, baseUrl: string | undefined): string {
+  const base = baseUrl ?? "default";
+  const subject = decodeJwtPayload(accessToken)?.sub;
+  return typeof subject === "string" && subject ? `${base}#${subject}` : base;
+}
+
+async function readModelCacheFile(path: string): Promise<ModelCacheFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(path, "utf-8")) as Partial<ModelCacheFile>;
+    if (parsed.version === 1 && parsed.entries && typeof parsed.entries === "object") {
+      return parsed as ModelCacheFile;
     }
+  } catch {
+    // Missing or unreadable cache: start over
+  }
+  return { version: 1, entries: {} };
+}
+
+async function loadPersistedModels(key: string): Promise<ModelCache | undefined> {
+  const path = modelCachePath();
+  if (!path) return undefined;
+  const entry = (await readModelCacheFile(path)).entries[key];
+  if (!entry || !Array.isArray(entry.models) || typeof entry.fetchedAt !== "number") return undefined;
+  return { models: entry.models, time: entry.fetchedAt };
+}
 
-    return result;
+async function persistModels(key: string, cache: ModelCache): Promise<void> {
+  const path = modelCachePath();
+  if (!path) return;
+  try {
+    const file = await readModelCacheFile(path);
+    file.entries[key] = { fetchedAt: cache.time, models: cache.models };
+    await fs.mkdir(dirname(path), { recursive: true });
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), "utf-8");
+    await fs.rename(tempPath, path);
   } catch {
-    return [];
+    // The cache is an optimization; a read-only config directory shouldn't fail requests
+  }
+}
+
+/**
+ * Fetch the catalog and update both caches. Concurrent calls share one request;
+ * resolves to undefined when the API can't be reached or lists no models, in
+ * which case the saved catalog is kept.
+ */
+function refreshModels(accessToken: string, baseUrl: string | undefined, key: string): Promise<CursorModelInfo[] | undefined> {
+  const inFlight = modelRefreshes.get(key);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    try {
+      const models = await fetchCursorModels(new CursorClient(accessToken, { baseUrl }));
+      if (models.length === 0) return undefined;
+      const cache = { models, time: Date.now() };
+      modelCache.set(key, cache);
+      await persistModels(key, cache);
+      return models;
+    } catch {
+      return undefined;
+    } finally {
+      modelRefreshes.delete(key);
+    }
+  })();
+  modelRefreshes.set(key, refresh);
+  return refresh;
+}
+
+/**
+ * Get cached models or fetch fresh ones.
+ *
+ * A stale catalog (in memory or from the last run's models.json) is returned
+ * right away and refreshed in the background. Without any catalog the API is
+ * asked directly, and an unreachable API yields an empty list.
+ */
+export async function getCachedModels(accessToken: string, baseUrl?: string): Promise<CursorModelInfo[]> {
+  const key = cacheKey(accessToken, baseUrl);
+  let cached = modelCache.get(key);
+  if (!cached) {
+    cached = await loadPersistedModels(key);
+    if (cached) modelCache.set(key, cached);
+  }
+
+  if (cached && Date.now() - cached.time < MODEL_CACHE_TTL) {
+    return cached.models;
+  }
+  if (cached && cached.models.length > 0) {
+    void refreshModels(accessToken, baseUrl, key);
+    return cached.models;
   }
+
+  const models = await refreshModels(accessToken, baseUrl, key);
+  if (models) return models;
+  // Don't ask an unreachable API again on every request
+  modelCache.set(key, { models: [], time: Date.now() });
+  return [];
+}
+
+/**
+ * Drop the in-memory catalog (the on-disk copy is kept)
+ */
+export function clearModelCache(): void {
+  modelCache.clear();
+}
+
+/**
+ * Resolve a requested model name to its internal model ID
+ * Maps displayModelId/aliases to the actual modelId used by the agent service
+ */
+export function resolveModel(requestedModel: string, models: CursorModelInfo[]): string {
+  // Direct match on modelId
+  const directMatch = models.find(m => m.modelId === requestedModel);
+  if (directMatch) {
+    return directMatch.modelId;
+  }
+
+  // Match on displayModelId
+  const displayMatch = models.find(m => m.displayModelId === requestedModel);
+  if (displayMatch) {
+    return displayMatch.modelId;
+  }
+
+  // Match on aliases
+  const aliasMatch = models.find(m => m.aliases.includes(requestedModel));
+  if (aliasMatch) {
+    return aliasMatch.modelId;
+  }
+
+  // No match found, return as-is (let Cursor API handle it)
+  return requestedModel;
 }
@@ -0,0 +1,241 @@
+/**
+ * Model Limits
+ *
+ * Resolves context and output token limits for Cursor models. Each limit
+ * comes from the first source that knows it:
+ *
+ * 1. the user's override file (model-limits.json next to auth.json)
+ * 2. the live model metadata from GetUsableModels
+ * 3. llm-info, matched by model family (variant suffixes stripped, versions normalized)
+ * 4. conservative defaults
+ */
+
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { ModelInfoMap } from "llm-info";
+import type { CursorModelInfo } from "./cursor-models";
+import { FileCredentialManager } from "../storage";
+
+export type ModelLimitSource = "override" | "cursor" | "llm-info" | "default";
+
+export interface ModelLimits {
+  context: number;
+  output: number;
+  /** Where each limit came from */
+  source: { context: ModelLimitSource; output: ModelLimitSource };
+  /** The llm-info model the family match picked, if any */
+  llmInfoModel?: string;
+}
+
+/** Per-model overrides, keyed by model ID; `*` matches any characters */
+export type ModelLimitOverrides = Record<string, { context?: number; output?: number }>;
+
+// Conservative fallback limits for unknown models.
+// We intentionally err on the low side to avoid OpenCode attempting requests that exceed backend limits.
+export const DEFAULT_MODEL_LIMITS = { context: 32768, output: 8192 };
+
+// Cursor variants of one model that share its limits, e.g. "gpt-5.1-codex-max-high"
+const VARIANT_SUFFIXES = new Set(["thinking", "high", "medium", "low", "xhigh", "max", "fast", "latest", "preview"]);
+
+type LlmInfo = { contextWindowTokenLimit?: number; outputTokenLimit?: number };
+
+// --- Family Matching ---
+
+/**
+ * Normalize a model ID to a family key shared by Cursor and llm-info IDs:
+ * "claude-sonnet-4-5-20250929" and "sonnet-4.5-thinking" both become "sonnet-4.5"
+ */
+export function normalizeModelId(modelId: string): string {
+  let id = modelId.toLowerCase().trim();
+  id = id.replace(/^claude-/, "");
+  // Codex models share their base model's limits ("gpt-5.1-codex-mini" -> "gpt-5.1-mini")
+  id = id.replace(/-codex(?=-|$)/g, "");
+  // Release dates and preview tags
+  id = id.replace(/-\d{8}$/, "").replace(/-\d{4}-\d{2}-\d{2}$/, "");
+  id = id.replace(/-(preview|exp)(-\d{2}-\d{2})?$/, "");
+  // "4-5" -> "4.5"
+  id = id.replace(/(\d)-(?=\d)/g, "$1.");
+  // "3.5-sonnet" -> "sonnet-3.5"
+  id = id.replace(/^(\d+(?:\.\d+)*)-(.+)$/, "$2-$1");
+
+  const parts = id.split("-");
+  while (parts.length > 1 && VARIANT_SUFFIXES.has(parts[parts.length - 1] ?? "")) {
+    parts.pop();
+  }
+  return parts.join("-");
+}
+
+interface FamilyKey {
+  /** The key without its version number, e.g. "gemini-flash" */
+  family: string;
+  version: number[];
+}
+
+function splitVersion(key: string): FamilyKey {
+  const parts = key.split("-");
+  const index = parts.findIndex(part => /^\d+(\.\d+)*$/.test(part));
+  if (index === -1) return { family: key, version: [] };
+  const version = (parts[index] ?? "").split(".").map(Number);
+  parts.splice(index, 1);
+  return { family: parts.join("-"), version };
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+interface IndexedModel extends FamilyKey {
+  id: string;
+}
+
+let llmInfoIndex: Map<string, IndexedModel> | undefined;
+
+/**
+ * llm-info models by family key. When several share a key (dated snapshots,
+ * previews), the one whose ID is the key itself wins, then the newest.
+ */
+function getLlmInfoIndex(): Map<string, IndexedModel> {
+  if (llmInfoIndex) return llmInfoIndex;
+  llmInfoIndex = new Map();
+  for (const id of Object.keys(ModelInfoMap).sort()) {
+    const key = normalizeModelId(id);
+    const existing = llmInfoIndex.get(key);
+    if (existing && existing.id === key) continue;
+    llmInfoIndex.set(key, { id, ...splitVersion(key) });
+  }
+  return llmInfoIndex;
+}
+
+/**
+ * Find the llm-info model for a Cursor model ID:
+ * 1. same family key ("opus-4.5-thinking" -> claude-opus-4-5-20251101)
+ * 2. same family at the closest lower version, so a new minor release takes
+ *    its predecessor's limits ("opus-4.6" -> opus-4.5, "gpt-5.1" -> gpt-5,
+ *    "gemini-3-flash" -> gemini-2.5-flash)
+ * 3. the oldest newer version, or the newest for unversioned IDs ("grok" -> grok-4)
+ */
+export function findLlmInfoModel(cursorModelId: string): string | undefined {
+  const index = getLlmInfoIndex();
+  const key = normalizeModelId(cursorModelId);
+  const exact = index.get(key);
+  if (exact) return exact.id;
+
+  const { family, version } = splitVersion(key);
+  const sameFamily = [...index.values()]
+    .filter(model => model.family === family && model.version.length > 0)
+    .sort((a, b) => compareVersions(b.version, a.version));
+  if (sameFamily.length === 0) return undefined;
+  if (version.length === 0) return sameFamily[0]?.id;
+  return (sameFamily.find(model => compareVersions(model.version, version) <= 0) ?? sameFamily.at(-1))?.id;
+}
+
+// --- Overrides ---
+
+/**
+ * Where limit overrides are read from: CURSOR_MODEL_LIMITS_PATH, or
+ * model-limits.json next to auth.json
+ */
+export function modelLimitsOverridePath(): string {
+  return process.env.CURSOR_MODEL_LIMITS_PATH ||
+    join(dirname(new FileCredentialManager("cursor", undefined, null).getStoragePath()), "model-limits.json");
+}
+
+function isLimit(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Read the override file. A missing file means no overrides; an invalid one is
+ * reported in `error` and ignored.
+ */
+export function loadModelLimitOverrides(path = modelLimitsOverridePath()): { overrides: ModelLimitOverrides; error?: string } {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf-8");
+  } catch {
+    return { overrides: {} };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    return { overrides: {}, error: `Invalid JSON in ${path}: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { overrides: {}, error: `${path} must map model IDs to { "context": ..., "output": ... }` };
+  }
+
+  const overrides: ModelLimitOverrides = {};
+  for (const [pattern, value] of Object.entries(parsed as Record<string, unknown>)) {
+    const limits = (value ?? {}) as Record<string, unknown>;
+    if ((limits.context !== undefined && !isLimit(limits.context)) || (limits.output !== undefined && !isLimit(limits.output))) {
+      return { overrides: {}, error: `${path}: limits for "${pattern}" must be positive integers` };
+    }
+    overrides[pattern.toLowerCase()] = {
+      context: isLimit(limits.context) ? limits.context : undefined,
+      output: isLimit(limits.output) ? limits.output : undefined,
+    };
+  }
+  return { overrides };
+}
+
+/**
+ * The override for a model: an exact key, else the longest matching pattern
+ */
+function findOverride(modelId: string, overrides: ModelLimitOverrides): { context?: number; output?: number } | undefined {
+  const id = modelId.toLowerCase();
+  if (overrides[id]) return overrides[id];
+
+  const pattern = Object.keys(overrides)
+    .filter(key => key.includes("*"))
+    .sort((a, b) => b.length - a.length)
+    .find(key => new RegExp(`^${key.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`).test(id));
+  return pattern ? overrides[pattern] : undefined;
+}
+
+// --- Resolver ---
+
+export interface ResolveModelLimitsOptions {
+  /** Live metadata from GetUsableModels */
+  model?: CursorModelInfo;
+  overrides?: ModelLimitOverrides;
+}
+
+/**
+ * Resolve a Cursor model's context and output limits
+ */
+export function resolveModelLimits(cursorModelId: string, options: ResolveModelLimitsOptions = {}): ModelLimits {
+  const override = options.overrides ? findOverride(cursorModelId, options.overrides) : undefined;
+  const llmInfoModel = findLlmInfoModel(cursorModelId);
+  const info = llmInfoModel ? (ModelInfoMap as Record<string, LlmInfo>)[llmInfoModel] : undefined;
+
+  const pick = (
+    candidates: Array<[number | undefined, ModelLimitSource]>,
+    fallback: number
+  ): [number, ModelLimitSource] => {
+    const found = candidates.find(([value]) => value !== undefined);
+    return found ? [found[0] as number, found[1]] : [fallback, "default"];
+  };
+
+  const [context, contextSource] = pick([
+    [override?.context, "override"],
+    [options.model?.contextTokens, "cursor"],
+    [info?.contextWindowTokenLimit, "llm-info"],
+  ], DEFAULT_MODEL_LIMITS.context);
+  const [output, outputSource] = pick([
+    [override?.output, "override"],
+    [info?.outputTokenLimit, "llm-info"],
+  ], DEFAULT_MODEL_LIMITS.output);
+
+  return {
+    context,
+    output,
+    source: { context: contextSource, output: outputSource },
+    llmInfoModel,
+  };
+}
@@ -6,8 +6,9 @@ import {
   concatBytes,
   encodeProtobufValue,
 } from "./encoding";
+import { randomUUID } from "node:crypto";
 import { AgentMode } from "./types";
-import type { OpenAIToolDefinition } from "./types";
+import type { AgentImageAttachment, OpenAIToolDefinition } from "./types";
 
 const MCP_PROVIDER = "cursor-tools";
 
@@ -50,7 +51,11 @@ export function encodeMcpInstructions(serverName: string, instructions: string):
   );
 }
 
-export function buildRequestContext(workspacePath?: string, tools?: OpenAIToolDefinition[]): Uint8Array {
+export function buildRequestContext(
+  workspacePath?: string,
+  tools?: OpenAIToolDefinition[],
+  toolInstructions?: string
+): Uint8Array {
   const parts: Uint8Array[] = [];
 
   const env = buildRequestContextEnv(workspacePath);
@@ -65,7 +70,9 @@ export function buildRequestContext(workspacePath?: string, tools?: OpenAIToolDe
     const toolDescriptions = tools.map(t =>
       `- ${t.function.name}: ${t.function.description || 'No description'}`
     ).join('\n');
-    const instructions = `You have access to the following tools:\n${toolDescriptions}\n\nUse these tools when appropriate to help the user.`;
+    const instructions = toolInstructions
+      ? `You have access to the following tools:\n${toolDescriptions}\n\n${toolInstructions}`
+      : `You have access to the following tools:\n${toolDescriptions}\n\nUse these tools when appropriate to help the user.`;
 
     const mcpInstr = encodeMcpInstructions(MCP_PROVIDER, instructions);
     parts.push(encodeMessageField(14, mcpInstr));
@@ -74,12 +81,61 @@ export function buildRequestContext(workspacePath?: string, tools?: OpenAIToolDe
   return concatBytes(...parts);
 }
 
-export function encodeUserMessage(text: string, messageId: string, mode: AgentMode = AgentMode.ASK): Uint8Array {
+/**
+ * Encode a SelectedImage
+ *
+ * SelectedImage fields:
+ *   field 1: data (bytes)
+ *   field 2: uuid (string)
+ *   field 3: path (string)
+ *   field 5: mime_type (string)
+ */
+export function encodeSelectedImage(image: AgentImageAttachment): Uint8Array {
   return concatBytes(
+    encodeMessageField(1, image.data),
+    encodeStringField(2, randomUUID()),
+    encodeStringField(3, image.path ?? ""),
+    encodeStringField(5, image.mimeType)
+  );
+}
+
+/**
+ * Encode a SelectedContext carrying image attachments
+ *
+ * SelectedContext fields:
+ *   field 1: selected_images (repeated SelectedImage)
+ */
+export function encodeSelectedContext(images: AgentImageAttachment[]): Uint8Array {
+  return concatBytes(...images.map(image => encodeMessageField(1, encodeSelectedImage(image))));
+}
+
+/**
+ * Encode a UserMessage
+ *
+ * UserMessage fields:
+ *   field 1: text (string)
+ *   field 2: message_id (string)
+ *   field 3: selected_context (SelectedContext)
+ *   field 4: mode (AgentMode)
+ */
+export function encodeUserMessage(
+  text: string,
+  messageId: string,
+  mode: AgentMode = AgentMode.ASK,
+  images: AgentImageAttachment[] = []
+): Uint8Array {
+  const parts: Uint8Array[] = [
     encodeStringField(1, text),
     encodeStringField(2, messageId),
-    encodeInt32Field(4, mode)
-  );
+  ];
+
+  if (images.length > 0) {
+    parts.push(encodeMessageField(3, encodeSelectedContext(images)));
+  }
+
+  parts.push(encodeInt32Field(4, mode));
+
+  return concatBytes(...parts);
 }
 
 export function encodeUserMessageAction(userMessage: Uint8Array, requestContext: Uint8Array): Uint8Array {
@@ -93,15 +149,40 @@ export function encodeConversationAction(userMessageAction: Uint8Array): Uint8Ar
   return encodeMessageField(1, userMessageAction);
 }
 
-export function encodeResumeAction(): Uint8Array {
-  return new Uint8Array(0);
+/**
+ * Encode a ResumeAction
+ *
+ * ResumeAction fields:
+ *   field 1: request_context (RequestContext) - only needed when starting a run
+ *            that resumes from conversation state (mid-stream resumes send none)
+ */
+export function encodeResumeAction(requestContext?: Uint8Array): Uint8Array {
+  if (!requestContext) return new Uint8Array(0);
+  return encodeMessageField(1, requestContext);
 }
 
-export function encodeConversationActionWithResume(): Uint8Array {
-  const resumeAction = encodeResumeAction();
+export function encodeConversationActionWithResume(requestContext?: Uint8Array): Uint8Array {
+  const resumeAction = encodeResumeAction(requestContext);
   return encodeMessageField(2, resumeAction);
 }
 
+/**
+ * Encode a ConversationAction carrying a CancelAction
+ *
+ * ConversationAction fields:
+ *   field 3: cancel_action (CancelAction) - empty message; asks the server to stop
+ *            the running turn
+ *
+ * Field 3 has not been confirmed against Cursor's backend: it is the next oneof
+ * field after user_message_action (1) and resume_action (2), and the mock backend
+ * (tests/mock-cursor-server.ts) only decodes it the same way. Cancellation does
+ * not depend on it. The caller also closes the stream, which ends the turn, and
+ * a server that doesn't know the field ignores it as an unknown field.
+ */
+export function encodeConversationActionWithCancel(): Uint8Array {
+  return encodeMessageField(3, new Uint8Array(0));
+}
+
 export function encodeAgentClientMessageWithConversationAction(conversationAction: Uint8Array): Uint8Array {
   return encodeMessageField(4, conversationAction);
 }
@@ -185,10 +266,9 @@ export function encodeAgentRunRequest(
   modelDetails: Uint8Array,
   conversationId?: string,
   tools?: OpenAIToolDefinition[],
-  workspacePath?: string
+  workspacePath?: string,
+  conversationState: Uint8Array = encodeEmptyConversationState()
 ): Uint8Array {
-  const conversationState = encodeEmptyConversationState();
-
   const parts: Uint8Array[] = [
     encodeMessageField(1, conversationState),
     encodeMessageField(2, action),
@@ -0,0 +1,43 @@
+/**
+ * Conversation State Encoding
+ *
+ * Encodes prior turns into the agent's ConversationStateStructure instead of
+ * flattening them into the user message. Each message is serialized as a JSON
+ * blob and referenced by its blob ID (sha256 of the blob bytes); the server
+ * fetches the blobs it needs through KV get_blob_args requests.
+ *
+ * Proto structure:
+ * ConversationStateStructure:
+ *   field 1: root_prompt_messages_json (repeated bytes) - blob IDs of JSON messages
+ */
+
+import { createHash } from "node:crypto";
+import { encodeMessageField, concatBytes } from "./encoding";
+import type { ConversationStateMessage } from "./types";
+
+/**
+ * Compute the content-addressed blob ID for blob bytes
+ */
+export function computeBlobId(data: Uint8Array): Uint8Array {
+  return new Uint8Array(createHash("sha256").update(data).digest());
+}
+
+/**
+ * Serialize messages to JSON blobs, returning each blob with its ID (in order)
+ */
+export function encodeConversationStateBlobs(
+  messages: ConversationStateMessage[]
+): Array<{ blobId: Uint8Array; data: Uint8Array }> {
+  const encoder = new TextEncoder();
+  return messages.map(message => {
+    const data = encoder.encode(JSON.stringify(message));
+    return { blobId: computeBlobId(data), data };
+  });
+}
+
+/**
+ * Encode a ConversationStateStructure referencing the given message blobs
+ */
+export function encodeConversationState(blobIds: Uint8Array[]): Uint8Array {
+  return concatBytes(...blobIds.map(blobId => encodeMessageField(1, blobId)));
+}
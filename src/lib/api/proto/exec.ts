@@ -433,7 +433,10 @@ function encodeGrepSuccess(pattern: string, path: string, files: string[]): Uint
   return concatBytes(...parts);
 }
 
-function encodeGrepResult(pattern: string, path: string, files: string[]): Uint8Array {
+function encodeGrepResult(pattern: string, path: string, files: string[], error?: string): Uint8Array {
+  if (error !== undefined) {
+    return encodeMessageField(2, encodeStringField(1, error));
+  }
   const success = encodeGrepSuccess(pattern, path, files);
   return encodeMessageField(1, success);
 }
@@ -443,14 +446,15 @@ export function buildExecClientMessageWithGrepResult(
   execId: string | undefined,
   pattern: string,
   path: string,
-  files: string[]
+  files: string[],
+  error?: string
 ): Uint8Array {
   const parts: Uint8Array[] = [];
   parts.push(encodeUint32Field(1, id));
   if (execId) {
     parts.push(encodeStringField(15, execId));
   }
-  parts.push(encodeMessageField(5, encodeGrepResult(pattern, path, files)));
+  parts.push(encodeMessageField(5, encodeGrepResult(pattern, path, files, error)));
   return concatBytes(...parts);
 }
 
@@ -44,11 +44,22 @@ export type {
   ChatTimingMetrics,
   AgentServiceOptions,
   AgentChatRequest,
+  AgentImageAttachment,
+  ConversationStateContentPart,
+  ConversationStateMessage,
   McpResult,
   ShellOutcome,
   WriteResult,
   BlobAnalysis,
   ParsedInteractionUpdate,
+  AskQuestion,
+  AskQuestionOption,
+  AskQuestionAnswer,
+  InteractionQuery,
+  InteractionQueryType,
+  InteractionResponse,
+  WebSearchReference,
+  WebPageContent,
 } from "./types";
 
 export {
@@ -94,10 +105,13 @@ export {
   encodeMcpInstructions,
   buildRequestContext,
   encodeUserMessage,
+  encodeSelectedImage,
+  encodeSelectedContext,
   encodeUserMessageAction,
   encodeConversationAction,
   encodeResumeAction,
   encodeConversationActionWithResume,
+  encodeConversationActionWithCancel,
   encodeAgentClientMessageWithConversationAction,
   encodeModelDetails,
   encodeEmptyConversationState,
@@ -110,4 +124,14 @@ export {
 
 export type { McpDescriptorInput } from "./agent-messages";
 
-export { parseInteractionUpdate } from "./interaction";
+export {
+  parseInteractionUpdate,
+  parseInteractionQuery,
+  buildAgentClientMessageWithInteractionResponse,
+} from "./interaction";
+
+export {
+  computeBlobId,
+  encodeConversationStateBlobs,
+  encodeConversationState,
+} from "./conversation-state";
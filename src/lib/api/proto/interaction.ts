@@ -1,6 +1,15 @@
 import { parseProtoFields } from "./decoding";
+import { concatBytes, encodeMessageField, encodeStringField, encodeUint32Field } from "./encoding";
 import { parseToolCallStartedUpdate, parsePartialToolCallUpdate } from "./tool-calls";
-import type { ParsedInteractionUpdate } from "./types";
+import type {
+  AskQuestion,
+  AskQuestionAnswer,
+  InteractionQuery,
+  InteractionResponse,
+  ParsedInteractionUpdate,
+  WebPageContent,
+  WebSearchReference,
+} from "./types";
 
 /**
  * Parse an InteractionUpdate message
@@ -9,6 +18,7 @@ import type { ParsedInteractionUpdate } from "./types";
  *   field 1: text_delta (TextDeltaUpdate)
  *   field 2: tool_call_started (ToolCallStartedUpdate)
  *   field 3: tool_call_completed (ToolCallCompletedUpdate)
+ *   field 4: thinking_delta (ThinkingDeltaUpdate)
  *   field 7: partial_tool_call (PartialToolCallUpdate)
  *   field 8: token_delta (TokenDeltaUpdate)
  *   field 13: heartbeat
@@ -18,6 +28,7 @@ export function parseInteractionUpdate(data: Uint8Array): ParsedInteractionUpdat
   const fields = parseProtoFields(data);
 
   let text: string | null = null;
+  let thinking: string | null = null;
   let isComplete = false;
   let isHeartbeat = false;
   let toolCallStarted: ParsedInteractionUpdate["toolCallStarted"] = null;
@@ -60,6 +71,15 @@ export function parseInteractionUpdate(data: Uint8Array): ParsedInteractionUpdat
         };
       }
     }
+    // field 4 = thinking_delta (ThinkingDeltaUpdate)
+    else if (field.fieldNumber === 4 && field.wireType === 2 && field.value instanceof Uint8Array) {
+      const thinkingFields = parseProtoFields(field.value);
+      for (const tField of thinkingFields) {
+        if (tField.fieldNumber === 1 && tField.wireType === 2 && tField.value instanceof Uint8Array) {
+          thinking = new TextDecoder().decode(tField.value);
+        }
+      }
+    }
     // field 7 = partial_tool_call (PartialToolCallUpdate)
     else if (field.fieldNumber === 7 && field.wireType === 2 && field.value instanceof Uint8Array) {
       const parsed = parsePartialToolCallUpdate(field.value);
@@ -87,5 +107,215 @@ export function parseInteractionUpdate(data: Uint8Array): ParsedInteractionUpdat
     }
   }
 
-  return { text, isComplete, isHeartbeat, toolCallStarted, toolCallCompleted, partialToolCall };
+  return { text, thinking, isComplete, isHeartbeat, toolCallStarted, toolCallCompleted, partialToolCall };
+}
+
+// --- Interaction Queries ---
+
+function decodeString(value: Uint8Array): string {
+  return new TextDecoder().decode(value);
+}
+
+/**
+ * Strings and nested messages of a message, keyed by field number (repeated
+ * fields keep every occurrence)
+ */
+function collectFields(data: Uint8Array): Map<number, Uint8Array[]> {
+  const collected = new Map<number, Uint8Array[]>();
+  for (const field of parseProtoFields(data)) {
+    if (field.wireType === 2 && field.value instanceof Uint8Array) {
+      collected.set(field.fieldNumber, [...(collected.get(field.fieldNumber) ?? []), field.value]);
+    }
+  }
+  return collected;
+}
+
+function firstString(fields: Map<number, Uint8Array[]>, fieldNumber: number): string | undefined {
+  const value = fields.get(fieldNumber)?.[0];
+  return value ? decodeString(value) : undefined;
+}
+
+function varintField(data: Uint8Array, fieldNumber: number): number | undefined {
+  const field = parseProtoFields(data).find(f => f.fieldNumber === fieldNumber && f.wireType === 0);
+  return field ? Number(field.value) : undefined;
+}
+
+/**
+ * AskQuestionArgs (inferred; see parseInteractionQuery):
+ *   field 1: title
+ *   field 2: questions (repeated Question: 1 id, 2 prompt, 3 options (repeated Option: 1 id, 2 label), 4 allow_multiple)
+ */
+function parseAskQuestionArgs(data: Uint8Array): { title?: string; questions: AskQuestion[] } {
+  const fields = collectFields(data);
+  const questions = (fields.get(2) ?? []).map((questionData): AskQuestion => {
+    const question = collectFields(questionData);
+    return {
+      id: firstString(question, 1) ?? "",
+      prompt: firstString(question, 2) ?? "",
+      options: (question.get(3) ?? []).map(optionData => {
+        const option = collectFields(optionData);
+        return { id: firstString(option, 1) ?? "", label: firstString(option, 2) ?? "" };
+      }),
+      allowMultiple: varintField(questionData, 4) === 1,
+    };
+  });
+  return { title: firstString(fields, 1) || undefined, questions };
+}
+
+/**
+ * Parse an InteractionQuery message
+ *
+ * InteractionQuery fields:
+ *   field 1: id (uint32)
+ *   field 2: web_search_request_query (args: 1 search_term, 2 tool_call_id)
+ *   field 3: ask_question_interaction_query (1 args, 2 tool_call_id)
+ *   field 4: switch_mode_request_query (args: 1 target_mode_id, 2 explanation, 3 tool_call_id)
+ *   field 5: exa_search_request_query (args: 1 query, 3 num_results, 4 tool_call_id)
+ *   field 6: exa_fetch_request_query (args: 1 ids (repeated), 2 tool_call_id)
+ *
+ * Every query wraps its arguments in field 1.
+ *
+ * The query oneof (fields 1-6) and AgentServerMessage field 7 are the ones the
+ * agent-service stream decoder has always documented. The argument layouts
+ * inside each query are inferred from the field names and haven't been
+ * confirmed against Cursor's backend; the mock server mirrors them, so the
+ * tests can't catch a mismatch. Unknown fields are skipped, so a wrong guess
+ * shows up as empty arguments rather than a failed turn.
+ */
+export function parseInteractionQuery(data: Uint8Array): InteractionQuery {
+  const id = varintField(data, 1) ?? 0;
+  const fields = collectFields(data);
+
+  const [queryField, queryData] = [...fields.entries()]
+    .map(([fieldNumber, values]) => [fieldNumber, values[0]] as const)
+    .find(([fieldNumber]) => fieldNumber >= 2 && fieldNumber <= 6) ?? [];
+  if (!queryField || !queryData) {
+    return { type: "unknown", id };
+  }
+
+  const query = collectFields(queryData);
+  const argsData = query.get(1)?.[0] ?? new Uint8Array(0);
+  const args = collectFields(argsData);
+
+  switch (queryField) {
+    case 2:
+      return { type: "web_search", id, searchTerm: firstString(args, 1) ?? "", toolCallId: firstString(args, 2) };
+    case 3:
+      return { type: "ask_question", id, ...parseAskQuestionArgs(argsData), toolCallId: firstString(query, 2) };
+    case 4:
+      return {
+        type: "switch_mode",
+        id,
+        targetModeId: firstString(args, 1) ?? "",
+        explanation: firstString(args, 2),
+        toolCallId: firstString(args, 3),
+      };
+    case 5:
+      return {
+        type: "exa_search",
+        id,
+        query: firstString(args, 1) ?? "",
+        numResults: varintField(argsData, 3),
+        toolCallId: firstString(args, 4),
+      };
+    default:
+      return {
+        type: "exa_fetch",
+        id,
+        urls: (args.get(1) ?? []).map(decodeString),
+        toolCallId: firstString(args, 2),
+      };
+  }
+}
+
+// --- Interaction Responses ---
+
+// InteractionResponse field carrying each query type's response. Assumed to
+// mirror the query oneof, like the other request/response pairs in the
+// protocol; not confirmed against Cursor's backend, and neither are the
+// response bodies below.
+const RESPONSE_FIELDS: Record<InteractionResponse["type"], number> = {
+  web_search: 2,
+  ask_question: 3,
+  switch_mode: 4,
+  exa_search: 5,
+  exa_fetch: 6,
+};
+
+/**
+ * Approve/reject responses (web search, switch mode, exa):
+ *   field 1: approved (results, when the client produced them)
+ *   field 2: rejected (1 reason)
+ */
+function encodeApproval(approved: boolean, reason?: string, results?: Uint8Array): Uint8Array {
+  return approved
+    ? encodeMessageField(1, results ?? new Uint8Array(0))
+    : encodeMessageField(2, reason ? encodeStringField(1, reason) : new Uint8Array(0));
+}
+
+/**
+ * Search results: repeated field 1 = reference (1 title, 2 url, 3 text, 4 published_date)
+ */
+function encodeReferences(references: WebSearchReference[]): Uint8Array {
+  return concatBytes(...references.map(reference => encodeMessageField(1, concatBytes(
+    encodeStringField(1, reference.title),
+    encodeStringField(2, reference.url),
+    reference.text ? encodeStringField(3, reference.text) : new Uint8Array(0),
+    reference.publishedDate ? encodeStringField(4, reference.publishedDate) : new Uint8Array(0)
+  ))));
+}
+
+/**
+ * Fetched pages: repeated field 1 = content (1 url, 2 title, 3 text)
+ */
+function encodeContents(contents: WebPageContent[]): Uint8Array {
+  return concatBytes(...contents.map(content => encodeMessageField(1, concatBytes(
+    encodeStringField(1, content.url),
+    content.title ? encodeStringField(2, content.title) : new Uint8Array(0),
+    encodeStringField(3, content.text)
+  ))));
+}
+
+function encodeResponseBody(response: InteractionResponse): Uint8Array {
+  switch (response.type) {
+    case "ask_question":
+      return encodeAskQuestionResult(response.answers, response.reason);
+    case "switch_mode":
+      return encodeApproval(response.approved, response.reason);
+    case "web_search":
+      return encodeApproval(response.approved, response.reason, response.references && encodeReferences(response.references));
+    case "exa_search":
+      return response.approved ? encodeApproval(true, undefined, encodeReferences(response.references)) : encodeApproval(false, response.reason);
+    case "exa_fetch":
+      return response.approved ? encodeApproval(true, undefined, encodeContents(response.contents)) : encodeApproval(false, response.reason);
+  }
+}
+
+/**
+ * AskQuestionInteractionResponse:
+ *   field 1: result (AskQuestionResult)
+ *     field 1: success (1 answers: repeated Answer: 1 question_id, 2 selected_option_ids, 3 free_text)
+ *     field 3: rejected (1 reason)
+ */
+function encodeAskQuestionResult(answers: AskQuestionAnswer[] | undefined, reason?: string): Uint8Array {
+  if (!answers) {
+    return encodeMessageField(1, encodeMessageField(3, reason ? encodeStringField(1, reason) : new Uint8Array(0)));
+  }
+  const encodedAnswers = answers.map(answer => encodeMessageField(1, concatBytes(
+    encodeStringField(1, answer.questionId),
+    ...answer.selectedOptionIds.map(optionId => encodeStringField(2, optionId)),
+    answer.freeText ? encodeStringField(3, answer.freeText) : new Uint8Array(0)
+  )));
+  return encodeMessageField(1, encodeMessageField(1, concatBytes(...encodedAnswers)));
+}
+
+/**
+ * Build an AgentClientMessage carrying the response to interaction query `id`
+ * (AgentClientMessage field 6: interaction_response)
+ */
+export function buildAgentClientMessageWithInteractionResponse(id: number, response: InteractionResponse): Uint8Array {
+  return encodeMessageField(6, concatBytes(
+    encodeUint32Field(1, id),
+    encodeMessageField(RESPONSE_FIELDS[response.type], encodeResponseBody(response))
+  ));
 }
@@ -1,3 +1,5 @@
+import type { StreamRecoveryOptions } from "../stream-recovery";
+
 export enum AgentMode {
   UNSPECIFIED = 0,
   AGENT = 1,
@@ -117,6 +119,9 @@ export interface ParsedPartialToolCall {
   toolCall: ParsedToolCall | null;
 }
 
+/** Account-specific failures: the request may succeed with another account */
+export type AgentErrorKind = "rate_limited" | "quota_exhausted";
+
 export interface AgentStreamChunk {
   type: 
     | "text" 
@@ -135,11 +140,16 @@ export interface AgentStreamChunk {
     | "kv_blob_assistant";
   content?: string;
   error?: string;
+  /** Set on error chunks caused by the account's rate limit or usage quota */
+  errorKind?: AgentErrorKind;
+  /** Server-suggested delay before retrying, from retry-after */
+  retryAfterMs?: number;
   toolCall?: ToolCallInfo;
   partialArgs?: string;
   execRequest?: ExecRequest;
   queryId?: number;
   queryType?: string;
+  interactionQuery?: InteractionQuery;
   blobContent?: string;
 }
 
@@ -165,6 +175,34 @@ export interface AgentServiceOptions {
   baseUrl?: string;
   privacyMode?: boolean;
   workspacePath?: string;
+  /** Reconnect behaviour for dropped or stalled SSE streams */
+  streamRecovery?: StreamRecoveryOptions;
+  /** Obtain a new access token after the server rejects the current one (HTTP 401); the request is retried once */
+  refreshAccessToken?: () => Promise<string | null>;
+}
+
+export interface AgentImageAttachment {
+  /** Raw image bytes */
+  data: Uint8Array;
+  /** MIME type, e.g. "image/png" */
+  mimeType: string;
+  /** Original file path, when the image came from a local file */
+  path?: string;
+}
+
+/**
+ * A prior conversation message, stored as a JSON KV blob and referenced from
+ * the conversation state. Content parts follow the shape Cursor itself uses
+ * for the turn blobs it writes (text / tool-call / tool-result parts).
+ */
+export type ConversationStateContentPart =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; toolCallId: string; toolName: string; args: Record<string, unknown> }
+  | { type: "tool-result"; toolCallId: string; toolName: string; result: string; isError?: boolean };
+
+export interface ConversationStateMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | ConversationStateContentPart[];
 }
 
 export interface AgentChatRequest {
@@ -173,6 +211,16 @@ export interface AgentChatRequest {
   mode?: AgentMode;
   conversationId?: string;
   tools?: OpenAIToolDefinition[];
+  /** Replaces the default "use these tools when appropriate" tool instructions */
+  toolInstructions?: string;
+  /** Images attached to the user message */
+  images?: AgentImageAttachment[];
+  /** Prior turns, sent as structured conversation state instead of being flattened into `message` */
+  history?: ConversationStateMessage[];
+  /** Continue from `history` (e.g. after tool results) instead of sending `message` as a new user turn */
+  resume?: boolean;
+  /** Cancels the turn on the server and closes the stream when aborted (e.g. on client disconnect) */
+  signal?: AbortSignal;
 }
 
 export interface McpResult {
@@ -216,6 +264,7 @@ export interface BlobAnalysis {
 
 export interface ParsedInteractionUpdate {
   text: string | null;
+  thinking: string | null;
   isComplete: boolean;
   isHeartbeat: boolean;
   toolCallStarted: {
@@ -237,3 +286,58 @@ export interface ParsedInteractionUpdate {
     argsTextDelta: string;
   } | null;
 }
+
+// --- Interaction Queries ---
+
+export interface AskQuestionOption {
+  id: string;
+  label: string;
+}
+
+export interface AskQuestion {
+  id: string;
+  prompt: string;
+  options: AskQuestionOption[];
+  allowMultiple: boolean;
+}
+
+export interface AskQuestionAnswer {
+  questionId: string;
+  selectedOptionIds: string[];
+  freeText?: string;
+}
+
+/** A question or request the server needs answered before the turn can continue */
+export type InteractionQuery =
+  | { type: 'web_search'; id: number; searchTerm: string; toolCallId?: string }
+  | { type: 'ask_question'; id: number; title?: string; questions: AskQuestion[]; toolCallId?: string }
+  | { type: 'switch_mode'; id: number; targetModeId: string; explanation?: string; toolCallId?: string }
+  | { type: 'exa_search'; id: number; query: string; numResults?: number; toolCallId?: string }
+  | { type: 'exa_fetch'; id: number; urls: string[]; toolCallId?: string }
+  | { type: 'unknown'; id: number };
+
+export type InteractionQueryType = InteractionQuery['type'];
+
+export interface WebSearchReference {
+  title: string;
+  url: string;
+  text?: string;
+  publishedDate?: string;
+}
+
+export interface WebPageContent {
+  url: string;
+  title?: string;
+  text: string;
+}
+
+/** The answer to an InteractionQuery; `reason` is sent with rejections */
+export type InteractionResponse =
+  | { type: 'switch_mode'; approved: boolean; reason?: string }
+  /** Approved without references, the search runs on Cursor's side */
+  | { type: 'web_search'; approved: boolean; reason?: string; references?: WebSearchReference[] }
+  /** Answers when the question was answered, otherwise rejected with the reason */
+  | { type: 'ask_question'; answers?: AskQuestionAnswer[]; reason?: string }
+  | { type: 'exa_search'; approved: true; references: WebSearchReference[] }
+  | { type: 'exa_fetch'; approved: true; contents: WebPageContent[] }
+  | { type: 'exa_search' | 'exa_fetch'; approved: false; reason: string };
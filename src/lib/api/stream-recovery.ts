@@ -0,0 +1,76 @@
+/**
+ * SSE Stream Recovery
+ *
+ * Settings and helpers for reconnecting a RunSSE stream that drops or stalls
+ * mid-turn. After a reconnect the server may replay text the client already
+ * received; the replay deduper swallows it so callers see one uninterrupted
+ * stream. Set CURSOR_STREAM_RECOVERY=0 to disable reconnects.
+ */
+
+export interface StreamRecoveryOptions {
+  /** Reconnect attempts per turn (default 3) */
+  maxReconnects?: number;
+  /** Treat the stream as stalled after this long without any bytes (default 60s) */
+  idleTimeoutMs?: number;
+  /** Delay before the first reconnect, doubled on each further attempt (default 500ms) */
+  backoffMs?: number;
+}
+
+const DEFAULT_MAX_RECONNECTS = 3;
+const DEFAULT_IDLE_TIMEOUT_MS = 60000;
+const DEFAULT_BACKOFF_MS = 500;
+
+/**
+ * Resolve recovery settings, applying defaults and the CURSOR_STREAM_RECOVERY toggle
+ */
+export function resolveStreamRecovery(options: StreamRecoveryOptions = {}): Required<StreamRecoveryOptions> {
+  const enabled = process.env.CURSOR_STREAM_RECOVERY !== "0";
+  return {
+    maxReconnects: enabled ? options.maxReconnects ?? DEFAULT_MAX_RECONNECTS : 0,
+    idleTimeoutMs: options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+    backoffMs: options.backoffMs ?? DEFAULT_BACKOFF_MS,
+  };
+}
+
+export interface ReplayDeduper {
+  /** Feed a text delta from the resumed stream; returns the part not yet seen by the client */
+  push(text: string): string;
+}
+
+/**
+ * Create a deduper for text replayed after a reconnect.
+ *
+ * `expected` is the text the client already received since the point the
+ * stream resumes from. Incoming text is dropped while it matches `expected`,
+ * since the client has it already. Once the stream goes past `expected` or
+ * diverges from it, only the text after the matched part is passed on.
+ */
+export function createReplayDeduper(expected: string): ReplayDeduper {
+  let matched = 0;
+  let done = expected.length === 0;
+
+  return {
+    push(text: string): string {
+      if (done) return text;
+
+      let i = 0;
+      while (i < text.length && matched < expected.length && text[i] === expected[matched]) {
+        i++;
+        matched++;
+      }
+
+      if (matched === expected.length) {
+        done = true;
+        return text.slice(i);
+      }
+
+      if (i < text.length) {
+        // Diverged: what matched was already delivered, so only the rest is new
+        done = true;
+        return text.slice(i);
+      }
+
+      return "";
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Account Pool
+ *
+ * Holds several Cursor accounts and tracks which of them can take requests.
+ * An account that hits a rate limit or runs out of quota is put into a
+ * cooldown; requests go to the first healthy account in configured order, so
+ * traffic sticks to one account until it fails instead of spreading usage.
+ */
+
+import type { AgentErrorKind } from "../api/proto/types";
+import type { TokenProvider } from "./token-provider";
+
+export interface PoolAccount {
+  /** Display name (usually the credential profile) */
+  name: string;
+  tokens: TokenProvider;
+}
+
+export interface AccountPoolOptions {
+  /** Cooldown after a rate limit when the backend gives no retry-after (default 60s) */
+  rateLimitCooldownMs?: number;
+  /** Cooldown after the account's usage quota is exhausted (default 1h) */
+  quotaCooldownMs?: number;
+}
+
+export interface AccountFailure {
+  kind: AgentErrorKind;
+  message: string;
+  /** Backend-provided delay before the account should be retried */
+  retryAfterMs?: number;
+}
+
+export interface AccountStatus {
+  name: string;
+  healthy: boolean;
+  /** ISO timestamp when the cooldown ends; null when the account is not cooling down */
+  cooldownUntil: string | null;
+  lastError: string | null;
+  lastErrorKind: AgentErrorKind | null;
+  requests: number;
+  failures: number;
+}
+
+export interface AccountPool {
+  /** Accounts to try for the next request, in order */
+  candidates(): PoolAccount[];
+  /** Put an account into cooldown after a rate limit or quota error */
+  reportFailure(name: string, failure: AccountFailure): void;
+  /** Record a completed request */
+  reportSuccess(name: string): void;
+  /** Health of every account, in configured order */
+  status(): AccountStatus[];
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+const DEFAULT_QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+
+interface AccountState {
+  account: PoolAccount;
+  cooldownUntil: number;
+  lastError: string | null;
+  lastErrorKind: AgentErrorKind | null;
+  requests: number;
+  failures: number;
+}
+
+/**
+ * Create a pool over the given accounts
+ */
+export function createAccountPool(accounts: PoolAccount[], options: AccountPoolOptions = {}): AccountPool {
+  if (accounts.length === 0) {
+    throw new Error("createAccountPool requires at least one account");
+  }
+  const rateLimitCooldownMs = options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+  const quotaCooldownMs = options.quotaCooldownMs ?? DEFAULT_QUOTA_COOLDOWN_MS;
+
+  const states = new Map<string, AccountState>();
+  for (const account of accounts) {
+    if (states.has(account.name)) {
+      throw new Error(`Duplicate account in pool: ${account.name}`);
+    }
+    states.set(account.name, {
+      account,
+      cooldownUntil: 0,
+      lastError: null,
+      lastErrorKind: null,
+      requests: 0,
+      failures: 0,
+    });
+  }
+
+  const isHealthy = (state: AccountState, now: number) => state.cooldownUntil <= now;
+
+  return {
+    candidates() {
+      const now = Date.now();
+      const all = [...states.values()];
+      const healthy = all.filter((state) => isHealthy(state, now));
+      if (healthy.length > 0) return healthy.map((state) => state.account);
+
+      // Everything is cooling down: try the account that recovers first rather than failing outright
+      const soonest = all.reduce((a, b) => (b.cooldownUntil < a.cooldownUntil ? b : a));
+      return [soonest.account];
+    },
+
+    reportFailure(name, failure) {
+      const state = states.get(name);
+      if (!state) return;
+      const cooldownMs = failure.retryAfterMs
+        ?? (failure.kind === "quota_exhausted" ? quotaCooldownMs : rateLimitCooldownMs);
+      state.cooldownUntil = Date.now() + cooldownMs;
+      state.lastError = failure.message;
+      state.lastErrorKind = failure.kind;
+      state.requests++;
+      state.failures++;
+    },
+
+    reportSuccess(name) {
+      const state = states.get(name);
+      if (state) state.requests++;
+    },
+
+    status() {
+      const now = Date.now();
+      return [...states.values()].map((state) => ({
+        name: state.account.name,
+        healthy: isHealthy(state, now),
+        cooldownUntil: isHealthy(state, now) ? null : new Date(state.cooldownUntil).toISOString(),
+        lastError: state.lastError,
+        lastErrorKind: state.lastErrorKind,
+        requests: state.requests,
+        failures: state.failures,
+      }));
+    },
+  };
+}
+
+/**
+ * Create a pool with a single account (no failover)
+ */
+export function createSingleAccountPool(tokens: TokenProvider, name: string = "default"): AccountPool {
+  return createAccountPool([{ name, tokens }]);
+}
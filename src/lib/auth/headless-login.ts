@@ -0,0 +1,167 @@
+/**
+ * Headless Login
+ *
+ * Browser login for machines without a browser (SSH sessions, containers).
+ * Instead of opening a browser, the login URL is printed together with a QR
+ * code, so it can be opened on a laptop or phone; the machine itself only
+ * polls for the result. An optional local page shows the link and the login
+ * status, for setups that forward a port anyway (e.g. `ssh -L`).
+ */
+
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { LoginManager, type AuthResult } from "./login";
+import { renderQrCode } from "../utils/qr-code";
+
+export interface HeadlessLoginOptions {
+  /** Stop waiting after this long (default 5 minutes) */
+  timeoutMs?: number;
+  /** Include a QR code of the login URL in the instructions (default true) */
+  qrCode?: boolean;
+  /** Serve a status page on this local port (0 picks a free port); off by default */
+  callbackPort?: number;
+  /** Called while polling with the time spent and the timeout */
+  onProgress?: (elapsedMs: number, timeoutMs: number) => void;
+  /** Login manager to poll with (for tests) */
+  loginManager?: LoginManager;
+}
+
+export interface HeadlessLogin {
+  loginUrl: string;
+  /** Local status page, when callbackPort was given */
+  callbackUrl?: string;
+  /** Text to show the user: the URL, the QR code and the status page */
+  instructions: string;
+  /** Poll until the login completes; null on timeout or cancel */
+  wait(): Promise<AuthResult | null>;
+  /** Stop polling and close the status page */
+  cancel(): void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+
+type LoginStatus = "pending" | "complete" | "failed";
+
+/**
+ * "1:05"-style duration for progress output
+ */
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Single-line progress text, e.g. "Waiting for sign-in... 0:42 / 5:00"
+ */
+export function formatLoginProgress(elapsedMs: number, timeoutMs: number): string {
+  return `Waiting for sign-in... ${formatElapsed(elapsedMs)} / ${formatElapsed(timeoutMs)}`;
+}
+
+/**
+ * Progress reporter that rewrites one line on a terminal
+ */
+export function terminalLoginProgress(stream: NodeJS.WriteStream = process.stderr): (elapsedMs: number, timeoutMs: number) => void {
+  return (elapsedMs, timeoutMs) => {
+    if (stream.isTTY) stream.write(`\r${formatLoginProgress(elapsedMs, timeoutMs)}`);
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function statusPage(loginUrl: string, status: LoginStatus): string {
+  const message = {
+    pending: `<p><a href="${escapeHtml(loginUrl)}">Sign in to Cursor</a></p><p>Waiting for sign-in&hellip;</p>`,
+    complete: "<p>Signed in. You can close this tab.</p>",
+    failed: "<p>Sign-in timed out or was cancelled. Start the login again in your terminal.</p>",
+  }[status];
+  // Refresh while pending so the page reflects the result without user action
+  const refresh = status === "pending" ? '<meta http-equiv="refresh" content="3">' : "";
+  return `<!doctype html><html><head><meta charset="utf-8">${refresh}<title>Cursor login</title></head>` +
+    `<body style="font-family: sans-serif; margin: 3em">${message}</body></html>`;
+}
+
+async function startStatusServer(
+  port: number,
+  loginUrl: string,
+  getStatus: () => LoginStatus
+): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    const status = getStatus();
+    if (req.url === "/status") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status }));
+      return;
+    }
+    if (req.url === "/login" && status === "pending") {
+      res.writeHead(302, { Location: loginUrl });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(statusPage(loginUrl, status));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    // Loopback only: the page is reached through port forwarding, not the network
+    server.listen(port, "127.0.0.1", () => resolve());
+  });
+  const { port: boundPort } = server.address() as AddressInfo;
+  return { server, url: `http://localhost:${boundPort}/` };
+}
+
+/**
+ * Start a headless login. Show `instructions` to the user, then call `wait()`.
+ */
+export async function startHeadlessLogin(options: HeadlessLoginOptions = {}): Promise<HeadlessLogin> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const loginManager = options.loginManager ?? new LoginManager();
+  const { metadata, loginUrl } = loginManager.startLogin();
+  const abort = new AbortController();
+
+  let status: LoginStatus = "pending";
+  const statusServer = options.callbackPort === undefined
+    ? undefined
+    : await startStatusServer(options.callbackPort, loginUrl, () => status);
+
+  const lines = [
+    "Open this URL on any device to sign in to Cursor:",
+    "",
+    loginUrl,
+  ];
+  if (options.qrCode ?? true) {
+    lines.push("", "Or scan this QR code:", "", renderQrCode(loginUrl));
+  }
+  if (statusServer) {
+    lines.push("", `With this port forwarded, ${statusServer.url} shows the link and the login status.`);
+  }
+
+  const close = () => {
+    // Let a status page poll see the final state before the server goes away
+    setTimeout(() => statusServer?.server.close(), 5000).unref?.();
+  };
+
+  return {
+    loginUrl,
+    callbackUrl: statusServer?.url,
+    instructions: lines.join("\n"),
+    async wait() {
+      const startedAt = Date.now();
+      const result = await loginManager.waitForResult(metadata, {
+        timeoutMs,
+        signal: abort.signal,
+        onProgress: () => options.onProgress?.(Date.now() - startedAt, timeoutMs),
+      });
+      status = result ? "complete" : "failed";
+      close();
+      return result;
+    },
+    cancel() {
+      status = "failed";
+      abort.abort();
+      statusServer?.server.close();
+    },
+  };
+}
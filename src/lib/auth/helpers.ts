@@ -16,12 +16,33 @@ import { LoginManager, CURSOR_API_BASE_URL } from "./login";
 
 const REFRESH_ENDPOINT = "/auth/refresh";
 
+// Refreshes in flight, keyed by endpoint and refresh token
+const inflightRefreshes = new Map<string, Promise<{ accessToken: string; refreshToken: string } | null>>();
+
 /**
- * Refresh an access token using the refresh token
+ * Refresh an access token using the refresh token.
+ *
+ * Concurrent calls with the same refresh token share a single request, so
+ * parallel requests near expiry do not each spend the refresh token.
  */
-export async function refreshAccessToken(
+export function refreshAccessToken(
   refreshToken: string,
   endpoint: string = CURSOR_API_BASE_URL
+): Promise<{ accessToken: string; refreshToken: string } | null> {
+  const key = `${endpoint}\n${refreshToken}`;
+  let inflight = inflightRefreshes.get(key);
+  if (!inflight) {
+    inflight = requestTokenRefresh(refreshToken, endpoint).finally(() => {
+      inflightRefreshes.delete(key);
+    });
+    inflightRefreshes.set(key, inflight);
+  }
+  return inflight;
+}
+
+async function requestTokenRefresh(
+  refreshToken: string,
+  endpoint: string
 ): Promise<{ accessToken: string; refreshToken: string } | null> {
   try {
     const response = await fetch(`${endpoint}${REFRESH_ENDPOINT}`, {
@@ -71,22 +92,39 @@ export async function getValidAccessToken(
   }
 
   // Try to refresh
-  const refreshToken = await credentialManager.getRefreshToken();
-  if (refreshToken) {
-    const refreshed = await refreshAccessToken(refreshToken, endpoint);
-    if (refreshed) {
-      await credentialManager.setAuthentication(
-        refreshed.accessToken,
-        refreshed.refreshToken
-      );
-      return refreshed.accessToken;
-    }
+  const refreshed = await refreshStoredCredentials(credentialManager, endpoint);
+  if (refreshed) {
+    return refreshed;
   }
 
   // Return possibly expired token (let the API reject if needed)
   return accessToken ?? null;
 }
 
+/**
+ * Refresh the stored access token and persist the new token pair.
+ * Returns the new access token, or null when there is nothing to refresh with.
+ */
+export async function refreshStoredCredentials(
+  credentialManager: CredentialManager,
+  endpoint: string = CURSOR_API_BASE_URL
+): Promise<string | null> {
+  const refreshToken = await credentialManager.getRefreshToken();
+  if (!refreshToken) return null;
+
+  const refreshed = await refreshAccessToken(refreshToken, endpoint);
+  if (!refreshed) return null;
+
+  // Keep the API key, which setAuthentication would otherwise drop
+  const apiKey = await credentialManager.getApiKey();
+  await credentialManager.setAuthentication(
+    refreshed.accessToken,
+    refreshed.refreshToken,
+    apiKey
+  );
+  return refreshed.accessToken;
+}
+
 /**
  * Authenticate using an API key
  */
@@ -8,6 +8,7 @@
 export {
   refreshAccessToken,
   getValidAccessToken,
+  refreshStoredCredentials,
   authenticateWithApiKey,
   authenticateWithToken,
   isAuthenticated,
@@ -15,8 +16,45 @@ export {
   clearCredentials,
 } from "./helpers";
 
-// Re-export macOS Keychain helpers
-export { readCursorCliAccessTokenFromKeychain } from "./keychain";
+// Re-export token provider
+export {
+  createTokenProvider,
+  createStaticTokenProvider,
+  createCredentialTokenProvider,
+  createProfileTokenProviders,
+  type TokenProvider,
+  type TokenProviderOptions,
+} from "./token-provider";
+
+// Re-export account pool
+export {
+  createAccountPool,
+  createSingleAccountPool,
+  type AccountPool,
+  type AccountPoolOptions,
+  type AccountFailure,
+  type AccountStatus,
+  type PoolAccount,
+} from "./account-pool";
+
+// Re-export Cursor CLI token import
+export { cursorCliAuthFilePath, readCursorCliAccessToken, readCursorCliAccessTokenFromKeychain } from "./keychain";
+
+// Re-export secret stores
+export {
+  createSecretStore,
+  createKeychainSecretStore,
+  createSecretToolStore,
+  createFileSecretStore,
+  createEncryptedFileSecretStore,
+  secretStoreFromEnv,
+  isSecretStoreName,
+  SECRET_STORE_NAMES,
+  type SecretStore,
+  type SecretStoreName,
+  type CommandRunner,
+  type CommandResult,
+} from "./secret-store";
 
 // Re-export login manager and related
 export {
@@ -29,4 +67,15 @@ export {
   type AuthResult,
   type AuthParams,
   type LoginMetadata,
+  type LoginManagerOptions,
+  type WaitForResultOptions,
 } from "./login";
+
+// Re-export headless login
+export {
+  startHeadlessLogin,
+  formatLoginProgress,
+  terminalLoginProgress,
+  type HeadlessLogin,
+  type HeadlessLoginOptions,
+} from "./headless-login";
@@ -1,35 +1,49 @@
 /**
- * macOS Keychain helpers
+ * Cursor CLI token import
  *
- * Cursor CLI stores an access token in macOS Keychain under the service name
- * "cursor-access-token". We read it via the built-in `security` CLI.
+ * Cursor CLI stores its access token in the platform's secret store under the
+ * service name "cursor-access-token": macOS Keychain, or the Secret Service on
+ * Linux desktops. Where neither is in use, it keeps the token in the
+ * "accessToken" field of its own auth.json (see cursorCliAuthFilePath).
  *
  * IMPORTANT: Never log the token value.
  */
 
-import { execFile } from "node:child_process";
-import { platform } from "node:os";
+import { homedir, platform } from "node:os";
+import { join } from "node:path";
+import {
+  createFileSecretStore,
+  createKeychainSecretStore,
+  createSecretToolStore,
+  type CommandRunner,
+  type SecretStore,
+} from "./secret-store";
 
 const CURSOR_KEYCHAIN_SERVICE = "cursor-access-token";
+const CURSOR_AUTH_FILE_KEY = "accessToken";
 
-function execFileAsync(
-  file: string,
-  args: string[]
-): Promise<{ stdout: string; stderr: string; code: number }> {
-  return new Promise((resolve) => {
-    execFile(file, args, { encoding: "utf8" }, (error, stdout, stderr) => {
-      // Node puts the exit code on the error object for non-zero exits.
-      const code =
-        typeof (error as { code?: unknown } | null)?.code === "number"
-          ? ((error as { code: number }).code ?? 1)
-          : 0;
-      resolve({
-        stdout: stdout ?? "",
-        stderr: stderr ?? "",
-        code,
-      });
-    });
-  });
+export interface CursorCliTokenOptions {
+  /** Runs the backend CLIs (for tests) */
+  run?: CommandRunner;
+  /** Cursor CLI auth.json (defaults to the platform's Cursor config directory) */
+  authFilePath?: string;
+}
+
+/**
+ * Cursor CLI's auth.json: CURSOR_CLI_AUTH_FILE, else the CLI's config directory
+ * (%APPDATA%\Cursor on Windows, ~/.cursor on macOS, $XDG_CONFIG_HOME/cursor
+ * elsewhere). Independent of where this plugin keeps its own credentials.
+ */
+export function cursorCliAuthFilePath(env: Record<string, string | undefined> = process.env): string {
+  if (env.CURSOR_CLI_AUTH_FILE) return env.CURSOR_CLI_AUTH_FILE;
+  switch (platform()) {
+    case "win32":
+      return join(env.APPDATA || join(homedir(), "AppData", "Roaming"), "Cursor", "auth.json");
+    case "darwin":
+      return join(homedir(), ".cursor", "auth.json");
+    default:
+      return join(env.XDG_CONFIG_HOME || join(homedir(), ".config"), "cursor", "auth.json");
+  }
 }
 
 /**
@@ -40,20 +54,30 @@ function execFileAsync(
  * - Keychain entry is missing/unreadable
  * - the entry is empty
  */
-export async function readCursorCliAccessTokenFromKeychain(): Promise<string | null> {
-  if (platform() !== "darwin") return null;
-
-  // `-w` prints only the password (token) to stdout.
-  const { stdout, code } = await execFileAsync("security", [
-    "find-generic-password",
-    "-s",
-    CURSOR_KEYCHAIN_SERVICE,
-    "-w",
-  ]);
+export async function readCursorCliAccessTokenFromKeychain(options: CursorCliTokenOptions = {}): Promise<string | null> {
+  const keychain = createKeychainSecretStore({ run: options.run });
+  if (!(await keychain.isAvailable())) return null;
+  return keychain.get(CURSOR_KEYCHAIN_SERVICE);
+}
 
-  if (code !== 0) return null;
+/**
+ * Read Cursor CLI's access token from whichever store it uses on this
+ * platform: Keychain on macOS, the Secret Service on Linux, then its auth.json.
+ * Returns null when no token is found.
+ */
+export async function readCursorCliAccessToken(options: CursorCliTokenOptions = {}): Promise<string | null> {
+  const stores: Array<{ store: SecretStore; key: string }> = [];
+  if (platform() === "darwin") {
+    stores.push({ store: createKeychainSecretStore({ run: options.run }), key: CURSOR_KEYCHAIN_SERVICE });
+  } else if (platform() !== "win32") {
+    stores.push({ store: createSecretToolStore({ run: options.run }), key: CURSOR_KEYCHAIN_SERVICE });
+  }
+  stores.push({ store: createFileSecretStore(options.authFilePath ?? cursorCliAuthFilePath()), key: CURSOR_AUTH_FILE_KEY });
 
-  const token = stdout.trim();
-  return token.length > 0 ? token : null;
+  for (const { store, key } of stores) {
+    if (!(await store.isAvailable())) continue;
+    const token = await store.get(key);
+    if (token) return token;
+  }
+  return null;
 }
-
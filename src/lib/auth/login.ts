@@ -103,15 +103,44 @@ export function openBrowser(url: string): Promise<void> {
 }
 
 /**
- * Sleep for a given number of milliseconds
+ * Sleep for a given number of milliseconds, resolving early when aborted
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
 }
 
 // --- LoginManager ---
 
+export interface LoginManagerOptions {
+  /** Endpoint polled for the login result (defaults to POLLING_ENDPOINT; used by tests) */
+  pollingEndpoint?: string;
+}
+
+export interface WaitForResultOptions {
+  maxAttempts?: number;
+  /** Give up once this much time has passed */
+  timeoutMs?: number;
+  /** Stop polling when aborted */
+  signal?: AbortSignal;
+  onProgress?: (attempt: number) => void;
+}
+
 export class LoginManager {
+  private pollingEndpoint: string;
+
+  constructor(options: LoginManagerOptions = {}) {
+    this.pollingEndpoint = options.pollingEndpoint ?? POLLING_ENDPOINT;
+  }
+
   /**
    * Start the OAuth login flow
    * Returns metadata needed for polling and the URL to open in browser
@@ -133,12 +162,12 @@ export class LoginManager {
    */
   async waitForResult(
     metadata: LoginMetadata,
-    options?: {
-      maxAttempts?: number;
-      onProgress?: (attempt: number) => void;
-    }
+    options?: WaitForResultOptions
   ): Promise<AuthResult | null> {
     const maxAttempts = options?.maxAttempts ?? 150;
+    const deadline = options?.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+    // Never sleep past the deadline, and wake up early when cancelled
+    const wait = (ms: number) => sleep(Math.min(ms, Math.max(0, deadline - Date.now())), options?.signal);
     const baseDelay = 1000; // 1 second base delay
     const maxDelay = 10000; // 10 seconds maximum delay
     const backoffMultiplier = 1.2; // Gentle exponential backoff
@@ -147,12 +176,14 @@ export class LoginManager {
     let consecutiveErrors = 0;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (options?.signal?.aborted || Date.now() >= deadline) return null;
       try {
-        const url = `${POLLING_ENDPOINT}?uuid=${metadata.uuid}&verifier=${metadata.verifier}`;
+        const url = `${this.pollingEndpoint}?uuid=${metadata.uuid}&verifier=${metadata.verifier}`;
         const response = await fetch(url, {
           headers: {
             "Content-Type": "application/json",
           },
+          signal: options?.signal,
         });
 
         // 404 means authentication is still pending
@@ -163,7 +194,7 @@ export class LoginManager {
             maxDelay
           );
           options?.onProgress?.(attempt);
-          await sleep(delay);
+          await wait(delay);
           continue;
         }
 
@@ -177,7 +208,7 @@ export class LoginManager {
             baseDelay * Math.pow(backoffMultiplier, attempt),
             maxDelay
           );
-          await sleep(delay);
+          await wait(delay);
           continue;
         }
 
@@ -204,7 +235,7 @@ export class LoginManager {
           baseDelay * Math.pow(backoffMultiplier, attempt),
           maxDelay
         );
-        await sleep(delay);
+        await wait(delay);
       }
     }
 
@@ -0,0 +1,330 @@
+/**
+ * Secret Stores
+ *
+ * Pluggable backends for keeping tokens out of plaintext auth.json:
+ * - keychain: macOS Keychain via the `security` CLI
+ * - secret-tool: Secret Service (GNOME Keyring, KWallet) via libsecret's `secret-tool`
+ * - file: a separate JSON file readable only by the user
+ * - encrypted-file: an AES-GCM encrypted JSON file (passphrase or machine-derived key)
+ *
+ * Windows has no CLI for its credential vault that can return a stored
+ * secret, so Windows uses one of the file backends.
+ *
+ * IMPORTANT: Never log secret values.
+ */
+
+import { execFile } from "node:child_process";
+import { promises as fs } from "node:fs";
+import { platform } from "node:os";
+import { dirname, join } from "node:path";
+import {
+  decryptString,
+  deriveKey,
+  encryptString,
+  fromBase64,
+  machinePassphrase,
+  randomSalt,
+  toBase64,
+  PBKDF2_ITERATIONS,
+  type EncryptedPayload,
+} from "../utils/crypto";
+
+export type SecretStoreName = "keychain" | "secret-tool" | "file" | "encrypted-file";
+
+export const SECRET_STORE_NAMES: readonly SecretStoreName[] = ["keychain", "secret-tool", "file", "encrypted-file"];
+
+export interface SecretStore {
+  readonly name: SecretStoreName;
+  /** Whether the backend can be used on this machine */
+  isAvailable(): Promise<boolean>;
+  /** Stored secret, or null when there is none (or the backend cannot be reached) */
+  get(key: string): Promise<string | null>;
+  set(key: string, secret: string): Promise<void>;
+  /** Remove a secret; missing secrets are ignored */
+  delete(key: string): Promise<void>;
+}
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+/** Runs a backend CLI; injectable so tests can stub the command */
+export type CommandRunner = (file: string, args: string[], input?: string) => Promise<CommandResult>;
+
+// Shell convention for "command not found"
+const COMMAND_NOT_FOUND = 127;
+// `security` exit code when no matching Keychain item exists
+const KEYCHAIN_ITEM_NOT_FOUND = 44;
+
+/**
+ * Run a command, optionally writing input to its stdin. Never rejects.
+ */
+export const runCommand: CommandRunner = (file, args, input) => {
+  return new Promise((resolve) => {
+    const child = execFile(file, args, { encoding: "utf8" }, (error, stdout, stderr) => {
+      // Node puts the exit code on the error object for non-zero exits, and an
+      // errno string (e.g. ENOENT) when the command could not be started
+      const errorCode = (error as { code?: unknown } | null)?.code;
+      const code = !error ? 0 : typeof errorCode === "number" ? errorCode : COMMAND_NOT_FOUND;
+      resolve({ stdout: stdout ?? "", stderr: stderr ?? "", code });
+    });
+    // A command that exits without reading stdin would otherwise surface EPIPE
+    child.stdin?.on("error", () => {});
+    child.stdin?.end(input);
+  });
+};
+
+// --- Keychain (macOS) ---
+
+export interface CommandStoreOptions {
+  run?: CommandRunner;
+}
+
+/** Keychain account name our own items are filed under */
+const KEYCHAIN_ACCOUNT = "opencode-cursor-auth";
+
+/**
+ * macOS Keychain backend. Keys are Keychain service names.
+ */
+export function createKeychainSecretStore(options: CommandStoreOptions = {}): SecretStore {
+  const run = options.run ?? runCommand;
+
+  return {
+    name: "keychain",
+    async isAvailable() {
+      return platform() === "darwin";
+    },
+    async get(key) {
+      // `-w` prints only the password to stdout
+      const { stdout, code } = await run("security", ["find-generic-password", "-s", key, "-w"]);
+      if (code !== 0) return null;
+      const secret = stdout.trim();
+      return secret.length > 0 ? secret : null;
+    },
+    async set(key, secret) {
+      // A trailing `-w` without a value makes `security` prompt for the password (twice,
+      // to confirm) on stdin, so it never appears in the process list; -U updates an existing item
+      const { stderr, code } = await run(
+        "security",
+        ["add-generic-password", "-U", "-s", key, "-a", KEYCHAIN_ACCOUNT, "-w"],
+        `${secret}\n${secret}\n`
+      );
+      if (code !== 0) throw new Error(`Failed to store secret in Keychain: ${stderr.trim() || `exit code ${code}`}`);
+    },
+    async delete(key) {
+      const { stderr, code } = await run("security", ["delete-generic-password", "-s", key]);
+      if (code !== 0 && code !== KEYCHAIN_ITEM_NOT_FOUND) {
+        throw new Error(`Failed to delete secret from Keychain: ${stderr.trim() || `exit code ${code}`}`);
+      }
+    },
+  };
+}
+
+// --- Secret Service (Linux) ---
+
+/** Attribute that identifies our items in the Secret Service */
+const SECRET_TOOL_ATTRIBUTE = "service";
+
+/**
+ * Secret Service backend via libsecret's `secret-tool`. Keys are the value of
+ * the item's "service" attribute.
+ */
+export function createSecretToolStore(options: CommandStoreOptions = {}): SecretStore {
+  const run = options.run ?? runCommand;
+
+  return {
+    name: "secret-tool",
+    async isAvailable() {
+      // A lookup miss exits 1 silently; a missing binary or D-Bus session does not
+      const { stderr, code } = await run("secret-tool", ["lookup", SECRET_TOOL_ATTRIBUTE, "opencode-cursor-auth-probe"]);
+      return code !== COMMAND_NOT_FOUND && stderr.trim() === "";
+    },
+    async get(key) {
+      const { stdout, code } = await run("secret-tool", ["lookup", SECRET_TOOL_ATTRIBUTE, key]);
+      if (code !== 0) return null;
+      const secret = stdout.trim();
+      return secret.length > 0 ? secret : null;
+    },
+    async set(key, secret) {
+      // The secret is read from stdin so it never appears in the process list
+      const { stderr, code } = await run(
+        "secret-tool",
+        ["store", `--label=${key}`, SECRET_TOOL_ATTRIBUTE, key],
+        secret
+      );
+      if (code !== 0) throw new Error(`Failed to store secret with secret-tool: ${stderr.trim() || `exit code ${code}`}`);
+    },
+    async delete(key) {
+      // Clearing a missing item is not an error for secret-tool
+      const { stderr, code } = await run("secret-tool", ["clear", SECRET_TOOL_ATTRIBUTE, key]);
+      if (code !== 0) throw new Error(`Failed to delete secret with secret-tool: ${stderr.trim() || `exit code ${code}`}`);
+    },
+  };
+}
+
+// --- Files ---
+
+async function readJsonFile<T>(path: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(path, "utf-8")) as T;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writePrivateFile(path: string, data: unknown): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(path, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+async function deleteFile(path: string): Promise<void> {
+  try {
+    await fs.unlink(path);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+}
+
+/**
+ * Plaintext JSON file backend (mode 0600). Keys are top-level properties, so
+ * it can also read string fields from another tool's JSON config.
+ */
+export function createFileSecretStore(path: string): SecretStore {
+  const readEntries = async () => (await readJsonFile<Record<string, unknown>>(path)) ?? {};
+
+  return {
+    name: "file",
+    async isAvailable() {
+      return true;
+    },
+    async get(key) {
+      let entries: Record<string, unknown>;
+      try {
+        entries = await readEntries();
+      } catch {
+        return null;
+      }
+      const secret = entries[key];
+      return typeof secret === "string" && secret.length > 0 ? secret : null;
+    },
+    async set(key, secret) {
+      await writePrivateFile(path, { ...(await readEntries()), [key]: secret });
+    },
+    async delete(key) {
+      const entries = await readEntries();
+      if (!(key in entries)) return;
+      delete entries[key];
+      if (Object.keys(entries).length === 0) await deleteFile(path);
+      else await writePrivateFile(path, entries);
+    },
+  };
+}
+
+export interface EncryptedFileStoreOptions {
+  /** Passphrase for key derivation (default: CURSOR_SECRET_PASSPHRASE, else machine-derived) */
+  passphrase?: string;
+}
+
+/**
+ * On-disk layout of an encrypted secrets file
+ */
+interface EncryptedSecretsFile {
+  version: 1;
+  /** base64 PBKDF2 salt */
+  salt: string;
+  iterations: number;
+  entries: Record<string, EncryptedPayload>;
+}
+
+/**
+ * AES-GCM encrypted JSON file backend. Each secret is encrypted separately
+ * under one key derived from the passphrase and the file's salt.
+ */
+export function createEncryptedFileSecretStore(path: string, options: EncryptedFileStoreOptions = {}): SecretStore {
+  const passphrase = options.passphrase ?? (process.env.CURSOR_SECRET_PASSPHRASE || machinePassphrase());
+  // Derivation is deliberately slow; reuse the key while the salt is unchanged
+  let cachedKey: { salt: string; iterations: number; key: Promise<CryptoKey> } | undefined;
+
+  const keyFor = (file: EncryptedSecretsFile): Promise<CryptoKey> => {
+    if (cachedKey?.salt !== file.salt || cachedKey.iterations !== file.iterations) {
+      cachedKey = { salt: file.salt, iterations: file.iterations, key: deriveKey(passphrase, fromBase64(file.salt), file.iterations) };
+    }
+    return cachedKey.key;
+  };
+
+  const readFile = async (): Promise<EncryptedSecretsFile | null> => {
+    const file = await readJsonFile<EncryptedSecretsFile>(path);
+    if (file && (file.version !== 1 || typeof file.salt !== "string" || typeof file.entries !== "object")) {
+      throw new Error(`Unsupported encrypted secrets file: ${path}`);
+    }
+    return file;
+  };
+
+  return {
+    name: "encrypted-file",
+    async isAvailable() {
+      return true;
+    },
+    async get(key) {
+      const file = await readFile();
+      const payload = file?.entries[key];
+      if (!file || !payload) return null;
+      try {
+        return await decryptString(await keyFor(file), payload);
+      } catch (error: unknown) {
+        throw new Error(`Cannot decrypt ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    },
+    async set(key, secret) {
+      const file: EncryptedSecretsFile = (await readFile())
+        ?? { version: 1, salt: toBase64(randomSalt()), iterations: PBKDF2_ITERATIONS, entries: {} };
+      file.entries[key] = await encryptString(await keyFor(file), secret);
+      await writePrivateFile(path, file);
+    },
+    async delete(key) {
+      const file = await readFile();
+      if (!file || !(key in file.entries)) return;
+      delete file.entries[key];
+      if (Object.keys(file.entries).length === 0) await deleteFile(path);
+      else await writePrivateFile(path, file);
+    },
+  };
+}
+
+// --- Selection ---
+
+export function isSecretStoreName(value: string): value is SecretStoreName {
+  return (SECRET_STORE_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Create a backend by name. File backends keep their data in `directory`
+ * (secrets.json or secrets.enc.json).
+ */
+export function createSecretStore(name: SecretStoreName, directory: string): SecretStore {
+  switch (name) {
+    case "keychain":
+      return createKeychainSecretStore();
+    case "secret-tool":
+      return createSecretToolStore();
+    case "file":
+      return createFileSecretStore(join(directory, "secrets.json"));
+    case "encrypted-file":
+      return createEncryptedFileSecretStore(join(directory, "secrets.enc.json"));
+  }
+}
+
+/**
+ * Backend selected by CURSOR_SECRET_STORE; undefined keeps credentials in auth.json
+ */
+export function secretStoreFromEnv(directory: string): SecretStore | undefined {
+  const name = process.env.CURSOR_SECRET_STORE?.trim();
+  if (!name || name === "none") return undefined;
+  if (!isSecretStoreName(name)) {
+    throw new Error(`Unknown CURSOR_SECRET_STORE "${name}" (expected one of: ${SECRET_STORE_NAMES.join(", ")}, none)`);
+  }
+  return createSecretStore(name, directory);
+}
@@ -0,0 +1,166 @@
+/**
+ * Token Provider
+ *
+ * Owns the access token used for Cursor API requests. Request handlers ask the
+ * provider for a token on every request instead of capturing one at startup,
+ * so long-running servers and plugin sessions keep working across token
+ * expiry. Refreshes are single-flighted: concurrent callers near expiry share
+ * one refresh instead of each firing their own.
+ */
+
+import { decodeJwtPayload, getTokenTimeRemaining } from "../utils/jwt";
+import { CURSOR_API_BASE_URL } from "./login";
+import { getValidAccessToken, refreshStoredCredentials } from "./helpers";
+import type { CredentialManager, FileCredentialManager } from "../storage";
+
+export interface TokenProvider {
+  /** Current access token, refreshed first when it is about to expire */
+  getAccessToken(): Promise<string>;
+  /** Refresh now (e.g. after the API rejected the token); resolves null when no refresh is possible */
+  refresh(): Promise<string | null>;
+  /** Stop background renewal */
+  dispose(): void;
+}
+
+export interface TokenProviderOptions {
+  /** Initial access token */
+  accessToken: string;
+  /** Obtain a new access token; resolve null when the token cannot be refreshed */
+  refresh?: () => Promise<string | null>;
+  /** Refresh tokens this many seconds before they expire (default 300) */
+  refreshThresholdSeconds?: number;
+  /** Renew in the background before the token expires (default true) */
+  backgroundRefresh?: boolean;
+}
+
+const DEFAULT_REFRESH_THRESHOLD_SECONDS = 300;
+// Floor for background renewal, so a short-lived token cannot cause a refresh loop
+const MIN_RENEWAL_DELAY_MS = 30 * 1000;
+// setTimeout overflows above 2^31-1 ms
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Debug logging - set CURSOR_DEBUG=1 to enable
+const debugLog = process.env.CURSOR_DEBUG === "1" ? console.log.bind(console) : () => {};
+
+/**
+ * Create a token provider around an access token and an optional refresh function
+ */
+export function createTokenProvider(options: TokenProviderOptions): TokenProvider {
+  const thresholdSeconds = options.refreshThresholdSeconds ?? DEFAULT_REFRESH_THRESHOLD_SECONDS;
+  const backgroundRefresh = options.backgroundRefresh ?? true;
+
+  let current = options.accessToken;
+  let inflight: Promise<string | null> | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let disposed = false;
+
+  // Opaque tokens carry no expiry; they are only refreshed after a rejection
+  const expiresSoon = (token: string) =>
+    typeof decodeJwtPayload(token)?.exp === "number" && getTokenTimeRemaining(token) < thresholdSeconds;
+
+  const scheduleRenewal = () => {
+    clearTimeout(timer);
+    if (disposed || !backgroundRefresh || !options.refresh) return;
+    if (typeof decodeJwtPayload(current)?.exp !== "number") return;
+
+    const delayMs = Math.min(
+      Math.max((getTokenTimeRemaining(current) - thresholdSeconds) * 1000, MIN_RENEWAL_DELAY_MS),
+      MAX_TIMER_DELAY_MS
+    );
+    timer = setTimeout(() => void refresh(), delayMs);
+    timer.unref?.();
+  };
+
+  const refresh = (): Promise<string | null> => {
+    const refreshFn = options.refresh;
+    if (!refreshFn) return Promise.resolve(null);
+
+    inflight ??= refreshFn()
+      .then((token) => {
+        if (token) {
+          current = token;
+          scheduleRenewal();
+        }
+        return token;
+      }, (err: unknown) => {
+        debugLog("[Auth] Token refresh failed:", err instanceof Error ? err.message : String(err));
+        return null;
+      })
+      .finally(() => {
+        inflight = null;
+      });
+    return inflight;
+  };
+
+  scheduleRenewal();
+
+  return {
+    async getAccessToken() {
+      if (options.refresh && expiresSoon(current)) {
+        // Fall back to the old token when refresh fails; the API decides whether it is still usable
+        return (await refresh()) ?? current;
+      }
+      return current;
+    },
+    refresh,
+    dispose() {
+      disposed = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Create a provider for a fixed token that cannot be refreshed
+ */
+export function createStaticTokenProvider(accessToken: string): TokenProvider {
+  return createTokenProvider({ accessToken });
+}
+
+/**
+ * Create a provider backed by stored credentials, persisting refreshed tokens.
+ * Returns null when no access token is stored.
+ */
+export async function createCredentialTokenProvider(
+  credentialManager: CredentialManager,
+  endpoint: string = CURSOR_API_BASE_URL
+): Promise<TokenProvider | null> {
+  const accessToken = await getValidAccessToken(credentialManager, endpoint);
+  if (!accessToken) return null;
+
+  return createTokenProvider({
+    accessToken,
+    refresh: () => refreshStoredCredentials(credentialManager, endpoint),
+  });
+}
+
+/**
+ * Create a lookup of token providers for the named profiles in auth.json.
+ * Providers are created on first use and reused afterwards; unknown profiles
+ * resolve to null.
+ */
+export function createProfileTokenProviders(
+  credentialManager: FileCredentialManager,
+  endpoint: string = CURSOR_API_BASE_URL
+): (profile: string) => Promise<TokenProvider | null> {
+  // Pending lookups are shared, so concurrent first requests create one provider
+  const providers = new Map<string, Promise<TokenProvider | null>>();
+
+  const create = async (profile: string): Promise<TokenProvider | null> => {
+    // Checked first so an unknown name never falls back to the default profile
+    if (!(await credentialManager.listProfiles()).includes(profile)) return null;
+    return createCredentialTokenProvider(credentialManager.forProfile(profile), endpoint);
+  };
+
+  return async (profile) => {
+    let provider = providers.get(profile);
+    if (!provider) {
+      provider = create(profile);
+      providers.set(profile, provider);
+    }
+    const resolved = await provider;
+    // Forget misses so a profile added later (e.g. after login) is picked up
+    if (!resolved) providers.delete(profile);
+    return resolved;
+  };
+}
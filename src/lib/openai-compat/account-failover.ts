@@ -0,0 +1,77 @@
+/**
+ * Account Failover
+ *
+ * Runs an agent turn against an account pool. When the backend rejects the
+ * turn with a rate limit or quota error before anything has been sent to the
+ * client, the account is put into cooldown and the turn is restarted on the
+ * next healthy account. Once output has started, errors are passed through.
+ */
+
+import { createAgentServiceClient } from "../api/agent-service";
+import type { AccountPool } from "../auth/account-pool";
+import type { AgentTurnEvent } from "./agent-turn";
+
+type AgentClient = ReturnType<typeof createAgentServiceClient>;
+
+export interface FailoverOptions {
+  /** Cursor API base URL */
+  baseUrl?: string;
+  log: (message: string, ...args: unknown[]) => void;
+}
+
+/**
+ * Access token of the account the pool would use next (for model lookups)
+ */
+export async function poolAccessToken(pool: AccountPool): Promise<string> {
+  const [account] = pool.candidates();
+  if (!account) throw new Error("Account pool is empty");
+  return account.tokens.getAccessToken();
+}
+
+/**
+ * Run a turn on the first healthy account, moving on to the next one when the
+ * backend reports a rate limit or exhausted quota
+ */
+export async function* runWithFailover(
+  pool: AccountPool,
+  startTurn: (client: AgentClient) => AsyncGenerator<AgentTurnEvent>,
+  options: FailoverOptions
+): AsyncGenerator<AgentTurnEvent> {
+  const { baseUrl, log } = options;
+  const accounts = pool.candidates();
+
+  for (const [index, account] of accounts.entries()) {
+    const client = createAgentServiceClient(await account.tokens.getAccessToken(), {
+      baseUrl,
+      refreshAccessToken: () => account.tokens.refresh(),
+    });
+    const isLast = index === accounts.length - 1;
+    let started = false;
+    let retry = false;
+
+    for await (const event of startTurn(client)) {
+      if (event.type === "error" && event.errorKind) {
+        pool.reportFailure(account.name, {
+          kind: event.errorKind,
+          message: event.message,
+          retryAfterMs: event.retryAfterMs,
+        });
+        if (!started && !isLast) {
+          log(`[Account Pool] Account "${account.name}" failed (${event.errorKind}); retrying on the next account`);
+          retry = true;
+          break;
+        }
+      } else if (event.type === "end") {
+        pool.reportSuccess(account.name);
+      } else if (event.type !== "error") {
+        started = true;
+      }
+
+      yield event;
+      if (event.type === "error" || event.type === "end") return;
+    }
+
+    // The turn ended without a terminal event (e.g. the client went away)
+    if (!retry) return;
+  }
+}
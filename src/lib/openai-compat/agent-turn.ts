@@ -0,0 +1,578 @@
+/**
+ * Agent Turn Runner
+ *
+ * Drives a single assistant turn against Cursor's Agent API and normalizes the
+ * raw AgentStreamChunk stream into wire-format-agnostic events. Every
+ * compatibility route (chat completions, Anthropic messages, ...) consumes these
+ * events, so exec request mapping, edit-flow reads, built-in tool execution and
+ * session reuse behave the same regardless of the API the client speaks.
+ */
+
+import {
+  createAgentServiceClient,
+  type AgentChatRequest,
+  type AgentStreamChunk,
+  type ExecRequest,
+  type InteractionQuery,
+} from "../api/agent-service";
+import type { AgentErrorKind } from "../api/proto/types";
+import { mapExecRequestToTool } from "./utils";
+import { executeBuiltinTool, refuseExecRequest, sendLocalReadResult } from "./builtin-tools";
+import type { ApprovalCallback } from "./approval";
+import type { WebProvider } from "./web-provider";
+import { CURSOR_SIDE_TOOL_TYPES, cursorToolCallToOpenCode, writeAsOpenCodeEdit } from "./tool-mapping";
+import {
+  ASK_QUESTION_TOOL_NAME,
+  answerInteractionQuery,
+  askQuestionResponse,
+  askQuestionToolArguments,
+  type AskQuestionQuery,
+} from "./interaction-queries";
+import {
+  cleanupExpiredSessions,
+  collectToolMessages,
+  createSessionId,
+  extractMessageContent,
+  findSessionIdInMessages,
+  makeCursorSideToolCallId,
+  makeToolCallId,
+  safeParseJson,
+  selectCallBase,
+  type OpenAIMessageLite,
+  type SessionLike,
+} from "../session-reuse";
+
+const SESSION_REUSE_TIMEOUT_MS = 15 * 60 * 1000;
+// How long to wait for further exec requests before returning a batch of tool calls
+const TOOL_CALL_BATCH_WINDOW_MS = 250;
+const sessionMap = new Map<string, TurnSession>();
+
+function sessionReuseEnabled(): boolean {
+  return process.env.CURSOR_SESSION_REUSE !== "0";
+}
+
+// --- Types ---
+
+export interface AgentTurnToolCall {
+  /** Position of the call within the assistant turn */
+  index: number;
+  /** Client-facing tool call ID (session-scoped when session reuse is active) */
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** The exec request behind the call; absent for calls made from an interaction query or a Cursor-side tool call */
+  execRequest?: ExecRequest;
+  interactionQuery?: InteractionQuery;
+}
+
+export type AgentTurnEvent =
+  | { type: "text"; content: string }
+  | { type: "thinking"; content: string }
+  | { type: "tool_call"; toolCall: AgentTurnToolCall }
+  /**
+   * errorType is the OpenAI-style error type (defaults to server_error);
+   * errorKind is set when the failure is tied to the account (rate limit or quota)
+   */
+  | { type: "error"; message: string; errorType?: string; errorKind?: AgentErrorKind; retryAfterMs?: number }
+  | { type: "end"; finishReason: "stop" | "tool_calls" };
+
+/** Client-side handlers for what the agent asks of the client, shared by every turn of a request handler */
+export interface AgentTurnHooks {
+  /** Asked before shell commands and writes run locally */
+  approve?: ApprovalCallback;
+  /** Fulfills web_search, exa_search and exa_fetch queries */
+  webProvider?: WebProvider;
+}
+
+interface TurnSession extends SessionLike {
+  /** The client that started the stream; later requests bring their own, which don't own it */
+  agentClient: ReturnType<typeof createAgentServiceClient>;
+  /** ask_question queries forwarded as tool calls, by tool call ID, awaiting the client's answer */
+  pendingQuestions: Map<string, AskQuestionQuery>;
+  /** A read left in flight by the previous turn; the next turn consumes it first */
+  pendingRead?: Promise<IteratorResult<unknown>>;
+}
+
+export interface AgentTurnParams extends AgentTurnHooks {
+  client: ReturnType<typeof createAgentServiceClient>;
+  request: AgentChatRequest;
+  /** Conversation history, used to locate the session a tool result belongs to */
+  messages: OpenAIMessageLite[];
+  /** Whether exec requests should be surfaced to the client as tool calls */
+  toolsProvided: boolean;
+  /** Refuse every exec request instead of running or forwarding it (tool_choice "none") */
+  refuseExecRequests?: boolean;
+  /** Tool call ID to use when session reuse is not active */
+  fallbackToolCallId: (index: number) => string;
+  /** Aborted when the client goes away; cancels the backend turn */
+  signal?: AbortSignal;
+  log: (message: string, ...args: unknown[]) => void;
+}
+
+// --- Session Handling ---
+
+/** Tool results answering the last assistant turn */
+function trailingToolMessages(messages: OpenAIMessageLite[]): OpenAIMessageLite[] {
+  return collectToolMessages(messages.slice(messages.findLastIndex(m => m.role === "assistant") + 1));
+}
+
+/**
+ * Send the client's ask_question results to the turn paused on them. Only done
+ * when the results answer nothing but pending questions: the agent waits for
+ * interaction responses on the open stream, while exec results need a fresh
+ * request (see session-reuse.ts).
+ */
+async function answerPendingQuestions(
+  session: TurnSession,
+  toolMessages: OpenAIMessageLite[],
+  log: AgentTurnParams["log"]
+): Promise<boolean> {
+  if (toolMessages.length === 0 || !toolMessages.every(m => session.pendingQuestions.has(m.tool_call_id ?? ""))) {
+    return false;
+  }
+  try {
+    for (const message of toolMessages) {
+      const toolCallId = message.tool_call_id ?? "";
+      const query = session.pendingQuestions.get(toolCallId);
+      if (!query) continue;
+      await session.agentClient.sendInteractionResponse(query.id, askQuestionResponse(query, extractMessageContent(message)));
+      session.pendingQuestions.delete(toolCallId);
+    }
+  } catch (err: unknown) {
+    log(`[Session ${session.id}] Failed to answer pending questions:`, err);
+    return false;
+  }
+  log(`[Session ${session.id}] Answered ${toolMessages.length} question(s); resuming the paused turn`);
+  session.state = "running";
+  return true;
+}
+
+async function acquireSession(params: AgentTurnParams): Promise<TurnSession> {
+  const { client, request, messages, log } = params;
+
+  await cleanupExpiredSessions(
+    sessionMap as unknown as Map<string, { iterator?: AsyncIterator<unknown>; lastActivity: number }>,
+    SESSION_REUSE_TIMEOUT_MS
+  );
+
+  // ARCHITECTURAL NOTE: We always start fresh requests when tool results arrive, unless they
+  // only answer questions the paused turn is waiting on (answerPendingQuestions).
+  // See session-reuse.ts for detailed explanation of why true session reuse isn't possible.
+  // The session infrastructure below is retained for internal read handling and future improvements.
+
+  const existingSessionId = findSessionIdInMessages(messages);
+  const toolMessages = collectToolMessages(messages);
+
+  log(`[Session Reuse] existingSessionId=${existingSessionId ?? "null"}, toolMessages.length=${toolMessages.length}`);
+  if (toolMessages.length > 0) {
+    log(`[Session Reuse] toolMessages tool_call_ids: ${toolMessages.map(m => m.tool_call_id).join(", ")}`);
+  }
+
+  let sessionId = existingSessionId ?? createSessionId();
+  let session = existingSessionId ? sessionMap.get(existingSessionId) : undefined;
+
+  log(`[Session Reuse] sessionId=${sessionId}, session found=${!!session}, sessionMap.size=${sessionMap.size}`);
+
+  if (toolMessages.length > 0 && session && await answerPendingQuestions(session, trailingToolMessages(messages), log)) {
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  // IMPORTANT: bidiAppend tool results don't trigger server continuation - start fresh request instead
+  if (toolMessages.length > 0 && session) {
+    log(`[Session Reuse] Tool messages present - closing old session ${sessionId} and starting fresh`);
+    session.abortController?.abort();
+    try {
+      await session.iterator.return?.();
+    } catch (err: unknown) {
+      log("[Session Reuse] Failed to close prior session iterator:", err);
+    }
+    sessionMap.delete(sessionId);
+    session = undefined;
+    sessionId = createSessionId();
+  }
+
+  if (session) {
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  log(`[Session Reuse] Creating NEW session ${sessionId}`);
+  const abortController = new AbortController();
+  const iterator = client.chatStream({ ...request, signal: abortController.signal })[Symbol.asyncIterator]();
+
+  session = {
+    id: sessionId,
+    iterator,
+    pendingExecs: new Map(),
+    createdAt: Date.now(),
+    lastActivity: Date.now(),
+    state: "running",
+    client: {
+      sendToolResult: client.sendToolResult.bind(client),
+      sendShellResult: client.sendShellResult.bind(client),
+      sendReadResult: client.sendReadResult.bind(client),
+      sendLsResult: client.sendLsResult.bind(client),
+      sendGrepResult: client.sendGrepResult.bind(client),
+      sendWriteResult: client.sendWriteResult.bind(client),
+      sendResumeAction: client.sendResumeAction.bind(client),
+    },
+    abortController,
+    agentClient: client,
+    pendingQuestions: new Map(),
+  };
+
+  sessionMap.set(sessionId, session);
+  return session;
+}
+
+// --- Turn Runner ---
+
+/** A native edit or apply_diff call's arguments as OpenCode edit arguments */
+function editArguments(toolCall: { toolType: string; arguments: string }): Record<string, unknown> | undefined {
+  const args = safeParseJson(toolCall.arguments);
+  return args ? cursorToolCallToOpenCode(toolCall.toolType, args)?.arguments : undefined;
+}
+
+/**
+ * Run one assistant turn, yielding text, thinking, tool calls and a terminal event.
+ *
+ * Session reuse is used when tools are provided (the turn may end in tool calls)
+ * or when the history carries tool results (a continuation). Otherwise the turn
+ * runs on a plain stream and built-in exec requests are executed locally.
+ *
+ * Exec requests issued together are batched: once the first one is mapped, the
+ * runner keeps reading until the server goes quiet (heartbeat, checkpoint, end
+ * of stream or TOOL_CALL_BATCH_WINDOW_MS without a chunk) and then yields every
+ * collected tool call before ending the turn with "tool_calls".
+ *
+ * Interaction queries are answered as they arrive (see interaction-queries.ts),
+ * except ask_question, which joins the batch as a call to the client's
+ * `ask_question` tool when it declares one and the turn runs on a session: the
+ * session stays paused on the question and the follow-up request answers it
+ * with the tool result instead of starting over. Cursor-side tool calls (CURSOR_SIDE_TOOL_TYPES:
+ * todos, tasks, deletes, web tools) join the batch, mapped to the client's tool, when the client declared one and
+ * no interaction query for the call was answered already.
+ *
+ * Aborting `signal` cancels the backend stream (including a reused session's)
+ * and ends the turn without a terminal event.
+ */
+export async function* runAgentTurn(params: AgentTurnParams): AsyncGenerator<AgentTurnEvent> {
+  const { request, messages, toolsProvided, fallbackToolCallId, signal, log } = params;
+
+  const hasToolMessages = messages.some(m => m.role === "tool" && m.tool_call_id);
+  const session = sessionReuseEnabled() && (toolsProvided || hasToolMessages)
+    ? await acquireSession(params)
+    : undefined;
+  // A reused session's stream belongs to the client that started it
+  const client = session?.agentClient ?? params.client;
+  const streamAbort = session?.abortController ?? new AbortController();
+  const iterator = session?.iterator ?? client.chatStream({ ...request, signal: streamAbort.signal })[Symbol.asyncIterator]();
+
+  // Only linked while this turn runs: a reused session's stream must survive the request that started it
+  const onAbort = () => {
+    log("[OpenAI Compat] Client disconnected; cancelling agent turn");
+    streamAbort.abort();
+  };
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  const batch: AgentTurnToolCall[] = [];
+  let pendingEditToolCall: string | null = null;
+  // Arguments of the native edit call as an OpenCode edit, when it carries oldString/newString
+  let pendingEditArgs: Record<string, unknown> | undefined;
+  const clientTools = new Set(request.tools?.map(tool => tool.function.name));
+  const clientHasEditTool = clientTools.has("edit");
+  // Tool calls already served through their interaction query (a web search answered by the provider)
+  const answeredToolCallIds = new Set<string>();
+  // A read that lost the race against the batch window; never awaited by this turn
+  let pendingNext: Promise<IteratorResult<unknown>> | null = null;
+  // Plain streams are owned by this turn; session streams outlive it while tool calls are pending
+  let closeIterator = !session;
+
+  const nextChunk = async (): Promise<IteratorResult<unknown> | "idle"> => {
+    const next = session?.pendingRead ?? iterator.next();
+    if (session) session.pendingRead = undefined;
+    if (batch.length === 0) return next;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const idle = new Promise<"idle">(resolve => {
+      timer = setTimeout(() => resolve("idle"), TOOL_CALL_BATCH_WINDOW_MS);
+    });
+    const result = await Promise.race([next, idle]);
+    clearTimeout(timer);
+    if (result === "idle") pendingNext = next;
+    return result;
+  };
+
+  function* emitBatch(): Generator<AgentTurnEvent> {
+    log(`[OpenAI Compat] Emitting ${batch.length} tool call(s)`);
+    for (const toolCall of batch) {
+      yield { type: "tool_call", toolCall };
+    }
+    yield { type: "end", finishReason: "tool_calls" };
+  }
+
+  try {
+    while (true) {
+      if (session) {
+        log(`[OpenAI Compat] Waiting for next chunk from iterator for session ${session.id}...`);
+      }
+      const result = await nextChunk();
+
+      if (signal?.aborted) {
+        if (session) sessionMap.delete(session.id);
+        closeIterator = true;
+        return;
+      }
+
+      if (result === "idle") {
+        yield* emitBatch();
+        return;
+      }
+
+      if (result.done) {
+        if (batch.length > 0) {
+          yield* emitBatch();
+          return;
+        }
+        if (session) sessionMap.delete(session.id);
+        yield { type: "end", finishReason: "stop" };
+        return;
+      }
+
+      const chunk = result.value as AgentStreamChunk;
+
+      if (chunk.type === "text" || chunk.type === "token") {
+        if (chunk.content) {
+          if (session) session.lastActivity = Date.now();
+          yield { type: "text", content: chunk.content };
+        }
+        continue;
+      }
+
+      if (chunk.type === "thinking") {
+        if (chunk.content) {
+          if (session) session.lastActivity = Date.now();
+          yield { type: "thinking", content: chunk.content };
+        }
+        continue;
+      }
+
+      if (chunk.type === "kv_blob_assistant" && chunk.blobContent) {
+        log("[OpenAI Compat] Emitting assistant content from KV blob");
+        if (session) session.lastActivity = Date.now();
+        yield { type: "text", content: chunk.blobContent };
+        continue;
+      }
+
+      // The server is waiting on the exec requests it has issued so far
+      if ((chunk.type === "heartbeat" || chunk.type === "checkpoint") && batch.length > 0) {
+        yield* emitBatch();
+        return;
+      }
+
+      if (chunk.type === "tool_call_started" && chunk.toolCall) {
+        // Track file-modifying tool calls
+        if (chunk.toolCall.name === "edit" || chunk.toolCall.name === "apply_diff") {
+          pendingEditToolCall = chunk.toolCall.callId;
+          pendingEditArgs = editArguments(chunk.toolCall);
+          log("[OpenAI Compat] File-modifying tool started, will handle internal read locally");
+        }
+        continue;
+      }
+
+      // Completed calls carry the final arguments
+      if (chunk.type === "tool_call_completed" && chunk.toolCall && chunk.toolCall.callId === pendingEditToolCall) {
+        pendingEditArgs = editArguments(chunk.toolCall) ?? pendingEditArgs;
+        continue;
+      }
+
+      if (
+        chunk.type === "tool_call_completed" && chunk.toolCall
+        && CURSOR_SIDE_TOOL_TYPES.has(chunk.toolCall.toolType)
+        && (toolsProvided || session) && !params.refuseExecRequests
+        && !answeredToolCallIds.has(chunk.toolCall.callId)
+      ) {
+        const mapped = cursorToolCallToOpenCode(chunk.toolCall.toolType, safeParseJson(chunk.toolCall.arguments) ?? {});
+        if (mapped && clientTools.has(mapped.name)) {
+          const index = batch.length;
+          // The ID marks the call as Cursor's, so the follow-up request replays it as the Cursor tool
+          const id = makeCursorSideToolCallId(session?.id, chunk.toolCall.callId);
+          if (session) {
+            session.state = "waiting_tool";
+            session.lastActivity = Date.now();
+          }
+          log(`[OpenAI Compat] Collected tool call: ${mapped.name} (Cursor tool: ${chunk.toolCall.toolType})`);
+          batch.push({ index, id, name: mapped.name, arguments: mapped.arguments });
+        }
+        continue;
+      }
+
+      if (chunk.type === "exec_request" && chunk.execRequest) {
+        const execReq = chunk.execRequest;
+
+        // Skip context requests
+        if (execReq.type === "request_context") {
+          continue;
+        }
+
+        if (params.refuseExecRequests) {
+          log(`[OpenAI Compat] Refusing ${execReq.type} exec request; this request allows no tools`);
+          await refuseExecRequest(client, execReq, "Tools are disabled for this request (tool_choice is \"none\")");
+          continue;
+        }
+
+        // Handle internal reads for edit flows
+        if (execReq.type === "read" && pendingEditToolCall) {
+          log("[OpenAI Compat] Handling internal read for edit flow locally");
+          await sendLocalReadResult(client, execReq);
+          if (session) {
+            try {
+              await client.sendResumeAction();
+            } catch (err: unknown) {
+              log("[OpenAI Compat] Failed to send ResumeAction:", err);
+            }
+          }
+          continue;
+        }
+
+        // Collect exec requests as tool calls when tools are provided (or a session is active)
+        if (toolsProvided || session) {
+          let { toolName, toolArgs } = mapExecRequestToTool(execReq);
+
+          // The write that finishes an edit goes to the client as an edit, so it shows as a diff
+          if (execReq.type === "write" && pendingEditToolCall && clientHasEditTool) {
+            const editArgs = await writeAsOpenCodeEdit(execReq, pendingEditArgs);
+            if (editArgs) {
+              toolName = "edit";
+              toolArgs = editArgs;
+            }
+            pendingEditToolCall = null;
+            pendingEditArgs = undefined;
+          }
+
+          if (toolName && toolArgs) {
+            const index = batch.length;
+            let id = fallbackToolCallId(index);
+
+            if (session) {
+              const callBase = selectCallBase(execReq);
+              id = makeToolCallId(session.id, callBase);
+              log(`[Session ${session.id}] Storing pendingExec: toolCallId=${id}, callBase=${callBase}, execReq.type=${execReq.type}, execReq.execId=${(execReq as { execId?: string }).execId ?? "undefined"}, execReq.id=${(execReq as { id?: number }).id ?? "undefined"}`);
+              session.pendingExecs.set(id, execReq);
+              session.state = "waiting_tool";
+              session.lastActivity = Date.now();
+            }
+
+            log(`[OpenAI Compat] Collected tool call: ${toolName} (type: ${execReq.type})`);
+            batch.push({ index, id, name: toolName, arguments: toolArgs, execRequest: execReq });
+            continue;
+          }
+        }
+
+        // Execute built-in tools internally
+        if (execReq.type !== "mcp") {
+          await executeBuiltinTool(client, execReq, log, { approve: params.approve });
+        }
+        continue;
+      }
+
+      if (chunk.type === "interaction_query" && chunk.interactionQuery) {
+        const query = chunk.interactionQuery;
+
+        // Questions go to the client, which answers them with a tool result
+        if (query.type === "ask_question" && session && clientTools.has(ASK_QUESTION_TOOL_NAME) && !params.refuseExecRequests) {
+          const index = batch.length;
+          const id = makeToolCallId(session.id, `askquestion${query.id}`);
+          session.pendingQuestions.set(id, query);
+          session.state = "waiting_tool";
+          session.lastActivity = Date.now();
+          log(`[OpenAI Compat] Forwarding ask_question query ${query.id} as a tool call`);
+          batch.push({ index, id, name: ASK_QUESTION_TOOL_NAME, arguments: askQuestionToolArguments(query), interactionQuery: query });
+          continue;
+        }
+
+        const response = await answerInteractionQuery(query, { mode: request.mode, webProvider: params.webProvider, signal });
+        if (response) {
+          log(`[OpenAI Compat] Answering ${query.type} query ${query.id}`);
+          if ("toolCallId" in query && query.toolCallId) answeredToolCallIds.add(query.toolCallId);
+          try {
+            await client.sendInteractionResponse(query.id, response);
+          } catch (err: unknown) {
+            log(`[OpenAI Compat] Failed to answer ${query.type} query:`, err);
+          }
+        }
+        continue;
+      }
+
+      if (chunk.type === "error") {
+        // The failed stream is done with: stop it before forgetting the session, or it lingers until the timeout
+        streamAbort.abort();
+        closeIterator = true;
+        if (session) sessionMap.delete(session.id);
+        yield {
+          type: "error",
+          message: chunk.error ?? "Unknown error",
+          ...(chunk.errorKind ? {
+            errorType: chunk.errorKind === "quota_exhausted" ? "insufficient_quota" : "rate_limit_exceeded",
+            errorKind: chunk.errorKind,
+            retryAfterMs: chunk.retryAfterMs,
+          } : {}),
+        };
+        return;
+      }
+
+      if (chunk.type === "done") {
+        if (batch.length > 0) {
+          yield* emitBatch();
+          return;
+        }
+        if (session) sessionMap.delete(session.id);
+        closeIterator = true;
+        yield { type: "end", finishReason: "stop" };
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    // (pendingNext is assigned inside nextChunk, which control-flow narrowing cannot see)
+    const inFlight = pendingNext as Promise<IteratorResult<unknown>> | null;
+    if (!closeIterator && session && inFlight) {
+      // The session stream stays open: its next chunk belongs to the turn that resumes it
+      session.pendingRead = inFlight;
+    }
+    if (closeIterator) {
+      const close = async () => {
+        try {
+          await iterator.return?.();
+        } catch (err: unknown) {
+          log("[OpenAI Compat] Failed to close agent stream:", err);
+        }
+      };
+      // An async generator cannot be closed while a read is in flight; close it once that read settles
+      if (inFlight) {
+        void inFlight.then(close, close);
+      } else {
+        await close();
+      }
+    }
+  }
+}
+
+// --- Cancellation ---
+
+export interface TurnCancellation {
+  /** Pass as the turn's signal: fires when the request is aborted or cancel() is called */
+  signal: AbortSignal;
+  /** Call from the response stream's cancel(), which fires without the request signal */
+  cancel: () => void;
+}
+
+/**
+ * Cancellation for a turn whose output is streamed back to the client
+ */
+export function createTurnCancellation(requestSignal: AbortSignal): TurnCancellation {
+  const cancelled = new AbortController();
+  return { signal: AbortSignal.any([requestSignal, cancelled.signal]), cancel: () => cancelled.abort() };
+}
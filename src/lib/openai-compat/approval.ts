@@ -0,0 +1,158 @@
+/**
+ * Exec Approval
+ *
+ * Lets a person (or a permission config) approve, deny or edit the shell
+ * commands and file writes the proxy is about to run for the agent. Requests
+ * forwarded to the client as tool calls are approved by the client instead.
+ */
+
+import { createInterface } from "node:readline";
+import type { ExecRequest } from "../api/agent-service";
+import { matchesCommandPattern, splitShellCommands } from "./execution-policy";
+
+export type ShellExecRequest = Extract<ExecRequest, { type: "shell" }>;
+export type WriteExecRequest = Extract<ExecRequest, { type: "write" }>;
+export type ApprovableExecRequest = ShellExecRequest | WriteExecRequest;
+
+export interface ApprovalRequest {
+  execRequest: ApprovableExecRequest;
+  /** Unified diff of the file before and after, for writes */
+  diff?: string;
+}
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "deny"; reason?: string }
+  /** Run this request instead (same type as the original) */
+  | { action: "edit"; execRequest: ApprovableExecRequest };
+
+export type ApprovalCallback = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+export function isApprovableExecRequest(execReq: ExecRequest): execReq is ApprovableExecRequest {
+  return execReq.type === "shell" || execReq.type === "write";
+}
+
+// --- Terminal ---
+
+export interface TerminalApproverOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+}
+
+function describeRequest({ execRequest, diff }: ApprovalRequest): string {
+  if (execRequest.type === "shell") {
+    return `The agent wants to run a shell command in ${execRequest.cwd || process.cwd()}:\n\n  $ ${execRequest.command}\n`;
+  }
+  return `The agent wants to write ${execRequest.path}:\n\n${diff || "(no changes)"}\n`;
+}
+
+/**
+ * Ask on the terminal. Questions are asked one at a time; without an
+ * interactive terminal every request is denied.
+ */
+export function createTerminalApprover(options: TerminalApproverOptions = {}): ApprovalCallback {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stderr;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const ask = async (request: ApprovalRequest): Promise<ApprovalDecision> => {
+    if (input === process.stdin && !process.stdin.isTTY) {
+      return { action: "deny", reason: "no terminal is attached to approve it" };
+    }
+
+    const rl = createInterface({ input, terminal: false });
+    // Lines are buffered, so answers typed ahead (or piped in) aren't lost
+    const lines = rl[Symbol.asyncIterator]();
+    const question = async (prompt: string): Promise<string> => {
+      output.write(prompt);
+      const line = await lines.next();
+      return line.done ? "" : line.value.trim();
+    };
+
+    try {
+      output.write(`\n${describeRequest(request)}\n`);
+      const canEdit = request.execRequest.type === "shell";
+      while (true) {
+        const answer = (await question(canEdit ? "Allow? [y]es / [n]o / [e]dit: " : "Allow? [y]es / [n]o: ")).toLowerCase();
+        if (answer === "y" || answer === "yes") return { action: "approve" };
+        if (answer === "n" || answer === "no" || answer === "") return { action: "deny", reason: "denied by the user" };
+        if (canEdit && (answer === "e" || answer === "edit") && request.execRequest.type === "shell") {
+          const command = await question("Command to run instead: ");
+          if (command) return { action: "edit", execRequest: { ...request.execRequest, command } };
+        }
+      }
+    } finally {
+      rl.close();
+    }
+  };
+
+  return (request) => {
+    const decision = queue.then(() => ask(request));
+    queue = decision.catch(() => {});
+    return decision;
+  };
+}
+
+// --- OpenCode Permissions ---
+
+export type PermissionSetting = "ask" | "allow" | "deny";
+
+/** The `permission` section of an OpenCode config */
+export interface OpenCodePermissionConfig {
+  edit?: PermissionSetting;
+  bash?: PermissionSetting | Record<string, PermissionSetting>;
+}
+
+const RESTRICTIVENESS: Record<PermissionSetting, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * The setting for a simple command: the most specific matching pattern wins
+ */
+function patternPermission(bash: Record<string, PermissionSetting>, command: string): PermissionSetting {
+  const pattern = Object.keys(bash)
+    .sort((a, b) => b.length - a.length)
+    .find(key => matchesCommandPattern(command, key));
+  return pattern ? bash[pattern] ?? "allow" : "allow";
+}
+
+/**
+ * The setting for a command line: each command it runs is checked and the most
+ * restrictive setting wins, so "git status && rm -rf ." can't pass as "git *"
+ */
+function bashPermission(bash: OpenCodePermissionConfig["bash"], command: string): PermissionSetting | undefined {
+  if (bash === undefined || typeof bash === "string") return bash;
+  return splitShellCommands(command)
+    .map(part => patternPermission(bash, part))
+    .reduce<PermissionSetting>((most, setting) => RESTRICTIVENESS[setting] > RESTRICTIVENESS[most] ? setting : most, "allow");
+}
+
+/**
+ * Apply OpenCode's `permission.bash` and `permission.edit` settings. OpenCode
+ * can't be asked to prompt from inside a model request, so "ask" is treated as
+ * a denial the agent is told about. Unset settings allow, as in OpenCode.
+ */
+export function createOpenCodePermissionApprover(
+  getPermissions: () => OpenCodePermissionConfig | undefined
+): ApprovalCallback {
+  return async ({ execRequest }) => {
+    const permissions = getPermissions();
+    // Substitutions run commands the patterns can't see
+    if (execRequest.type === "shell" && typeof permissions?.bash === "object" && /\$\(|`/.test(execRequest.command)) {
+      return { action: "deny", reason: `command substitution can't be checked against OpenCode's "bash" permission patterns` };
+    }
+    const [setting, key] = execRequest.type === "shell"
+      ? [bashPermission(permissions?.bash, execRequest.command), "bash"]
+      : [permissions?.edit, "edit"];
+
+    if (setting === "deny") {
+      return { action: "deny", reason: `OpenCode's "${key}" permission denies it` };
+    }
+    if (setting === "ask") {
+      return {
+        action: "deny",
+        reason: `OpenCode's "${key}" permission requires approval, which isn't possible for commands the agent runs directly. Ask the user to run it, or to allow it in the OpenCode config`,
+      };
+    }
+    return { action: "approve" };
+  };
+}
@@ -0,0 +1,394 @@
+/**
+ * Built-in Tool Execution
+ *
+ * Executes Cursor's built-in exec requests (shell, read, ls, grep, write)
+ * locally and sends the results back over the active agent stream. Used when
+ * the client did not provide tools, and for the internal reads Cursor issues
+ * while applying edits.
+ *
+ * Every request is checked against the execution policy first, and shell
+ * commands and writes then go through the approval callback when one is set.
+ * Violations and denials go back to the agent as the request's own error result.
+ */
+
+import { mkdir, readdir } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { createAgentServiceClient, ExecRequest } from "../api/agent-service";
+import { createUnifiedDiff } from "../utils/diff";
+import {
+  isApprovableExecRequest,
+  type ApprovableExecRequest,
+  type ApprovalCallback,
+  type ShellExecRequest,
+  type WriteExecRequest,
+} from "./approval";
+import {
+  captureCapped,
+  checkCommand,
+  executionPolicyFromEnv,
+  resolveToolPath,
+  type ExecutionPolicy,
+} from "./execution-policy";
+
+type AgentClient = ReturnType<typeof createAgentServiceClient>;
+type ReadExecRequest = Extract<ExecRequest, { type: "read" }>;
+type GrepExecRequest = Extract<ExecRequest, { type: "grep" }>;
+
+export interface LocalExecutionOptions {
+  /** Limits on what may run (defaults to the policy from the environment) */
+  policy?: ExecutionPolicy;
+  /** Asked before shell commands and writes run */
+  approve?: ApprovalCallback;
+}
+
+// Exit codes reported for commands that didn't run to completion, as in timeout(1) and sh
+const EXIT_TIMED_OUT = 124;
+const EXIT_NOT_EXECUTED = 126;
+// How long to wait for output after killing a command (at least, for a command that exited in time)
+const KILL_GRACE_MS = 1000;
+
+/**
+ * Read a file locally and send it back as the result of a read exec request
+ */
+export async function sendLocalReadResult(
+  client: AgentClient,
+  execReq: ReadExecRequest,
+  policy: ExecutionPolicy = executionPolicyFromEnv()
+): Promise<void> {
+  const resolved = resolveToolPath(policy, execReq.path);
+  if ("error" in resolved) {
+    await client.sendReadResult(execReq.id, execReq.execId, `Error: Blocked by execution policy: ${resolved.error}`, execReq.path, 0, 0n, false);
+    return;
+  }
+
+  try {
+    const file = Bun.file(resolved.path);
+    const content = await file.text();
+    const stats = await file.stat();
+    const totalLines = content.split("\n").length;
+    await client.sendReadResult(execReq.id, execReq.execId, content, execReq.path, totalLines, BigInt(stats.size), false);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    await client.sendReadResult(execReq.id, execReq.execId, `Error: ${message}`, execReq.path, 0, 0n, false);
+  }
+}
+
+async function runShell(
+  client: AgentClient,
+  execReq: ShellExecRequest,
+  policy: ExecutionPolicy,
+  log: (message: string, ...args: unknown[]) => void
+): Promise<void> {
+  const startTime = Date.now();
+  const sendRefusal = (cwd: string, reason: string) =>
+    client.sendShellResult(execReq.id, execReq.execId, execReq.command, cwd, "", reason, EXIT_NOT_EXECUTED, 0);
+
+  const requestedCwd = execReq.cwd || policy.workspaceRoot || process.cwd();
+  const cwdResult = resolveToolPath(policy, requestedCwd);
+  if ("error" in cwdResult) {
+    log(`[Execution Policy] Refused shell command: ${cwdResult.error}`);
+    await sendRefusal(requestedCwd, `Blocked by execution policy: ${cwdResult.error}`);
+    return;
+  }
+  const cwd = cwdResult.path;
+
+  const check = checkCommand(policy, execReq.command);
+  if (check.error) {
+    log(`[Execution Policy] Refused shell command: ${check.error}`);
+    await sendRefusal(cwd, `Blocked by execution policy: ${check.error}`);
+    return;
+  }
+
+  if (policy.dryRun) {
+    log(`[Execution Policy] Dry run, not executing: ${execReq.command}`);
+    await sendRefusal(cwd, `Dry run: would run \`${execReq.command}\` in ${cwd}`);
+    return;
+  }
+
+  try {
+    // In its own process group, so a timeout kills everything the command started
+    const proc = Bun.spawn(["sh", "-c", execReq.command], { cwd, stdout: "pipe", stderr: "pipe", detached: true });
+    const stdout = captureCapped(proc.stdout, policy.maxOutputBytes);
+    const stderr = captureCapped(proc.stderr, policy.maxOutputBytes);
+
+    const killGroup = () => {
+      try {
+        process.kill(-proc.pid, "SIGKILL");
+      } catch {
+        proc.kill("SIGKILL");
+      }
+    };
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, policy.commandTimeoutMs);
+    const exitCode = await proc.exited;
+    clearTimeout(timer);
+
+    // Background children may still hold the pipes open; don't wait for them past the timeout
+    const outputDone = Promise.all([stdout.done, stderr.done]).then(() => true);
+    const outputWaitMs = timedOut
+      ? KILL_GRACE_MS
+      : Math.max(policy.commandTimeoutMs - (Date.now() - startTime), KILL_GRACE_MS);
+    const outputClosed = await Promise.race([outputDone, Bun.sleep(outputWaitMs).then(() => false)]);
+    if (!outputClosed && !timedOut) {
+      killGroup();
+      await Promise.race([outputDone, Bun.sleep(KILL_GRACE_MS)]);
+    }
+
+    const executionTimeMs = Date.now() - startTime;
+    const stderrText = timedOut
+      ? `${stderr.text()}\nCommand timed out after ${policy.commandTimeoutMs}ms and was killed`
+      : outputClosed
+        ? stderr.text()
+        : `${stderr.text()}\nBackground processes still holding the output open after ${policy.commandTimeoutMs}ms were killed`;
+    await client.sendShellResult(
+      execReq.id, execReq.execId, execReq.command, cwd,
+      stdout.text(), stderrText, timedOut ? EXIT_TIMED_OUT : exitCode, executionTimeMs
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    const executionTimeMs = Date.now() - startTime;
+    await client.sendShellResult(execReq.id, execReq.execId, execReq.command, cwd, "", `Error: ${message}`, 1, executionTimeMs);
+  }
+}
+
+async function runGrep(
+  client: AgentClient,
+  execReq: GrepExecRequest,
+  policy: ExecutionPolicy,
+  log: (message: string, ...args: unknown[]) => void
+): Promise<void> {
+  const query = execReq.pattern || execReq.glob || "";
+  const searchPath = execReq.path || policy.workspaceRoot || process.cwd();
+  const sendError = (error: string) => client.sendGrepResult(execReq.id, execReq.execId, query, searchPath, [], error);
+
+  const resolved = resolveToolPath(policy, searchPath);
+  if ("error" in resolved) {
+    log(`[Execution Policy] Refused grep: ${resolved.error}`);
+    await sendError(`Blocked by execution policy: ${resolved.error}`);
+    return;
+  }
+
+  try {
+    let files: string[] = [];
+    if (execReq.glob) {
+      // "../" segments in the glob can reach outside the search path; keep matches the policy allows
+      const globber = new Bun.Glob(execReq.glob);
+      files = Array.from(globber.scanSync(resolved.path))
+        .filter(match => !("error" in resolveToolPath(policy, join(resolved.path, match))));
+    } else if (execReq.pattern) {
+      // -e and -- keep patterns like --pre=<cmd> from being read as options
+      const rg = Bun.spawn(["rg", "-l", "-e", execReq.pattern, "--", resolved.path], { stdout: "pipe", stderr: "pipe" });
+      const [stdout, stderr, exitCode] = await Promise.all([
+        new Response(rg.stdout).text(),
+        new Response(rg.stderr).text(),
+        rg.exited,
+      ]);
+      // rg exits with 1 when nothing matched and 2 on errors
+      if (exitCode > 1) {
+        await sendError(stderr.trim() || `rg exited with code ${exitCode}`);
+        return;
+      }
+      files = stdout.split("\n").filter(f => f.length > 0);
+    }
+    await client.sendGrepResult(execReq.id, execReq.execId, query, searchPath, files);
+  } catch (err: unknown) {
+    await sendError(err instanceof Error ? err.message : "Unknown error");
+  }
+}
+
+async function runWrite(
+  client: AgentClient,
+  execReq: WriteExecRequest,
+  policy: ExecutionPolicy,
+  log: (message: string, ...args: unknown[]) => void
+): Promise<void> {
+  const resolved = resolveToolPath(policy, execReq.path);
+  if ("error" in resolved) {
+    log(`[Execution Policy] Refused write: ${resolved.error}`);
+    await client.sendWriteResult(execReq.id, execReq.execId, {
+      error: { path: execReq.path, error: `Blocked by execution policy: ${resolved.error}` },
+    });
+    return;
+  }
+
+  const content = execReq.fileBytes && execReq.fileBytes.length > 0
+    ? execReq.fileBytes
+    : execReq.fileText;
+
+  if (policy.dryRun) {
+    const size = typeof content === "string" ? Buffer.byteLength(content) : content.length;
+    log(`[Execution Policy] Dry run, not writing: ${resolved.path}`);
+    await client.sendWriteResult(execReq.id, execReq.execId, {
+      error: { path: execReq.path, error: `Dry run: would write ${size} bytes to ${resolved.path}` },
+    });
+    return;
+  }
+
+  try {
+    await mkdir(dirname(resolved.path), { recursive: true });
+    await Bun.write(resolved.path, content);
+
+    const file = Bun.file(resolved.path);
+    const stats = await file.stat();
+    const linesCreated = typeof content === "string"
+      ? content.split("\n").length
+      : new TextDecoder().decode(content).split("\n").length;
+
+    await client.sendWriteResult(execReq.id, execReq.execId, {
+      success: {
+        path: execReq.path,
+        linesCreated,
+        fileSize: Number(stats.size),
+        fileContentAfterWrite: execReq.returnFileContentAfterWrite ? await file.text() : undefined,
+      },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    await client.sendWriteResult(execReq.id, execReq.execId, {
+      error: { path: execReq.path, error: message },
+    });
+  }
+}
+
+// --- Approval ---
+
+/**
+ * Why the policy would refuse a request; such requests aren't put up for approval
+ */
+function policyViolation(policy: ExecutionPolicy, execReq: ApprovableExecRequest): string | undefined {
+  if (execReq.type === "shell") {
+    const cwd = resolveToolPath(policy, execReq.cwd || policy.workspaceRoot || process.cwd());
+    if ("error" in cwd) return cwd.error;
+    return checkCommand(policy, execReq.command).error;
+  }
+  const resolved = resolveToolPath(policy, execReq.path);
+  return "error" in resolved ? resolved.error : undefined;
+}
+
+async function writeDiff(policy: ExecutionPolicy, execReq: WriteExecRequest): Promise<string> {
+  const resolved = resolveToolPath(policy, execReq.path);
+  let before = "";
+  try {
+    if ("path" in resolved) before = await Bun.file(resolved.path).text();
+  } catch {
+    // New file
+  }
+  const after = execReq.fileBytes && execReq.fileBytes.length > 0
+    ? new TextDecoder().decode(execReq.fileBytes)
+    : execReq.fileText;
+  return createUnifiedDiff(execReq.path, before, after);
+}
+
+/**
+ * Answer an exec request with an error result of its own type, without running it
+ */
+export async function refuseExecRequest(client: AgentClient, execReq: ExecRequest, message: string): Promise<void> {
+  switch (execReq.type) {
+    case "shell":
+      await client.sendShellResult(
+        execReq.id, execReq.execId, execReq.command, execReq.cwd || process.cwd(), "", message, EXIT_NOT_EXECUTED, 0
+      );
+      break;
+    case "write":
+      await client.sendWriteResult(execReq.id, execReq.execId, { error: { path: execReq.path, error: message } });
+      break;
+    case "read":
+      await client.sendReadResult(execReq.id, execReq.execId, `Error: ${message}`, execReq.path, 0, 0n, false);
+      break;
+    case "ls":
+      await client.sendLsResult(execReq.id, execReq.execId, `Error: ${message}`);
+      break;
+    case "grep":
+      await client.sendGrepResult(execReq.id, execReq.execId, execReq.pattern || execReq.glob || "", execReq.path || "", [], message);
+      break;
+    case "mcp":
+      await client.sendToolResult(execReq, { error: message });
+      break;
+    case "request_context":
+      break;
+  }
+}
+
+/**
+ * Put a request up for approval. Returns the request to run (possibly edited),
+ * or undefined after sending the denial to the agent.
+ */
+async function requestApproval(
+  client: AgentClient,
+  execReq: ApprovableExecRequest,
+  approve: ApprovalCallback,
+  policy: ExecutionPolicy,
+  log: (message: string, ...args: unknown[]) => void
+): Promise<ApprovableExecRequest | undefined> {
+  let reason: string;
+  try {
+    const diff = execReq.type === "write" ? await writeDiff(policy, execReq) : undefined;
+    const decision = await approve({ execRequest: execReq, diff });
+    if (decision.action === "approve") return execReq;
+    if (decision.action === "edit") {
+      if (decision.execRequest.type === execReq.type) {
+        log(`[Approval] ${execReq.type} request edited before running`);
+        // The edit can't redirect the result to another exec request
+        return { ...decision.execRequest, id: execReq.id, execId: execReq.execId } as ApprovableExecRequest;
+      }
+      reason = `an edit can't turn a ${execReq.type} request into a ${decision.execRequest.type} request`;
+    } else {
+      reason = decision.reason ?? "denied";
+    }
+  } catch (err: unknown) {
+    reason = `approval failed: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  log(`[Approval] ${execReq.type} request denied: ${reason}`);
+  await refuseExecRequest(client, execReq, `Denied: ${reason}`);
+  return undefined;
+}
+
+/**
+ * Execute built-in tool internally
+ */
+export async function executeBuiltinTool(
+  client: AgentClient,
+  request: ExecRequest,
+  log: (message: string, ...args: unknown[]) => void,
+  options: LocalExecutionOptions = {}
+): Promise<void> {
+  log(`[OpenAI Compat] Executing built-in tool internally: ${request.type}`);
+  const policy = options.policy ?? executionPolicyFromEnv();
+
+  let execReq = request;
+  // Nothing runs in a dry run, and policy violations are refused without asking
+  if (options.approve && isApprovableExecRequest(execReq) && !policy.dryRun && !policyViolation(policy, execReq)) {
+    const approved = await requestApproval(client, execReq, options.approve, policy, log);
+    if (!approved) return;
+    execReq = approved;
+  }
+
+  if (execReq.type === "shell") {
+    await runShell(client, execReq, policy, log);
+  } else if (execReq.type === "read") {
+    await sendLocalReadResult(client, execReq, policy);
+  } else if (execReq.type === "ls") {
+    const resolved = resolveToolPath(policy, execReq.path);
+    if ("error" in resolved) {
+      await client.sendLsResult(execReq.id, execReq.execId, `Error: Blocked by execution policy: ${resolved.error}`);
+      return;
+    }
+    try {
+      const entries = await readdir(resolved.path, { withFileTypes: true });
+      const files = entries.map(e => e.isDirectory() ? `${e.name}/` : e.name).join("\n");
+      await client.sendLsResult(execReq.id, execReq.execId, files);
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      await client.sendLsResult(execReq.id, execReq.execId, `Error: ${message}`);
+    }
+  } else if (execReq.type === "grep") {
+    await runGrep(client, execReq, policy, log);
+  } else if (execReq.type === "write") {
+    await runWrite(client, execReq, policy, log);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Structured Conversation State
+ *
+ * Builds agent chat requests that carry prior turns as structured
+ * conversation state (user / assistant / tool messages with real tool-call and
+ * tool-result parts) rather than a flattened transcript. Opt-in with
+ * CURSOR_STRUCTURED_STATE=1: the ConversationStateStructure blob layout and the
+ * ResumeAction request_context haven't been checked against Cursor's backend
+ * (the mock server mirrors this encoding), so messagesToPrompt() stays the
+ * default.
+ */
+
+import type {
+  AgentChatRequest,
+  ConversationStateMessage,
+} from "../api/agent-service";
+import { safeParseJson } from "../session-reuse";
+import { cursorSideToolCall } from "./tool-mapping";
+import type { OpenAIMessage, OpenAIToolCall } from "./types";
+import { extractTextContent, messagesToPrompt } from "./utils";
+
+function structuredStateEnabled(): boolean {
+  return process.env.CURSOR_STRUCTURED_STATE === "1";
+}
+
+/** A tool call as the agent sees it: calls handed over from Cursor's side go back as the Cursor tool */
+function agentToolCall(tc: OpenAIToolCall): { toolName: string; args: Record<string, unknown> } {
+  const args = safeParseJson(tc.function.arguments) ?? {};
+  const cursorCall = cursorSideToolCall(tc.id, tc.function.name, args);
+  return cursorCall ? { toolName: cursorCall.name, args: cursorCall.arguments } : { toolName: tc.function.name, args };
+}
+
+/**
+ * Convert OpenAI messages to conversation state messages
+ */
+export function toConversationStateMessages(messages: OpenAIMessage[]): ConversationStateMessage[] {
+  const toolNames = new Map<string, string>();
+  for (const msg of messages) {
+    for (const tc of msg.tool_calls ?? []) {
+      toolNames.set(tc.id, agentToolCall(tc).toolName);
+    }
+  }
+
+  return messages.map((msg): ConversationStateMessage => {
+    const text = extractTextContent(msg.content);
+
+    if (msg.role === "system") {
+      return { role: "system", content: text };
+    }
+
+    if (msg.role === "assistant") {
+      return {
+        role: "assistant",
+        content: [
+          ...(text ? [{ type: "text" as const, text }] : []),
+          ...(msg.tool_calls ?? []).map(tc => ({
+            type: "tool-call" as const,
+            toolCallId: tc.id,
+            ...agentToolCall(tc),
+          })),
+        ],
+      };
+    }
+
+    if (msg.role === "tool") {
+      const toolCallId = msg.tool_call_id ?? "";
+      return {
+        role: "tool",
+        content: [{
+          type: "tool-result",
+          toolCallId,
+          toolName: toolNames.get(toolCallId) ?? "unknown",
+          result: text,
+        }],
+      };
+    }
+
+    return { role: "user", content: [{ type: "text", text }] };
+  });
+}
+
+/**
+ * Split a conversation into prior turns and the action that starts this run.
+ *
+ * - Ends with a user message: that message is sent as the new user turn
+ * - Ends with tool results: everything is history and the run resumes from it
+ * - Anything else cannot be expressed structurally (returns null)
+ */
+export function messagesToConversationState(
+  messages: OpenAIMessage[]
+): Pick<AgentChatRequest, "message" | "history" | "resume"> | null {
+  const last = messages[messages.length - 1];
+  if (!last) return null;
+
+  if (last.role === "user") {
+    return {
+      message: extractTextContent(last.content),
+      history: toConversationStateMessages(messages.slice(0, -1)),
+      resume: false,
+    };
+  }
+
+  if (last.role === "tool") {
+    return {
+      message: "",
+      history: toConversationStateMessages(messages),
+      resume: true,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build the agent chat request for a conversation, using structured state when
+ * enabled and falling back to a flattened prompt otherwise.
+ */
+export function buildAgentChatRequest(
+  messages: OpenAIMessage[],
+  options: Omit<AgentChatRequest, "message" | "history" | "resume">
+): AgentChatRequest {
+  if (structuredStateEnabled()) {
+    const state = messagesToConversationState(messages);
+    if (state) {
+      return { ...options, ...state };
+    }
+  }
+
+  return { ...options, message: messagesToPrompt(messages) };
+}
@@ -0,0 +1,185 @@
+/**
+ * Execution Policy
+ *
+ * Limits what built-in tools may do when the proxy executes Cursor's exec
+ * requests itself: which paths they may touch, which shell commands may run,
+ * how long commands may take and how much output they may return. A dry run
+ * reports shell commands and writes instead of performing them.
+ */
+
+import { realpathSync } from "node:fs";
+import { dirname, isAbsolute, relative, resolve, sep } from "node:path";
+
+export interface ExecutionPolicy {
+  /** Read, write, ls, grep and shell working directories must stay inside this directory; unset allows any path */
+  workspaceRoot?: string;
+  /** When non-empty, every shell command must match one of these globs */
+  allowCommands: string[];
+  /** Shell commands matching any of these globs are refused */
+  denyCommands: string[];
+  /** Report shell commands and writes instead of performing them */
+  dryRun: boolean;
+  /** Kill shell commands that run longer than this */
+  commandTimeoutMs: number;
+  /** Truncate shell stdout and stderr beyond this many bytes each */
+  maxOutputBytes: number;
+}
+
+export const DEFAULT_EXECUTION_POLICY: ExecutionPolicy = {
+  allowCommands: [],
+  denyCommands: [],
+  dryRun: false,
+  commandTimeoutMs: 2 * 60 * 1000,
+  maxOutputBytes: 1024 * 1024,
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function parsePositive(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Build the policy from CURSOR_WORKSPACE_ROOT, CURSOR_SHELL_ALLOW,
+ * CURSOR_SHELL_DENY (comma-separated globs), CURSOR_TOOL_DRY_RUN,
+ * CURSOR_SHELL_TIMEOUT_MS and CURSOR_SHELL_MAX_OUTPUT
+ */
+export function executionPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): ExecutionPolicy {
+  return {
+    workspaceRoot: env.CURSOR_WORKSPACE_ROOT ? resolve(env.CURSOR_WORKSPACE_ROOT) : undefined,
+    allowCommands: parseList(env.CURSOR_SHELL_ALLOW),
+    denyCommands: parseList(env.CURSOR_SHELL_DENY),
+    dryRun: env.CURSOR_TOOL_DRY_RUN === "1",
+    commandTimeoutMs: parsePositive(env.CURSOR_SHELL_TIMEOUT_MS, DEFAULT_EXECUTION_POLICY.commandTimeoutMs),
+    maxOutputBytes: parsePositive(env.CURSOR_SHELL_MAX_OUTPUT, DEFAULT_EXECUTION_POLICY.maxOutputBytes),
+  };
+}
+
+// --- Paths ---
+
+/**
+ * Resolve symlinks in the longest existing prefix of a path, so a link inside
+ * the workspace can't point a new file outside of it
+ */
+function realpathOfExisting(path: string): string {
+  let existing = path;
+  const rest: string[] = [];
+  while (true) {
+    try {
+      return resolve(realpathSync(existing), ...rest);
+    } catch {
+      const parent = dirname(existing);
+      if (parent === existing) return path;
+      rest.unshift(relative(parent, existing));
+      existing = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a tool path against the workspace. Relative paths are taken from
+ * `cwd`, else the workspace root (else the process working directory).
+ */
+export function resolveToolPath(
+  policy: ExecutionPolicy,
+  path: string,
+  cwd?: string
+): { path: string } | { error: string } {
+  const base = cwd ?? policy.workspaceRoot ?? process.cwd();
+  const absolute = resolve(base, path);
+  if (!policy.workspaceRoot) return { path: absolute };
+
+  const root = realpathOfExisting(policy.workspaceRoot);
+  const fromRoot = relative(root, realpathOfExisting(absolute));
+  if (fromRoot === ".." || fromRoot.startsWith(`..${sep}`) || isAbsolute(fromRoot)) {
+    return { error: `${path} is outside the workspace root ${policy.workspaceRoot}` };
+  }
+  return { path: absolute };
+}
+
+// --- Commands ---
+
+/**
+ * Whether a command matches a glob: `*` matches any characters, `?` one
+ */
+export function matchesCommandPattern(command: string, pattern: string): boolean {
+  const source = pattern
+    .split("")
+    .map(char => char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
+  return new RegExp(`^${source}$`, "s").test(command.trim());
+}
+
+/**
+ * Split a command line into the simple commands it runs, so "git status && rm -rf ."
+ * is checked as both "git status" and "rm -rf ."
+ */
+export function splitShellCommands(command: string): string[] {
+  return command
+    // "&" in redirections like 2>&1 doesn't start a new command
+    .split(/&&|\|\||[;|\n]|(?<![<>])&(?!>)/)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
+
+/**
+ * Check a shell command against the allowlist and denylist
+ */
+export function checkCommand(policy: ExecutionPolicy, command: string): { error?: string } {
+  const parts = splitShellCommands(command);
+
+  for (const part of [command, ...parts]) {
+    const denied = policy.denyCommands.find(pattern => matchesCommandPattern(part, pattern));
+    if (denied) return { error: `"${part}" matches the denied pattern "${denied}"` };
+  }
+
+  if (policy.allowCommands.length > 0) {
+    // Substitutions run commands the allowlist can't see
+    if (/\$\(|`/.test(command)) {
+      return { error: "command substitution is not allowed when an allowlist is set" };
+    }
+    const notAllowed = parts.find(part => !policy.allowCommands.some(pattern => matchesCommandPattern(part, pattern)));
+    if (notAllowed !== undefined) return { error: `"${notAllowed}" is not in the allowed commands` };
+  }
+  return {};
+}
+
+// --- Output ---
+
+export interface CappedOutput {
+  /** Resolves once the stream has ended */
+  done: Promise<void>;
+  /** What was captured so far, with a note when bytes were dropped */
+  text(): string;
+}
+
+/**
+ * Capture a process stream, keeping at most `maxBytes` of it. The rest is
+ * drained so the process doesn't block on a full pipe.
+ */
+export function captureCapped(stream: ReadableStream<Uint8Array>, maxBytes: number): CappedOutput {
+  const chunks: Uint8Array[] = [];
+  let kept = 0;
+  let total = 0;
+  const done = (async () => {
+    for await (const chunk of stream) {
+      total += chunk.length;
+      if (kept < maxBytes) {
+        const slice = chunk.subarray(0, maxBytes - kept);
+        chunks.push(slice);
+        kept += slice.length;
+      }
+    }
+  })().catch(() => {});
+
+  return {
+    done,
+    text() {
+      const text = new TextDecoder().decode(Buffer.concat(chunks));
+      return total > kept ? `${text}\n[output truncated: ${total - kept} of ${total} bytes omitted]` : text;
+    },
+  };
+}
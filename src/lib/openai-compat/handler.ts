@@ -7,24 +7,25 @@
  */
 
 import {
-  createAgentServiceClient,
   AgentMode,
+  type AgentImageAttachment,
   type OpenAIToolDefinition,
-  type ExecRequest,
 } from "../api/agent-service";
-import { CursorClient } from "../api/cursor-client";
-import { listCursorModels } from "../api/cursor-models";
+import { getCachedModels, resolveModel, type CursorModelInfo } from "../api/cursor-models";
 import type {
+  OpenAIChatChoice,
   OpenAIChatRequest,
+  OpenAIChatResponse,
   OpenAIMessage,
   OpenAIModel,
   OpenAIModelsResponse,
+  OpenAIResponseFormat,
   OpenAIStreamChunk,
+  OpenAIToolCall,
 } from "./types";
 import {
   generateCompletionId,
   messagesToPrompt,
-  mapExecRequestToTool,
   createErrorResponse,
   createSSEChunk,
   createSSEDone,
@@ -34,84 +35,44 @@ import {
   createStreamChunk,
   generateToolCallId,
 } from "./utils";
+import { createTurnCancellation, runAgentTurn, type AgentTurnEvent, type AgentTurnHooks } from "./agent-turn";
+import { collectImageAttachments } from "./images";
+import { buildAgentChatRequest } from "./conversation-state";
+import { enforceToolChoice, normalizeOpenAIToolChoice, resolveToolChoice, type ToolChoice } from "./tool-choice";
+import { isStructuredFormat, runStructuredTurn, withResponseFormatInstruction } from "./structured-output";
+import { handleResponses, handleGetResponse } from "./responses";
 import { calculateTokenUsage } from "../utils/tokenizer";
-import type { CursorModelInfo } from "../api/cursor-models";
-import {
-  cleanupExpiredSessions,
-  collectToolMessages,
-  createSessionId,
-  findSessionIdInMessages,
-  makeToolCallId,
-  selectCallBase,
-  type SessionLike,
-} from "../session-reuse";
-
-// --- Model Cache ---
-interface ModelCache {
-  models: CursorModelInfo[] | null;
-  time: number;
-}
-const modelCache: ModelCache = { models: null, time: 0 };
-const MODEL_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-
-const SESSION_REUSE_TIMEOUT_MS = 15 * 60 * 1000;
-const sessionMap = new Map<string, SessionLike>();
-
-function sessionReuseEnabled(): boolean {
-  return process.env.CURSOR_SESSION_REUSE !== "0";
-}
-
-/**
- * Get cached models or fetch fresh ones
- */
-async function getCachedModels(accessToken: string): Promise<CursorModelInfo[]> {
-  const now = Date.now();
-  if (modelCache.models && now - modelCache.time < MODEL_CACHE_TTL) {
-    return modelCache.models;
-  }
-
-  const cursorClient = new CursorClient(accessToken);
-  const models = await listCursorModels(cursorClient);
-  modelCache.models = models;
-  modelCache.time = now;
-  return models;
-}
-
-/**
- * Resolve a requested model name to its internal model ID
- * Maps displayModelId/aliases to the actual modelId used by the agent service
- */
-function resolveModel(requestedModel: string, models: CursorModelInfo[]): string {
-  // Direct match on modelId
-  const directMatch = models.find(m => m.modelId === requestedModel);
-  if (directMatch) {
-    return directMatch.modelId;
-  }
-
-  // Match on displayModelId
-  const displayMatch = models.find(m => m.displayModelId === requestedModel);
-  if (displayMatch) {
-    return displayMatch.modelId;
-  }
-
-  // Match on aliases
-  const aliasMatch = models.find(m => m.aliases.includes(requestedModel));
-  if (aliasMatch) {
-    return aliasMatch.modelId;
-  }
-
-  // No match found, return as-is (let Cursor API handle it)
-  return requestedModel;
-}
+import { createStaticTokenProvider, type TokenProvider } from "../auth/token-provider";
+import { createSingleAccountPool, type AccountPool } from "../auth/account-pool";
+import { poolAccessToken, runWithFailover } from "./account-failover";
+import { selectProfile, type ProfileTokenProviders } from "./profiles";
+import { handleAnthropicMessages } from "../anthropic-compat/handler";
+import type { ApprovalCallback } from "./approval";
+import { webProviderFromEnv, type WebProvider } from "./web-provider";
 
 /**
  * Options for the request handler
  */
 export interface RequestHandlerOptions {
-  /** Access token for Cursor API */
-  accessToken: string;
+  /** Access token for Cursor API (use tokenProvider for tokens that expire) */
+  accessToken?: string;
+  /** Supplies a fresh access token per request and refreshes it when the API rejects it */
+  tokenProvider?: TokenProvider;
   /** Optional logger for debugging */
   log?: (message: string, ...args: unknown[]) => void;
+  /** Cursor API base URL (defaults to the production API; used to point at a mock backend in tests) */
+  baseUrl?: string;
+  /** Named credential profiles, selected per request by the x-cursor-profile header or a "profile/model" prefix */
+  profiles?: ProfileTokenProviders;
+  /** Several accounts to fail over between on rate limits and quota errors (replaces accessToken/tokenProvider) */
+  pool?: AccountPool;
+  /**
+   * Asked before shell commands and file writes run locally (when the request
+   * has no tools to forward them to). Denials are returned to the agent as errors.
+   */
+  approve?: ApprovalCallback;
+  /** Fulfills the agent's web searches and page fetches (defaults to CURSOR_SEARXNG_URL, when set) */
+  webProvider?: WebProvider;
 }
 
 /**
@@ -131,11 +92,20 @@ export interface RequestHandlerOptions {
  * ```
  */
 export function createRequestHandler(options: RequestHandlerOptions) {
-  const { accessToken, log = () => {} } = options;
+  const { log = () => {}, baseUrl } = options;
+  if (!options.pool && !options.tokenProvider && options.accessToken === undefined) {
+    throw new Error("createRequestHandler requires an accessToken, a tokenProvider or a pool");
+  }
+  const defaultPool = options.pool
+    ?? createSingleAccountPool(options.tokenProvider ?? createStaticTokenProvider(options.accessToken ?? ""));
+  const hooks: AgentTurnHooks = {
+    approve: options.approve,
+    webProvider: options.webProvider ?? webProviderFromEnv(),
+  };
 
-  return async function handleRequest(req: Request): Promise<Response> {
-    const url = new URL(req.url);
-    const method = req.method;
+  return async function handleRequest(incoming: Request): Promise<Response> {
+    const url = new URL(incoming.url);
+    const method = incoming.method;
     // Normalize pathname - handle both /v1/... and /chat/completions
     const pathname = url.pathname;
 
@@ -145,14 +115,63 @@ export function createRequestHandler(options: RequestHandlerOptions) {
       return handleCORS();
     }
 
+    let req = incoming;
+    let pool = defaultPool;
+    if (options.profiles) {
+      const selection = await selectProfile(incoming, options.profiles);
+      if (selection && "error" in selection) {
+        return createErrorResponse(selection.error);
+      }
+      if (selection) {
+        req = selection.req;
+        // An explicitly selected profile never fails over to other accounts
+        pool = createSingleAccountPool(selection.tokens, selection.profile);
+        log(`[OpenAI Compat] Using credential profile "${selection.profile}"`);
+      }
+    }
+
     // Handle chat completions - match both /v1/chat/completions and /chat/completions
     if ((pathname === "/v1/chat/completions" || pathname === "/chat/completions") && method === "POST") {
-      return handleChatCompletions(req, accessToken, log);
+      return handleChatCompletions(req, pool, log, baseUrl, hooks);
+    }
+
+    // Handle responses - match both /v1/responses and /responses
+    if ((pathname === "/v1/responses" || pathname === "/responses") && method === "POST") {
+      return handleResponses(req, pool, log, baseUrl, hooks);
+    }
+
+    const responseMatch = pathname.match(/^(?:\/v1)?\/responses\/([^/]+)$/);
+    if (responseMatch?.[1] && method === "GET") {
+      return handleGetResponse(responseMatch[1]);
+    }
+
+    // Handle Anthropic messages - match both /v1/messages and /messages
+    if ((pathname === "/v1/messages" || pathname === "/messages") && method === "POST") {
+      return handleAnthropicMessages(req, pool, log, baseUrl, hooks);
     }
 
     // Handle models - match both /v1/models and /models
     if ((pathname === "/v1/models" || pathname === "/models") && method === "GET") {
-      return handleModels(accessToken, log);
+      return handleModels(await poolAccessToken(pool), log, baseUrl);
+    }
+
+    // Handle account pool health - match both /v1/pool/status and /pool/status.
+    // The proxy has no client auth, so account names and raw upstream errors stay out
+    if ((pathname === "/v1/pool/status" || pathname === "/pool/status") && method === "GET") {
+      const accounts = defaultPool.status().map((status, index) => ({
+        account: index + 1,
+        healthy: status.healthy,
+        cooldownUntil: status.cooldownUntil,
+        lastErrorKind: status.lastErrorKind,
+        requests: status.requests,
+        failures: status.failures,
+      }));
+      return new Response(JSON.stringify({ accounts }), {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+        },
+      });
     }
 
     if (pathname === "/health" || pathname === "/") {
@@ -173,8 +192,10 @@ export function createRequestHandler(options: RequestHandlerOptions) {
  */
 async function handleChatCompletions(
   req: Request,
-  accessToken: string,
-  log: (message: string, ...args: unknown[]) => void
+  pool: AccountPool,
+  log: (message: string, ...args: unknown[]) => void,
+  baseUrl?: string,
+  hooks: AgentTurnHooks = {}
 ): Promise<Response> {
   let body: OpenAIChatRequest;
   try {
@@ -189,18 +210,30 @@ async function handleChatCompletions(
 
   // Resolve model name to internal model ID
   let model: string;
+  let modelInfo: CursorModelInfo | undefined;
   try {
-    const models = await getCachedModels(accessToken);
+    const models = await getCachedModels(await poolAccessToken(pool), baseUrl);
     model = resolveModel(body.model ?? "auto", models);
+    modelInfo = models.find(m => m.modelId === model);
     log(`[OpenAI Compat] Resolved model "${body.model ?? "auto"}" to "${model}"`);
   } catch (err) {
     log("[OpenAI Compat] Failed to fetch models, using requested model directly:", err);
     model = body.model ?? "default";
   }
 
+  const imageResult = await collectImageAttachments(body.messages, model, { modelInfo });
+  if ("error" in imageResult) {
+    return createErrorResponse(imageResult.error);
+  }
+
   const prompt = messagesToPrompt(body.messages);
   const stream = body.stream ?? false;
-  const tools = body.tools as OpenAIToolDefinition[] | undefined;
+  const toolChoice = normalizeOpenAIToolChoice(body.tool_choice);
+  const resolvedToolChoice = resolveToolChoice(body.tools as OpenAIToolDefinition[] | undefined, toolChoice);
+  if ("error" in resolvedToolChoice) {
+    return createErrorResponse(resolvedToolChoice.error);
+  }
+  const { tools, mode, toolInstructions } = resolvedToolChoice;
   const toolsProvided = tools && tools.length > 0;
 
   // Log tool call status for debugging
@@ -214,526 +247,230 @@ async function handleChatCompletions(
     log(`[OpenAI Compat] ${toolResultCount}/${toolCallCount} tool calls have results, passing ${tools?.length ?? 0} tools`);
   }
 
-  const client = createAgentServiceClient(accessToken);
+  const responseFormat = body.response_format;
+  if (responseFormat && !["text", "json_object", "json_schema"].includes(responseFormat.type)) {
+    return createErrorResponse(`Unsupported response_format type: ${(responseFormat as { type: string }).type}`);
+  }
+  if (responseFormat?.type === "json_schema" && !responseFormat.json_schema?.name) {
+    return createErrorResponse("response_format.json_schema.name is required");
+  }
+
   const completionId = generateCompletionId();
   const created = Math.floor(Date.now() / 1000);
 
+  const params: ChatCompletionParams = {
+    pool,
+    baseUrl,
+    prompt,
+    model,
+    tools,
+    mode,
+    toolInstructions,
+    toolChoice,
+    responseFormat,
+    images: imageResult.images,
+    toolsProvided: toolsProvided ?? false,
+    messages: body.messages,
+    completionId,
+    created,
+    hooks,
+    signal: req.signal,
+    log,
+  };
+
   if (stream) {
-    return streamChatCompletion({
-      client,
-      prompt,
-      model,
-      tools,
-      toolsProvided: toolsProvided ?? false,
-      messages: body.messages,
-      completionId,
-      created,
-      log,
-    });
+    return streamChatCompletion(params);
   }
 
   // Non-streaming response
-  try {
-    const content = await client.chat({ message: prompt, model, mode: AgentMode.AGENT, tools });
-    const usage = calculateTokenUsage(prompt, content, model);
-
-    return new Response(JSON.stringify({
-      id: completionId,
-      object: "chat.completion",
-      created,
-      model,
-      choices: [{
-        index: 0,
-        message: { role: "assistant", content },
-        finish_reason: "stop",
-      }],
-      usage,
-    }), {
-      headers: {
-        "Content-Type": "application/json",
-        "Access-Control-Allow-Origin": "*",
-      },
-    });
-  } catch (err: unknown) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return createErrorResponse(message, "server_error", 500);
-  }
+  return completeChatCompletion(params);
 }
 
-/**
- * Stream chat completion response
- */
-interface StreamParams {
-  client: ReturnType<typeof createAgentServiceClient>;
+interface ChatCompletionParams {
+  pool: AccountPool;
+  baseUrl: string | undefined;
   prompt: string;
   model: string;
   tools: OpenAIToolDefinition[] | undefined;
+  mode: AgentMode;
+  toolInstructions: string | undefined;
+  toolChoice: ToolChoice;
+  responseFormat: OpenAIResponseFormat | undefined;
+  images: AgentImageAttachment[];
   toolsProvided: boolean;
   messages: OpenAIMessage[];
   completionId: string;
   created: number;
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+  hooks: AgentTurnHooks;
   log: (message: string, ...args: unknown[]) => void;
 }
 
-async function streamChatCompletion(params: StreamParams): Promise<Response> {
-  const { client, prompt, model, tools, toolsProvided, messages, completionId, created, log } = params;
-
-  // Route to session reuse if:
-  // 1. Tools are provided (new request that may result in tool calls), OR
-  // 2. Messages contain tool results (continuation with tool results)
-  const hasToolMessages = messages.some(m => m.role === "tool" && m.tool_call_id);
-  const shouldUseSessionReuse = sessionReuseEnabled() && (toolsProvided || hasToolMessages);
-  
-  if (shouldUseSessionReuse) {
-    return streamChatCompletionWithSessionReuse({
+/**
+ * Start the agent turn for a chat completion on the account pool, applying
+ * tool_choice and response_format
+ */
+function startChatTurn(params: ChatCompletionParams): AsyncGenerator<AgentTurnEvent> {
+  const {
+    pool, baseUrl, model, tools, mode, toolInstructions, toolChoice, responseFormat, images, toolsProvided, messages, completionId, signal, hooks, log,
+  } = params;
+
+  return runWithFailover(pool, (client) => {
+    const startTurn = (conversation: OpenAIMessage[]) => enforceToolChoice(runAgentTurn({
       client,
-      prompt,
-      model,
-      tools,
+      request: buildAgentChatRequest(conversation, { model, mode, tools, toolInstructions, images }),
+      messages: conversation,
       toolsProvided,
-      messages,
-      completionId,
-      created,
+      refuseExecRequests: toolChoice === "none",
+      fallbackToolCallId: (index) => generateToolCallId(completionId, index),
+      signal,
+      ...hooks,
       log,
-    });
-  }
-  
-  const encoder = new TextEncoder();
-  let isClosed = false;
-  let mcpToolCallIndex = 0;
-  let pendingEditToolCall: string | null = null;
-  let accumulatedContent = "";
-
-  const readable = new ReadableStream({
-    async start(controller) {
-      try {
-        // Send initial chunk with role
-        controller.enqueue(encoder.encode(createSSEChunk(
-          createStreamChunk(completionId, model, created, { role: "assistant" })
-        )));
+    }), toolChoice, log);
 
-        // Stream content
-        for await (const chunk of client.chatStream({ message: prompt, model, mode: AgentMode.AGENT, tools })) {
-          if (isClosed) break;
+    if (isStructuredFormat(responseFormat)) {
+      return runStructuredTurn(startTurn, withResponseFormatInstruction(messages, responseFormat), responseFormat, log);
+    }
 
-          if (chunk.type === "text" || chunk.type === "token") {
-            if (chunk.content) {
-              accumulatedContent += chunk.content;
-              controller.enqueue(encoder.encode(createSSEChunk(
-                createStreamChunk(completionId, model, created, { content: chunk.content })
-              )));
-            }
-          } else if (chunk.type === "kv_blob_assistant" && chunk.blobContent) {
-            log("[OpenAI Compat] Emitting assistant content from KV blob");
-            accumulatedContent += chunk.blobContent;
-            controller.enqueue(encoder.encode(createSSEChunk(
-              createStreamChunk(completionId, model, created, { content: chunk.blobContent })
-            )));
-          } else if (chunk.type === "tool_call_started" && chunk.toolCall) {
-            // Track file-modifying tool calls
-            if (chunk.toolCall.name === "edit" || chunk.toolCall.name === "apply_diff") {
-              pendingEditToolCall = chunk.toolCall.callId;
-              log("[OpenAI Compat] File-modifying tool started, will handle internal read locally");
-            }
-          } else if (chunk.type === "exec_request" && chunk.execRequest) {
-            const execReq = chunk.execRequest;
+    return startTurn(messages);
+  }, { baseUrl, log });
+}
 
-            // Skip context requests
-            if (execReq.type === "request_context") {
-              continue;
-            }
+/**
+ * Collect a full agent turn into a chat completion response
+ */
+async function completeChatCompletion(params: ChatCompletionParams): Promise<Response> {
+  const { prompt, model, completionId, created, log } = params;
 
-            // Handle internal reads for edit flows
-            if (execReq.type === "read" && pendingEditToolCall) {
-              log("[OpenAI Compat] Handling internal read for edit flow locally");
-              try {
-                const file = Bun.file(execReq.path);
-                const content = await file.text();
-                const stats = await file.stat();
-                const totalLines = content.split("\n").length;
-                await client.sendReadResult(execReq.id, execReq.execId, content, execReq.path, totalLines, BigInt(stats.size), false);
-                log("[OpenAI Compat] Internal read completed for edit flow");
-              } catch (err: unknown) {
-                const message = err instanceof Error ? err.message : "Unknown error";
-                await client.sendReadResult(execReq.id, execReq.execId, `Error: ${message}`, execReq.path, 0, 0n, false);
-              }
-              continue;
-            }
+  let content = "";
+  let reasoning = "";
+  const toolCalls: OpenAIToolCall[] = [];
+  let finishReason: OpenAIChatChoice["finish_reason"] = "stop";
 
-            // Emit exec requests as OpenAI tool calls when tools are provided
-            if (toolsProvided) {
-              const { toolName, toolArgs } = mapExecRequestToTool(execReq);
-              if (toolName && toolArgs) {
-                const currentIndex = mcpToolCallIndex++;
-                const openaiToolCallId = generateToolCallId(completionId, currentIndex);
-
-                log(`[OpenAI Compat] Emitting tool call: ${toolName} (type: ${execReq.type})`);
-
-                // Emit the tool call
-                const toolCallChunk: OpenAIStreamChunk = {
-                  id: completionId,
-                  object: "chat.completion.chunk",
-                  created,
-                  model,
-                  choices: [{
-                    index: 0,
-                    delta: {
-                      tool_calls: [{
-                        index: currentIndex,
-                        id: openaiToolCallId,
-                        type: "function",
-                        function: {
-                          name: toolName,
-                          arguments: JSON.stringify(toolArgs),
-                        },
-                      }],
-                    },
-                    finish_reason: null,
-                  }],
-                };
-                controller.enqueue(encoder.encode(createSSEChunk(toolCallChunk)));
-
-                // Emit finish with tool_calls reason
-                controller.enqueue(encoder.encode(createSSEChunk(
-                  createStreamChunk(completionId, model, created, {}, "tool_calls")
-                )));
-
-                controller.enqueue(encoder.encode(createSSEDone()));
-                isClosed = true;
-                controller.close();
-                return;
-              }
-            }
+  try {
+    const turn = startChatTurn(params);
+
+    for await (const event of turn) {
+      if (event.type === "text") {
+        content += event.content;
+      } else if (event.type === "thinking") {
+        reasoning += event.content;
+      } else if (event.type === "tool_call") {
+        toolCalls.push({
+          id: event.toolCall.id,
+          type: "function",
+          function: {
+            name: event.toolCall.name,
+            arguments: JSON.stringify(event.toolCall.arguments),
+          },
+        });
+      } else if (event.type === "error") {
+        return createErrorResponse(event.message, event.errorType ?? "server_error", event.errorKind ? 429 : 500);
+      } else if (event.type === "end") {
+        finishReason = event.finishReason;
+      }
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return createErrorResponse(message, "server_error", 500);
+  }
 
-            // Execute built-in tools internally when no tools provided
-            if (!toolsProvided && execReq.type !== "mcp") {
-              await executeBuiltinTool(client, execReq, log);
-            }
-          } else if (chunk.type === "error") {
-            controller.enqueue(encoder.encode(createSSEChunk({
-              error: { message: chunk.error ?? "Unknown error", type: "server_error" },
-            })));
-            break;
-          } else if (chunk.type === "done") {
-            break;
-          }
-        }
+  const response: OpenAIChatResponse = {
+    id: completionId,
+    object: "chat.completion",
+    created,
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: content || (toolCalls.length > 0 ? null : ""),
+        ...(reasoning ? { reasoning_content: reasoning } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: finishReason,
+    }],
+    usage: calculateTokenUsage(prompt, content, model),
+  };
 
-        // Send final chunk with usage
-        if (!isClosed) {
-          const usage = calculateTokenUsage(prompt, accumulatedContent, model);
-          const finalChunk: OpenAIStreamChunk = {
-            id: completionId,
-            object: "chat.completion.chunk",
-            created,
-            model,
-            choices: [{
-              index: 0,
-              delta: {},
-              finish_reason: "stop",
-            }],
-            usage,
-          };
-          controller.enqueue(encoder.encode(createSSEChunk(finalChunk)));
-          controller.enqueue(encoder.encode(createSSEDone()));
-          controller.close();
-        }
-      } catch (err: unknown) {
-        if (!isClosed) {
-          try {
-            controller.error(err);
-          } catch {
-            // Controller may already be closed
-          }
-        }
-      }
-    },
-    cancel() {
-      isClosed = true;
+  return new Response(JSON.stringify(response), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
     },
   });
-
-  return makeStreamResponse(readable);
 }
 
-async function streamChatCompletionWithSessionReuse(params: StreamParams): Promise<Response> {
-  const { client, prompt, model, tools, messages, completionId, created, log } = params;
-
-  await cleanupExpiredSessions(
-    sessionMap as unknown as Map<string, { iterator?: AsyncIterator<unknown>; lastActivity: number }>,
-    SESSION_REUSE_TIMEOUT_MS
-  );
+/**
+ * Stream chat completion response
+ */
+async function streamChatCompletion(params: ChatCompletionParams): Promise<Response> {
+  const { prompt, model, completionId, created, log } = params;
 
   const encoder = new TextEncoder();
   let isClosed = false;
-  let mcpToolCallIndex = 0;
-  let pendingEditToolCall: string | null = null;
   let accumulatedContent = "";
 
-  // ARCHITECTURAL NOTE: We always start fresh requests when tool results arrive.
-  // See session-reuse.ts for detailed explanation of why true session reuse isn't possible.
-  // The session infrastructure below is retained for internal read handling and future improvements.
-  
-  const existingSessionId = findSessionIdInMessages(messages);
-  const toolMessages = collectToolMessages(messages);
-
-  log(`[Session Reuse] existingSessionId=${existingSessionId ?? "null"}, toolMessages.length=${toolMessages.length}`);
-  if (toolMessages.length > 0) {
-    log(`[Session Reuse] toolMessages tool_call_ids: ${toolMessages.map(m => m.tool_call_id).join(", ")}`);
-  }
-
-  let sessionId = existingSessionId ?? createSessionId();
-  let session = existingSessionId ? sessionMap.get(existingSessionId) : undefined;
-  
-  log(`[Session Reuse] sessionId=${sessionId}, session found=${!!session}, sessionMap.size=${sessionMap.size}`);
-
-  // IMPORTANT: bidiAppend tool results don't trigger server continuation - start fresh request instead
-  if (toolMessages.length > 0 && session) {
-    log(`[Session Reuse] Tool messages present - closing old session ${sessionId} and starting fresh`);
-    try {
-      await session.iterator.return?.();
-    } catch (err: unknown) {
-      log("[Session Reuse] Failed to close prior session iterator:", err);
-    }
-    sessionMap.delete(sessionId);
-    session = undefined;
-    sessionId = createSessionId();
-  }
-
-  if (!session) {
-    log(`[Session Reuse] Creating NEW session ${sessionId}`);
-    const iterator = client
-      .chatStream({ message: prompt, model, mode: AgentMode.AGENT, tools })
-      [Symbol.asyncIterator]();
-
-    session = {
-      id: sessionId,
-      iterator,
-      pendingExecs: new Map(),
-      createdAt: Date.now(),
-      lastActivity: Date.now(),
-      state: "running",
-      client: {
-        sendToolResult: client.sendToolResult.bind(client),
-        sendShellResult: client.sendShellResult.bind(client),
-        sendReadResult: client.sendReadResult.bind(client),
-        sendLsResult: client.sendLsResult.bind(client),
-        sendGrepResult: client.sendGrepResult.bind(client),
-        sendWriteResult: client.sendWriteResult.bind(client),
-        sendResumeAction: client.sendResumeAction.bind(client),
-      },
-    };
-
-    sessionMap.set(sessionId, session);
-  } else {
-    sessionId = session.id;
-  }
-
-  const activeSession = session;
-  activeSession.lastActivity = Date.now();
+  const cancellation = createTurnCancellation(params.signal);
+  const turn = startChatTurn({ ...params, signal: cancellation.signal });
 
   const readable = new ReadableStream({
     async start(controller) {
       try {
-        controller.enqueue(
-          encoder.encode(createSSEChunk(createStreamChunk(completionId, model, created, { role: "assistant" })))
-        );
-
-        while (!isClosed) {
-          log(`[OpenAI Compat] Waiting for next chunk from iterator for session ${sessionId}...`);
-          const { done, value } = await activeSession.iterator.next();
-          log(`[OpenAI Compat] Iterator returned: done=${done}, value type=${(value as { type?: string })?.type || 'N/A'}`);
-
-          if (done) {
-            sessionMap.delete(sessionId);
-            const usage = calculateTokenUsage(prompt, accumulatedContent, model);
-            const finalChunk: OpenAIStreamChunk = {
-              id: completionId,
-              object: "chat.completion.chunk",
-              created,
-              model,
-              choices: [
-                {
-                  index: 0,
-                  delta: {},
-                  finish_reason: "stop",
-                },
-              ],
-              usage,
-            };
+        // Send initial chunk with role
+        controller.enqueue(encoder.encode(createSSEChunk(
+          createStreamChunk(completionId, model, created, { role: "assistant" })
+        )));
 
-            controller.enqueue(encoder.encode(createSSEChunk(finalChunk)));
+        for await (const event of turn) {
+          if (isClosed) break;
+
+          if (event.type === "text") {
+            accumulatedContent += event.content;
+            controller.enqueue(encoder.encode(createSSEChunk(
+              createStreamChunk(completionId, model, created, { content: event.content })
+            )));
+          } else if (event.type === "thinking") {
+            controller.enqueue(encoder.encode(createSSEChunk(
+              createStreamChunk(completionId, model, created, { reasoning_content: event.content })
+            )));
+          } else if (event.type === "tool_call") {
+            const { toolCall } = event;
+            controller.enqueue(encoder.encode(createSSEChunk(
+              createStreamChunk(completionId, model, created, {
+                tool_calls: [{
+                  index: toolCall.index,
+                  id: toolCall.id,
+                  type: "function",
+                  function: {
+                    name: toolCall.name,
+                    arguments: JSON.stringify(toolCall.arguments),
+                  },
+                }],
+              })
+            )));
+          } else if (event.type === "error") {
+            controller.enqueue(encoder.encode(createSSEChunk({
+              error: { message: event.message, type: event.errorType ?? "server_error" },
+            })));
             controller.enqueue(encoder.encode(createSSEDone()));
+            isClosed = true;
             controller.close();
             return;
-          }
-
-          const chunk = value as {
-            type: string;
-            content?: string;
-            blobContent?: string;
-            toolCall?: { name?: string; callId: string };
-            execRequest?: ExecRequest;
-            error?: string;
-          };
-
-          if (chunk.type === "text" || chunk.type === "token") {
-            if (chunk.content) {
-              accumulatedContent += chunk.content;
-              activeSession.lastActivity = Date.now();
-              controller.enqueue(
-                encoder.encode(
-                  createSSEChunk(createStreamChunk(completionId, model, created, { content: chunk.content }))
-                )
-              );
+          } else if (event.type === "end") {
+            // Send final chunk (with usage when the turn completed normally)
+            const finalChunk: OpenAIStreamChunk = createStreamChunk(completionId, model, created, {}, event.finishReason);
+            if (event.finishReason === "stop") {
+              finalChunk.usage = calculateTokenUsage(prompt, accumulatedContent, model);
             }
-            continue;
-          }
-
-          if (chunk.type === "kv_blob_assistant" && chunk.blobContent) {
-            accumulatedContent += chunk.blobContent;
-            session.lastActivity = Date.now();
-            controller.enqueue(
-              encoder.encode(
-                createSSEChunk(createStreamChunk(completionId, model, created, { content: chunk.blobContent }))
-              )
-            );
-            continue;
-          }
-
-          if (chunk.type === "tool_call_started" && chunk.toolCall) {
-            if (chunk.toolCall.name === "edit" || chunk.toolCall.name === "apply_diff") {
-              pendingEditToolCall = chunk.toolCall.callId;
-            }
-            continue;
-          }
-
-          if (chunk.type === "exec_request" && chunk.execRequest) {
-            const execReq = chunk.execRequest;
-
-            if (execReq.type === "request_context") {
-              continue;
-            }
-
-            if (execReq.type === "read" && pendingEditToolCall) {
-              try {
-                const file = Bun.file(execReq.path);
-                const content = await file.text();
-                const stats = await file.stat();
-                const totalLines = content.split("\n").length;
-                await client.sendReadResult(
-                  execReq.id,
-                  execReq.execId,
-                  content,
-                  execReq.path,
-                  totalLines,
-                  BigInt(stats.size),
-                  false
-                );
-              } catch (err: unknown) {
-                const message = err instanceof Error ? err.message : "Unknown error";
-                await client.sendReadResult(execReq.id, execReq.execId, `Error: ${message}`, execReq.path, 0, 0n, false);
-              }
-
-              try {
-                await client.sendResumeAction();
-              } catch (err: unknown) {
-                log("[OpenAI Compat] Failed to send ResumeAction:", err);
-              }
-
-              continue;
-            }
-
-            const { toolName, toolArgs } = mapExecRequestToTool(execReq);
-            if (toolName && toolArgs) {
-              const currentIndex = mcpToolCallIndex++;
-              const callBase = selectCallBase(execReq);
-              const toolCallId = makeToolCallId(sessionId, callBase);
-              log(`[Session ${sessionId}] Storing pendingExec: toolCallId=${toolCallId}, callBase=${callBase}, execReq.type=${execReq.type}, execReq.execId=${(execReq as { execId?: string }).execId ?? "undefined"}, execReq.id=${(execReq as { id?: number }).id ?? "undefined"}`);
-              activeSession.pendingExecs.set(toolCallId, execReq);
-              activeSession.state = "waiting_tool";
-              activeSession.lastActivity = Date.now();
-
-              const toolCallChunk: OpenAIStreamChunk = {
-                id: completionId,
-                object: "chat.completion.chunk",
-                created,
-                model,
-                choices: [
-                  {
-                    index: 0,
-                    delta: {
-                      tool_calls: [
-                        {
-                          index: currentIndex,
-                          id: toolCallId,
-                          type: "function",
-                          function: {
-                            name: toolName,
-                            arguments: JSON.stringify(toolArgs),
-                          },
-                        },
-                      ],
-                    },
-                    finish_reason: null,
-                  },
-                ],
-              };
-
-              controller.enqueue(encoder.encode(createSSEChunk(toolCallChunk)));
-              controller.enqueue(
-                encoder.encode(createSSEChunk(createStreamChunk(completionId, model, created, {}, "tool_calls")))
-              );
-              controller.enqueue(encoder.encode(createSSEDone()));
-
-              isClosed = true;
-              controller.close();
-              return;
-            }
-
-            await executeBuiltinTool(client, execReq, log);
-            continue;
-          }
-
-          if (chunk.type === "error") {
-            sessionMap.delete(sessionId);
-            controller.enqueue(
-              encoder.encode(
-                createSSEChunk({
-                  error: { message: chunk.error ?? "Unknown error", type: "server_error" },
-                })
-              )
-            );
+            controller.enqueue(encoder.encode(createSSEChunk(finalChunk)));
             controller.enqueue(encoder.encode(createSSEDone()));
+            isClosed = true;
             controller.close();
             return;
           }
-
-          if (chunk.type === "done") {
-            sessionMap.delete(sessionId);
-            break;
-          }
         }
-
-        const usage = calculateTokenUsage(prompt, accumulatedContent, model);
-        const finalChunk: OpenAIStreamChunk = {
-          id: completionId,
-          object: "chat.completion.chunk",
-          created,
-          model,
-          choices: [
-            {
-              index: 0,
-              delta: {},
-              finish_reason: "stop",
-            },
-          ],
-          usage,
-        };
-
-        controller.enqueue(encoder.encode(createSSEChunk(finalChunk)));
-        controller.enqueue(encoder.encode(createSSEDone()));
-        controller.close();
       } catch (err: unknown) {
         if (!isClosed) {
           try {
@@ -746,118 +483,23 @@ async function streamChatCompletionWithSessionReuse(params: StreamParams): Promi
     },
     cancel() {
       isClosed = true;
+      cancellation.cancel();
     },
   });
 
   return makeStreamResponse(readable);
 }
 
-/**
- * Execute built-in tool internally
- */
-async function executeBuiltinTool(
-  client: ReturnType<typeof createAgentServiceClient>,
-  execReq: ExecRequest,
-  log: (message: string, ...args: unknown[]) => void
-): Promise<void> {
-  log(`[OpenAI Compat] Executing built-in tool internally: ${execReq.type}`);
-
-  if (execReq.type === "shell") {
-    const cwd = execReq.cwd || process.cwd();
-    const startTime = Date.now();
-    try {
-      const proc = Bun.spawn(["sh", "-c", execReq.command], { cwd, stdout: "pipe", stderr: "pipe" });
-      const stdout = await new Response(proc.stdout).text();
-      const stderr = await new Response(proc.stderr).text();
-      const exitCode = await proc.exited;
-      const executionTimeMs = Date.now() - startTime;
-      await client.sendShellResult(execReq.id, execReq.execId, execReq.command, cwd, stdout, stderr, exitCode, executionTimeMs);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      const executionTimeMs = Date.now() - startTime;
-      await client.sendShellResult(execReq.id, execReq.execId, execReq.command, cwd, "", `Error: ${message}`, 1, executionTimeMs);
-    }
-  } else if (execReq.type === "read") {
-    try {
-      const file = Bun.file(execReq.path);
-      const content = await file.text();
-      const stats = await file.stat();
-      const totalLines = content.split("\n").length;
-      await client.sendReadResult(execReq.id, execReq.execId, content, execReq.path, totalLines, BigInt(stats.size), false);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      await client.sendReadResult(execReq.id, execReq.execId, `Error: ${message}`, execReq.path, 0, 0n, false);
-    }
-  } else if (execReq.type === "ls") {
-    try {
-      const { readdir } = await import("node:fs/promises");
-      const entries = await readdir(execReq.path, { withFileTypes: true });
-      const files = entries.map(e => e.isDirectory() ? `${e.name}/` : e.name).join("\n");
-      await client.sendLsResult(execReq.id, execReq.execId, files);
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      await client.sendLsResult(execReq.id, execReq.execId, `Error: ${message}`);
-    }
-  } else if (execReq.type === "grep") {
-    try {
-      let files: string[] = [];
-      if (execReq.glob) {
-        const globber = new Bun.Glob(execReq.glob);
-        files = Array.from(globber.scanSync(execReq.path || process.cwd()));
-      } else if (execReq.pattern) {
-        const rg = Bun.spawn(["rg", "-l", execReq.pattern, execReq.path || process.cwd()], { stdout: "pipe", stderr: "pipe" });
-        const stdout = await new Response(rg.stdout).text();
-        files = stdout.split("\n").filter(f => f.length > 0);
-      }
-      await client.sendGrepResult(execReq.id, execReq.execId, execReq.pattern || execReq.glob || "", execReq.path || process.cwd(), files);
-    } catch {
-      await client.sendGrepResult(execReq.id, execReq.execId, execReq.pattern || execReq.glob || "", execReq.path || process.cwd(), []);
-    }
-  } else if (execReq.type === "write") {
-    try {
-      const { dirname } = await import("node:path");
-      const { mkdir } = await import("node:fs/promises");
-      const dir = dirname(execReq.path);
-      await mkdir(dir, { recursive: true });
-
-      const content = execReq.fileBytes && execReq.fileBytes.length > 0
-        ? execReq.fileBytes
-        : execReq.fileText;
-      await Bun.write(execReq.path, content);
-
-      const file = Bun.file(execReq.path);
-      const stats = await file.stat();
-      const linesCreated = typeof content === "string"
-        ? content.split("\n").length
-        : new TextDecoder().decode(content).split("\n").length;
-
-      await client.sendWriteResult(execReq.id, execReq.execId, {
-        success: {
-          path: execReq.path,
-          linesCreated,
-          fileSize: Number(stats.size),
-          fileContentAfterWrite: execReq.returnFileContentAfterWrite ? await file.text() : undefined,
-        },
-      });
-    } catch (err: unknown) {
-      const message = err instanceof Error ? err.message : "Unknown error";
-      await client.sendWriteResult(execReq.id, execReq.execId, {
-        error: { path: execReq.path, error: message },
-      });
-    }
-  }
-}
-
 /**
  * Handle /v1/models requests
  */
 async function handleModels(
   accessToken: string,
-  _log: (message: string, ...args: unknown[]) => void
+  _log: (message: string, ...args: unknown[]) => void,
+  baseUrl?: string
 ): Promise<Response> {
   try {
-    const cursorClient = new CursorClient(accessToken);
-    const models = await listCursorModels(cursorClient);
+    const models = await getCachedModels(accessToken, baseUrl);
 
     const openaiModels: OpenAIModel[] = models.map(m => ({
       id: m.displayModelId || m.modelId,
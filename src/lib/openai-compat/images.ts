@@ -0,0 +1,119 @@
+/**
+ * Image Input Handling
+ *
+ * Collects `image_url` content parts from the latest user message and turns
+ * them into image attachments for the agent run request. Supports base64
+ * `data:` URLs and local `file:` URLs, which are confined by the execution
+ * policy like any other local read.
+ */
+
+import { fileURLToPath } from "node:url";
+import { extname } from "node:path";
+import type { AgentImageAttachment } from "../api/agent-service";
+import type { CursorModelInfo } from "../api/cursor-models";
+import { executionPolicyFromEnv, resolveToolPath, type ExecutionPolicy } from "./execution-policy";
+import type { OpenAIMessage } from "./types";
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// Models known to reject image input
+const TEXT_ONLY_MODEL_PATTERNS = [
+  /^cursor-small/i,
+  /^o[13]-mini/i,
+  /deepseek/i,
+  /^grok-code/i,
+  /^code-supernova/i,
+];
+
+/**
+ * Whether a model accepts image input: the catalog's answer when it gives one,
+ * else a guess from the model name
+ */
+export function modelSupportsImages(model: string, info?: Pick<CursorModelInfo, "vision">): boolean {
+  return info?.vision ?? !TEXT_ONLY_MODEL_PATTERNS.some(pattern => pattern.test(model));
+}
+
+/**
+ * Decode a single image URL into an attachment
+ */
+export async function loadImageAttachment(
+  url: string,
+  policy: ExecutionPolicy = executionPolicyFromEnv()
+): Promise<AgentImageAttachment> {
+  if (url.startsWith("data:")) {
+    const match = url.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (!match || !match[2]) {
+      throw new Error("Image data URLs must be base64-encoded (data:<mime>;base64,...)");
+    }
+    const mimeType = match[1] ?? "";
+    if (!mimeType.startsWith("image/")) {
+      throw new Error(`Unsupported image type: ${mimeType}`);
+    }
+    return { data: new Uint8Array(Buffer.from(match[3] ?? "", "base64")), mimeType };
+  }
+
+  if (url.startsWith("file:")) {
+    const resolved = resolveToolPath(policy, fileURLToPath(url));
+    if ("error" in resolved) {
+      throw new Error(`Blocked by execution policy: ${resolved.error}`);
+    }
+    const path = resolved.path;
+    const mimeType = MIME_TYPES_BY_EXTENSION[extname(path).toLowerCase()];
+    if (!mimeType) {
+      throw new Error(`Unsupported image file extension: ${path}`);
+    }
+    const file = Bun.file(path);
+    if (!(await file.exists())) {
+      throw new Error(`Image file not found: ${path}`);
+    }
+    return { data: new Uint8Array(await file.arrayBuffer()), mimeType, path };
+  }
+
+  throw new Error(`Unsupported image URL scheme: ${url.slice(0, 32)} (expected data: or file:)`);
+}
+
+export interface ImageCollectionOptions {
+  /** Confines `file:` URLs (defaults to the policy from the environment) */
+  policy?: ExecutionPolicy;
+  /** The model's catalog entry, which says whether it takes images */
+  modelInfo?: CursorModelInfo;
+}
+
+/**
+ * Collect image attachments from the latest user message. Images from earlier
+ * messages were attached to the turns that sent them and aren't uploaded again.
+ *
+ * Returns an error message instead of throwing when an image cannot be loaded
+ * or the model does not accept images, so handlers can turn it into a 400.
+ */
+export async function collectImageAttachments(
+  messages: OpenAIMessage[],
+  model: string,
+  options: ImageCollectionOptions = {}
+): Promise<{ images: AgentImageAttachment[] } | { error: string }> {
+  const latest = messages.findLast(m => m.role === "user");
+  const urls = (Array.isArray(latest?.content) ? latest.content : [])
+    .flatMap(part => (part.type === "image_url" ? [part.image_url.url] : []));
+
+  if (urls.length === 0) {
+    return { images: [] };
+  }
+
+  if (!modelSupportsImages(model, options.modelInfo)) {
+    return { error: `Model "${model}" does not support image input` };
+  }
+
+  try {
+    const policy = options.policy ?? executionPolicyFromEnv();
+    return { images: await Promise.all(urls.map(url => loadImageAttachment(url, policy))) };
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return { error: `Invalid image input: ${message}` };
+  }
+}
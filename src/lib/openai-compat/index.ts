@@ -11,5 +11,45 @@ export * from "./types";
 // Export utilities
 export * from "./utils";
 
+// Export image input helpers
+export { modelSupportsImages } from "./images";
+
 // Export request handler
 export * from "./handler";
+
+// Export built-in tool execution policy
+export {
+  DEFAULT_EXECUTION_POLICY,
+  executionPolicyFromEnv,
+  type ExecutionPolicy,
+} from "./execution-policy";
+
+// Export approval hooks for locally executed tools
+export {
+  createOpenCodePermissionApprover,
+  createTerminalApprover,
+  type ApprovableExecRequest,
+  type ApprovalCallback,
+  type ApprovalDecision,
+  type ApprovalRequest,
+  type OpenCodePermissionConfig,
+  type PermissionSetting,
+} from "./approval";
+
+// Export web search and fetch providers
+export {
+  createPageFetcher,
+  createSearxngProvider,
+  webProviderFromEnv,
+  type WebPage,
+  type WebProvider,
+  type WebSearchResult,
+} from "./web-provider";
+
+// Export Cursor ↔ OpenCode tool mapping
+export {
+  cursorToolCallToOpenCode,
+  editFromWrite,
+  openCodeToolCallToCursor,
+  writeAsOpenCodeEdit,
+} from "./tool-mapping";
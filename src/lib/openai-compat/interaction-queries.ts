@@ -0,0 +1,156 @@
+/**
+ * Interaction Queries
+ *
+ * The agent pauses its turn on an interaction query when it wants to ask the
+ * user something, switch modes or search the web. Questions go to clients that
+ * declare an `ask_question` tool as a call to it, and the tool result is sent
+ * back as the answer on the paused turn; everything else is answered here
+ * (searches and fetches by the web provider, when there is one) so the turn
+ * never stalls waiting for a reply.
+ */
+
+import { AgentMode, type InteractionQuery, type InteractionResponse } from "../api/agent-service";
+import type { WebProvider } from "./web-provider";
+
+export const ASK_QUESTION_TOOL_NAME = "ask_question";
+const DEFAULT_SEARCH_RESULTS = 8;
+
+export type AskQuestionQuery = Extract<InteractionQuery, { type: "ask_question" }>;
+
+/**
+ * Arguments of the synthetic ask_question tool call
+ */
+export function askQuestionToolArguments(query: AskQuestionQuery): Record<string, unknown> {
+  return {
+    ...(query.title ? { title: query.title } : {}),
+    questions: query.questions.map(question => ({
+      id: question.id,
+      prompt: question.prompt,
+      options: question.options,
+      allowMultiple: question.allowMultiple,
+    })),
+  };
+}
+
+/**
+ * The answer to a forwarded question, from the client's ask_question tool
+ * result: either JSON `{ "answers": [{ questionId, selectedOptionIds?, freeText? }] }`
+ * or plain text, which selects the option with that id or label, or is taken
+ * as a free-text answer to every question
+ */
+export function askQuestionResponse(query: AskQuestionQuery, result: string): InteractionResponse {
+  const parsed = (() => {
+    try {
+      return JSON.parse(result) as unknown;
+    } catch {
+      return undefined;
+    }
+  })();
+  const answers = (parsed as { answers?: unknown } | undefined)?.answers;
+  if (Array.isArray(answers)) {
+    return {
+      type: "ask_question",
+      answers: answers
+        .filter((answer): answer is Record<string, unknown> => typeof answer === "object" && answer !== null)
+        .map(answer => ({
+          questionId: String(answer.questionId ?? ""),
+          selectedOptionIds: Array.isArray(answer.selectedOptionIds) ? answer.selectedOptionIds.map(String) : [],
+          ...(typeof answer.freeText === "string" ? { freeText: answer.freeText } : {}),
+        })),
+    };
+  }
+
+  const text = result.trim();
+  if (!text) {
+    return { type: "ask_question", reason: "The user didn't answer. Continue with your best judgement." };
+  }
+  return {
+    type: "ask_question",
+    answers: query.questions.map(question => {
+      const option = question.options.find(o => o.id === text || o.label.toLowerCase() === text.toLowerCase());
+      return option
+        ? { questionId: question.id, selectedOptionIds: [option.id] }
+        : { questionId: question.id, selectedOptionIds: [], freeText: text };
+    }),
+  };
+}
+
+export interface InteractionContext {
+  /** The mode the request asked for */
+  mode?: AgentMode;
+  /** Fulfills web searches and fetches on the client side */
+  webProvider?: WebProvider;
+  signal?: AbortSignal;
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Run a search or fetch query against the web provider. Failures are sent back
+ * as rejections so the agent can carry on without the results.
+ */
+async function answerWebQuery(
+  query: Extract<InteractionQuery, { type: "web_search" | "exa_search" | "exa_fetch" }>,
+  provider: WebProvider,
+  signal: AbortSignal | undefined
+): Promise<InteractionResponse> {
+  try {
+    if (query.type === "exa_fetch") {
+      // One failed page shouldn't lose the others; its error takes the page's place
+      const pages = await Promise.allSettled(query.urls.map(url => provider.fetch(url, { signal })));
+      if (pages.every(page => page.status === "rejected")) {
+        throw (pages[0] as PromiseRejectedResult | undefined)?.reason ?? new Error("No URLs to fetch");
+      }
+      const contents = pages.map((page, index) => page.status === "fulfilled"
+        ? page.value
+        : { url: query.urls[index] ?? "", text: `Failed to fetch this page: ${errorMessage(page.reason)}` });
+      return { type: "exa_fetch", approved: true, contents };
+    }
+
+    const searchTerm = query.type === "web_search" ? query.searchTerm : query.query;
+    const limit = query.type === "exa_search" && query.numResults ? query.numResults : DEFAULT_SEARCH_RESULTS;
+    const references = await provider.search(searchTerm, { limit, signal });
+    return { type: query.type, approved: true, references };
+  } catch (err: unknown) {
+    const reason = `${query.type === "exa_fetch" ? "Fetch" : "Search"} failed: ${errorMessage(err)}`;
+    return query.type === "web_search"
+      ? { type: "web_search", approved: false, reason }
+      : { type: query.type, approved: false, reason };
+  }
+}
+
+/**
+ * The response sent for a query the client isn't asked about. An ask-mode
+ * request (tool_choice "none") must not switch into a mode that runs tools.
+ */
+export async function answerInteractionQuery(
+  query: InteractionQuery,
+  context: InteractionContext = {}
+): Promise<InteractionResponse | null> {
+  switch (query.type) {
+    case "ask_question":
+      return {
+        type: "ask_question",
+        reason: "The user can't be asked questions in this session. Continue with your best judgement and state the assumptions you made.",
+      };
+    case "switch_mode":
+      if (context.mode === AgentMode.ASK && query.targetModeId !== "ask") {
+        return { type: "switch_mode", approved: false, reason: "This request must be answered without using tools." };
+      }
+      return { type: "switch_mode", approved: true };
+    case "web_search":
+    case "exa_search":
+    case "exa_fetch":
+      if (context.webProvider) {
+        return answerWebQuery(query, context.webProvider, context.signal);
+      }
+      // Without a provider, web searches run on Cursor's side; the query only asks for permission
+      return query.type === "web_search"
+        ? { type: "web_search", approved: true }
+        : { type: query.type, approved: false, reason: "Web search and fetch aren't available in this session." };
+    default:
+      return null;
+  }
+}
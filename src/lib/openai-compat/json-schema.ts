@@ -0,0 +1,142 @@
+/**
+ * Minimal JSON Schema Validator
+ *
+ * Covers the subset of JSON Schema used by structured outputs: type, enum,
+ * const, properties / required / additionalProperties, items, anyOf / oneOf /
+ * allOf, string / number / array bounds, pattern and local `$ref`s into
+ * `$defs` or `definitions`. Unknown keywords are ignored.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith("#")) return undefined;
+
+  let node: unknown = root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    if (typeof node !== "object" || node === null) return undefined;
+    node = (node as Record<string, unknown>)[segment.replace(/~1/g, "/").replace(/~0/g, "~")];
+  }
+  return typeof node === "object" && node !== null ? node as JsonSchema : undefined;
+}
+
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(schema.$ref, root);
+    if (!target) {
+      errors.push(`${path}: unresolvable $ref ${schema.$ref}`);
+      return;
+    }
+    validateNode(value, target, root, path, errors);
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) {
+      validateNode(value, sub, root, path, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options = (schema.anyOf ?? schema.oneOf) as JsonSchema[];
+    const matches = options.filter(sub => validateJsonSchema(value, sub, root).length === 0).length;
+    if (matches === 0) {
+      errors.push(`${path}: does not match any allowed schema`);
+    } else if (schema.oneOf && matches > 1) {
+      errors.push(`${path}: matches more than one schema in oneOf`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (typeof schema.items === "object" && schema.items !== null && !Array.isArray(schema.items)) {
+      value.forEach((item, i) => validateNode(item, schema.items as JsonSchema, root, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+    for (const key of (schema.required ?? []) as string[]) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(object)) {
+      const propSchema = properties[key];
+      if (propSchema) {
+        validateNode(propValue, propSchema, root, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (typeof schema.additionalProperties === "object" && schema.additionalProperties !== null) {
+        validateNode(propValue, schema.additionalProperties as JsonSchema, root, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema, returning human-readable errors
+ * (empty when the value is valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, root, "$", errors);
+  return errors;
+}
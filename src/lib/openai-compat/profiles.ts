@@ -0,0 +1,76 @@
+/**
+ * Credential Profile Selection
+ *
+ * Picks the Cursor account a request runs as. Clients select a profile with
+ * the x-cursor-profile header, or by prefixing the model with the profile
+ * name (e.g. "work/sonnet-4.5"). A model prefix only counts when it names a
+ * known profile; otherwise the model is passed through unchanged.
+ */
+
+import type { TokenProvider } from "../auth/token-provider";
+
+export const PROFILE_HEADER = "x-cursor-profile";
+
+/** Looks up the token provider for a named profile; null when the profile does not exist */
+export type ProfileTokenProviders = (profile: string) => Promise<TokenProvider | null>;
+
+export type ProfileSelection =
+  | { profile: string; tokens: TokenProvider; req: Request }
+  | { error: string };
+
+/**
+ * Split "profile/model" into its parts; null when there is no prefix
+ */
+export function splitProfileModel(model: string): { profile: string; model: string } | null {
+  const slash = model.indexOf("/");
+  if (slash <= 0 || slash === model.length - 1) return null;
+  return { profile: model.slice(0, slash), model: model.slice(slash + 1) };
+}
+
+/**
+ * Resolve the profile selected by a request.
+ *
+ * Returns null when the request selects no profile. When the model carries a
+ * profile prefix, the returned request has the prefix stripped from its body.
+ */
+export async function selectProfile(
+  req: Request,
+  profiles: ProfileTokenProviders
+): Promise<ProfileSelection | null> {
+  const header = req.headers.get(PROFILE_HEADER)?.trim();
+  if (header) {
+    const tokens = await profiles(header);
+    return tokens ? { profile: header, tokens, req } : { error: `Unknown credential profile: ${header}` };
+  }
+
+  if (req.method !== "POST") return null;
+
+  let body: unknown;
+  try {
+    body = await req.clone().json();
+  } catch {
+    // Leave malformed bodies to the route handler's own error reporting
+    return null;
+  }
+  if (typeof body !== "object" || body === null) return null;
+
+  const model = (body as { model?: unknown }).model;
+  const split = typeof model === "string" ? splitProfileModel(model) : null;
+  if (!split) return null;
+
+  const tokens = await profiles(split.profile);
+  if (!tokens) return null;
+
+  const headers = new Headers(req.headers);
+  headers.delete("content-length");
+  return {
+    profile: split.profile,
+    tokens,
+    req: new Request(req.url, {
+      method: req.method,
+      headers,
+      body: JSON.stringify({ ...body, model: split.model }),
+      signal: req.signal,
+    }),
+  };
+}
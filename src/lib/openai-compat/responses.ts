@@ -0,0 +1,523 @@
+/**
+ * OpenAI Responses API Handler
+ *
+ * Serves /v1/responses on top of the agent turn runner. Completed responses
+ * are kept in a local store so clients can chain turns with
+ * `previous_response_id` instead of resending the conversation history.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { OpenAIToolDefinition } from "../api/agent-service";
+import { getCachedModels, resolveModel, type CursorModelInfo } from "../api/cursor-models";
+import type { AccountPool } from "../auth/account-pool";
+import { cleanupExpiredSessions } from "../session-reuse";
+import { calculateTokenUsage } from "../utils/tokenizer";
+import { createTurnCancellation, runAgentTurn, type AgentTurnHooks, type AgentTurnToolCall } from "./agent-turn";
+import { poolAccessToken, runWithFailover } from "./account-failover";
+import { collectImageAttachments } from "./images";
+import { buildAgentChatRequest } from "./conversation-state";
+import { enforceToolChoice, normalizeOpenAIToolChoice, resolveToolChoice } from "./tool-choice";
+import type {
+  OpenAIMessage,
+  OpenAIToolCall,
+  ResponsesFunctionTool,
+  ResponsesInputItem,
+  ResponsesOutputItem,
+  ResponsesOutputMessage,
+  ResponsesReasoningItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesStreamEvent,
+} from "./types";
+import { createErrorResponse, makeStreamResponse, messagesToPrompt } from "./utils";
+
+// --- Response Store ---
+
+const RESPONSE_STORE_TTL_MS = 60 * 60 * 1000;
+// Least recently used responses are dropped beyond this many
+const RESPONSE_STORE_MAX_ENTRIES = 1000;
+
+interface StoredResponse {
+  response: ResponsesResponse;
+  /** Conversation history up to and including this response's output (without instructions) */
+  messages: OpenAIMessage[];
+  lastActivity: number;
+}
+
+const responseStore = new Map<string, StoredResponse>();
+
+async function getStoredResponse(id: string): Promise<StoredResponse | undefined> {
+  await cleanupExpiredSessions(responseStore, RESPONSE_STORE_TTL_MS);
+  const stored = responseStore.get(id);
+  if (stored) storeResponse(id, stored);
+  return stored;
+}
+
+/** Store (or refresh) a response; the map's insertion order doubles as recency */
+function storeResponse(id: string, stored: StoredResponse): void {
+  stored.lastActivity = Date.now();
+  responseStore.delete(id);
+  responseStore.set(id, stored);
+  for (const oldest of responseStore.keys()) {
+    if (responseStore.size <= RESPONSE_STORE_MAX_ENTRIES) break;
+    responseStore.delete(oldest);
+  }
+}
+
+// --- Conversion ---
+
+function generateId(prefix: string): string {
+  return `${prefix}_${randomUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * Convert Responses API input items to OpenAI chat messages.
+ * Consecutive function_call items are merged into one assistant message;
+ * reasoning items are dropped.
+ */
+export function responsesInputToMessages(input: string | ResponsesInputItem[]): OpenAIMessage[] {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }];
+  }
+
+  const messages: OpenAIMessage[] = [];
+
+  for (const item of input) {
+    if (item.type === "function_call") {
+      const toolCall: OpenAIToolCall = {
+        id: item.call_id,
+        type: "function",
+        function: { name: item.name, arguments: item.arguments },
+      };
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls ?? []), toolCall];
+      } else {
+        messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+      }
+    } else if (item.type === "function_call_output") {
+      messages.push({ role: "tool", tool_call_id: item.call_id, content: item.output });
+    } else if (item.type === "reasoning") {
+      // Reasoning from earlier turns is not replayed to the model
+      continue;
+    } else {
+      const role = item.role === "developer" ? "system" : item.role;
+      if (typeof item.content === "string") {
+        messages.push({ role, content: item.content });
+        continue;
+      }
+      messages.push({
+        role,
+        content: item.content.map(part =>
+          part.type === "input_image"
+            ? { type: "image_url" as const, image_url: { url: part.image_url ?? "", detail: part.detail } }
+            : { type: "text" as const, text: part.text }
+        ),
+      });
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Convert Responses API function tools (flat shape) to OpenAI tool definitions
+ */
+export function responsesToolsToOpenAI(tools: ResponsesFunctionTool[] | undefined): OpenAIToolDefinition[] | undefined {
+  const functions = tools?.filter(tool => tool.type === "function") ?? [];
+  if (functions.length === 0) return undefined;
+
+  return functions.map(tool => ({
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Convert response output items back to chat messages for the response store
+ */
+export function responsesOutputToMessages(output: ResponsesOutputItem[]): OpenAIMessage[] {
+  const text = output
+    .filter((item): item is ResponsesOutputMessage => item.type === "message")
+    .flatMap(item => item.content.map(part => part.text))
+    .join("");
+  const toolCalls: OpenAIToolCall[] = output
+    .filter(item => item.type === "function_call")
+    .map(item => ({
+      id: item.call_id,
+      type: "function",
+      function: { name: item.name, arguments: item.arguments },
+    }));
+
+  if (!text && toolCalls.length === 0) return [];
+  return [{
+    role: "assistant",
+    content: text || null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  }];
+}
+
+// --- Output Accumulation ---
+
+/**
+ * Build response output items from agent turn events, returning the
+ * stream events each step produces.
+ */
+function createOutputAccumulator() {
+  const output: ResponsesOutputItem[] = [];
+  let openMessage: { item: ResponsesOutputMessage; outputIndex: number } | null = null;
+  let openReasoning: { item: ResponsesReasoningItem; outputIndex: number } | null = null;
+  let text = "";
+
+  function closeReasoning(): ResponsesStreamEvent[] {
+    if (!openReasoning) return [];
+    const { item, outputIndex } = openReasoning;
+    const part = item.summary[0]!;
+    openReasoning = null;
+    return [
+      { type: "response.reasoning_summary_text.done", item_id: item.id, output_index: outputIndex, summary_index: 0, text: part.text },
+      { type: "response.reasoning_summary_part.done", item_id: item.id, output_index: outputIndex, summary_index: 0, part },
+      { type: "response.output_item.done", output_index: outputIndex, item },
+    ];
+  }
+
+  function closeMessage(): ResponsesStreamEvent[] {
+    if (!openMessage) return [];
+    const { item, outputIndex } = openMessage;
+    const part = item.content[0]!;
+    item.status = "completed";
+    openMessage = null;
+    return [
+      { type: "response.output_text.done", item_id: item.id, output_index: outputIndex, content_index: 0, text: part.text },
+      { type: "response.content_part.done", item_id: item.id, output_index: outputIndex, content_index: 0, part },
+      { type: "response.output_item.done", output_index: outputIndex, item },
+    ];
+  }
+
+  return {
+    output,
+    get text() {
+      return text;
+    },
+
+    appendReasoning(delta: string): ResponsesStreamEvent[] {
+      const events = closeMessage();
+
+      if (!openReasoning) {
+        const item: ResponsesReasoningItem = {
+          type: "reasoning",
+          id: generateId("rs"),
+          summary: [{ type: "summary_text", text: "" }],
+        };
+        openReasoning = { item, outputIndex: output.length };
+        output.push(item);
+        events.push(
+          { type: "response.output_item.added", output_index: openReasoning.outputIndex, item: { ...item, summary: [] } },
+          {
+            type: "response.reasoning_summary_part.added",
+            item_id: item.id,
+            output_index: openReasoning.outputIndex,
+            summary_index: 0,
+            part: { type: "summary_text", text: "" },
+          },
+        );
+      }
+
+      const { item, outputIndex } = openReasoning;
+      item.summary[0]!.text += delta;
+      events.push({ type: "response.reasoning_summary_text.delta", item_id: item.id, output_index: outputIndex, summary_index: 0, delta });
+      return events;
+    },
+
+    appendText(delta: string): ResponsesStreamEvent[] {
+      const events = closeReasoning();
+      text += delta;
+
+      if (!openMessage) {
+        const item: ResponsesOutputMessage = {
+          type: "message",
+          id: generateId("msg"),
+          status: "in_progress",
+          role: "assistant",
+          content: [{ type: "output_text", text: "", annotations: [] }],
+        };
+        openMessage = { item, outputIndex: output.length };
+        output.push(item);
+        events.push(
+          { type: "response.output_item.added", output_index: openMessage.outputIndex, item: { ...item, content: [] } },
+          {
+            type: "response.content_part.added",
+            item_id: item.id,
+            output_index: openMessage.outputIndex,
+            content_index: 0,
+            part: { type: "output_text", text: "", annotations: [] },
+          },
+        );
+      }
+
+      const { item, outputIndex } = openMessage;
+      item.content[0]!.text += delta;
+      events.push({ type: "response.output_text.delta", item_id: item.id, output_index: outputIndex, content_index: 0, delta });
+      return events;
+    },
+
+    addFunctionCall(toolCall: AgentTurnToolCall): ResponsesStreamEvent[] {
+      const events = [...closeReasoning(), ...closeMessage()];
+      const args = JSON.stringify(toolCall.arguments);
+      const item = {
+        type: "function_call" as const,
+        id: generateId("fc"),
+        call_id: toolCall.id,
+        name: toolCall.name,
+        arguments: args,
+        status: "completed" as const,
+      };
+      const outputIndex = output.length;
+      output.push(item);
+      events.push(
+        { type: "response.output_item.added", output_index: outputIndex, item: { ...item, arguments: "", status: "in_progress" } },
+        { type: "response.function_call_arguments.delta", item_id: item.id, output_index: outputIndex, delta: args },
+        { type: "response.function_call_arguments.done", item_id: item.id, output_index: outputIndex, arguments: args },
+        { type: "response.output_item.done", output_index: outputIndex, item },
+      );
+      return events;
+    },
+
+    finish(): ResponsesStreamEvent[] {
+      return [...closeReasoning(), ...closeMessage()];
+    },
+  };
+}
+
+// --- Handlers ---
+
+/**
+ * Handle POST /v1/responses requests
+ */
+export async function handleResponses(
+  req: Request,
+  pool: AccountPool,
+  log: (message: string, ...args: unknown[]) => void,
+  baseUrl?: string,
+  hooks: AgentTurnHooks = {}
+): Promise<Response> {
+  let body: ResponsesRequest;
+  try {
+    body = await req.json() as ResponsesRequest;
+  } catch {
+    return createErrorResponse("Invalid JSON body");
+  }
+
+  if (body.input === undefined || (Array.isArray(body.input) && body.input.length === 0)) {
+    return createErrorResponse("input is required and must be a string or a non-empty array");
+  }
+
+  let history: OpenAIMessage[] = [];
+  if (body.previous_response_id) {
+    const previous = await getStoredResponse(body.previous_response_id);
+    if (!previous) {
+      return createErrorResponse(`Previous response with id '${body.previous_response_id}' not found.`, "invalid_request_error", 404);
+    }
+    history = previous.messages;
+  }
+
+  // Resolve model name to internal model ID
+  let model: string;
+  let modelInfo: CursorModelInfo | undefined;
+  try {
+    const models = await getCachedModels(await poolAccessToken(pool), baseUrl);
+    model = resolveModel(body.model ?? "auto", models);
+    modelInfo = models.find(m => m.modelId === model);
+    log(`[Responses] Resolved model "${body.model ?? "auto"}" to "${model}"`);
+  } catch (err) {
+    log("[Responses] Failed to fetch models, using requested model directly:", err);
+    model = body.model ?? "default";
+  }
+
+  const conversation = [...history, ...responsesInputToMessages(body.input)];
+  // Instructions apply to this response only and are not carried over by previous_response_id
+  const messages: OpenAIMessage[] = body.instructions
+    ? [{ role: "system", content: body.instructions }, ...conversation]
+    : conversation;
+  const imageResult = await collectImageAttachments(messages, model, { modelInfo });
+  if ("error" in imageResult) {
+    return createErrorResponse(imageResult.error);
+  }
+
+  const prompt = messagesToPrompt(messages);
+  const toolChoice = normalizeOpenAIToolChoice(body.tool_choice);
+  const resolvedToolChoice = resolveToolChoice(responsesToolsToOpenAI(body.tools), toolChoice);
+  if ("error" in resolvedToolChoice) {
+    return createErrorResponse(resolvedToolChoice.error);
+  }
+  const { tools, mode, toolInstructions } = resolvedToolChoice;
+
+  const responseId = generateId("resp");
+  const response: ResponsesResponse = {
+    id: responseId,
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: "in_progress",
+    model,
+    output: [],
+    previous_response_id: body.previous_response_id ?? null,
+    instructions: body.instructions ?? null,
+    error: null,
+    usage: null,
+    metadata: body.metadata ?? {},
+  };
+
+  const cancellation = createTurnCancellation(req.signal);
+  const turn = runWithFailover(pool, (client) => enforceToolChoice(runAgentTurn({
+    client,
+    request: buildAgentChatRequest(messages, { model, mode, tools, toolInstructions, images: imageResult.images }),
+    messages,
+    toolsProvided: tools !== undefined,
+    refuseExecRequests: toolChoice === "none",
+    fallbackToolCallId: (index) => `call_${responseId.slice(5, 13)}_${index}`,
+    signal: cancellation.signal,
+    ...hooks,
+    log,
+  }), toolChoice, log), { baseUrl, log });
+  const accumulator = createOutputAccumulator();
+  response.output = accumulator.output;
+
+  // "completed" only once the turn has ended; a turn cut short is "incomplete"
+  const finalize = (status: "completed" | "incomplete") => {
+    const usage = calculateTokenUsage(prompt, accumulator.text, model);
+    response.status = status;
+    response.usage = {
+      input_tokens: usage.prompt_tokens,
+      output_tokens: usage.completion_tokens,
+      total_tokens: usage.total_tokens,
+    };
+    if (body.store !== false) {
+      storeResponse(responseId, {
+        response,
+        messages: [...conversation, ...responsesOutputToMessages(response.output)],
+        lastActivity: Date.now(),
+      });
+    }
+  };
+
+  if (body.stream) {
+    const encoder = new TextEncoder();
+    let isClosed = false;
+    let sequenceNumber = 0;
+
+    const readable = new ReadableStream({
+      async start(controller) {
+        const send = (events: ResponsesStreamEvent[]) => {
+          for (const event of events) {
+            const data = { ...event, sequence_number: sequenceNumber++ };
+            controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+        };
+
+        try {
+          send([
+            { type: "response.created", response: { ...response, output: [] } },
+            { type: "response.in_progress", response: { ...response, output: [] } },
+          ]);
+
+          for await (const event of turn) {
+            if (isClosed) break;
+
+            if (event.type === "text") {
+              send(accumulator.appendText(event.content));
+            } else if (event.type === "thinking") {
+              send(accumulator.appendReasoning(event.content));
+            } else if (event.type === "tool_call") {
+              send(accumulator.addFunctionCall(event.toolCall));
+            } else if (event.type === "error") {
+              response.status = "failed";
+              response.error = { code: event.errorType ?? "server_error", message: event.message };
+              send([{ type: "response.failed", response }]);
+              isClosed = true;
+              controller.close();
+              return;
+            } else if (event.type === "end") {
+              send(accumulator.finish());
+              finalize("completed");
+              send([{ type: "response.completed", response }]);
+              isClosed = true;
+              controller.close();
+              return;
+            }
+          }
+
+          // The turn stopped without ending (the stream was cancelled)
+          accumulator.finish();
+          finalize("incomplete");
+          if (!isClosed) {
+            send([{ type: "response.incomplete", response }]);
+            isClosed = true;
+            controller.close();
+          }
+        } catch (err: unknown) {
+          if (!isClosed) {
+            try {
+              controller.error(err);
+            } catch (innerErr: unknown) {
+              log("[Responses] Failed to signal stream error:", innerErr);
+            }
+          }
+        }
+      },
+      cancel() {
+        isClosed = true;
+        cancellation.cancel();
+      },
+    });
+
+    return makeStreamResponse(readable);
+  }
+
+  // Non-streaming response
+  let ended = false;
+  try {
+    for await (const event of turn) {
+      if (event.type === "end") {
+        ended = true;
+      } else if (event.type === "text") {
+        accumulator.appendText(event.content);
+      } else if (event.type === "thinking") {
+        accumulator.appendReasoning(event.content);
+      } else if (event.type === "tool_call") {
+        accumulator.addFunctionCall(event.toolCall);
+      } else if (event.type === "error") {
+        return createErrorResponse(event.message, event.errorType ?? "server_error", event.errorKind ? 429 : 500);
+      }
+    }
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return createErrorResponse(message, "server_error", 500);
+  }
+
+  accumulator.finish();
+  finalize(ended ? "completed" : "incomplete");
+
+  return new Response(JSON.stringify(response), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+/**
+ * Handle GET /v1/responses/{id} requests
+ */
+export async function handleGetResponse(id: string): Promise<Response> {
+  const stored = await getStoredResponse(id);
+  if (!stored) {
+    return createErrorResponse(`Response with id '${id}' not found.`, "invalid_request_error", 404);
+  }
+
+  return new Response(JSON.stringify(stored.response), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
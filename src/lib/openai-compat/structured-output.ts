@@ -0,0 +1,167 @@
+/**
+ * Structured Outputs (response_format)
+ *
+ * The Agent API has no native JSON mode, so `json_object` and `json_schema`
+ * are implemented on top of the turn runner: the schema is injected as a
+ * system instruction, the text output is buffered and validated, and the turn
+ * is retried once with the validation errors before giving up.
+ */
+
+import type { AgentTurnEvent } from "./agent-turn";
+import { validateJsonSchema, type JsonSchema } from "./json-schema";
+import type { OpenAIMessage, OpenAIResponseFormat } from "./types";
+
+export const STRUCTURED_OUTPUT_ERROR_TYPE = "invalid_response_format";
+
+const MAX_ATTEMPTS = 2;
+
+/**
+ * Whether a response format requires JSON output
+ */
+export function isStructuredFormat(format: OpenAIResponseFormat | undefined): format is Exclude<OpenAIResponseFormat, { type: "text" }> {
+  return format?.type === "json_object" || format?.type === "json_schema";
+}
+
+/**
+ * Build the system instruction describing the required output
+ */
+export function responseFormatInstruction(format: Exclude<OpenAIResponseFormat, { type: "text" }>): string {
+  const base = "Respond with a single valid JSON value and nothing else: no prose, no markdown code fences.";
+  if (format.type === "json_object") {
+    return `${base} The value must be a JSON object.`;
+  }
+
+  const { name, description, schema } = format.json_schema;
+  return [
+    `${base} The value must conform to the JSON Schema "${name}" below.`,
+    ...(description ? [description] : []),
+    JSON.stringify(schema ?? {}, null, 2),
+  ].join("\n\n");
+}
+
+/**
+ * Extract the JSON text from model output, tolerating code fences and
+ * surrounding prose
+ */
+export function extractJsonText(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (fenced?.[1] !== undefined) {
+    return fenced[1].trim();
+  }
+
+  const start = trimmed.search(/[{[]/);
+  if (start === -1) return trimmed;
+  const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+  return end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+/**
+ * Parse and validate model output against a response format
+ */
+export function validateStructuredOutput(
+  text: string,
+  format: Exclude<OpenAIResponseFormat, { type: "text" }>
+): { json: string } | { errors: string[] } {
+  const jsonText = extractJsonText(text);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(jsonText);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "Unknown error";
+    return { errors: [`Output is not valid JSON: ${message}`] };
+  }
+
+  if (format.type === "json_object") {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { errors: ["Output must be a JSON object"] };
+    }
+  } else if (format.json_schema.schema) {
+    const schema = format.json_schema.schema as JsonSchema;
+    const errors = validateJsonSchema(value, schema);
+    if (errors.length > 0) return { errors };
+  }
+
+  return { json: JSON.stringify(value) };
+}
+
+/**
+ * Prepend the response format instruction to a conversation
+ */
+export function withResponseFormatInstruction(
+  messages: OpenAIMessage[],
+  format: Exclude<OpenAIResponseFormat, { type: "text" }>
+): OpenAIMessage[] {
+  return [{ role: "system", content: responseFormatInstruction(format) }, ...messages];
+}
+
+/**
+ * Run a turn with structured output enforcement.
+ *
+ * Text is buffered until the turn ends; a valid result is emitted as a single
+ * text event with normalized JSON. Thinking and tool calls pass through
+ * unchanged, and turns that end in tool calls are not validated.
+ */
+export async function* runStructuredTurn(
+  startTurn: (messages: OpenAIMessage[]) => AsyncIterable<AgentTurnEvent>,
+  messages: OpenAIMessage[],
+  format: Exclude<OpenAIResponseFormat, { type: "text" }>,
+  log: (message: string, ...args: unknown[]) => void
+): AsyncGenerator<AgentTurnEvent> {
+  let conversation = messages;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let text = "";
+    let retry = false;
+
+    for await (const event of startTurn(conversation)) {
+      if (event.type === "text") {
+        text += event.content;
+        continue;
+      }
+
+      if (event.type !== "end") {
+        yield event;
+        if (event.type === "error") return;
+        continue;
+      }
+
+      if (event.finishReason === "tool_calls") {
+        if (text) yield { type: "text", content: text };
+        yield event;
+        return;
+      }
+
+      const result = validateStructuredOutput(text, format);
+      if ("json" in result) {
+        yield { type: "text", content: result.json };
+        yield event;
+        return;
+      }
+
+      log(`[Structured Output] Attempt ${attempt} failed validation: ${result.errors.join("; ")}`);
+      if (attempt === MAX_ATTEMPTS) {
+        yield {
+          type: "error",
+          message: `Model output did not match response_format: ${result.errors.join("; ")}`,
+          errorType: STRUCTURED_OUTPUT_ERROR_TYPE,
+        };
+        return;
+      }
+
+      conversation = [
+        ...conversation,
+        { role: "assistant", content: text },
+        {
+          role: "user",
+          content: `Your previous response was invalid:\n${result.errors.map(e => `- ${e}`).join("\n")}\n\nRespond again with only the corrected JSON.`,
+        },
+      ];
+      retry = true;
+      break;
+    }
+
+    if (!retry) return;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Tool Choice Handling
+ *
+ * The Agent API has no way to force a tool call, so tool_choice is applied in
+ * two steps: the registered tools and request-context instructions are chosen
+ * up front, and the turn's tool calls are validated as they stream out.
+ */
+
+import { AgentMode, type OpenAIToolDefinition } from "../api/agent-service";
+import type { AgentTurnEvent } from "./agent-turn";
+
+/**
+ * API-independent tool choice
+ */
+export type ToolChoice = "auto" | "none" | "required" | { name: string };
+
+export interface ResolvedToolChoice {
+  /** Tools to register with the agent (undefined when running text-only) */
+  tools: OpenAIToolDefinition[] | undefined;
+  mode: AgentMode;
+  /** Request-context instructions that ask the model to call a tool */
+  toolInstructions?: string;
+}
+
+/**
+ * Normalize an OpenAI tool_choice (chat completions or Responses shape)
+ */
+export function normalizeOpenAIToolChoice(
+  choice:
+    | "auto"
+    | "none"
+    | "required"
+    | { type: "function"; function?: { name: string }; name?: string }
+    | undefined
+): ToolChoice {
+  if (choice === undefined) return "auto";
+  if (typeof choice === "string") return choice;
+  const name = choice.function?.name ?? choice.name;
+  return name ? { name } : "auto";
+}
+
+/**
+ * Decide which tools to register and which instructions to send
+ */
+export function resolveToolChoice(
+  tools: OpenAIToolDefinition[] | undefined,
+  choice: ToolChoice
+): ResolvedToolChoice | { error: string } {
+  if (choice === "none") {
+    return { tools: undefined, mode: AgentMode.ASK };
+  }
+
+  if (choice === "auto") {
+    return { tools, mode: AgentMode.AGENT };
+  }
+
+  if (!tools || tools.length === 0) {
+    return { error: "tool_choice requires at least one tool in tools" };
+  }
+
+  if (choice === "required") {
+    return {
+      tools,
+      mode: AgentMode.AGENT,
+      toolInstructions: "You MUST call at least one of these tools in your response. Do not answer with text only.",
+    };
+  }
+
+  const tool = tools.find(t => t.function.name === choice.name);
+  if (!tool) {
+    return { error: `tool_choice function "${choice.name}" is not in tools` };
+  }
+
+  return {
+    tools: [tool],
+    mode: AgentMode.AGENT,
+    toolInstructions: `You MUST call the ${choice.name} tool in your response. Do not call any other tool and do not answer with text only.`,
+  };
+}
+
+/**
+ * Validate a turn's tool calls against the tool choice.
+ *
+ * With a specific function, calls to other tools are dropped (and the rest
+ * re-indexed). With "required" or a specific function, a turn that ends
+ * without a matching call becomes an error.
+ */
+export async function* enforceToolChoice(
+  turn: AsyncIterable<AgentTurnEvent>,
+  choice: ToolChoice,
+  log: (message: string, ...args: unknown[]) => void
+): AsyncGenerator<AgentTurnEvent> {
+  if (choice === "auto" || choice === "none") {
+    yield* turn;
+    return;
+  }
+
+  let emitted = 0;
+
+  for await (const event of turn) {
+    if (event.type === "tool_call") {
+      if (typeof choice === "object" && event.toolCall.name !== choice.name) {
+        log(`[Tool Choice] Dropping call to ${event.toolCall.name}; tool_choice requires ${choice.name}`);
+        continue;
+      }
+      yield { type: "tool_call", toolCall: { ...event.toolCall, index: emitted++ } };
+      continue;
+    }
+
+    if (event.type === "end" && emitted === 0) {
+      const expected = typeof choice === "object" ? `the ${choice.name} tool` : "a tool";
+      yield { type: "error", message: `tool_choice violated: the model did not call ${expected}` };
+      return;
+    }
+
+    yield event;
+  }
+}
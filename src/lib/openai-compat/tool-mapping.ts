@@ -0,0 +1,342 @@
+/**
+ * Cursor ↔ OpenCode Tool Mapping
+ *
+ * Translates tool calls between Cursor's native tool catalog (the tool types
+ * in TOOL_FIELD_MAP, with arguments named by TOOL_ARG_SCHEMA) and OpenCode's
+ * built-in tools, in both directions. Cursor tools without an OpenCode
+ * counterpart (lints, plans, MCP resources, images, ...) map to nothing.
+ *
+ * Edits are the important case: Cursor applies them as an internal read
+ * followed by a full-file write, which the turn runner turns back into an
+ * OpenCode `edit` call so the change shows up as a diff.
+ *
+ * Tools Cursor runs on its side (CURSOR_SIDE_TOOL_TYPES) never reach the client
+ * as exec requests; the turn runner hands them over through this catalog, and
+ * the client's calls go back into the conversation as the Cursor tool.
+ */
+
+import type { WriteExecRequest } from "../api/proto/types";
+import { TOOL_FIELD_MAP } from "../api/proto/tool-calls";
+import { isCursorSideToolCallId } from "../session-reuse";
+import { executionPolicyFromEnv, resolveToolPath, type ExecutionPolicy } from "./execution-policy";
+
+type ToolArgs = Record<string, unknown>;
+
+interface ToolMapping {
+  openCodeTool: string;
+  toOpenCode: (args: ToolArgs) => ToolArgs;
+  toCursor: (args: ToolArgs) => ToolArgs;
+}
+
+// --- Argument Helpers ---
+
+/** Copy the arguments that are set, renaming them by `names` ({ from: to }) */
+function renameArgs(args: ToolArgs, names: Record<string, string>): ToolArgs {
+  const renamed: ToolArgs = {};
+  for (const [from, to] of Object.entries(names)) {
+    const value = args[from];
+    if (value !== undefined && value !== null && value !== "") renamed[to] = value;
+  }
+  return renamed;
+}
+
+function invert(names: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(names).map(([from, to]) => [to, from]));
+}
+
+/** A tool whose arguments only differ in name */
+function renamed(openCodeTool: string, names: Record<string, string>): ToolMapping {
+  return {
+    openCodeTool,
+    toOpenCode: args => renameArgs(args, names),
+    toCursor: args => renameArgs(args, invert(names)),
+  };
+}
+
+function shellQuote(value: string): string {
+  return /^[\w./@%+=:,-]+$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// --- Todos ---
+
+const TODO_STATUSES = ["pending", "in_progress", "completed", "cancelled"] as const;
+
+interface OpenCodeTodo {
+  id: string;
+  content: string;
+  status: (typeof TODO_STATUSES)[number];
+  priority: "high" | "medium" | "low";
+}
+
+/** Cursor sends statuses as enum names (TODO_STATUS_IN_PROGRESS) */
+function todoStatus(status: unknown): OpenCodeTodo["status"] {
+  const name = String(status ?? "").toLowerCase().replace(/^todo_status_/, "");
+  return TODO_STATUSES.find(s => s === name) ?? "pending";
+}
+
+function todoList(todos: unknown): ToolArgs[] {
+  if (typeof todos === "string") {
+    try {
+      return todoList(JSON.parse(todos));
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(todos) ? todos.filter((todo): todo is ToolArgs => typeof todo === "object" && todo !== null) : [];
+}
+
+const todosMapping: ToolMapping = {
+  openCodeTool: "todowrite",
+  toOpenCode: args => ({
+    todos: todoList(args.todos).map((todo, index): OpenCodeTodo => ({
+      id: String(todo.id ?? index + 1),
+      content: String(todo.content ?? ""),
+      status: todoStatus(todo.status),
+      priority: todo.priority === "high" || todo.priority === "low" ? todo.priority : "medium",
+    })),
+  }),
+  toCursor: args => ({
+    todos: todoList(args.todos).map(todo => ({
+      id: String(todo.id ?? ""),
+      content: String(todo.content ?? ""),
+      status: `TODO_STATUS_${todoStatus(todo.status).toUpperCase()}`,
+    })),
+  }),
+};
+
+// --- Diffs ---
+
+/**
+ * oldString/newString for a unified diff with a single hunk (a diff with
+ * several hunks isn't one contiguous edit); null otherwise
+ */
+function editFromDiff(diff: string): { oldString: string; newString: string } | null {
+  const lines = diff.replace(/\n$/, "").split("\n");
+  const body = lines.filter(line => !line.startsWith("--- ") && !line.startsWith("+++ ") && !line.startsWith("\\"));
+  if (body.filter(line => line.startsWith("@@")).length > 1) return null;
+
+  let oldString = "";
+  let newString = "";
+  for (const line of body) {
+    if (line.startsWith("@@")) continue;
+    const text = `${line.slice(1)}\n`;
+    if (line.startsWith("-")) oldString += text;
+    else if (line.startsWith("+")) newString += text;
+    else {
+      oldString += text;
+      newString += text;
+    }
+  }
+  return oldString ? { oldString, newString } : null;
+}
+
+function diffFromEdit(oldString: string, newString: string): string {
+  const prefixed = (text: string, prefix: string) => text.replace(/\n$/, "").split("\n").map(line => prefix + line);
+  return ["@@", ...prefixed(oldString, "-"), ...prefixed(newString, "+")].join("\n") + "\n";
+}
+
+const applyDiffMapping: ToolMapping = {
+  openCodeTool: "edit",
+  toOpenCode: args => ({
+    ...renameArgs(args, { filePath: "filePath" }),
+    ...(typeof args.diff === "string" ? editFromDiff(args.diff) : null),
+  }),
+  toCursor: args => ({
+    ...renameArgs(args, { filePath: "filePath" }),
+    diff: diffFromEdit(String(args.oldString ?? ""), String(args.newString ?? "")),
+  }),
+};
+
+// --- Catalog ---
+
+/**
+ * Mappings by Cursor tool type. Where several Cursor tools map to one OpenCode
+ * tool, the first listed is used in the OpenCode → Cursor direction.
+ */
+const CURSOR_TO_OPENCODE: Record<string, ToolMapping> = {
+  shell_tool_call: renamed("bash", { command: "command", description: "description", working_directory: "workdir" }),
+  read_tool_call: renamed("read", { filePath: "filePath", offset: "offset", limit: "limit" }),
+  edit_tool_call: renamed("edit", { filePath: "filePath", oldString: "oldString", newString: "newString", replaceAll: "replaceAll" }),
+  apply_agent_diff_tool_call: applyDiffMapping,
+  glob_tool_call: renamed("glob", { pattern: "pattern", path: "path" }),
+  grep_tool_call: renamed("grep", { pattern: "pattern", path: "path", include: "include" }),
+  ls_tool_call: renamed("list", { path: "path", ignore: "ignore" }),
+  update_todos_tool_call: todosMapping,
+  read_todos_tool_call: renamed("todoread", {}),
+  task_tool_call: renamed("task", { description: "description", prompt: "prompt", subagent_type: "subagent_type" }),
+  fetch_tool_call: {
+    openCodeTool: "webfetch",
+    toOpenCode: args => ({ url: args.url, format: args.format || "markdown" }),
+    toCursor: args => renameArgs(args, { url: "url", format: "format" }),
+  },
+  web_search_tool_call: renamed("websearch", { query: "query" }),
+  exa_search_tool_call: renamed("websearch", { query: "query" }),
+  exa_fetch_tool_call: {
+    openCodeTool: "webfetch",
+    toOpenCode: args => ({ url: args.url, format: "markdown" }),
+    toCursor: args => renameArgs(args, { url: "url" }),
+  },
+  // OpenCode has no delete tool
+  delete_tool_call: {
+    openCodeTool: "bash",
+    toOpenCode: args => ({
+      command: `rm -- ${shellQuote(String(args.filePath ?? ""))}`,
+      description: `Delete ${String(args.filePath ?? "")}`,
+    }),
+    toCursor: args => renameArgs(args, { filePath: "filePath" }),
+  },
+};
+
+/**
+ * Cursor tools that run on Cursor's side, without an exec request. The turn
+ * runner hands their calls to the client when it declares the mapped tool.
+ */
+export const CURSOR_SIDE_TOOL_TYPES: ReadonlySet<string> = new Set([
+  "update_todos_tool_call",
+  "read_todos_tool_call",
+  "task_tool_call",
+  "delete_tool_call",
+  "web_search_tool_call",
+  "fetch_tool_call",
+  "exa_search_tool_call",
+  "exa_fetch_tool_call",
+]);
+
+/** Resolve a tool type or TOOL_FIELD_MAP name ("edit", "apply_diff") to its tool type */
+function cursorToolType(toolTypeOrName: string): string | undefined {
+  if (toolTypeOrName in CURSOR_TO_OPENCODE) return toolTypeOrName;
+  return Object.values(TOOL_FIELD_MAP).find(tool => tool.name === toolTypeOrName || tool.type === toolTypeOrName)?.type;
+}
+
+/**
+ * The OpenCode tool call for a Cursor tool call (by tool type, or by its
+ * TOOL_FIELD_MAP name), or null when OpenCode has no equivalent
+ */
+export function cursorToolCallToOpenCode(
+  toolType: string,
+  args: ToolArgs
+): { name: string; arguments: ToolArgs } | null {
+  const type = cursorToolType(toolType);
+  const mapping = type ? CURSOR_TO_OPENCODE[type] : undefined;
+  return mapping ? { name: mapping.openCodeTool, arguments: mapping.toOpenCode(args) } : null;
+}
+
+/**
+ * The Cursor tool call for an OpenCode tool call, or null for tools Cursor
+ * doesn't have (MCP and custom tools)
+ */
+export function openCodeToolCallToCursor(
+  name: string,
+  args: ToolArgs
+): { toolType: string; arguments: ToolArgs } | null {
+  const entry = Object.entries(CURSOR_TO_OPENCODE).find(([, mapping]) => mapping.openCodeTool === name);
+  if (!entry) return null;
+  const [toolType, mapping] = entry;
+  return { toolType, arguments: mapping.toCursor(args) };
+}
+
+/**
+ * A tool call handed over from Cursor's side, as the Cursor tool (TOOL_FIELD_MAP
+ * name and Cursor arguments), for replaying it in the conversation. Handed-over
+ * calls are recognized by their ID (makeCursorSideToolCallId); null for every
+ * other call, including the client's own calls to the same tools.
+ */
+export function cursorSideToolCall(
+  id: string,
+  name: string,
+  args: ToolArgs
+): { name: string; arguments: ToolArgs } | null {
+  if (!isCursorSideToolCallId(id)) return null;
+  const cursorCall = openCodeToolCallToCursor(name, args);
+  if (!cursorCall || !CURSOR_SIDE_TOOL_TYPES.has(cursorCall.toolType)) return null;
+  const tool = Object.values(TOOL_FIELD_MAP).find(entry => entry.type === cursorCall.toolType);
+  return { name: tool?.name ?? cursorCall.toolType, arguments: cursorCall.arguments };
+}
+
+// --- Edits ---
+
+function splitKeepingNewlines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * The smallest oldString/newString edit (in whole lines, unique in `before`)
+ * that turns `before` into `after`. Null for new or empty files and for no-op
+ * writes, which stay writes.
+ */
+export function editFromWrite(before: string, after: string): { oldString: string; newString: string } | null {
+  if (before.length === 0 || before === after) return null;
+
+  const oldLines = splitKeepingNewlines(before);
+  const newLines = splitKeepingNewlines(after);
+
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  // Widen with context until oldString is non-empty and matches only once
+  const edit = () => ({
+    oldString: oldLines.slice(start, oldEnd).join(""),
+    newString: newLines.slice(start, newEnd).join(""),
+  });
+  let current = edit();
+  while (
+    (current.oldString.length === 0 || before.indexOf(current.oldString) !== before.lastIndexOf(current.oldString))
+    && (start > 0 || oldEnd < oldLines.length)
+  ) {
+    if (start > 0) start--;
+    if (oldEnd < oldLines.length) {
+      oldEnd++;
+      newEnd++;
+    }
+    current = edit();
+  }
+  return current;
+}
+
+function applyEdit(before: string, oldString: string, newString: string, replaceAll: boolean): string | null {
+  const first = before.indexOf(oldString);
+  if (oldString.length === 0 || first === -1) return null;
+  if (replaceAll) return before.split(oldString).join(newString);
+  if (before.indexOf(oldString, first + 1) !== -1) return null;
+  return before.slice(0, first) + newString + before.slice(first + oldString.length);
+}
+
+/**
+ * Arguments for an OpenCode `edit` call equivalent to a write from Cursor's
+ * edit flow. The native edit's arguments are used when they reproduce the
+ * write exactly; otherwise the edit is derived from the file on disk. Null when
+ * the write can't be expressed as an edit (new files, unreadable paths).
+ */
+export async function writeAsOpenCodeEdit(
+  execReq: WriteExecRequest,
+  nativeArgs: ToolArgs | undefined,
+  policy: ExecutionPolicy = executionPolicyFromEnv()
+): Promise<ToolArgs | null> {
+  const resolved = resolveToolPath(policy, execReq.path);
+  if ("error" in resolved) return null;
+
+  let before: string;
+  try {
+    before = await Bun.file(resolved.path).text();
+  } catch {
+    return null;
+  }
+
+  const oldString = nativeArgs?.oldString;
+  const newString = nativeArgs?.newString;
+  if (typeof oldString === "string" && typeof newString === "string") {
+    const replaceAll = nativeArgs?.replaceAll === true;
+    if (applyEdit(before, oldString, newString, replaceAll) === execReq.fileText) {
+      return { filePath: execReq.path, oldString, newString, ...(replaceAll ? { replaceAll } : {}) };
+    }
+  }
+
+  const edit = editFromWrite(before, execReq.fileText);
+  return edit ? { filePath: execReq.path, ...edit } : null;
+}
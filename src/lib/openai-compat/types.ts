@@ -50,6 +50,19 @@ export interface OpenAIMessage {
 
 // --- Request Types ---
 
+export type OpenAIResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+    type: "json_schema";
+    json_schema: {
+      name: string;
+      description?: string;
+      schema?: Record<string, unknown>;
+      strict?: boolean;
+    };
+  };
+
 export interface OpenAIChatRequest {
   model: string;
   messages: OpenAIMessage[];
@@ -62,7 +75,8 @@ export interface OpenAIChatRequest {
   stop?: string | string[];
   user?: string;
   tools?: OpenAITool[];
-  tool_choice?: "auto" | "none" | { type: "function"; function: { name: string } };
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; function: { name: string } };
+  response_format?: OpenAIResponseFormat;
 }
 
 // --- Response Types ---
@@ -72,6 +86,8 @@ export interface OpenAIChatChoice {
   message: {
     role: "assistant";
     content: string | null;
+    /** Model reasoning (thinking models only) */
+    reasoning_content?: string;
     tool_calls?: OpenAIToolCall[];
   };
   finish_reason: "stop" | "length" | "content_filter" | "tool_calls" | null;
@@ -107,6 +123,7 @@ export interface OpenAIStreamChoice {
   delta: {
     role?: "assistant";
     content?: string | null;
+    reasoning_content?: string;
     tool_calls?: OpenAIStreamToolCallDelta[];
   };
   finish_reason: "stop" | "length" | "content_filter" | "tool_calls" | null;
@@ -139,6 +156,138 @@ export interface OpenAIModelsResponse {
   data: OpenAIModel[];
 }
 
+// --- Responses API Types ---
+
+export interface ResponsesInputText {
+  type: "input_text" | "output_text";
+  text: string;
+}
+
+export interface ResponsesInputImage {
+  type: "input_image";
+  image_url?: string;
+  detail?: "auto" | "low" | "high";
+}
+
+export interface ResponsesMessageItem {
+  type?: "message";
+  id?: string;
+  role: "user" | "assistant" | "system" | "developer";
+  content: string | (ResponsesInputText | ResponsesInputImage)[];
+}
+
+export interface ResponsesFunctionCallItem {
+  type: "function_call";
+  id?: string;
+  call_id: string;
+  name: string;
+  arguments: string;
+  status?: "in_progress" | "completed" | "incomplete";
+}
+
+export interface ResponsesFunctionCallOutputItem {
+  type: "function_call_output";
+  id?: string;
+  call_id: string;
+  output: string;
+}
+
+export interface ResponsesReasoningItem {
+  type: "reasoning";
+  id: string;
+  summary: { type: "summary_text"; text: string }[];
+}
+
+export type ResponsesInputItem =
+  | ResponsesMessageItem
+  | ResponsesFunctionCallItem
+  | ResponsesFunctionCallOutputItem
+  | ResponsesReasoningItem;
+
+export interface ResponsesFunctionTool {
+  type: "function";
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesInputItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  tools?: ResponsesFunctionTool[];
+  tool_choice?: "auto" | "none" | "required" | { type: "function"; name: string };
+  stream?: boolean;
+  store?: boolean;
+  temperature?: number;
+  max_output_tokens?: number;
+  metadata?: Record<string, string>;
+}
+
+export interface ResponsesOutputMessage {
+  type: "message";
+  id: string;
+  status: "in_progress" | "completed";
+  role: "assistant";
+  content: { type: "output_text"; text: string; annotations: unknown[] }[];
+}
+
+export type ResponsesOutputItem =
+  | ResponsesOutputMessage
+  | ResponsesReasoningItem
+  | (ResponsesFunctionCallItem & { id: string });
+
+export interface ResponsesUsage {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+}
+
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at: number;
+  /** "incomplete" when the turn stopped before it finished (the client went away) */
+  status: "in_progress" | "completed" | "incomplete" | "failed";
+  model: string;
+  output: ResponsesOutputItem[];
+  previous_response_id: string | null;
+  instructions: string | null;
+  error: { code: string; message: string } | null;
+  usage: ResponsesUsage | null;
+  metadata: Record<string, string>;
+}
+
+export type ResponsesStreamEvent =
+  | {
+      type: "response.created" | "response.in_progress" | "response.completed" | "response.incomplete" | "response.failed";
+      response: ResponsesResponse;
+    }
+  | { type: "response.output_item.added" | "response.output_item.done"; output_index: number; item: ResponsesOutputItem }
+  | {
+      type: "response.content_part.added" | "response.content_part.done";
+      item_id: string;
+      output_index: number;
+      content_index: number;
+      part: { type: "output_text"; text: string; annotations: unknown[] };
+    }
+  | { type: "response.output_text.delta"; item_id: string; output_index: number; content_index: number; delta: string }
+  | { type: "response.output_text.done"; item_id: string; output_index: number; content_index: number; text: string }
+  | {
+      type: "response.reasoning_summary_part.added" | "response.reasoning_summary_part.done";
+      item_id: string;
+      output_index: number;
+      summary_index: number;
+      part: { type: "summary_text"; text: string };
+    }
+  | { type: "response.reasoning_summary_text.delta"; item_id: string; output_index: number; summary_index: number; delta: string }
+  | { type: "response.reasoning_summary_text.done"; item_id: string; output_index: number; summary_index: number; text: string }
+  | { type: "response.function_call_arguments.delta"; item_id: string; output_index: number; delta: string }
+  | { type: "response.function_call_arguments.done"; item_id: string; output_index: number; arguments: string }
+  | { type: "error"; code: string | null; message: string; param: string | null };
+
 // --- Error Types ---
 
 export interface OpenAIError {
@@ -6,6 +6,8 @@
 
 import { randomUUID } from "node:crypto";
 import type { ExecRequest } from "../api/agent-service";
+import { safeParseJson } from "../session-reuse";
+import { cursorSideToolCall } from "./tool-mapping";
 import type { OpenAIMessage, OpenAIMessageContent, OpenAIStreamChunk } from "./types";
 
 /**
@@ -15,7 +17,10 @@ export function generateCompletionId(): string {
   return `chatcmpl-${randomUUID().replace(/-/g, "").slice(0, 24)}`;
 }
 
-function extractTextContent(content: OpenAIMessageContent): string {
+/**
+ * Extract the text parts of a message's content
+ */
+export function extractTextContent(content: OpenAIMessageContent): string {
   if (content === null) return "";
   if (typeof content === "string") return content;
   
@@ -58,9 +63,13 @@ export function messagesToPrompt(messages: OpenAIMessage[]): string {
     } else if (msg.role === "assistant") {
       if (msg.tool_calls && msg.tool_calls.length > 0) {
         // Assistant made tool calls - show what was called
-        const toolCallsDesc = msg.tool_calls.map(tc => 
-          `[Called tool: ${tc.function.name}(${tc.function.arguments})]`
-        ).join("\n");
+        // Calls handed over from Cursor's side are shown as the Cursor tool
+        const toolCallsDesc = msg.tool_calls.map(tc => {
+          const cursorCall = cursorSideToolCall(tc.id, tc.function.name, safeParseJson(tc.function.arguments) ?? {});
+          return cursorCall
+            ? `[Called tool: ${cursorCall.name}(${JSON.stringify(cursorCall.arguments)})]`
+            : `[Called tool: ${tc.function.name}(${tc.function.arguments})]`;
+        }).join("\n");
         const textContent = extractTextContent(msg.content);
         if (textContent) {
           parts.push(`Assistant: ${textContent}\n${toolCallsDesc}`);
@@ -185,7 +194,7 @@ export function handleCORS(): Response {
     headers: {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, x-api-key, anthropic-version",
       "Access-Control-Max-Age": "86400",
     },
   });
@@ -218,7 +227,7 @@ export function createStreamChunk(
   completionId: string,
   model: string,
   created: number,
-  delta: { role?: "assistant"; content?: string | null; tool_calls?: OpenAIStreamChunk["choices"][0]["delta"]["tool_calls"] },
+  delta: OpenAIStreamChunk["choices"][0]["delta"],
   finishReason: "stop" | "length" | "content_filter" | "tool_calls" | null = null
 ): OpenAIStreamChunk {
   return {
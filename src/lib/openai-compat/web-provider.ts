@@ -0,0 +1,315 @@
+/**
+ * Web Search and Fetch Providers
+ *
+ * Fulfills the agent's web_search, exa_search and exa_fetch queries on the
+ * client side, so searches can go to a self-hosted engine or an internal index
+ * instead of Cursor's. Without a provider, web searches run on Cursor's side
+ * and exa queries are declined.
+ */
+
+import { lookup as dnsLookup } from "node:dns/promises";
+import { request as httpRequest } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { isIP, type LookupFunction as ConnectLookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import { htmlToMarkdown } from "../utils/html-to-markdown";
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  /** Snippet or extract shown to the agent */
+  text?: string;
+  publishedDate?: string;
+}
+
+export interface WebPage {
+  url: string;
+  title?: string;
+  /** Page content as Markdown (or plain text) */
+  text: string;
+}
+
+export interface WebRequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface WebProvider {
+  search(query: string, options: WebRequestOptions & { limit: number }): Promise<WebSearchResult[]>;
+  fetch(url: string, options: WebRequestOptions): Promise<WebPage>;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+// Pages are cut at this many characters of Markdown
+const DEFAULT_MAX_PAGE_CHARS = 100_000;
+// Bodies are read up to this many bytes; the rest isn't downloaded
+const DEFAULT_MAX_PAGE_BYTES = 5_000_000;
+const MAX_REDIRECTS = 5;
+
+type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+/** Resolve a hostname to every address it points at */
+type LookupFunction = (hostname: string) => Promise<string[]>;
+
+function requestSignal(signal: AbortSignal | undefined, timeoutMs: number): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+// --- Address Checks ---
+
+function isPrivateIpv4(address: string): boolean {
+  const [a = 0, b = 0, c = 0] = address.split(".").map(Number);
+  return a === 0 // "this" network
+    || a === 10
+    || a === 127 // loopback
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, including cloud metadata (169.254.169.254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && c === 0) // IETF protocol assignments
+    || (a === 198 && (b === 18 || b === 19)) // benchmarking
+    || a >= 224; // multicast and reserved
+}
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not on the
+ * public internet (IPv4-mapped IPv6 addresses are checked as IPv4)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) return isPrivateIpv4(address);
+  if (version !== 6) return true;
+
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped?.[1]) return isPrivateIpv4(mapped[1]);
+  // URL parsing rewrites mapped addresses in hex (::ffff:7f00:1)
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex?.[1] && mappedHex[2]) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  if (normalized === "::" || normalized === "::1") return true;
+  // Unique local (fc00::/7), link-local (fe80::/10) and multicast (ff00::/8)
+  return /^(f[cd]|fe[89ab]|ff)[0-9a-f]{0,2}:/.test(normalized);
+}
+
+async function defaultLookup(hostname: string): Promise<string[]> {
+  const addresses = await dnsLookup(hostname, { all: true });
+  return addresses.map(entry => entry.address);
+}
+
+/**
+ * Refuse URLs whose host resolves to a private address, so the agent can't use
+ * the fetcher to reach the machine it runs on or its network
+ */
+async function assertPublicUrl(url: URL, lookup: LookupFunction): Promise<void> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${url.host}: it resolves to a private or local address`);
+  }
+}
+
+/**
+ * Fetch over node:http(s), resolving hosts with `lookup` when the connection is
+ * made and refusing private addresses there, so the address checked is the one
+ * connected to (a second DNS answer can't rebind the host to a local address)
+ */
+function publicAddressFetch(lookup: LookupFunction): FetchFunction {
+  const connectLookup: ConnectLookupFunction = (hostname, options, callback) => {
+    lookup(hostname).then(addresses => {
+      const [address] = addresses;
+      if (!address || addresses.some(isPrivateAddress)) {
+        callback(new Error(`Refusing to fetch ${hostname}: it resolves to a private or local address`), "", 0);
+      } else if (options.all) {
+        callback(null, addresses.map(entry => ({ address: entry, family: isIP(entry) })));
+      } else {
+        callback(null, address, isIP(address));
+      }
+    }, (err: Error) => callback(err, "", 0));
+  };
+
+  return (input, init = {}) => new Promise((resolve, reject) => {
+    const url = new URL(input);
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+    const request = send(url, {
+      headers: Object.fromEntries(new Headers(init.headers)),
+      lookup: connectLookup,
+      signal: init.signal ?? undefined,
+    }, (message) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(message.headers)) {
+        for (const entry of [value ?? []].flat()) headers.append(name, entry);
+      }
+      const status = message.statusCode ?? 502;
+      const hasBody = ![204, 205, 304].includes(status);
+      if (!hasBody) message.resume();
+      resolve(new Response(hasBody ? Readable.toWeb(message) as ReadableStream<Uint8Array> : null, { status, headers }));
+    });
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Read a body as text, stopping after `maxBytes`
+ */
+async function readCapped(response: Response, maxBytes: number): Promise<{ text: string; truncated: boolean }> {
+  const reader = response.body?.getReader();
+  if (!reader) return { text: "", truncated: false };
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return { text: Buffer.concat(chunks).toString("utf8"), truncated: false };
+    if (size + value.length > maxBytes) {
+      chunks.push(value.subarray(0, maxBytes - size));
+      await reader.cancel();
+      return { text: Buffer.concat(chunks).toString("utf8"), truncated: true };
+    }
+    chunks.push(value);
+    size += value.length;
+  }
+}
+
+// --- Page Fetcher ---
+
+export interface PageFetcherOptions {
+  /**
+   * Fetch used for pages. A custom fetch gets the private address check only
+   * before each request; the default checks the address it connects to.
+   */
+  fetch?: FetchFunction;
+  timeoutMs?: number;
+  maxChars?: number;
+  /** Bytes of a page body to download at most (default: 5 MB) */
+  maxBytes?: number;
+  /** Resolves hostnames for the private address check (default: DNS) */
+  lookup?: LookupFunction;
+  /** Allow fetching pages on private and local addresses (default: false) */
+  allowPrivateAddresses?: boolean;
+}
+
+/**
+ * Fetch a URL and return HTML pages as Markdown; other text types are
+ * returned as-is and binary content is refused. Redirects are followed by hand
+ * so every hop gets the private address check, and bodies are read only up to
+ * `maxBytes`.
+ */
+export function createPageFetcher(options: PageFetcherOptions = {}): WebProvider["fetch"] {
+  const lookup = options.lookup ?? defaultLookup;
+  const fetchImpl = options.fetch ?? (options.allowPrivateAddresses ? fetch : publicAddressFetch(lookup));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxChars = options.maxChars ?? DEFAULT_MAX_PAGE_CHARS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_PAGE_BYTES;
+
+  return async (url, { signal }) => {
+    const fetchSignal = requestSignal(signal, timeoutMs);
+    let current = new URL(url);
+    let response: Response;
+
+    for (let redirects = 0; ; redirects++) {
+      if (current.protocol !== "http:" && current.protocol !== "https:") {
+        throw new Error(`Unsupported URL scheme: ${current.protocol}`);
+      }
+      if (!options.allowPrivateAddresses) {
+        await assertPublicUrl(current, lookup);
+      }
+
+      response = await fetchImpl(current.toString(), {
+        headers: { Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5" },
+        redirect: "manual",
+        signal: fetchSignal,
+      });
+
+      const location = response.status >= 300 && response.status < 400 ? response.headers.get("location") : null;
+      if (!location) break;
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${url}`);
+      }
+      current = new URL(location, current);
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${url}`);
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    const isHtml = contentType.includes("html");
+    if (contentType && !isHtml && !contentType.startsWith("text/") && !contentType.includes("json") && !contentType.includes("xml")) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    const body = await readCapped(response, maxBytes);
+    const finalUrl = current.toString();
+    const page = isHtml ? htmlToMarkdown(body.text, finalUrl) : { title: undefined, markdown: body.text };
+    const text = page.markdown.length > maxChars
+      ? `${page.markdown.slice(0, maxChars)}\n\n[content truncated at ${maxChars} characters]`
+      : body.truncated
+        ? `${page.markdown}\n\n[content truncated at ${maxBytes} bytes]`
+        : page.markdown;
+
+    return { url: finalUrl, title: page.title, text };
+  };
+}
+
+// --- SearXNG ---
+
+export interface SearxngProviderOptions extends PageFetcherOptions {
+  /** Base URL of the SearXNG instance (its JSON output format must be enabled) */
+  baseUrl: string;
+}
+
+interface SearxngResponse {
+  results?: Array<{ title?: string; url?: string; content?: string; publishedDate?: string | null }>;
+}
+
+/**
+ * Search with a SearXNG instance and fetch pages directly
+ */
+export function createSearxngProvider(options: SearxngProviderOptions): WebProvider {
+  const fetchImpl = options.fetch ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return {
+    async search(query, { limit, signal }) {
+      const url = new URL("search", options.baseUrl.endsWith("/") ? options.baseUrl : `${options.baseUrl}/`);
+      url.searchParams.set("q", query);
+      url.searchParams.set("format", "json");
+
+      const response = await fetchImpl(url.toString(), {
+        headers: { Accept: "application/json" },
+        signal: requestSignal(signal, timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`SearXNG returned HTTP ${response.status}`);
+      }
+
+      const body = await response.json() as SearxngResponse;
+      return (body.results ?? [])
+        .filter(result => result.url)
+        .slice(0, limit)
+        .map(result => ({
+          title: result.title ?? result.url ?? "",
+          url: result.url ?? "",
+          text: result.content || undefined,
+          publishedDate: result.publishedDate || undefined,
+        }));
+    },
+    fetch: createPageFetcher(options),
+  };
+}
+
+/**
+ * A SearXNG provider when CURSOR_SEARXNG_URL is set. Pages on private
+ * addresses can only be fetched with CURSOR_WEB_FETCH_ALLOW_PRIVATE=1.
+ */
+export function webProviderFromEnv(env: Record<string, string | undefined> = process.env): WebProvider | undefined {
+  const baseUrl = env.CURSOR_SEARXNG_URL?.trim();
+  return baseUrl
+    ? createSearxngProvider({ baseUrl, allowPrivateAddresses: env.CURSOR_WEB_FETCH_ALLOW_PRIVATE === "1" })
+    : undefined;
+}
@@ -13,8 +13,9 @@
  *   and the server continues generating automatically.
  * 
  * Our workaround: When tool results come back in a new request, we close any
- * existing session and start completely fresh. The messagesToPrompt() function
- * formats the full conversation history including prior tool calls and results,
+ * existing session and start completely fresh. buildAgentChatRequest() sends the
+ * full conversation history including prior tool calls and results as a
+ * flattened prompt (or structured conversation state with CURSOR_STRUCTURED_STATE=1),
  * so the server has full context even though we're starting a new stream.
  * 
  * The session infrastructure (SessionLike, pendingExecs, etc.) is retained for:
@@ -88,6 +89,8 @@ export interface SessionLike {
   lastActivity: number;
   state: "running" | "waiting_tool";
   client: SessionClient;
+  /** Aborts the session's backend stream; owned by the session since the stream outlives each request */
+  abortController?: AbortController;
 }
 
 export function createSessionId(): string {
@@ -98,6 +101,22 @@ export function makeToolCallId(sessionId: string, callBase: string): string {
   return `sess_${sessionId}__call_${callBase}`;
 }
 
+// Call base of calls handed over from Cursor's side, so the replay can tell them from the client's own calls
+const CURSOR_SIDE_CALL_PREFIX = "cursorside";
+
+/**
+ * Tool call ID for a Cursor-side tool call handed to the client (session-scoped
+ * when there is a session)
+ */
+export function makeCursorSideToolCallId(sessionId: string | undefined, cursorCallId: string): string {
+  const callBase = `${CURSOR_SIDE_CALL_PREFIX}${cursorCallId.replace(/[^a-zA-Z0-9]/g, "").slice(0, 32)}`;
+  return sessionId ? makeToolCallId(sessionId, callBase) : `call_${callBase}`;
+}
+
+export function isCursorSideToolCallId(toolCallId: string): boolean {
+  return new RegExp(`(?:^|__)call_${CURSOR_SIDE_CALL_PREFIX}`).test(toolCallId);
+}
+
 export function parseSessionIdFromToolCallId(toolCallId: string | null | undefined): string | null {
   if (!toolCallId) return null;
   const match = toolCallId.match(/^sess_([a-zA-Z0-9]+)__call_/);
@@ -306,12 +325,13 @@ export async function sendToolResultsToCursor(
 }
 
 export async function cleanupExpiredSessions(
-  sessionMap: Map<string, { iterator?: AsyncIterator<unknown>; lastActivity: number }>,
+  sessionMap: Map<string, { iterator?: AsyncIterator<unknown>; lastActivity: number; abortController?: AbortController }>,
   timeoutMs: number,
   now: number = Date.now()
 ): Promise<void> {
   for (const [sessionId, session] of sessionMap) {
     if (now - session.lastActivity > timeoutMs) {
+      session.abortController?.abort();
       try {
         await session.iterator?.return?.();
       } catch (err) {
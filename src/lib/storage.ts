@@ -3,11 +3,37 @@
  *
  * File-based credential storage for cross-platform compatibility.
  * Stores authentication tokens in a JSON file.
+ *
+ * The file can hold several named profiles (e.g. a personal and a business
+ * account). The "default" profile keeps its credentials at the top level, so
+ * single-account files written by older versions stay valid; other profiles
+ * live under `profiles`.
+ *
+ * With a secret store configured (CURSOR_SECRET_STORE), a profile's tokens are
+ * kept in that store and auth.json only records which store holds them.
+ * EncryptedCredentialManager keeps the whole file AES-GCM encrypted instead.
  */
 
 import { platform, homedir } from "node:os";
 import { join, dirname } from "node:path";
 import { promises as fs } from "node:fs";
+import {
+  decryptString,
+  deriveKey,
+  encryptString,
+  fromBase64,
+  machinePassphrase,
+  randomSalt,
+  toBase64,
+  PBKDF2_ITERATIONS,
+  type EncryptedPayload,
+} from "./utils/crypto";
+import {
+  createSecretStore,
+  isSecretStoreName,
+  secretStoreFromEnv,
+  type SecretStore,
+} from "./auth/secret-store";
 
 export interface StoredCredentials {
   accessToken?: string;
@@ -15,6 +41,31 @@ export interface StoredCredentials {
   apiKey?: string;
 }
 
+/** Profile whose credentials are stored at the top level of auth.json */
+export const DEFAULT_PROFILE = "default";
+
+/**
+ * A profile's entry in auth.json
+ */
+interface ProfileEntry extends StoredCredentials {
+  /** Secret store holding this profile's credentials instead of the file */
+  secretStore?: string;
+}
+
+/**
+ * On-disk layout of auth.json
+ */
+interface AuthFile extends ProfileEntry {
+  /** Profile used when a manager is not bound to one (defaults to "default") */
+  defaultProfile?: string;
+  /** Credentials of every profile except "default" */
+  profiles?: Record<string, ProfileEntry>;
+}
+
+function hasCredentials(creds: ProfileEntry | undefined): boolean {
+  return !!(creds?.accessToken || creds?.refreshToken || creds?.apiKey || creds?.secretStore);
+}
+
 export interface CredentialManager {
   getAccessToken(): Promise<string | undefined>;
   getRefreshToken(): Promise<string | undefined>;
@@ -36,15 +87,37 @@ export interface CredentialManager {
  * - Windows: %APPDATA%\<TitleCase(domain)>\auth.json
  * - macOS: ~/.<domain>/auth.json
  * - Linux: $XDG_CONFIG_HOME/<domain>/auth.json or ~/.config/<domain>/auth.json
+ *
+ * A manager reads and writes one profile: the one it was constructed with,
+ * or the file's default profile when none was given.
+ *
+ * Tokens go to `secretStore` when one is given (by default the store named by
+ * CURSOR_SECRET_STORE; pass null to keep them in auth.json). Profiles already
+ * kept in a store are read from it either way.
  */
 export class FileCredentialManager implements CredentialManager {
   private cachedAccessToken: string | null = null;
   private cachedRefreshToken: string | null = null;
   private cachedApiKey: string | null = null;
-  private authFilePath: string;
+  protected authFilePath: string;
+  protected domain: string;
+  private profile: string | undefined;
+  protected secretStore: SecretStore | null;
 
-  constructor(domain: string = "cursor") {
+  constructor(domain: string = "cursor", profile?: string, secretStore?: SecretStore | null) {
+    this.domain = domain;
+    this.profile = profile;
     this.authFilePath = this.getAuthFilePath(domain);
+    this.secretStore = secretStore === undefined
+      ? secretStoreFromEnv(dirname(this.authFilePath)) ?? null
+      : secretStore;
+  }
+
+  /**
+   * Get a manager for another profile in the same auth.json
+   */
+  forProfile(profile: string): FileCredentialManager {
+    return new FileCredentialManager(this.domain, profile, this.secretStore);
   }
 
   private toWindowsTitleCase(domain: string): string {
@@ -76,7 +149,7 @@ export class FileCredentialManager implements CredentialManager {
     return this.authFilePath;
   }
 
-  private async ensureDirectoryExists(): Promise<void> {
+  protected async ensureDirectoryExists(): Promise<void> {
     const dir = dirname(this.authFilePath);
     try {
       await fs.mkdir(dir, { recursive: true });
@@ -85,7 +158,7 @@ export class FileCredentialManager implements CredentialManager {
     }
   }
 
-  private async readAuthData(): Promise<StoredCredentials | null> {
+  protected async readAuthFile(): Promise<AuthFile | null> {
     try {
       const data = await fs.readFile(this.authFilePath, "utf-8");
       return JSON.parse(data);
@@ -95,15 +168,153 @@ export class FileCredentialManager implements CredentialManager {
     }
   }
 
-  private async writeAuthData(data: StoredCredentials): Promise<void> {
+  protected async writeAuthFile(file: AuthFile): Promise<void> {
     await this.ensureDirectoryExists();
     await fs.writeFile(
       this.authFilePath,
-      JSON.stringify(data, null, 2),
+      JSON.stringify(file, null, 2),
       "utf-8"
     );
   }
 
+  private resolveProfile(file: AuthFile | null): string {
+    return this.profile ?? file?.defaultProfile ?? DEFAULT_PROFILE;
+  }
+
+  private static profileCredentials(file: AuthFile, profile: string): ProfileEntry | undefined {
+    if (profile === DEFAULT_PROFILE) {
+      const { accessToken, refreshToken, apiKey, secretStore } = file;
+      const entry = { accessToken, refreshToken, apiKey, secretStore };
+      return hasCredentials(entry) ? entry : undefined;
+    }
+    return file.profiles?.[profile];
+  }
+
+  /** Key of a profile's credentials in a secret store */
+  private secretKey(profile: string): string {
+    return `opencode-cursor-auth:${this.domain}:${profile}`;
+  }
+
+  /** The configured store when it has the given name, else a new instance of that backend */
+  private storeNamed(name: string): SecretStore {
+    if (this.secretStore?.name === name) return this.secretStore;
+    if (!isSecretStoreName(name)) {
+      throw new Error(`Credentials are kept in unknown secret store "${name}"`);
+    }
+    return createSecretStore(name, dirname(this.authFilePath));
+  }
+
+  /**
+   * Replace (or with undefined, remove) a profile's credentials, deleting the
+   * file once no profile is left
+   */
+  private async updateProfile(profile: string, creds: StoredCredentials | undefined): Promise<void> {
+    const file: AuthFile = (await this.readAuthFile()) ?? {};
+    const previousStore = FileCredentialManager.profileCredentials(file, profile)?.secretStore;
+
+    let entry: ProfileEntry | undefined = creds;
+    if (creds && this.secretStore) {
+      await this.secretStore.set(this.secretKey(profile), JSON.stringify(creds));
+      entry = { secretStore: this.secretStore.name };
+    }
+    // Drop the copy left behind when the profile is removed or moves to another store
+    if (previousStore && previousStore !== entry?.secretStore) {
+      await this.storeNamed(previousStore).delete(this.secretKey(profile));
+    }
+
+    if (profile === DEFAULT_PROFILE) {
+      file.accessToken = entry?.accessToken;
+      file.refreshToken = entry?.refreshToken;
+      file.apiKey = entry?.apiKey;
+      file.secretStore = entry?.secretStore;
+    } else {
+      const profiles = { ...file.profiles };
+      if (entry) profiles[profile] = entry;
+      else delete profiles[profile];
+      file.profiles = Object.keys(profiles).length > 0 ? profiles : undefined;
+    }
+
+    if (file.defaultProfile && !FileCredentialManager.profileCredentials(file, file.defaultProfile)) {
+      file.defaultProfile = undefined;
+    }
+
+    if (!hasCredentials(file) && !file.profiles) {
+      await this.deleteAuthFile();
+      return;
+    }
+    await this.writeAuthFile(file);
+  }
+
+  protected async deleteAuthFile(): Promise<void> {
+    try {
+      await fs.unlink(this.authFilePath);
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+  }
+
+  private async readAuthData(): Promise<StoredCredentials | null> {
+    const file = await this.readAuthFile();
+    if (!file) return null;
+    const profile = this.resolveProfile(file);
+    const entry = FileCredentialManager.profileCredentials(file, profile);
+    if (!entry?.secretStore) return entry ?? null;
+
+    const secret = await this.storeNamed(entry.secretStore).get(this.secretKey(profile));
+    return secret ? JSON.parse(secret) as StoredCredentials : null;
+  }
+
+  private async writeAuthData(data: StoredCredentials): Promise<void> {
+    const file = await this.readAuthFile();
+    await this.updateProfile(this.resolveProfile(file), data);
+  }
+
+  // --- Profiles ---
+
+  /**
+   * Profile this manager reads and writes
+   */
+  async getProfile(): Promise<string> {
+    return this.resolveProfile(await this.readAuthFile());
+  }
+
+  /**
+   * Names of all profiles with stored credentials
+   */
+  async listProfiles(): Promise<string[]> {
+    const file = await this.readAuthFile();
+    if (!file) return [];
+    const names = Object.keys(file.profiles ?? {});
+    return FileCredentialManager.profileCredentials(file, DEFAULT_PROFILE) ? [DEFAULT_PROFILE, ...names] : names;
+  }
+
+  /**
+   * Profile used by managers that are not bound to one
+   */
+  async getDefaultProfile(): Promise<string> {
+    return (await this.readAuthFile())?.defaultProfile ?? DEFAULT_PROFILE;
+  }
+
+  /**
+   * Make an existing profile the default
+   */
+  async setDefaultProfile(profile: string): Promise<void> {
+    const file = await this.readAuthFile();
+    if (!file || !FileCredentialManager.profileCredentials(file, profile)) {
+      throw new Error(`Unknown profile: ${profile}`);
+    }
+    file.defaultProfile = profile === DEFAULT_PROFILE ? undefined : profile;
+    await this.writeAuthFile(file);
+  }
+
+  /**
+   * Remove a profile's credentials
+   */
+  async removeProfile(profile: string): Promise<void> {
+    await this.updateProfile(profile, undefined);
+    this.clearCache();
+  }
+
   async setAuthentication(
     accessToken: string,
     refreshToken: string,
@@ -168,11 +379,8 @@ export class FileCredentialManager implements CredentialManager {
   }
 
   async clearAuthentication(): Promise<void> {
-    try {
-      await fs.unlink(this.authFilePath);
-    } catch (error: unknown) {
-      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
-    }
+    const file = await this.readAuthFile();
+    await this.updateProfile(this.resolveProfile(file), undefined);
     this.cachedAccessToken = null;
     this.cachedRefreshToken = null;
     this.cachedApiKey = null;
@@ -188,11 +396,174 @@ export class FileCredentialManager implements CredentialManager {
   }
 }
 
+// --- Encrypted Storage ---
+
+const ENCRYPTED_AUTH_FILE = "auth.enc.json";
+
+/**
+ * On-disk layout of auth.enc.json: the encrypted JSON of an auth.json
+ */
+interface EncryptedAuthFile extends EncryptedPayload {
+  version: 1;
+  /** base64 PBKDF2 salt */
+  salt: string;
+  iterations: number;
+  /** Whether the key is derived from a passphrase or from machine identifiers */
+  keySource: "passphrase" | "machine";
+}
+
+export interface EncryptedCredentialOptions {
+  /** Passphrase for the key (default: CURSOR_SECRET_PASSPHRASE, else machine-derived) */
+  passphrase?: string;
+  secretStore?: SecretStore | null;
+}
+
+// PBKDF2 is deliberately slow and managers are created per lookup; share derived keys
+const derivedKeys = new Map<string, Promise<CryptoKey>>();
+
+function deriveCachedKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const cacheKey = `${salt}:${iterations}:${passphrase}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = deriveKey(passphrase, fromBase64(salt), iterations);
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * EncryptedCredentialManager - auth.json encrypted at rest
+ *
+ * Stores the same content as FileCredentialManager, AES-GCM encrypted, in
+ * auth.enc.json next to where auth.json would be. An existing plaintext
+ * auth.json is encrypted on first read and then removed.
+ */
+export class EncryptedCredentialManager extends FileCredentialManager {
+  private passphrase: string | undefined;
+  private plaintextPath: string;
+  // Salt and key source of the file as last read or written, reused for writes
+  private header: Pick<EncryptedAuthFile, "salt" | "iterations" | "keySource"> | undefined;
+
+  constructor(domain: string = "cursor", profile?: string, options: EncryptedCredentialOptions = {}) {
+    super(domain, profile, options.secretStore);
+    this.passphrase = options.passphrase ?? (process.env.CURSOR_SECRET_PASSPHRASE || undefined);
+    this.plaintextPath = this.authFilePath;
+    this.authFilePath = join(dirname(this.authFilePath), ENCRYPTED_AUTH_FILE);
+  }
+
+  override forProfile(profile: string): EncryptedCredentialManager {
+    return new EncryptedCredentialManager(this.domain, profile, {
+      passphrase: this.passphrase,
+      secretStore: this.secretStore,
+    });
+  }
+
+  /**
+   * Re-encrypt the file under a new key: a new passphrase, or the machine key
+   * when none is given. Managers created afterwards must use the new passphrase.
+   */
+  async rotateKey(newPassphrase?: string): Promise<void> {
+    const file = await this.readAuthFile();
+    this.passphrase = newPassphrase;
+    this.header = undefined;
+    if (file) await this.writeAuthFile(file);
+  }
+
+  private keyPassphrase(keySource: EncryptedAuthFile["keySource"]): string | undefined {
+    return keySource === "machine" ? machinePassphrase() : this.passphrase;
+  }
+
+  protected override async readAuthFile(): Promise<AuthFile | null> {
+    let encrypted: EncryptedAuthFile;
+    try {
+      encrypted = JSON.parse(await fs.readFile(this.authFilePath, "utf-8"));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return this.migratePlaintextFile();
+      throw new Error(`Cannot read ${this.authFilePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (encrypted.version !== 1 || !encrypted.salt || !encrypted.iv || !encrypted.data) {
+      throw new Error(`Unsupported encrypted credentials file: ${this.authFilePath}`);
+    }
+    const passphrase = this.keyPassphrase(encrypted.keySource);
+    if (passphrase === undefined) {
+      throw new Error(`${this.authFilePath} is protected by a passphrase; set CURSOR_SECRET_PASSPHRASE`);
+    }
+
+    // Unlike plaintext files, an unreadable file must not look empty: a login would overwrite it
+    let plaintext: string;
+    try {
+      plaintext = await decryptString(await deriveCachedKey(passphrase, encrypted.salt, encrypted.iterations), encrypted);
+    } catch {
+      throw new Error(
+        `Cannot decrypt ${this.authFilePath}: wrong passphrase (CURSOR_SECRET_PASSPHRASE), a file from another machine, or a corrupted file`
+      );
+    }
+    this.header = { salt: encrypted.salt, iterations: encrypted.iterations, keySource: encrypted.keySource };
+    return JSON.parse(plaintext) as AuthFile;
+  }
+
+  protected override async writeAuthFile(file: AuthFile): Promise<void> {
+    const keySource: EncryptedAuthFile["keySource"] = this.passphrase === undefined ? "machine" : "passphrase";
+    const header = this.header?.keySource === keySource
+      ? this.header
+      : { salt: toBase64(randomSalt()), iterations: PBKDF2_ITERATIONS, keySource };
+    const key = await deriveCachedKey(this.keyPassphrase(keySource) ?? "", header.salt, header.iterations);
+    const encrypted: EncryptedAuthFile = {
+      version: 1,
+      ...header,
+      ...(await encryptString(key, JSON.stringify(file))),
+    };
+
+    await this.ensureDirectoryExists();
+    await fs.writeFile(this.authFilePath, JSON.stringify(encrypted, null, 2), { encoding: "utf-8", mode: 0o600 });
+    this.header = header;
+  }
+
+  /**
+   * Encrypt an existing plaintext auth.json and remove it
+   */
+  private async migratePlaintextFile(): Promise<AuthFile | null> {
+    let file: AuthFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.plaintextPath, "utf-8"));
+    } catch {
+      return null;
+    }
+    await this.writeAuthFile(file);
+    try {
+      await fs.unlink(this.plaintextPath);
+    } catch (error: unknown) {
+      // Another manager migrated it concurrently
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+    return file;
+  }
+}
+
+export interface CredentialManagerOptions {
+  /** Encrypt credentials at rest (default: CURSOR_CREDENTIAL_ENCRYPTION=1) */
+  encrypted?: boolean;
+  /** Passphrase for encrypted storage (default: CURSOR_SECRET_PASSPHRASE, else machine-derived) */
+  passphrase?: string;
+  /** Where tokens are kept (default: CURSOR_SECRET_STORE; null keeps them in the credentials file) */
+  secretStore?: SecretStore | null;
+}
+
 /**
  * Create a credential manager for the specified domain
  */
 export function createCredentialManager(
-  domain: string = "cursor"
+  domain: string = "cursor",
+  profile?: string,
+  options: CredentialManagerOptions = {}
 ): FileCredentialManager {
-  return new FileCredentialManager(domain);
+  const encrypted = options.encrypted ?? process.env.CURSOR_CREDENTIAL_ENCRYPTION === "1";
+  if (encrypted) {
+    return new EncryptedCredentialManager(domain, profile, {
+      passphrase: options.passphrase,
+      secretStore: options.secretStore,
+    });
+  }
+  return new FileCredentialManager(domain, profile, options.secretStore);
 }
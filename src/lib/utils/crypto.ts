@@ -0,0 +1,103 @@
+/**
+ * Secret Encryption
+ *
+ * AES-256-GCM encryption for secrets kept on disk, using WebCrypto. Keys are
+ * derived with PBKDF2 from a passphrase. Without a configured passphrase a
+ * machine-derived one is used: that keeps a copied file unreadable on other
+ * machines, but does not protect against other processes of the same user.
+ */
+
+import { readFileSync } from "node:fs";
+import { hostname, userInfo } from "node:os";
+
+/** Ciphertext and IV, both base64 */
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+export const PBKDF2_ITERATIONS = 210_000;
+const SALT_BYTES = 16;
+// 96-bit IVs are the recommended size for AES-GCM
+const IV_BYTES = 12;
+
+// Linux/systemd and D-Bus machine IDs; absent on macOS and Windows
+const MACHINE_ID_PATHS = ["/etc/machine-id", "/var/lib/dbus/machine-id"];
+
+export function toBase64(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+export function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+/**
+ * Random salt for key derivation
+ */
+export function randomSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase
+ */
+export async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a payload; throws when the key is wrong or the data was tampered with
+ */
+export async function decryptString(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data)
+    );
+  } catch {
+    throw new Error("Decryption failed: wrong passphrase or corrupted data");
+  }
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Passphrase derived from this machine and user, for when none is configured
+ */
+export function machinePassphrase(): string {
+  let machineId = "";
+  for (const path of MACHINE_ID_PATHS) {
+    try {
+      machineId = readFileSync(path, "utf-8").trim();
+      if (machineId) break;
+    } catch {
+      // Try the next location
+    }
+  }
+  return ["opencode-cursor-auth", hostname(), userInfo().username, machineId].join(":");
+}
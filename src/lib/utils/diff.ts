@@ -0,0 +1,93 @@
+/**
+ * Unified Diff
+ *
+ * Line-based unified diffs for previewing file writes. Built on a plain LCS
+ * table, so it is meant for source-sized files, not large generated ones.
+ */
+
+// Files with more line pairs than this are summarized instead of diffed
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function splitLines(text: string): string[] {
+  if (text.length === 0) return [];
+  const lines = text.split("\n");
+  if (lines.at(-1) === "") lines.pop();
+  return lines;
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  // lcs[i * cols + j] = LCS length of before[i..] and after[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = before[i] === after[j]
+        ? (lcs[(i + 1) * cols + j + 1] ?? 0) + 1
+        : Math.max(lcs[(i + 1) * cols + j] ?? 0, lcs[i * cols + j + 1] ?? 0);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ op: " ", text: before[i] ?? "" });
+      i++;
+      j++;
+    } else if (i < before.length && (j >= after.length || (lcs[(i + 1) * cols + j] ?? 0) >= (lcs[i * cols + j + 1] ?? 0))) {
+      // Removals before additions, as diff(1) prints them
+      lines.push({ op: "-", text: before[i] ?? "" });
+      i++;
+    } else {
+      lines.push({ op: "+", text: after[j] ?? "" });
+      j++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Unified diff of a file's content before and after a change, with `context`
+ * unchanged lines around each hunk. Empty when nothing changed.
+ */
+export function createUnifiedDiff(path: string, before: string, after: string, context = 3): string {
+  if (before === after) return "";
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const header = [`--- ${before.length === 0 ? "/dev/null" : `a/${path}`}`, `+++ b/${path}`];
+
+  if ((oldLines.length + 1) * (newLines.length + 1) > MAX_DIFF_CELLS) {
+    return [...header, `@@ ${oldLines.length} lines replaced by ${newLines.length} lines (too large to diff) @@`].join("\n");
+  }
+
+  const lines = diffLines(oldLines, newLines);
+  const changed = lines.flatMap((line, index) => line.op === " " ? [] : [index]);
+
+  // Group changes whose context windows touch into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = hunks.at(-1);
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  const output = [...header];
+  for (const [start, end] of hunks) {
+    // Line numbers at the start of the hunk
+    const preceding = lines.slice(0, start);
+    const oldStart = preceding.filter(line => line.op !== "+").length + 1;
+    const newStart = preceding.filter(line => line.op !== "-").length + 1;
+    const body = lines.slice(start, end);
+    const oldCount = body.filter(line => line.op !== "+").length;
+    const newCount = body.filter(line => line.op !== "-").length;
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    output.push(...body.map(line => `${line.op}${line.text}`));
+  }
+  return output.join("\n");
+}
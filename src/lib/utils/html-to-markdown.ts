@@ -0,0 +1,108 @@
+/**
+ * HTML to Markdown
+ *
+ * A small tag-level converter for turning fetched web pages into text the
+ * agent can read: headings, links, lists, emphasis and code survive; scripts,
+ * styles and layout markup don't. It is not a full HTML parser.
+ */
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  copy: "©",
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X"
+        ? Number.parseInt(entity.slice(2), 16)
+        : Number.parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  const value = match?.[1] ?? match?.[2] ?? match?.[3];
+  return value === undefined ? undefined : decodeHtmlEntities(value);
+}
+
+function resolveUrl(href: string, baseUrl: string | undefined): string {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+/**
+ * Convert an HTML document to Markdown. Relative links resolve against
+ * `baseUrl`; the page title is returned separately.
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): { title?: string; markdown: string } {
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = titleMatch?.[1] ? decodeHtmlEntities(stripTags(titleMatch[1])).trim() || undefined : undefined;
+
+  let body = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|svg|head|title|iframe)\b[\s\S]*?<\/\1>/gi, "");
+
+  // The main content, when the page marks it
+  const main = body.match(/<(main|article)\b[^>]*>([\s\S]*?)<\/\1>/i);
+  if (main?.[2]) body = main[2];
+
+  // Code blocks are set aside so whitespace handling leaves them alone
+  const blocks: string[] = [];
+  body = body.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, code: string) => {
+    blocks.push(`\n\n\`\`\`\n${decodeHtmlEntities(stripTags(code)).replace(/\n+$/, "")}\n\`\`\`\n\n`);
+    return `\u0000${blocks.length - 1}\u0000`;
+  });
+
+  body = body
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${"#".repeat(Number(level))} ${stripTags(text).trim()}\n\n`)
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, text: string) => {
+      const href = attribute(attrs, "href");
+      const label = stripTags(text).trim();
+      if (!href || href.startsWith("#") || href.startsWith("javascript:")) return label;
+      return label ? `[${label}](${resolveUrl(href, baseUrl)})` : "";
+    })
+    .replace(/<img\b([^>]*)>/gi, (_, attrs: string) => {
+      const src = attribute(attrs, "src");
+      return src ? `![${attribute(attrs, "alt") ?? ""}](${resolveUrl(src, baseUrl)})` : "";
+    })
+    .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+    .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1>/gi, "_$2_")
+    .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, "`$1`")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n")
+    .replace(/<\/?(p|div|section|header|footer|ul|ol|table|tr|blockquote|dl|dt|dd|figure|aside|nav|form)\b[^>]*>/gi, "\n\n")
+    .replace(/<\/t[dh]>/gi, " | ");
+
+  const text = decodeHtmlEntities(stripTags(body))
+    .split("\n")
+    .map(line => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => blocks[Number(index)] ?? "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { title, markdown: text };
+}
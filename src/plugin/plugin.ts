@@ -10,18 +10,31 @@
 
 import { exec } from "node:child_process";
 import { platform } from "node:os";
+import { dirname } from "node:path";
 
-import { ModelInfoMap } from "llm-info";
 import {
   LoginManager,
   CURSOR_API_BASE_URL,
 } from "../lib/auth/login";
-import { readCursorCliAccessTokenFromKeychain } from "../lib/auth";
-import { CursorClient } from "../lib/api/cursor-client";
-import { listCursorModels } from "../lib/api/cursor-models";
+import { startHeadlessLogin, terminalLoginProgress } from "../lib/auth/headless-login";
+import {
+  readCursorCliAccessToken,
+  createTokenProvider,
+  createStaticTokenProvider,
+  type TokenProvider,
+} from "../lib/auth";
+import { getCachedModels } from "../lib/api/cursor-models";
+import { loadModelLimitOverrides, resolveModelLimits } from "../lib/api/model-limits";
 import { decodeJwtPayload } from "../lib/utils/jwt";
 import { refreshAccessToken } from "../lib/auth/helpers";
-import { createPluginFetch } from "../lib/openai-compat";
+import { createSecretStore, isSecretStoreName, secretStoreFromEnv } from "../lib/auth/secret-store";
+import { FileCredentialManager } from "../lib/storage";
+import {
+  createOpenCodePermissionApprover,
+  createPluginFetch,
+  modelSupportsImages,
+  type OpenCodePermissionConfig,
+} from "../lib/openai-compat";
 import type {
   PluginContext,
   PluginResult,
@@ -30,6 +43,7 @@ import type {
   LoaderResult,
   OAuthAuthDetails,
   TokenExchangeResult,
+  TokenExchangeSuccess,
   AuthDetails,
 } from "./types";
 
@@ -37,41 +51,8 @@ import type {
 
 export const CURSOR_PROVIDER_ID = "cursor";
 
-const CURSOR_TO_LLM_INFO_MAP: Record<string, string> = {
-  "sonnet-4.5": "claude-sonnet-4-5-20250929",
-  "sonnet-4.5-thinking": "claude-sonnet-4-5-20250929",
-  "opus-4.5": "claude-opus-4-5-20251101",
-  "opus-4.5-thinking": "claude-opus-4-5-20251101",
-  "opus-4.1": "claude-opus-4-1-20250805",
-  "gemini-3-pro": "gemini-3-pro-preview",
-  "gemini-3-flash": "gemini-2.5-flash",
-  "gpt-5.2": "gpt-5.2",
-  "gpt-5.2-high": "gpt-5.2",
-  "gpt-5.1": "gpt-5",
-  "gpt-5.1-high": "gpt-5",
-  "gpt-5.1-codex": "gpt-5",
-  "gpt-5.1-codex-high": "gpt-5",
-  "gpt-5.1-codex-max": "gpt-5",
-  "gpt-5.1-codex-max-high": "gpt-5",
-  "grok": "grok-4",
-};
-
-// Conservative fallback limits for unknown models.
-// We intentionally err on the low side to avoid OpenCode attempting requests that exceed backend limits.
-const DEFAULT_LIMITS = { context: 32768, output: 8192 };
-
-function getModelLimits(cursorModelId: string): { context: number; output: number } {
-  const llmInfoId = CURSOR_TO_LLM_INFO_MAP[cursorModelId];
-  if (!llmInfoId) return DEFAULT_LIMITS;
-  
-  const info = (ModelInfoMap as Record<string, { contextWindowTokenLimit?: number; outputTokenLimit?: number }>)[llmInfoId];
-  if (!info) return DEFAULT_LIMITS;
-  
-  return {
-    context: info.contextWindowTokenLimit ?? DEFAULT_LIMITS.context,
-    output: info.outputTokenLimit ?? DEFAULT_LIMITS.output,
-  };
-}
+// Debug logging - set CURSOR_DEBUG=1 to enable
+const debugLog = process.env.CURSOR_DEBUG === "1" ? console.log.bind(console) : () => {};
 
 // --- Auth Helpers ---
 
@@ -114,6 +95,58 @@ function formatRefreshParts(refreshToken: string, apiKey?: string): string {
   return apiKey ? `${refreshToken}|${apiKey}` : refreshToken;
 }
 
+// --- Secret Store ---
+
+// Marks tokens that were moved into a secret store; followed by the store's name
+const SECRET_REF_PREFIX = "secret-store:";
+const PLUGIN_SECRET_KEY = "opencode-cursor-auth:opencode";
+
+/** Secret stores keep their files next to auth.json */
+function secretStoreDirectory(): string {
+  return dirname(new FileCredentialManager("cursor", undefined, null).getStoragePath());
+}
+
+/**
+ * Move tokens into the secret store named by CURSOR_SECRET_STORE before
+ * OpenCode persists them, leaving OpenCode only a reference to the store
+ */
+async function sealAuth<T extends { refresh: string; access?: string }>(auth: T): Promise<T> {
+  const store = secretStoreFromEnv(secretStoreDirectory());
+  if (!store) return auth;
+  await store.set(PLUGIN_SECRET_KEY, JSON.stringify({ refresh: auth.refresh, access: auth.access }));
+  return { ...auth, refresh: `${SECRET_REF_PREFIX}${store.name}`, access: "" };
+}
+
+/** The tokens sealAuth stored, or none when the entry isn't ours or is corrupt */
+function parseSealedTokens(secret: string | null | undefined): { refresh?: string; access?: string } {
+  if (!secret) return {};
+  try {
+    const tokens = JSON.parse(secret) as unknown;
+    return tokens && typeof tokens === "object" ? tokens as { refresh?: string; access?: string } : {};
+  } catch {
+    console.warn("Ignoring unreadable Cursor credentials in the secret store; log in again to replace them");
+    return {};
+  }
+}
+
+/**
+ * Resolve tokens that sealAuth moved into a secret store. Unknown stores and
+ * unreadable entries resolve to no credentials, so the user is asked to log in.
+ */
+async function unsealAuth(auth: OAuthAuthDetails): Promise<OAuthAuthDetails> {
+  if (!auth.refresh?.startsWith(SECRET_REF_PREFIX)) return auth;
+  const name = auth.refresh.slice(SECRET_REF_PREFIX.length);
+  if (!isSecretStoreName(name)) return { ...auth, refresh: "", access: undefined };
+
+  const secret = await createSecretStore(name, secretStoreDirectory()).get(PLUGIN_SECRET_KEY);
+  const tokens = parseSealedTokens(secret);
+  return {
+    ...auth,
+    refresh: typeof tokens.refresh === "string" ? tokens.refresh : "",
+    access: typeof tokens.access === "string" ? tokens.access : undefined,
+  };
+}
+
 /**
  * Refresh an access token using the refresh token
  */
@@ -153,7 +186,7 @@ async function refreshCursorAccessToken(
     try {
       await client.auth.set({
         path: { id: CURSOR_PROVIDER_ID },
-        body: updatedAuth,
+        body: await sealAuth(updatedAuth),
       });
     } catch (e) {
       console.error("Failed to persist refreshed Cursor credentials:", e);
@@ -166,6 +199,12 @@ async function refreshCursorAccessToken(
   }
 }
 
+// The provider behind the current loader result; replaced (and its renewal stopped) on reload
+let activeTokenProvider: TokenProvider | undefined;
+
+// OpenCode's permission settings, applied to commands and writes the agent runs itself
+let openCodePermissions: OpenCodePermissionConfig | undefined;
+
 // --- OAuth Flow Helpers ---
 
 /**
@@ -204,6 +243,10 @@ function openBrowser(url: string): Promise<void> {
 export const CursorOAuthPlugin = async ({
   client,
 }: PluginContext): Promise<PluginResult> => ({
+  config: async (config) => {
+    openCodePermissions = config.permission;
+  },
+
   auth: {
     provider: CURSOR_PROVIDER_ID,
 
@@ -212,9 +255,12 @@ export const CursorOAuthPlugin = async ({
       providerArg: Provider
     ): Promise<LoaderResult | null> => {
       const buildLoaderResult = async (
-        accessToken: string,
+        tokenProvider: TokenProvider,
         provider: Provider
       ): Promise<LoaderResult> => {
+        activeTokenProvider?.dispose();
+        activeTokenProvider = tokenProvider;
+
         // Ensure provider and provider.models exist
         provider.models = provider.models ?? {};
 
@@ -227,22 +273,32 @@ export const CursorOAuthPlugin = async ({
 
         // Dynamically populate provider models from Cursor API if available.
         try {
-          const cursorClient = new CursorClient(accessToken);
-          const models = await listCursorModels(cursorClient);
+          // Served from the last run's catalog when the API is unreachable
+          const models = await getCachedModels(await tokenProvider.getAccessToken());
           if (models.length > 0) {
+            const { overrides, error } = loadModelLimitOverrides();
+            if (error) {
+              console.error("Ignoring Cursor model limit overrides:", error);
+            }
+
             for (const m of models) {
-              // Determine if this is a "thinking" (reasoning) model
-              const isThinking =
+              // Determine if this is a "thinking" (reasoning) model; guess from the name
+              // when Cursor doesn't report it
+              const isThinking = m.thinking ?? (
                 m.modelId?.includes("thinking") ||
                 m.displayModelId?.includes("thinking") ||
-                m.displayName?.toLowerCase().includes("thinking");
+                m.displayName?.toLowerCase().includes("thinking"));
 
               // Use displayModelId as the primary ID (user-facing), fall back to modelId
               const modelID = m.displayModelId || m.modelId;
               if (!modelID) continue;
 
               const existingModel = provider.models[modelID];
-              const limits = getModelLimits(modelID);
+              const limits = resolveModelLimits(modelID, { model: m, overrides });
+              debugLog(
+                `[Cursor] ${modelID} limits: context ${limits.context} (${limits.source.context}), ` +
+                  `output ${limits.output} (${limits.source.output})`
+              );
 
               const parsedModel = {
                 id: modelID,
@@ -262,7 +318,7 @@ export const CursorOAuthPlugin = async ({
                   input: {
                     text: true,
                     audio: false,
-                    image: true,
+                    image: modelSupportsImages(modelID, m),
                     video: false,
                     pdf: false,
                   },
@@ -284,7 +340,7 @@ export const CursorOAuthPlugin = async ({
                   },
                 },
                 options: {},
-                limit: limits,
+                limit: { context: limits.context, output: limits.output },
                 headers: {},
                 ...existingModel,
               };
@@ -297,10 +353,12 @@ export const CursorOAuthPlugin = async ({
         }
 
         // Create custom fetch function instead of starting proxy server
+        // The provider is consulted per request, so long sessions pick up refreshed tokens
         const customFetch = createPluginFetch({
-          accessToken,
+          tokenProvider,
           // Disable logging to avoid polluting the UI
           log: () => {},
+          approve: createOpenCodePermissionApprover(() => openCodePermissions),
         });
 
         // We need to provide baseURL even when using custom fetch
@@ -317,13 +375,20 @@ export const CursorOAuthPlugin = async ({
 
       const envToken = process.env.CURSOR_ACCESS_TOKEN?.trim();
       if (envToken) {
-        return await buildLoaderResult(envToken, providerArg ?? ({} as Provider));
+        return await buildLoaderResult(
+          createStaticTokenProvider(envToken),
+          providerArg ?? ({} as Provider)
+        );
       }
 
-      const keychainToken = await readCursorCliAccessTokenFromKeychain();
+      const keychainToken = await readCursorCliAccessToken();
       if (keychainToken) {
+        // Cursor CLI keeps its stored token fresh; re-read it when the token expires
         return await buildLoaderResult(
-          keychainToken,
+          createTokenProvider({
+            accessToken: keychainToken,
+            refresh: () => readCursorCliAccessToken(),
+          }),
           providerArg ?? ({} as Provider)
         );
       }
@@ -334,7 +399,7 @@ export const CursorOAuthPlugin = async ({
         return null;
       }
 
-      let authRecord = auth;
+      let authRecord = await unsealAuth(auth);
       if (accessTokenExpired(authRecord)) {
         const refreshed = await refreshCursorAccessToken(authRecord, client);
         if (refreshed) authRecord = refreshed;
@@ -344,32 +409,41 @@ export const CursorOAuthPlugin = async ({
       if (!storedToken) return null;
 
       return await buildLoaderResult(
-        storedToken,
+        createTokenProvider({
+          accessToken: storedToken,
+          refresh: async () => {
+            const refreshed = await refreshCursorAccessToken(authRecord, client);
+            if (!refreshed) return null;
+            authRecord = refreshed;
+            return refreshed.access ?? null;
+          },
+        }),
         providerArg ?? ({} as Provider)
       );
     },
 
     methods: [
       {
-        label: "Cursor CLI (macOS Keychain)",
+        label: "Cursor CLI (Keychain / Secret Service)",
         type: "oauth",
         authorize: async () => {
           return {
             // OpenCode requires a URL for OAuth methods; we don't depend on it for this flow.
             url: "https://cursor.com",
             instructions:
-              "This method reads your Cursor CLI token from macOS Keychain.\n\n" +
+              "This method reads your Cursor CLI token from macOS Keychain, the Linux Secret Service\n" +
+              "(secret-tool) or the Cursor CLI's auth.json.\n\n" +
               "1) Install Cursor CLI and sign in (e.g. `cursor login`).\n" +
               "2) Then return here and continue.\n\n" +
               "No secrets will be printed.",
             method: "auto",
             callback: async (): Promise<TokenExchangeResult> => {
-              const token = await readCursorCliAccessTokenFromKeychain();
+              const token = await readCursorCliAccessToken();
               if (!token) {
                 return {
                   type: "failed",
                   error:
-                    "Could not read Cursor CLI token from macOS Keychain. Make sure Cursor CLI is installed and you are logged in, then try again.",
+                    "Could not read a Cursor CLI token from the system keychain or Cursor's auth.json. Make sure Cursor CLI is installed and you are logged in, then try again.",
                 };
               }
 
@@ -380,12 +454,12 @@ export const CursorOAuthPlugin = async ({
                 expires = payload.exp * 1000;
               }
 
-              return {
+              return await sealAuth<TokenExchangeSuccess>({
                 type: "success",
                 refresh: "",
                 access: token,
                 expires,
-              };
+              });
             },
           };
         },
@@ -443,13 +517,61 @@ export const CursorOAuthPlugin = async ({
                   expires = payload.exp * 1000;
                 }
 
-                return {
+                return await sealAuth<TokenExchangeSuccess>({
                   type: "success",
                   refresh: result.refreshToken,
                   access: result.accessToken,
                   expires,
+                });
+              } catch (error) {
+                return {
+                  type: "failed",
+                  error:
+                    error instanceof Error ? error.message : "Unknown error",
                 };
+              }
+            },
+          };
+        },
+      },
+      {
+        label: "Headless login (SSH / containers)",
+        type: "oauth",
+        authorize: async () => {
+          const login = await startHeadlessLogin({
+            onProgress: terminalLoginProgress(),
+          });
+
+          return {
+            url: login.loginUrl,
+            instructions:
+              login.instructions +
+              "\n\nNo browser is opened on this machine. We'll automatically detect when you're done.",
+            method: "auto",
+            callback: async (): Promise<TokenExchangeResult> => {
+              try {
+                const result = await login.wait();
+                if (!result) {
+                  return {
+                    type: "failed",
+                    error: "Authentication timed out or was cancelled",
+                  };
+                }
+
+                let expires = Date.now() + 3600 * 1000; // 1 hour default
+                const payload = decodeJwtPayload(result.accessToken);
+                if (payload?.exp && typeof payload.exp === "number") {
+                  expires = payload.exp * 1000;
+                }
+
+                return await sealAuth<TokenExchangeSuccess>({
+                  type: "success",
+                  refresh: result.refreshToken,
+                  access: result.accessToken,
+                  expires,
+                });
               } catch (error) {
+                login.cancel();
                 return {
                   type: "failed",
                   error:
@@ -125,9 +125,24 @@ export interface PluginContext {
   client: PluginClient;
 }
 
+// --- Config ---
+
+export type PermissionSetting = "ask" | "allow" | "deny";
+
+export interface OpenCodeConfig {
+  permission?: {
+    edit?: PermissionSetting;
+    bash?: PermissionSetting | Record<string, PermissionSetting>;
+    [key: string]: unknown;
+  };
+  [key: string]: unknown;
+}
+
 // --- Plugin Result ---
 
 export interface PluginResult {
+  /** Called with the resolved OpenCode config on startup */
+  config?: (config: OpenCodeConfig) => Promise<void>;
   auth: {
     provider: string;
     loader: (
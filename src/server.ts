@@ -13,8 +13,15 @@
  *   bun run src/server.ts
  */
 
-import { FileCredentialManager } from "./lib/storage";
-import { createRequestHandler } from "./lib/openai-compat";
+import { createCredentialManager } from "./lib/storage";
+import { createRequestHandler, createTerminalApprover } from "./lib/openai-compat";
+import {
+  createCredentialTokenProvider,
+  createProfileTokenProviders,
+  createStaticTokenProvider,
+  type TokenProvider,
+} from "./lib/auth/token-provider";
+import { createAccountPool, createSingleAccountPool, type AccountPool, type PoolAccount } from "./lib/auth/account-pool";
 
 // Debug logging - set CURSOR_DEBUG=1 to enable
 const DEBUG = process.env.CURSOR_DEBUG === "1";
@@ -26,39 +33,79 @@ const PORT = Number.parseInt(process.env.PORT ?? "18741", 10);
 
 // --- Authentication ---
 
-async function getAccessToken(): Promise<string> {
+async function getTokenProvider(): Promise<TokenProvider> {
   // First check environment variable
   const envToken = process.env.CURSOR_ACCESS_TOKEN;
   if (envToken) {
-    return envToken;
+    return createStaticTokenProvider(envToken);
   }
 
-  // Fall back to credential manager
-  const cm = new FileCredentialManager("cursor");
-  const token = await cm.getAccessToken();
-  if (!token) {
+  // Fall back to credential manager, refreshing stored tokens as they expire.
+  // CURSOR_PROFILE picks the account; otherwise auth.json's default profile is used.
+  const cm = createCredentialManager("cursor", process.env.CURSOR_PROFILE || undefined);
+  const provider = await createCredentialTokenProvider(cm);
+  if (!provider) {
     throw new Error("No access token found. Set CURSOR_ACCESS_TOKEN or authenticate first.");
   }
-  return token;
+  return provider;
+}
+
+// Stored profiles share one lookup so the pool and per-request selection reuse providers
+const profileTokenProviders = createProfileTokenProviders(createCredentialManager("cursor"));
+
+/**
+ * Build the account pool. CURSOR_ACCOUNT_POOL lists the stored profiles to
+ * fail over between ("work,personal", or "*" for all); without it the server
+ * runs on a single account.
+ */
+async function getAccountPool(): Promise<AccountPool> {
+  const poolSpec = process.env.CURSOR_ACCOUNT_POOL?.trim();
+  if (!poolSpec) {
+    return createSingleAccountPool(await getTokenProvider(), process.env.CURSOR_PROFILE || "default");
+  }
+
+  const names = poolSpec === "*"
+    ? await createCredentialManager("cursor").listProfiles()
+    : poolSpec.split(",").map((name) => name.trim()).filter(Boolean);
+
+  const accounts: PoolAccount[] = [];
+  for (const name of names) {
+    const tokens = await profileTokenProviders(name);
+    if (!tokens) {
+      throw new Error(`CURSOR_ACCOUNT_POOL: no credentials stored for profile "${name}"`);
+    }
+    accounts.push({ name, tokens });
+  }
+  if (accounts.length === 0) {
+    throw new Error("CURSOR_ACCOUNT_POOL: no accounts configured");
+  }
+  return createAccountPool(accounts);
 }
 
 // --- Main ---
 
 debugLog("Starting OpenAI-compatible API server...");
 
-let accessToken: string;
+let pool: AccountPool;
 try {
-  accessToken = await getAccessToken();
-  debugLog("Access token loaded successfully");
+  pool = await getAccountPool();
+  debugLog(`Access tokens loaded for ${pool.status().map((account) => account.name).join(", ")}`);
 } catch (err) {
   console.error("Failed to get access token:", err instanceof Error ? err.message : String(err));
   process.exit(1);
 }
 
 // Create the request handler from shared module
+// Other accounts in auth.json are selectable per request (x-cursor-profile header or "profile/model")
+// Shell commands and writes the agent runs locally are confirmed on the terminal
+// when there is one (CURSOR_TOOL_APPROVAL=0 runs them without asking)
+const approveOnTerminal = process.env.CURSOR_TOOL_APPROVAL !== "0" && process.stdin.isTTY === true;
+
 const handleRequest = createRequestHandler({
-  accessToken,
+  pool,
+  profiles: profileTokenProviders,
   log: debugLog,
+  approve: approveOnTerminal ? createTerminalApprover() : undefined,
 });
 
 Bun.serve({
@@ -92,6 +139,7 @@ debugLog(`
 ║  Endpoints:                                                ║
 ║    POST /v1/chat/completions  - Chat completions           ║
 ║    GET  /v1/models            - List available models      ║
+║    GET  /v1/pool/status       - Account pool health        ║
 ║    GET  /health               - Health check               ║
 ║                                                            ║
 ║  Usage with curl:                                          ║
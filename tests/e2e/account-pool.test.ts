@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createAccountPool, type AccountPool } from "../../src/lib/auth/account-pool";
+import { createStaticTokenProvider } from "../../src/lib/auth/token-provider";
+import { createRequestHandler } from "../../src/lib/openai-compat";
+import { startMockCursorServer, type MockCursorServer } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+
+beforeAll(() => {
+  mock = startMockCursorServer();
+});
+
+afterAll(() => {
+  mock.stop();
+});
+
+function createPool(): AccountPool {
+  return createAccountPool([
+    { name: "first", tokens: createStaticTokenProvider("first-token") },
+    { name: "second", tokens: createStaticTokenProvider("second-token") },
+  ]);
+}
+
+function chat(handler: (req: Request) => Promise<Response>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "mock", messages: [{ role: "user", content: "Hi" }] }),
+  }));
+}
+
+describe("account pool failover", () => {
+  test("retries a rate-limited turn on the next account and reports the cooldown", async () => {
+    const pool = createPool();
+    const handler = createRequestHandler({ pool, baseUrl: mock.url });
+    const runsBefore = mock.runs.length;
+
+    mock.enqueueTurn([{ type: "error", code: 8, message: "rate limit exceeded", metadata: { "retry-after": "120" } }]);
+    mock.enqueueTurn([{ type: "text", text: "from the second account" }]);
+
+    const response = await chat(handler);
+    const body = await response.json() as { choices: Array<{ message: { content: string } }> };
+
+    expect(response.status).toBe(200);
+    expect(body.choices[0]?.message.content).toBe("from the second account");
+    expect(mock.runs.length - runsBefore).toBe(2);
+
+    const status = await handler(new Request("http://localhost/v1/pool/status"));
+    const { accounts } = await status.json() as { accounts: Array<Record<string, unknown>> };
+    expect(accounts[0]).toMatchObject({ account: 1, healthy: false, lastErrorKind: "rate_limited", failures: 1 });
+    expect(Date.parse(accounts[0]?.cooldownUntil as string) - Date.now()).toBeGreaterThan(100_000);
+    expect(accounts[1]).toMatchObject({ account: 2, healthy: true, requests: 1 });
+    // Account names and upstream error messages aren't exposed
+    expect(accounts[0]).not.toHaveProperty("name");
+    expect(accounts[0]).not.toHaveProperty("lastError");
+
+    // The cooled-down account is skipped until its cooldown ends
+    const seen = mock.authorizations.length;
+    mock.enqueueTurn([{ type: "text", text: "ok" }]);
+    expect((await chat(handler)).status).toBe(200);
+    expect([...new Set(mock.authorizations.slice(seen))]).toEqual(["Bearer second-token"]);
+  });
+
+  test("returns 429 when every account is exhausted", async () => {
+    const handler = createRequestHandler({ pool: createPool(), baseUrl: mock.url });
+
+    mock.enqueueTurn([{ type: "error", code: 8, message: "rate limit exceeded" }]);
+    mock.enqueueTurn([{ type: "error", code: 8, message: "Usage limit reached, upgrade your plan" }]);
+
+    const response = await chat(handler);
+    const body = await response.json() as { error: { type: string; message: string } };
+
+    expect(response.status).toBe(429);
+    expect(body.error.type).toBe("insufficient_quota");
+  });
+
+  test("passes other errors through without failing over", async () => {
+    const pool = createPool();
+    const handler = createRequestHandler({ pool, baseUrl: mock.url });
+
+    mock.enqueueTurn([{ type: "error", code: 13, message: "internal error" }]);
+
+    const response = await chat(handler);
+    expect(response.status).toBe(500);
+    expect(pool.status().every(account => account.healthy)).toBe(true);
+  });
+});
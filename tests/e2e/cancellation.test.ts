@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { AgentMode, createAgentServiceClient, type AgentStreamChunk } from "../../src/lib/api/agent-service";
+import { createRequestHandler } from "../../src/lib/openai-compat";
+import { startMockCursorServer, type MockCursorServer, type MockRun } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+let handler: (req: Request) => Promise<Response>;
+
+beforeAll(() => {
+  mock = startMockCursorServer();
+  handler = createRequestHandler({ accessToken: "test-token", baseUrl: mock.url });
+});
+
+afterAll(() => {
+  mock.stop();
+});
+
+async function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error("condition not met in time");
+    await Bun.sleep(10);
+  }
+}
+
+async function waitForRun(runCount: number): Promise<MockRun> {
+  await waitFor(() => mock.runs.length > runCount);
+  return mock.runs.at(-1) as MockRun;
+}
+
+function chat(body: Record<string, unknown>, signal: AbortSignal): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "mock", ...body }),
+    signal,
+  }));
+}
+
+describe("client cancellation", () => {
+  test("cancelling a streamed completion cancels the backend turn", async () => {
+    const runCount = mock.runs.length;
+    mock.enqueueTurn([{ type: "text", text: "Partial" }, { type: "delay", ms: 3000 }, { type: "text", text: " never" }]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Write a lot" }], stream: true }, new AbortController().signal);
+    const reader = response.body!.getReader();
+    let received = "";
+    while (!received.includes("Partial")) {
+      const { value } = await reader.read();
+      received += new TextDecoder().decode(value);
+    }
+    await reader.cancel();
+
+    const run = await waitForRun(runCount);
+    await waitFor(() => run.cancelRequested && run.disconnected);
+    expect(mock.runs.length).toBe(runCount + 1);
+  });
+
+  test("aborting a non-streaming request cancels the backend turn", async () => {
+    const runCount = mock.runs.length;
+    mock.enqueueTurn([{ type: "text", text: "Slow" }, { type: "delay", ms: 3000 }]);
+
+    const abort = new AbortController();
+    const pending = chat({ messages: [{ role: "user", content: "Take your time" }] }, abort.signal);
+    const run = await waitForRun(runCount);
+    // Let the run request's BidiAppend complete so there is a run to cancel
+    await Bun.sleep(100);
+    abort.abort();
+
+    await pending;
+    await waitFor(() => run.cancelRequested && run.disconnected);
+  });
+
+  test("an aborted non-streaming response is reported and stored as incomplete", async () => {
+    const runCount = mock.runs.length;
+    mock.enqueueTurn([{ type: "text", text: "Slow" }, { type: "delay", ms: 3000 }]);
+
+    const abort = new AbortController();
+    const pending = handler(new Request("http://localhost/v1/responses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "mock", input: "Take your time" }),
+      signal: abort.signal,
+    }));
+    await waitForRun(runCount);
+    await Bun.sleep(100);
+    abort.abort();
+
+    const body = await (await pending).json() as { id: string; status: string };
+    expect(body.status).toBe("incomplete");
+    const stored = await handler(new Request(`http://localhost/v1/responses/${body.id}`));
+    expect((await stored.json() as { status: string }).status).toBe("incomplete");
+  });
+
+  test("an aborted chat stream does not reconnect or report an error", async () => {
+    const runCount = mock.runs.length;
+    mock.enqueueTurn([{ type: "text", text: "Hello" }, { type: "delay", ms: 3000 }]);
+
+    const client = createAgentServiceClient("test-token", {
+      baseUrl: mock.url,
+      streamRecovery: { maxReconnects: 2, idleTimeoutMs: 5000, backoffMs: 0 },
+    });
+    const abort = new AbortController();
+    const chunks: AgentStreamChunk[] = [];
+    for await (const chunk of client.chatStream({ message: "Hi", model: "mock-model", mode: AgentMode.ASK, signal: abort.signal })) {
+      chunks.push(chunk);
+      if (chunk.type === "text") abort.abort();
+    }
+
+    expect(chunks.map(c => c.type)).toEqual(["text"]);
+    expect(mock.runs.length).toBe(runCount + 1);
+    await waitFor(() => mock.runs.at(-1)?.cancelRequested === true);
+  });
+});
@@ -0,0 +1,454 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { concatBytes, encodeMessageField, encodeStringField, parseProtoFields } from "../../src/lib/api/proto";
+import { createRequestHandler, type WebProvider } from "../../src/lib/openai-compat";
+import type { OpenAIChatResponse } from "../../src/lib/openai-compat/types";
+import { startMockCursorServer, type MockCursorServer } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+let handler: (req: Request) => Promise<Response>;
+let workDir: string;
+
+beforeAll(() => {
+  mock = startMockCursorServer();
+  handler = createRequestHandler({ accessToken: "test-token", baseUrl: mock.url });
+  workDir = mkdtempSync(join(tmpdir(), "mock-cursor-e2e-"));
+});
+
+afterAll(() => {
+  mock.stop();
+  rmSync(workDir, { recursive: true, force: true });
+});
+
+function chat(body: Record<string, unknown>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "mock", ...body }),
+  }));
+}
+
+function clientTool(name: string) {
+  return { type: "function", function: { name, parameters: { type: "object", properties: {} } } };
+}
+
+const weatherTool = {
+  type: "function",
+  function: {
+    name: "get_weather",
+    description: "Get the weather for a city",
+    parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+  },
+};
+
+describe("chat completions against the mock backend", () => {
+  test("returns streamed text and reasoning as a completion", async () => {
+    mock.enqueueTurn([
+      { type: "thinking", text: "Greeting the user." },
+      { type: "text", text: "Hello" },
+      { type: "text", text: " world" },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Say hello" }] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(response.status).toBe(200);
+    expect(body.choices[0]?.message).toMatchObject({ content: "Hello world", reasoning_content: "Greeting the user." });
+    expect(body.choices[0]?.finish_reason).toBe("stop");
+
+    const run = mock.runs.at(-1);
+    expect(run?.model).toBe("mock-model");
+    expect(run?.message).toBe("User: Say hello");
+    expect(mock.authorizations).toContain("Bearer test-token");
+  });
+
+  test("streams text deltas as SSE chunks", async () => {
+    mock.enqueueTurn([
+      { type: "heartbeat" },
+      { type: "interaction_query", id: 1, query: "switch_mode" },
+      { type: "text", text: "Streamed" },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Stream please" }], stream: true });
+    const text = await response.text();
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    expect(text).toContain("\"content\":\"Streamed\"");
+    expect(text).toContain("\"finish_reason\":\"stop\"");
+    expect(text.trim().endsWith("data: [DONE]")).toBe(true);
+  });
+
+  test("round-trips an MCP tool call through the client", async () => {
+    mock.enqueueTurn([
+      { type: "text", text: "Checking." },
+      { type: "exec", id: 1, exec: { type: "mcp", toolName: "get_weather", args: { city: "Paris" } } },
+    ]);
+
+    const first = await chat({ messages: [{ role: "user", content: "Weather in Paris?" }], tools: [weatherTool] });
+    const firstBody = await first.json() as OpenAIChatResponse;
+    const toolCall = firstBody.choices[0]?.message.tool_calls?.[0];
+
+    expect(firstBody.choices[0]?.finish_reason).toBe("tool_calls");
+    expect(toolCall?.function.name).toBe("get_weather");
+    expect(JSON.parse(toolCall?.function.arguments ?? "{}")).toEqual({ city: "Paris" });
+    expect(mock.runs.at(-1)?.toolNames).toEqual(["get_weather"]);
+
+    mock.enqueueTurn([{ type: "text", text: "It is sunny in Paris." }]);
+
+    const second = await chat({
+      tools: [weatherTool],
+      messages: [
+        { role: "user", content: "Weather in Paris?" },
+        { role: "assistant", content: "Checking.", tool_calls: [toolCall] },
+        { role: "tool", tool_call_id: toolCall?.id, content: "Sunny, 22C" },
+      ],
+    });
+    const secondBody = await second.json() as OpenAIChatResponse;
+
+    expect(secondBody.choices[0]?.message.content).toBe("It is sunny in Paris.");
+    const run = mock.runs.at(-1);
+    expect(run?.resume).toBe(false);
+    expect(run?.message).toContain("Sunny, 22C");
+  });
+
+  test("sends history as structured conversation state with CURSOR_STRUCTURED_STATE=1", async () => {
+    process.env.CURSOR_STRUCTURED_STATE = "1";
+    try {
+      mock.enqueueTurn([
+        { type: "fetch_state" },
+        { type: "text", text: "It is sunny in Paris." },
+      ]);
+
+      const toolCall = { id: "call_weather", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" } };
+      await chat({
+        tools: [weatherTool],
+        messages: [
+          { role: "user", content: "Weather in Paris?" },
+          { role: "assistant", content: "Checking.", tool_calls: [toolCall] },
+          { role: "tool", tool_call_id: toolCall.id, content: "Sunny, 22C" },
+        ],
+      });
+
+      const run = mock.runs.at(-1);
+      expect(run?.resume).toBe(true);
+      expect(run?.state.at(-1)).toMatchObject({
+        role: "tool",
+        content: [{ type: "tool-result", toolName: "get_weather", result: "Sunny, 22C" }],
+      });
+    } finally {
+      delete process.env.CURSOR_STRUCTURED_STATE;
+    }
+  });
+
+  test("returns built-in exec requests as non-streaming tool_calls", async () => {
+    mock.enqueueTurn([
+      { type: "text", text: "Looking around." },
+      { type: "exec", id: 2, exec: { type: "shell", command: "ls -la", cwd: "/repo" } },
+      { type: "exec", id: 3, exec: { type: "read", path: "/repo/README.md" } },
+      { type: "heartbeat" },
+    ]);
+
+    const tools = ["bash", "read"].map(name => ({ type: "function", function: { name, parameters: { type: "object" } } }));
+    const response = await chat({ messages: [{ role: "user", content: "What is in the repo?" }], tools });
+    const body = await response.json() as OpenAIChatResponse;
+    const choice = body.choices[0];
+
+    expect(body.object).toBe("chat.completion");
+    expect(choice?.finish_reason).toBe("tool_calls");
+    expect(choice?.message).toMatchObject({ role: "assistant", content: "Looking around." });
+    expect(choice?.message.tool_calls).toEqual([
+      { id: expect.any(String), type: "function", function: { name: "bash", arguments: expect.any(String) } },
+      { id: expect.any(String), type: "function", function: { name: "read", arguments: JSON.stringify({ filePath: "/repo/README.md" }) } },
+    ]);
+    expect(JSON.parse(choice?.message.tool_calls?.[0]?.function.arguments ?? "{}")).toMatchObject({ command: "ls -la", cwd: "/repo" });
+    expect(new Set(choice?.message.tool_calls?.map(call => call.id)).size).toBe(2);
+  });
+
+  test("executes built-in reads locally and returns the result to the agent", async () => {
+    const filePath = join(workDir, "notes.txt");
+    writeFileSync(filePath, "mock file contents");
+
+    mock.enqueueTurn([
+      { type: "exec", id: 7, exec: { type: "read", path: filePath }, awaitResult: true },
+      { type: "text", text: "Read it." },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Read my notes" }] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.message.content).toBe("Read it.");
+    const execResults = mock.runs.at(-1)?.messages.filter(m => m.kind === 2) ?? [];
+    expect(execResults).toHaveLength(1);
+    expect(new TextDecoder().decode(execResults[0]?.data)).toContain("mock file contents");
+  });
+
+  test("answers switch_mode and web_search queries so the turn continues", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 4, query: "switch_mode", payload: encodeMessageField(1, encodeStringField(1, "plan")), awaitResponse: true },
+      { type: "interaction_query", id: 5, query: "web_search", payload: encodeMessageField(1, encodeStringField(1, "bun")), awaitResponse: true },
+      { type: "text", text: "Planned." },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Make a plan" }] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.message.content).toBe("Planned.");
+    const answers = mock.runs.at(-1)?.messages.filter(m => m.kind === 6) ?? [];
+    // Each response carries the approved branch (field 1) under the query's own field
+    expect(answers.map(m => parseProtoFields(m.data)[1]?.fieldNumber)).toEqual([4, 2]);
+  });
+
+  const cityQuestion = encodeMessageField(1, encodeMessageField(2, concatBytes(
+    encodeStringField(1, "q1"),
+    encodeStringField(2, "Which city?"),
+    encodeMessageField(3, concatBytes(encodeStringField(1, "paris"), encodeStringField(2, "Paris")))
+  )));
+
+  test("forwards ask_question queries to a client that declares an ask_question tool", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 6, query: "ask_question", payload: cityQuestion },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Weather?" }], tools: [weatherTool, clientTool("ask_question")] });
+    const body = await response.json() as OpenAIChatResponse;
+    const toolCall = body.choices[0]?.message.tool_calls?.[0];
+
+    expect(body.choices[0]?.finish_reason).toBe("tool_calls");
+    expect(toolCall?.function.name).toBe("ask_question");
+    expect(JSON.parse(toolCall?.function.arguments ?? "{}")).toEqual({
+      questions: [{ id: "q1", prompt: "Which city?", options: [{ id: "paris", label: "Paris" }], allowMultiple: false }],
+    });
+  });
+
+  test("sends the ask_question tool result back to the paused turn", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 7, query: "ask_question", payload: cityQuestion, awaitResponse: true },
+      { type: "text", text: "Sunny in Paris." },
+    ]);
+    const tools = [weatherTool, clientTool("ask_question")];
+    const messages: Record<string, unknown>[] = [{ role: "user", content: "Weather?" }];
+
+    const first = await (await chat({ messages, tools })).json() as OpenAIChatResponse;
+    const toolCall = first.choices[0]?.message.tool_calls?.[0];
+    expect(toolCall?.function.name).toBe("ask_question");
+    const runs = mock.runs.length;
+
+    const second = await (await chat({
+      messages: [...messages, first.choices[0]?.message, { role: "tool", tool_call_id: toolCall?.id, content: "Paris" }],
+      tools,
+    })).json() as OpenAIChatResponse;
+
+    expect(second.choices[0]?.message.content).toBe("Sunny in Paris.");
+    // Answered on the open stream: no new run, and the answer selects the option
+    expect(mock.runs.length).toBe(runs);
+    const answer = mock.runs.at(-1)?.messages.find(m => m.kind === 6);
+    expect(parseProtoFields(answer?.data ?? new Uint8Array(0))[1]?.fieldNumber).toBe(3);
+    expect(new TextDecoder().decode(answer?.data)).toContain("paris");
+  });
+
+  test("declines ask_question queries when the client declares no ask_question tool", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 9, query: "ask_question", payload: cityQuestion, awaitResponse: true },
+      { type: "text", text: "Assuming Paris." },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Weather?" }], tools: [weatherTool] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.message.content).toBe("Assuming Paris.");
+    expect(body.choices[0]?.message.tool_calls).toBeUndefined();
+  });
+
+  test("declines ask_question queries when the client has no tools", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 8, query: "ask_question", awaitResponse: true },
+      { type: "text", text: "Assuming Paris." },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Weather?" }] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.message.content).toBe("Assuming Paris.");
+    const answer = mock.runs.at(-1)?.messages.find(m => m.kind === 6);
+    expect(new TextDecoder().decode(answer?.data)).toContain("can't be asked questions");
+  });
+
+  test("surfaces backend errors as server errors", async () => {
+    mock.enqueueTurn([{ type: "error", message: "internal failure", code: 13 }]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Hi" }] });
+    const body = await response.json() as { error: { message: string; type: string } };
+
+    expect(response.status).toBe(500);
+    expect(body.error.message).toContain("internal failure");
+  });
+
+  test("surfaces rate limits as 429 errors", async () => {
+    mock.enqueueTurn([{ type: "error", message: "resource exhausted", code: 8 }]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Hi" }] });
+    const body = await response.json() as { error: { message: string; type: string } };
+
+    expect(response.status).toBe(429);
+    expect(body.error.type).toBe("rate_limit_exceeded");
+    expect(body.error.message).toContain("resource exhausted");
+  });
+});
+
+describe("Cursor-side tool calls", () => {
+  test("arrive as the client's todowrite and task tool calls", async () => {
+    const todos = [
+      { id: "1", content: "Write the parser", status: "TODO_STATUS_IN_PROGRESS" },
+      { id: "2", content: "Ship it", status: "TODO_STATUS_PENDING" },
+    ];
+    mock.enqueueTurn([
+      { type: "tool_call", callId: "call_todos", tool: "update_todos_tool_call", args: { todos: JSON.stringify(todos) } },
+      { type: "tool_call", callId: "call_todos", tool: "update_todos_tool_call", args: { todos: JSON.stringify(todos) }, completed: true },
+      {
+        type: "tool_call",
+        callId: "call_task",
+        tool: "task_tool_call",
+        args: { description: "Explore", prompt: "Find the parser", subagent_type: "general" },
+        completed: true,
+      },
+      // Not declared by the client, so it stays on Cursor's side
+      { type: "tool_call", callId: "call_fetch", tool: "fetch_tool_call", args: { url: "https://example.com" }, completed: true },
+      { type: "heartbeat" },
+    ]);
+
+    const response = await chat({ messages: [{ role: "user", content: "Plan it" }], tools: [clientTool("todowrite"), clientTool("task")] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.finish_reason).toBe("tool_calls");
+    const toolCalls = (body.choices[0]?.message.tool_calls ?? []).map(call => [call.function.name, JSON.parse(call.function.arguments)]);
+    expect(toolCalls).toEqual([
+      ["todowrite", {
+        todos: [
+          { id: "1", content: "Write the parser", status: "in_progress", priority: "medium" },
+          { id: "2", content: "Ship it", status: "pending", priority: "medium" },
+        ],
+      }],
+      ["task", { description: "Explore", prompt: "Find the parser", subagent_type: "general" }],
+    ]);
+  });
+});
+
+describe("web queries with a client-side provider", () => {
+  const fixtureProvider: WebProvider = {
+    async search(query, { limit }) {
+      return [
+        { title: `Result for ${query}`, url: "https://docs.internal/one", text: "First" },
+        { title: "Second", url: "https://docs.internal/two" },
+      ].slice(0, limit);
+    },
+    async fetch(url) {
+      if (url.endsWith("/missing")) throw new Error("HTTP 404");
+      return { url, title: "Fixture page", text: "# Fixture\n\nPage body" };
+    },
+  };
+
+  function chatWithProvider(body: Record<string, unknown>): Promise<Response> {
+    const withProvider = createRequestHandler({ accessToken: "test-token", baseUrl: mock.url, webProvider: fixtureProvider });
+    return withProvider(new Request("http://localhost/v1/chat/completions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: "mock", messages: [{ role: "user", content: "Look it up" }], ...body }),
+    }));
+  }
+
+  function queryArgs(...fields: Uint8Array[]): Uint8Array {
+    return encodeMessageField(1, concatBytes(...fields));
+  }
+
+  /** Text of the interaction responses the client sent in the last run */
+  function responses(): string[] {
+    return (mock.runs.at(-1)?.messages.filter(m => m.kind === 6) ?? []).map(m => new TextDecoder().decode(m.data));
+  }
+
+  test("answers exa_search and web_search queries with the provider's results", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 1, query: "exa_search", payload: queryArgs(encodeStringField(1, "release notes")), awaitResponse: true },
+      { type: "interaction_query", id: 2, query: "web_search", payload: queryArgs(encodeStringField(1, "changelog")), awaitResponse: true },
+      { type: "text", text: "Found it." },
+    ]);
+
+    const response = await chatWithProvider({});
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.message.content).toBe("Found it.");
+    const [exa, web] = responses();
+    expect(exa).toContain("Result for release notes");
+    expect(exa).toContain("https://docs.internal/two");
+    expect(web).toContain("Result for changelog");
+  });
+
+  test("answers exa_fetch with page contents and reports fetch failures", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 3, query: "exa_fetch", payload: queryArgs(encodeStringField(1, "https://docs.internal/page")), awaitResponse: true },
+      { type: "interaction_query", id: 4, query: "exa_fetch", payload: queryArgs(encodeStringField(1, "https://docs.internal/missing")), awaitResponse: true },
+      {
+        type: "interaction_query",
+        id: 5,
+        query: "exa_fetch",
+        payload: queryArgs(concatBytes(encodeStringField(1, "https://docs.internal/missing"), encodeStringField(1, "https://docs.internal/page"))),
+        awaitResponse: true,
+      },
+      { type: "text", text: "Read it." },
+    ]);
+
+    await chatWithProvider({});
+    const [page, missing, mixed] = responses();
+    expect(page).toContain("Fixture page");
+    expect(page).toContain("Page body");
+    expect(missing).toContain("Fetch failed: HTTP 404");
+    // One failed URL doesn't lose the other page
+    expect(mixed).toContain("Failed to fetch this page: HTTP 404");
+    expect(mixed).toContain("Page body");
+  });
+
+  test("declines exa queries without a provider", async () => {
+    mock.enqueueTurn([
+      { type: "interaction_query", id: 5, query: "exa_search", payload: queryArgs(encodeStringField(1, "anything")), awaitResponse: true },
+      { type: "text", text: "No search." },
+    ]);
+
+    await chat({ messages: [{ role: "user", content: "Look it up" }] });
+    expect(responses()[0]).toContain("aren't available");
+  });
+
+  test("hands Cursor-side web tool calls to the client's tools", async () => {
+    mock.enqueueTurn([
+      // Served by the provider through its query, so not handed to the client again
+      {
+        type: "interaction_query",
+        id: 6,
+        query: "web_search",
+        payload: queryArgs(encodeStringField(1, "changelog"), encodeStringField(2, "call_search")),
+        awaitResponse: true,
+      },
+      { type: "tool_call", callId: "call_search", tool: "web_search_tool_call", args: { query: "changelog" }, completed: true },
+      { type: "tool_call", callId: "call_fetch", tool: "fetch_tool_call", args: { url: "https://docs.internal/page" } },
+      { type: "tool_call", callId: "call_fetch", tool: "fetch_tool_call", args: { url: "https://docs.internal/page" }, completed: true },
+      { type: "heartbeat" },
+    ]);
+
+    const response = await chatWithProvider({ tools: [clientTool("websearch"), clientTool("webfetch")] });
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(body.choices[0]?.finish_reason).toBe("tool_calls");
+    const toolCalls = body.choices[0]?.message.tool_calls ?? [];
+    expect(toolCalls.map(call => call.function.name)).toEqual(["webfetch"]);
+    expect(JSON.parse(toolCalls[0]?.function.arguments ?? "{}")).toEqual({ url: "https://docs.internal/page", format: "markdown" });
+  });
+});
+
+describe("models against the mock backend", () => {
+  test("lists GetUsableModels results", async () => {
+    const response = await handler(new Request("http://localhost/v1/models"));
+    const body = await response.json() as { data: Array<{ id: string }> };
+
+    expect(body.data.map(m => m.id)).toEqual(["mock"]);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createStaticTokenProvider } from "../../src/lib/auth/token-provider";
+import { createRequestHandler } from "../../src/lib/openai-compat";
+import { splitProfileModel } from "../../src/lib/openai-compat/profiles";
+import { startMockCursorServer, type MockCursorServer } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+let handler: (req: Request) => Promise<Response>;
+
+const profileTokens: Record<string, string> = { work: "work-token", personal: "personal-token" };
+
+beforeAll(() => {
+  mock = startMockCursorServer();
+  handler = createRequestHandler({
+    accessToken: "default-token",
+    baseUrl: mock.url,
+    profiles: async (profile) => {
+      const token = profileTokens[profile];
+      return token ? createStaticTokenProvider(token) : null;
+    },
+  });
+});
+
+afterAll(() => {
+  mock.stop();
+});
+
+function chat(model: string, headers: Record<string, string> = {}): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ model, messages: [{ role: "user", content: "Hi" }] }),
+  }));
+}
+
+async function authorizationsOf(run: () => Promise<Response>): Promise<string[]> {
+  const seen = mock.authorizations.length;
+  mock.enqueueTurn([{ type: "text", text: "ok" }]);
+  const response = await run();
+  expect(response.status).toBe(200);
+  return [...new Set(mock.authorizations.slice(seen))];
+}
+
+describe("credential profile selection", () => {
+  test("uses the default credentials without a selection", async () => {
+    expect(await authorizationsOf(() => chat("mock"))).toEqual(["Bearer default-token"]);
+  });
+
+  test("selects a profile with the x-cursor-profile header", async () => {
+    expect(await authorizationsOf(() => chat("mock", { "x-cursor-profile": "work" }))).toEqual(["Bearer work-token"]);
+  });
+
+  test("selects a profile from the model prefix and strips it", async () => {
+    expect(await authorizationsOf(() => chat("personal/mock"))).toEqual(["Bearer personal-token"]);
+    expect(mock.runs.at(-1)?.model).toBe("mock-model");
+  });
+
+  test("rejects an unknown profile header", async () => {
+    const response = await chat("mock", { "x-cursor-profile": "nobody" });
+    const body = await response.json() as { error: { message: string } };
+
+    expect(response.status).toBe(400);
+    expect(body.error.message).toBe("Unknown credential profile: nobody");
+  });
+});
+
+describe("splitProfileModel", () => {
+  test("splits on the first slash only", () => {
+    expect(splitProfileModel("work/sonnet-4.5")).toEqual({ profile: "work", model: "sonnet-4.5" });
+    expect(splitProfileModel("sonnet-4.5")).toBeNull();
+    expect(splitProfileModel("/sonnet-4.5")).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { AgentMode, createAgentServiceClient, type AgentStreamChunk } from "../../src/lib/api/agent-service";
+import { encodeConversationState } from "../../src/lib/api/proto";
+import { startMockCursorServer, type MockCursorServer } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+
+beforeAll(() => {
+  mock = startMockCursorServer();
+});
+
+afterAll(() => {
+  mock.stop();
+});
+
+const checkpointStep = () => ({ type: "checkpoint" as const, state: encodeConversationState([new Uint8Array(32).fill(7)]) });
+
+async function collect(
+  maxReconnects = 2,
+  options: { server?: MockCursorServer; refreshAccessToken?: () => Promise<string | null>; onChunk?: () => void } = {}
+): Promise<{ text: string; chunks: AgentStreamChunk[] }> {
+  const client = createAgentServiceClient("test-token", {
+    baseUrl: (options.server ?? mock).url,
+    streamRecovery: { maxReconnects, idleTimeoutMs: 300, backoffMs: 0 },
+    refreshAccessToken: options.refreshAccessToken,
+  });
+  const chunks: AgentStreamChunk[] = [];
+  for await (const chunk of client.chatStream({ message: "Tell me a story", model: "mock-model", mode: AgentMode.ASK })) {
+    chunks.push(chunk);
+    options.onChunk?.();
+  }
+  const text = chunks.map(c => (c.type === "text" ? c.content ?? "" : "")).join("");
+  return { text, chunks };
+}
+
+describe("SSE stream recovery", () => {
+  test("resumes from the latest checkpoint and drops replayed text", async () => {
+    const blobId = new Uint8Array(32).fill(7);
+    mock.enqueueTurn([
+      { type: "text", text: "Once upon " },
+      { type: "checkpoint", state: encodeConversationState([blobId]) },
+      { type: "text", text: "a ti" },
+      { type: "drop" },
+    ]);
+    mock.enqueueTurn([
+      { type: "text", text: "a time" },
+      { type: "text", text: ", the end." },
+    ]);
+
+    const { text, chunks } = await collect();
+
+    expect(text).toBe("Once upon a time, the end.");
+    expect(chunks.some(c => c.type === "error")).toBe(false);
+    expect(chunks.at(-1)?.type).toBe("done");
+
+    const resumed = mock.runs.at(-1);
+    expect(resumed?.resume).toBe(true);
+    expect(resumed?.stateBlobIds).toEqual([Buffer.from(blobId).toString("hex")]);
+  });
+
+  test("fails instead of resending the request when no checkpoint arrived", async () => {
+    mock.enqueueTurn([{ type: "text", text: "Hello" }, { type: "drop" }]);
+    const runs = mock.runs.length;
+
+    const { text, chunks } = await collect();
+
+    expect(text).toBe("Hello");
+    expect(chunks.at(-1)).toMatchObject({ type: "error", error: "stream closed before the turn ended (no checkpoint to resume from)" });
+    // Resending the user message would start a new, billed turn
+    expect(mock.runs.length).toBe(runs + 1);
+  });
+
+  test("does not yield replayed exec requests and tool calls again", async () => {
+    const toolCall = { type: "tool_call" as const, callId: "call_todos", tool: "update_todos_tool_call", args: { todos: "[]" } };
+    mock.enqueueTurn([
+      checkpointStep(),
+      toolCall,
+      { type: "exec", id: 1, exec: { type: "request_context" } },
+      { type: "exec", id: 2, exec: { type: "mcp", toolName: "lookup", args: {}, toolCallId: "toolu_lookup" } },
+      { type: "drop" },
+    ]);
+    mock.enqueueTurn([
+      toolCall,
+      { type: "exec", id: 1, exec: { type: "mcp", toolName: "lookup", args: {}, toolCallId: "toolu_lookup" } },
+      { type: "text", text: "Done." },
+    ]);
+
+    const { text, chunks } = await collect();
+
+    expect(text).toBe("Done.");
+    expect(chunks.filter(c => c.type === "tool_call_started")).toHaveLength(1);
+    expect(chunks.filter(c => c.type === "exec_request" && c.execRequest?.type === "mcp")).toHaveLength(1);
+  });
+
+  test("does not retry a 401 on reconnect once output was yielded", async () => {
+    const acceptTokens = ["test-token"];
+    const server = startMockCursorServer({ acceptTokens });
+    let refreshes = 0;
+    try {
+      server.enqueueTurn([checkpointStep(), { type: "text", text: "Partial" }, { type: "drop" }]);
+
+      const { text, chunks } = await collect(2, {
+        server,
+        refreshAccessToken: async () => {
+          refreshes++;
+          return "fresh-token";
+        },
+        // The token stops working while the first stream is still being read
+        onChunk: () => acceptTokens.splice(0),
+      });
+
+      expect(text).toBe("Partial");
+      expect(refreshes).toBe(0);
+      expect(chunks.at(-1)).toMatchObject({ type: "error" });
+      expect(chunks.at(-1)?.error).toContain("401");
+    } finally {
+      server.stop();
+    }
+  });
+
+  test("reconnects after an idle stall", async () => {
+    mock.enqueueTurn([checkpointStep(), { type: "text", text: "Thinking" }, { type: "delay", ms: 1000 }, { type: "text", text: " late" }]);
+    mock.enqueueTurn([{ type: "text", text: "Thinking hard." }]);
+
+    const { text } = await collect();
+
+    expect(text).toBe("Thinking hard.");
+  });
+
+  test("gives up with an error after the reconnect budget", async () => {
+    mock.enqueueTurn([checkpointStep(), { type: "text", text: "Partial" }, { type: "drop" }]);
+    mock.enqueueTurn([{ type: "drop" }]);
+
+    const { text, chunks } = await collect(1);
+
+    expect(text).toBe("Partial");
+    expect(chunks.at(-1)).toMatchObject({ type: "error", error: "stream closed before the turn ended" });
+  });
+});
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTokenProvider } from "../../src/lib/auth/token-provider";
+import { createRequestHandler } from "../../src/lib/openai-compat";
+import type { OpenAIChatResponse } from "../../src/lib/openai-compat/types";
+import { startMockCursorServer, type MockCursorServer } from "../mock-cursor-server";
+
+let mock: MockCursorServer;
+
+beforeAll(() => {
+  mock = startMockCursorServer({ acceptTokens: ["fresh-token"] });
+});
+
+afterAll(() => {
+  mock.stop();
+});
+
+function chat(handler: (req: Request) => Promise<Response>): Promise<Response> {
+  return handler(new Request("http://localhost/v1/chat/completions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: "mock", messages: [{ role: "user", content: "Hi" }] }),
+  }));
+}
+
+describe("access token refresh", () => {
+  test("retries once with a refreshed token after a 401", async () => {
+    let refreshes = 0;
+    const tokenProvider = createTokenProvider({
+      accessToken: "stale-token",
+      refresh: async () => { refreshes++; return "fresh-token"; },
+    });
+    const handler = createRequestHandler({ tokenProvider, baseUrl: mock.url });
+    mock.enqueueTurn([{ type: "text", text: "Welcome back" }]);
+
+    const response = await chat(handler);
+    const body = await response.json() as OpenAIChatResponse;
+
+    expect(response.status).toBe(200);
+    expect(body.choices[0]?.message.content).toBe("Welcome back");
+    expect(refreshes).toBe(1);
+    expect(mock.authorizations).toContain("Bearer stale-token");
+    expect(mock.authorizations.at(-1)).toBe("Bearer fresh-token");
+
+    // Later requests use the refreshed token from the start
+    mock.enqueueTurn([{ type: "text", text: "Again" }]);
+    const seen = mock.authorizations.length;
+    await chat(handler);
+    expect(mock.authorizations.slice(seen).every(a => a === "Bearer fresh-token")).toBe(true);
+    tokenProvider.dispose();
+  });
+
+  test("surfaces the 401 when the token cannot be refreshed", async () => {
+    const handler = createRequestHandler({ accessToken: "stale-token", baseUrl: mock.url });
+
+    const response = await chat(handler);
+    const body = await response.json() as { error: { message: string } };
+
+    expect(response.status).toBe(500);
+    expect(body.error.message).toContain("401");
+  });
+});
@@ -0,0 +1,526 @@
+/**
+ * Mock Cursor Backend
+ *
+ * A local stand-in for the Cursor API that speaks the same wire protocol as
+ * the real backend, so the handler → agent → exec round trip can be tested
+ * offline:
+ *
+ * - AiService GetUsableModels / GetDefaultModelForCli (Connect JSON)
+ * - AgentService RunSSE (grpc-web frames carrying AgentServerMessage)
+ * - BidiService BidiAppend (hex-encoded AgentClientMessage)
+ * - KV get/set blob requests issued from scripted turns
+ *
+ * Each agent run consumes the next scripted turn. A turn is a list of steps
+ * (text deltas, exec requests, interaction queries, heartbeats, errors, ...)
+ * played over the run's SSE stream; the turn ends with turn_ended unless a
+ * step ends it first.
+ *
+ * @example
+ * ```ts
+ * const mock = startMockCursorServer();
+ * mock.enqueueTurn([{ type: "text", text: "Hello" }]);
+ * const handler = createRequestHandler({ accessToken: "test", baseUrl: mock.url });
+ * ...
+ * mock.stop();
+ * ```
+ */
+
+import { addConnectEnvelope } from "../src/lib/api/cursor-client";
+import {
+  concatBytes,
+  encodeMessageField,
+  encodeProtobufValue,
+  encodeStringField,
+  encodeUint32Field,
+  encodeVarint,
+  parseProtoFields,
+  type ParsedField,
+} from "../src/lib/api/proto";
+import { TOOL_ARG_SCHEMA, TOOL_FIELD_MAP } from "../src/lib/api/proto/tool-calls";
+
+// --- Script Types ---
+
+export type MockExecRequest =
+  | { type: "shell"; command: string; cwd?: string }
+  | { type: "write"; path: string; fileText: string; toolCallId?: string }
+  | { type: "grep"; pattern: string; path?: string; glob?: string }
+  | { type: "read"; path: string }
+  | { type: "ls"; path: string }
+  | { type: "request_context" }
+  | { type: "mcp"; toolName: string; args: Record<string, unknown>; toolCallId?: string };
+
+export type MockInteractionQueryType = "web_search" | "ask_question" | "switch_mode" | "exa_search" | "exa_fetch";
+
+export type MockStep =
+  | { type: "text"; text: string }
+  | { type: "thinking"; text: string }
+  | { type: "heartbeat" }
+  /** Conversation checkpoint; state is the encoded ConversationStateStructure */
+  | { type: "checkpoint"; state?: Uint8Array }
+  /** Issue an exec request; with awaitResult, wait for the client's exec result before continuing */
+  | { type: "exec"; id: number; exec: MockExecRequest; awaitResult?: boolean }
+  /**
+   * Report a tool call Cursor runs itself (tool is a TOOL_FIELD_MAP type such as
+   * "fetch_tool_call"); args are named by TOOL_ARG_SCHEMA
+   */
+  | { type: "tool_call"; callId: string; tool: string; args: Record<string, string>; completed?: boolean }
+  /** Issue an interaction query; payload is the encoded query message body */
+  | { type: "interaction_query"; id: number; query: MockInteractionQueryType; payload?: Uint8Array; awaitResponse?: boolean }
+  /** Ask the client to store a blob */
+  | { type: "kv_set"; id: number; blobId: Uint8Array; data: Uint8Array }
+  /** Fetch every conversation-state blob referenced by the run request into MockRun.state */
+  | { type: "fetch_state" }
+  | { type: "delay"; ms: number }
+  /** End the stream with a non-zero grpc-status trailer; metadata adds extra trailer entries (e.g. retry-after) */
+  | { type: "error"; message: string; code?: number; metadata?: Record<string, string> }
+  /** Close the stream without a trailer, as a lost connection would */
+  | { type: "drop" };
+
+// --- Recorded Traffic ---
+
+export interface MockClientMessage {
+  seqno: bigint;
+  /** AgentClientMessage field number (1 run_request, 2 exec, 3 kv, 4 conversation_action, 5 exec_control, 6 interaction_response) */
+  kind: number;
+  /** Encoded payload of that field */
+  data: Uint8Array;
+}
+
+export interface MockRun {
+  requestId: string;
+  model: string;
+  /** User message text (null when the run resumes from conversation state) */
+  message: string | null;
+  resume: boolean;
+  /** MCP tool names registered in the run request */
+  toolNames: string[];
+  /** Hex blob IDs referenced by the conversation state */
+  stateBlobIds: string[];
+  /** Conversation-state messages fetched by a fetch_state step */
+  state: unknown[];
+  /** Every message appended after the run request */
+  messages: MockClientMessage[];
+  /** Whether the client sent a CancelAction */
+  cancelRequested: boolean;
+  /** Whether the client closed the SSE stream before the turn finished */
+  disconnected: boolean;
+}
+
+export interface MockCursorServer {
+  url: string;
+  /** Runs started so far, in order */
+  runs: MockRun[];
+  /** Authorization header of every request received */
+  authorizations: string[];
+  enqueueTurn(steps: MockStep[]): void;
+  stop(): void;
+}
+
+export interface MockCursorServerOptions {
+  models?: Array<{ modelId: string; displayModelId?: string; displayName?: string; aliases?: string[] }>;
+  /** How long awaiting steps wait for the client (default 5000ms) */
+  replyTimeoutMs?: number;
+  /** Bearer tokens to accept; any other token gets HTTP 401 (default: accept all) */
+  acceptTokens?: string[];
+}
+
+// --- Server Message Encoding ---
+
+const INTERACTION_QUERY_FIELDS: Record<MockInteractionQueryType, number> = {
+  web_search: 2,
+  ask_question: 3,
+  switch_mode: 4,
+  exa_search: 5,
+  exa_fetch: 6,
+};
+
+function encodeExecArgs(exec: MockExecRequest): Uint8Array {
+  switch (exec.type) {
+    case "shell":
+      return encodeMessageField(2, concatBytes(
+        encodeStringField(1, exec.command),
+        exec.cwd ? encodeStringField(2, exec.cwd) : new Uint8Array(0)
+      ));
+    case "write":
+      return encodeMessageField(3, concatBytes(
+        encodeStringField(1, exec.path),
+        encodeStringField(2, exec.fileText),
+        exec.toolCallId ? encodeStringField(3, exec.toolCallId) : new Uint8Array(0)
+      ));
+    case "grep":
+      return encodeMessageField(5, concatBytes(
+        encodeStringField(1, exec.pattern),
+        exec.path ? encodeStringField(2, exec.path) : new Uint8Array(0),
+        exec.glob ? encodeStringField(3, exec.glob) : new Uint8Array(0)
+      ));
+    case "read":
+      return encodeMessageField(7, encodeStringField(1, exec.path));
+    case "ls":
+      return encodeMessageField(8, encodeStringField(1, exec.path));
+    case "request_context":
+      return encodeMessageField(10, new Uint8Array(0));
+    case "mcp":
+      return encodeMessageField(11, concatBytes(
+        encodeStringField(1, `cursor-tools-${exec.toolName}`),
+        ...Object.entries(exec.args).map(([key, value]) => encodeMessageField(2, concatBytes(
+          encodeStringField(1, key),
+          encodeMessageField(2, encodeProtobufValue(value))
+        ))),
+        encodeStringField(3, exec.toolCallId ?? `toolu_${exec.toolName}`),
+        encodeStringField(4, "cursor-tools"),
+        encodeStringField(5, exec.toolName)
+      ));
+  }
+}
+
+/**
+ * ToolCallStartedUpdate / ToolCallCompletedUpdate body: 1 call_id, 2 ToolCall
+ * (the tool's field in TOOL_FIELD_MAP, holding its arguments)
+ */
+function encodeToolCallUpdate(step: Extract<MockStep, { type: "tool_call" }>): Uint8Array {
+  const [toolField] = Object.entries(TOOL_FIELD_MAP).find(([, tool]) => tool.type === step.tool) ?? [];
+  if (!toolField) throw new Error(`Unknown tool type ${step.tool}`);
+  const argFields = Object.entries(TOOL_ARG_SCHEMA[step.tool] ?? {});
+  const args = Object.entries(step.args).map(([name, value]) => {
+    const [argField] = argFields.find(([, argName]) => argName === name) ?? [];
+    if (!argField) throw new Error(`Unknown argument ${name} for ${step.tool}`);
+    return encodeStringField(Number(argField), value);
+  });
+  // Tool fields go past 15, which need a two-byte tag that encodeMessageField doesn't write
+  const toolArgs = concatBytes(...args);
+  const toolCall = concatBytes(encodeVarint((Number(toolField) << 3) | 2), encodeVarint(toolArgs.length), toolArgs);
+  return concatBytes(encodeStringField(1, step.callId), encodeMessageField(2, toolCall));
+}
+
+/**
+ * Encode an AgentServerMessage for a step (null for steps that send nothing)
+ */
+function encodeServerMessage(step: MockStep): Uint8Array | null {
+  switch (step.type) {
+    case "text":
+      return encodeMessageField(1, encodeMessageField(1, encodeStringField(1, step.text)));
+    case "thinking":
+      return encodeMessageField(1, encodeMessageField(4, encodeStringField(1, step.text)));
+    case "heartbeat":
+      return encodeMessageField(1, encodeMessageField(13, new Uint8Array(0)));
+    case "tool_call":
+      return encodeMessageField(1, encodeMessageField(step.completed ? 3 : 2, encodeToolCallUpdate(step)));
+    case "checkpoint":
+      return encodeMessageField(3, step.state ?? new Uint8Array(0));
+    case "exec":
+      return encodeMessageField(2, concatBytes(encodeUint32Field(1, step.id), encodeExecArgs(step.exec)));
+    case "interaction_query":
+      return encodeMessageField(7, concatBytes(
+        encodeUint32Field(1, step.id),
+        encodeMessageField(INTERACTION_QUERY_FIELDS[step.query], step.payload ?? new Uint8Array(0))
+      ));
+    case "kv_set":
+      return encodeMessageField(4, concatBytes(
+        encodeUint32Field(1, step.id),
+        encodeMessageField(3, concatBytes(encodeMessageField(1, step.blobId), encodeMessageField(2, step.data)))
+      ));
+    default:
+      return null;
+  }
+}
+
+function encodeKvGet(id: number, blobId: Uint8Array): Uint8Array {
+  return encodeMessageField(4, concatBytes(
+    encodeUint32Field(1, id),
+    encodeMessageField(2, encodeMessageField(1, blobId))
+  ));
+}
+
+const TURN_ENDED = encodeMessageField(1, encodeMessageField(14, new Uint8Array(0)));
+
+function encodeTrailer(code: number, message?: string, metadata: Record<string, string> = {}): Uint8Array {
+  const lines = [`grpc-status: ${code}`];
+  if (message) lines.push(`grpc-message: ${encodeURIComponent(message)}`);
+  for (const [key, value] of Object.entries(metadata)) lines.push(`${key}: ${value}`);
+  return addConnectEnvelope(new TextEncoder().encode(`${lines.join("\r\n")}\r\n`), 0x80);
+}
+
+// --- Client Message Decoding ---
+
+function bytesField(fields: ParsedField[], fieldNumber: number): Uint8Array | undefined {
+  const field = fields.find(f => f.fieldNumber === fieldNumber && f.wireType === 2);
+  return field?.value instanceof Uint8Array ? field.value : undefined;
+}
+
+function stringField(fields: ParsedField[], fieldNumber: number): string | undefined {
+  const bytes = bytesField(fields, fieldNumber);
+  return bytes ? new TextDecoder().decode(bytes) : undefined;
+}
+
+function numberField(fields: ParsedField[], fieldNumber: number): number | undefined {
+  const field = fields.find(f => f.fieldNumber === fieldNumber && f.wireType === 0);
+  return field ? Number(field.value) : undefined;
+}
+
+function unwrapEnvelope(body: Uint8Array): Uint8Array {
+  const length = ((body[1] ?? 0) << 24) | ((body[2] ?? 0) << 16) | ((body[3] ?? 0) << 8) | (body[4] ?? 0);
+  return body.slice(5, 5 + length);
+}
+
+function parseRunRequest(requestId: string, data: Uint8Array): MockRun {
+  const fields = parseProtoFields(data);
+  const state = parseProtoFields(bytesField(fields, 1) ?? new Uint8Array(0));
+  const action = parseProtoFields(bytesField(fields, 2) ?? new Uint8Array(0));
+  const model = stringField(parseProtoFields(bytesField(fields, 3) ?? new Uint8Array(0)), 1) ?? "";
+  const mcpTools = parseProtoFields(bytesField(fields, 4) ?? new Uint8Array(0));
+
+  const userMessageAction = bytesField(action, 1);
+  const userMessage = userMessageAction ? bytesField(parseProtoFields(userMessageAction), 1) : undefined;
+
+  return {
+    requestId,
+    model,
+    message: userMessage ? stringField(parseProtoFields(userMessage), 1) ?? "" : null,
+    resume: bytesField(action, 2) !== undefined,
+    toolNames: mcpTools
+      .filter(f => f.fieldNumber === 1 && f.value instanceof Uint8Array)
+      .map(f => stringField(parseProtoFields(f.value as Uint8Array), 5) ?? ""),
+    stateBlobIds: state
+      .filter(f => f.fieldNumber === 1 && f.value instanceof Uint8Array)
+      .map(f => Buffer.from(f.value as Uint8Array).toString("hex")),
+    state: [],
+    messages: [],
+    cancelRequested: false,
+    disconnected: false,
+  };
+}
+
+// --- Sessions ---
+
+interface Waiter {
+  match: (message: MockClientMessage) => boolean;
+  resolve: (message: MockClientMessage) => void;
+}
+
+interface MockSession {
+  requestId: string;
+  run?: MockRun;
+  controller?: ReadableStreamDefaultController<Uint8Array>;
+  /** Frames produced before the RunSSE stream attached */
+  pending: Uint8Array[];
+  closed: boolean;
+  waiters: Waiter[];
+  received: MockClientMessage[];
+}
+
+function send(session: MockSession, frame: Uint8Array): void {
+  if (session.closed) return;
+  if (!session.controller) {
+    session.pending.push(frame);
+    return;
+  }
+  try {
+    session.controller.enqueue(frame);
+  } catch {
+    session.closed = true;
+  }
+}
+
+function close(session: MockSession, trailer?: Uint8Array): void {
+  if (trailer) send(session, trailer);
+  session.closed = true;
+  try {
+    session.controller?.close();
+  } catch {
+    // Already closed by the client
+  }
+}
+
+/**
+ * Start a mock Cursor backend on a random local port
+ */
+export function startMockCursorServer(options: MockCursorServerOptions = {}): MockCursorServer {
+  const models = options.models ?? [{ modelId: "mock-model", displayModelId: "mock", displayName: "Mock Model", aliases: [] }];
+  const replyTimeoutMs = options.replyTimeoutMs ?? 5000;
+  const turns: MockStep[][] = [];
+  const runs: MockRun[] = [];
+  const authorizations: string[] = [];
+  const sessions = new Map<string, MockSession>();
+
+  const getSession = (requestId: string): MockSession => {
+    let session = sessions.get(requestId);
+    if (!session) {
+      session = { requestId, pending: [], closed: false, waiters: [], received: [] };
+      sessions.set(requestId, session);
+    }
+    return session;
+  };
+
+  const waitFor = (session: MockSession, match: Waiter["match"], what: string): Promise<MockClientMessage> => {
+    const existing = session.received.find(match);
+    if (existing) return Promise.resolve(existing);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { match, resolve: (message) => { clearTimeout(timer); resolve(message); } };
+      const timer = setTimeout(() => {
+        session.waiters = session.waiters.filter(w => w !== waiter);
+        reject(new Error(`mock: timed out waiting for ${what}`));
+      }, replyTimeoutMs);
+      session.waiters.push(waiter);
+    });
+  };
+
+  const byId = (kind: number, id: number) => (message: MockClientMessage) =>
+    message.kind === kind && numberField(parseProtoFields(message.data), 1) === id;
+
+  const playTurn = async (session: MockSession, run: MockRun): Promise<void> => {
+    const steps = turns.shift();
+    if (!steps) {
+      close(session, encodeTrailer(9, "mock: no scripted turn"));
+      return;
+    }
+
+    let nextKvId = 1000;
+    try {
+      for (const step of steps) {
+        if (session.closed) return;
+
+        if (step.type === "delay") {
+          await Bun.sleep(step.ms);
+          continue;
+        }
+
+        if (step.type === "error") {
+          close(session, encodeTrailer(step.code ?? 13, step.message, step.metadata));
+          return;
+        }
+
+        if (step.type === "drop") {
+          close(session);
+          return;
+        }
+
+        if (step.type === "fetch_state") {
+          for (const blobIdHex of run.stateBlobIds) {
+            const id = nextKvId++;
+            send(session, addConnectEnvelope(encodeKvGet(id, new Uint8Array(Buffer.from(blobIdHex, "hex")))));
+            const reply = await waitFor(session, byId(3, id), `blob ${blobIdHex.slice(0, 12)}`);
+            const result = bytesField(parseProtoFields(reply.data), 2) ?? new Uint8Array(0);
+            const blob = bytesField(parseProtoFields(result), 1) ?? new Uint8Array(0);
+            run.state.push(JSON.parse(new TextDecoder().decode(blob)));
+          }
+          continue;
+        }
+
+        const message = encodeServerMessage(step);
+        if (message) send(session, addConnectEnvelope(message));
+
+        if (step.type === "exec" && step.awaitResult) {
+          await waitFor(session, byId(2, step.id), `exec result ${step.id}`);
+        } else if (step.type === "interaction_query" && step.awaitResponse) {
+          await waitFor(session, byId(6, step.id), `interaction response ${step.id}`);
+        } else if (step.type === "kv_set") {
+          await waitFor(session, byId(3, step.id), `set_blob_result ${step.id}`);
+        }
+      }
+
+      send(session, addConnectEnvelope(TURN_ENDED));
+      close(session, encodeTrailer(0));
+    } catch (err: unknown) {
+      close(session, encodeTrailer(13, err instanceof Error ? err.message : String(err)));
+    }
+  };
+
+  const handleRunSSE = async (req: Request): Promise<Response> => {
+    const body = new Uint8Array(await req.arrayBuffer());
+    const requestId = stringField(parseProtoFields(unwrapEnvelope(body)), 1) ?? "";
+    const session = getSession(requestId);
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        session.controller = controller;
+        for (const frame of session.pending) controller.enqueue(frame);
+        session.pending = [];
+        if (session.closed) controller.close();
+      },
+      cancel() {
+        if (session.run && !session.closed) session.run.disconnected = true;
+        session.closed = true;
+      },
+    });
+
+    return new Response(stream, { headers: { "content-type": "application/grpc-web+proto" } });
+  };
+
+  const handleBidiAppend = async (req: Request): Promise<Response> => {
+    const body = new Uint8Array(await req.arrayBuffer());
+    const fields = parseProtoFields(unwrapEnvelope(body));
+    const data = new Uint8Array(Buffer.from(stringField(fields, 1) ?? "", "hex"));
+    const requestId = stringField(parseProtoFields(bytesField(fields, 2) ?? new Uint8Array(0)), 1) ?? "";
+    const seqno = BigInt(numberField(fields, 3) ?? 0);
+    const session = getSession(requestId);
+
+    for (const field of parseProtoFields(data)) {
+      if (!(field.value instanceof Uint8Array)) continue;
+
+      if (field.fieldNumber === 1) {
+        const run = parseRunRequest(requestId, field.value);
+        session.run = run;
+        runs.push(run);
+        void playTurn(session, run);
+        continue;
+      }
+
+      const message: MockClientMessage = { seqno, kind: field.fieldNumber, data: field.value };
+      session.run?.messages.push(message);
+      // ConversationAction (4) carrying a CancelAction (3)
+      if (session.run && field.fieldNumber === 4 && bytesField(parseProtoFields(field.value), 3) !== undefined) {
+        session.run.cancelRequested = true;
+      }
+      session.received.push(message);
+      for (const waiter of session.waiters.filter(w => w.match(message))) {
+        session.waiters = session.waiters.filter(w => w !== waiter);
+        waiter.resolve(message);
+      }
+    }
+
+    return new Response(new Uint8Array(0), { headers: { "content-type": "application/grpc-web+proto" } });
+  };
+
+  const server = Bun.serve({
+    port: 0,
+    idleTimeout: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url);
+      const authorization = req.headers.get("authorization") ?? "";
+      authorizations.push(authorization);
+
+      if (options.acceptTokens && !options.acceptTokens.some(token => authorization === `Bearer ${token}`)) {
+        return new Response("unauthorized", { status: 401 });
+      }
+
+      switch (pathname) {
+        case "/aiserver.v1.AiService/GetUsableModels":
+          return Response.json({ models });
+        case "/aiserver.v1.AiService/GetDefaultModelForCli":
+          return Response.json({ model: models[0] });
+        case "/agent.v1.AgentService/RunSSE":
+          return handleRunSSE(req);
+        case "/aiserver.v1.BidiService/BidiAppend":
+          return handleBidiAppend(req);
+        default:
+          return new Response("not found", { status: 404 });
+      }
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    runs,
+    authorizations,
+    enqueueTurn(steps) {
+      turns.push(steps);
+    },
+    stop() {
+      for (const session of sessions.values()) {
+        if (!session.closed) close(session, encodeTrailer(14, "mock: server stopped"));
+      }
+      server.stop(true);
+    },
+  };
+}
@@ -0,0 +1,5 @@
+/**
+ * Test preload: keep test runs from writing the model catalog into the
+ * user's Cursor config directory
+ */
+process.env.CURSOR_MODEL_CACHE = "0";
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { classifyAgentError, parseRetryAfter } from "../../src/lib/api/agent-errors";
+import { createAccountPool } from "../../src/lib/auth/account-pool";
+import { createStaticTokenProvider } from "../../src/lib/auth/token-provider";
+
+describe("classifyAgentError", () => {
+  test("treats resource-exhausted errors as rate limits unless they mention the plan", () => {
+    expect(classifyAgentError({ grpcStatus: 8 }, "Too many requests (grpc-status 8)")).toBe("rate_limited");
+    expect(classifyAgentError({ grpcStatus: 8 }, "Upgrade your plan to continue")).toBe("quota_exhausted");
+    expect(classifyAgentError({ httpStatus: 429 }, "slow down")).toBe("rate_limited");
+  });
+
+  test("recognizes quota and rate-limit wording under other status codes", () => {
+    expect(classifyAgentError({ grpcStatus: 7 }, "You've hit your usage limit for fast requests")).toBe("quota_exhausted");
+    expect(classifyAgentError({ grpcStatus: 14 }, "rate limit exceeded")).toBe("rate_limited");
+    expect(classifyAgentError({ grpcStatus: 13 }, "internal error")).toBeUndefined();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  test("accepts delays in seconds and HTTP dates", () => {
+    const now = Date.parse("2025-01-01T00:00:00Z");
+    expect(parseRetryAfter("30")).toBe(30_000);
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:01:00 GMT", now)).toBe(60_000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe("createAccountPool", () => {
+  const accounts = () => [
+    { name: "a", tokens: createStaticTokenProvider("token-a") },
+    { name: "b", tokens: createStaticTokenProvider("token-b") },
+  ];
+
+  test("keeps configured order and skips accounts in cooldown", () => {
+    const pool = createAccountPool(accounts());
+    expect(pool.candidates().map(account => account.name)).toEqual(["a", "b"]);
+
+    pool.reportFailure("a", { kind: "rate_limited", message: "rate limit exceeded" });
+    expect(pool.candidates().map(account => account.name)).toEqual(["b"]);
+
+    const [a, b] = pool.status();
+    expect(a).toMatchObject({ name: "a", healthy: false, lastErrorKind: "rate_limited", failures: 1 });
+    expect(a?.cooldownUntil).not.toBeNull();
+    expect(b).toMatchObject({ name: "b", healthy: true, cooldownUntil: null });
+  });
+
+  test("uses retry-after and per-kind cooldowns", () => {
+    const pool = createAccountPool(accounts(), { rateLimitCooldownMs: 1_000, quotaCooldownMs: 100_000 });
+    const before = Date.now();
+
+    pool.reportFailure("a", { kind: "quota_exhausted", message: "out of quota" });
+    pool.reportFailure("b", { kind: "rate_limited", message: "slow down", retryAfterMs: 5_000 });
+
+    const [a, b] = pool.status();
+    expect(Date.parse(a?.cooldownUntil ?? "") - before).toBeGreaterThanOrEqual(100_000);
+    expect(Date.parse(b?.cooldownUntil ?? "") - before).toBeGreaterThanOrEqual(5_000);
+    expect(Date.parse(b?.cooldownUntil ?? "") - before).toBeLessThan(100_000);
+  });
+
+  test("offers the account that recovers first when every account is cooling down", () => {
+    const pool = createAccountPool(accounts());
+    pool.reportFailure("a", { kind: "quota_exhausted", message: "out of quota" });
+    pool.reportFailure("b", { kind: "rate_limited", message: "slow down" });
+
+    expect(pool.candidates().map(account => account.name)).toEqual(["b"]);
+  });
+
+  test("rejects an empty pool and duplicate names", () => {
+    expect(() => createAccountPool([])).toThrow("at least one account");
+    const [a] = accounts();
+    expect(() => createAccountPool([a!, a!])).toThrow("Duplicate account in pool: a");
+  });
+});
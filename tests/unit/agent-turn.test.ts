@@ -0,0 +1,159 @@
+import { describe, expect, test } from "bun:test";
+import { AgentMode, type AgentStreamChunk } from "../../src/lib/api/agent-service";
+import { runAgentTurn, type AgentTurnEvent, type AgentTurnParams } from "../../src/lib/openai-compat/agent-turn";
+
+type ScriptStep = AgentStreamChunk | { delayMs: number };
+
+function makeClient(script: ScriptStep[]): AgentTurnParams["client"] {
+  const noop = async () => {};
+  const client = {
+    async *chatStream() {
+      for (const step of script) {
+        if ("delayMs" in step) {
+          await new Promise(resolve => setTimeout(resolve, step.delayMs));
+          continue;
+        }
+        yield step;
+      }
+    },
+    sendToolResult: noop,
+    sendShellResult: noop,
+    sendReadResult: noop,
+    sendLsResult: noop,
+    sendGrepResult: noop,
+    sendWriteResult: noop,
+    sendResumeAction: noop,
+  };
+  return client as unknown as AgentTurnParams["client"];
+}
+
+async function collect(script: ScriptStep[], toolsProvided = true): Promise<AgentTurnEvent[]> {
+  const events: AgentTurnEvent[] = [];
+  const turn = runAgentTurn({
+    client: makeClient(script),
+    request: { message: "hi", model: "default", mode: AgentMode.AGENT },
+    messages: [{ role: "user", content: "hi" }],
+    toolsProvided,
+    fallbackToolCallId: (index) => `call_test_${index}`,
+    log: () => {},
+  });
+  for await (const event of turn) {
+    events.push(event);
+  }
+  return events;
+}
+
+const readA: AgentStreamChunk = { type: "exec_request", execRequest: { type: "read", id: 1, execId: "execA", path: "/a" } };
+const readB: AgentStreamChunk = { type: "exec_request", execRequest: { type: "read", id: 2, execId: "execB", path: "/b" } };
+
+describe("runAgentTurn", () => {
+  test("ends with stop after plain text", async () => {
+    const events = await collect([{ type: "text", content: "Hello" }, { type: "done" }], false);
+    expect(events).toEqual([
+      { type: "text", content: "Hello" },
+      { type: "end", finishReason: "stop" },
+    ]);
+  });
+
+  test("passes thinking through separately from text", async () => {
+    const events = await collect([
+      { type: "thinking", content: "Pondering" },
+      { type: "text", content: "Answer" },
+      { type: "done" },
+    ], false);
+    expect(events).toEqual([
+      { type: "thinking", content: "Pondering" },
+      { type: "text", content: "Answer" },
+      { type: "end", finishReason: "stop" },
+    ]);
+  });
+
+  test("emits every exec request issued before a heartbeat as indexed tool calls", async () => {
+    const events = await collect([readA, readB, { type: "heartbeat" }, { type: "done" }]);
+    const toolCalls = events.flatMap(e => (e.type === "tool_call" ? [e.toolCall] : []));
+
+    expect(toolCalls.map(tc => tc.index)).toEqual([0, 1]);
+    expect(toolCalls.map(tc => tc.arguments)).toEqual([{ filePath: "/a" }, { filePath: "/b" }]);
+    expect(toolCalls[0]?.id).toMatch(/^sess_[a-zA-Z0-9]+__call_execA$/);
+    expect(events[events.length - 1]).toEqual({ type: "end", finishReason: "tool_calls" });
+  });
+
+  test("flushes the batch when the stream goes quiet", async () => {
+    const started = Date.now();
+    const events = await collect([readA, { delayMs: 2000 }, readB, { type: "done" }]);
+    const toolCalls = events.filter(e => e.type === "tool_call");
+
+    expect(toolCalls).toHaveLength(1);
+    expect(events[events.length - 1]).toEqual({ type: "end", finishReason: "tool_calls" });
+    expect(Date.now() - started).toBeLessThan(1500);
+  });
+
+  test("refuses exec requests when tools are disabled", async () => {
+    const shellResults: unknown[][] = [];
+    const client = {
+      ...(makeClient([
+        { type: "exec_request", execRequest: { type: "shell", id: 3, execId: "execS", command: "rm -rf ." } },
+        { type: "text", content: "Done" },
+        { type: "done" },
+      ]) as object),
+      sendShellResult: async (...args: unknown[]) => {
+        shellResults.push(args);
+      },
+    } as unknown as AgentTurnParams["client"];
+
+    const events: AgentTurnEvent[] = [];
+    for await (const event of runAgentTurn({
+      client,
+      request: { message: "hi", model: "default", mode: AgentMode.ASK },
+      messages: [{ role: "user", content: "hi" }],
+      toolsProvided: false,
+      refuseExecRequests: true,
+      fallbackToolCallId: (index) => `call_test_${index}`,
+      log: () => {},
+    })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([{ type: "text", content: "Done" }, { type: "end", finishReason: "stop" }]);
+    expect(shellResults).toHaveLength(1);
+    expect(shellResults[0]?.slice(4, 7)).toEqual(["", "Tools are disabled for this request (tool_choice is \"none\")", 126]);
+  });
+
+  test("surfaces stream errors", async () => {
+    const events = await collect([{ type: "error", error: "boom" }]);
+    expect(events).toEqual([{ type: "error", message: "boom" }]);
+  });
+
+  test("closes and aborts a session's stream when it fails", async () => {
+    let streamSignal: AbortSignal | undefined;
+    let streamClosed = false;
+    const client = {
+      ...makeClient([]),
+      async *chatStream(request: { signal?: AbortSignal }) {
+        streamSignal = request.signal;
+        try {
+          yield { type: "error", error: "boom" } satisfies AgentStreamChunk;
+          yield { type: "text", content: "never read" } satisfies AgentStreamChunk;
+        } finally {
+          streamClosed = true;
+        }
+      },
+    } as unknown as AgentTurnParams["client"];
+
+    const events: AgentTurnEvent[] = [];
+    for await (const event of runAgentTurn({
+      client,
+      request: { message: "hi", model: "default", mode: AgentMode.AGENT },
+      messages: [{ role: "user", content: "hi" }],
+      toolsProvided: true,
+      fallbackToolCallId: (index) => `call_test_${index}`,
+      log: () => {},
+    })) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([{ type: "error", message: "boom" }]);
+    expect(streamSignal?.aborted).toBe(true);
+    expect(streamClosed).toBe(true);
+  });
+});
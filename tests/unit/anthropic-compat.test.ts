@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+  anthropicToOpenAIMessages,
+  anthropicToolsToOpenAI,
+  createAnthropicSSEEvent,
+  toAnthropicStopReason,
+} from "../../src/lib/anthropic-compat/utils";
+import type { AnthropicMessagesRequest } from "../../src/lib/anthropic-compat/types";
+
+describe("anthropicToOpenAIMessages", () => {
+  test("prepends string system prompt", () => {
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet",
+      max_tokens: 100,
+      system: "Be brief",
+      messages: [{ role: "user", content: "Hello" }],
+    };
+    expect(anthropicToOpenAIMessages(request)).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: "Hello" },
+    ]);
+  });
+
+  test("joins system text blocks", () => {
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet",
+      max_tokens: 100,
+      system: [{ type: "text", text: "One" }, { type: "text", text: "Two" }],
+      messages: [{ role: "user", content: "Hi" }],
+    };
+    const result = anthropicToOpenAIMessages(request);
+    expect(result[0]).toEqual({ role: "system", content: "One\nTwo" });
+  });
+
+  test("converts tool_use blocks to tool_calls", () => {
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet",
+      max_tokens: 100,
+      messages: [
+        { role: "user", content: "List files" },
+        {
+          role: "assistant",
+          content: [
+            { type: "text", text: "Listing" },
+            { type: "tool_use", id: "sess_abc__call_1", name: "list", input: { path: "." } },
+          ],
+        },
+      ],
+    };
+    const result = anthropicToOpenAIMessages(request);
+    expect(result[1]).toEqual({
+      role: "assistant",
+      content: "Listing",
+      tool_calls: [{
+        id: "sess_abc__call_1",
+        type: "function",
+        function: { name: "list", arguments: JSON.stringify({ path: "." }) },
+      }],
+    });
+  });
+
+  test("converts tool_result blocks to tool messages before user text", () => {
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet",
+      max_tokens: 100,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "call_1", content: "a.txt" },
+            { type: "tool_result", tool_use_id: "call_2", content: [{ type: "text", text: "boom" }], is_error: true },
+            { type: "text", text: "Now summarize" },
+          ],
+        },
+      ],
+    };
+    expect(anthropicToOpenAIMessages(request)).toEqual([
+      { role: "tool", tool_call_id: "call_1", content: "a.txt" },
+      { role: "tool", tool_call_id: "call_2", content: "Error: boom" },
+      { role: "user", content: "Now summarize" },
+    ]);
+  });
+
+  test("forwards images inside tool_result blocks", () => {
+    const request: AnthropicMessagesRequest = {
+      model: "claude-sonnet",
+      max_tokens: 100,
+      messages: [
+        {
+          role: "user",
+          content: [{
+            type: "tool_result",
+            tool_use_id: "call_1",
+            content: [
+              { type: "text", text: "Screenshot taken" },
+              { type: "image", source: { type: "base64", media_type: "image/png", data: "iVBORw0KGgo=" } },
+            ],
+          }],
+        },
+      ],
+    };
+    expect(anthropicToOpenAIMessages(request)).toEqual([
+      { role: "tool", tool_call_id: "call_1", content: "Screenshot taken\n[1 image(s) attached to the following message]" },
+      { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } }] },
+    ]);
+  });
+});
+
+describe("anthropicToolsToOpenAI", () => {
+  test("returns undefined for empty tools", () => {
+    expect(anthropicToolsToOpenAI(undefined)).toBeUndefined();
+    expect(anthropicToolsToOpenAI([])).toBeUndefined();
+  });
+
+  test("maps input_schema to parameters", () => {
+    const schema = { type: "object", properties: { path: { type: "string" } } };
+    expect(anthropicToolsToOpenAI([{ name: "read", description: "Read a file", input_schema: schema }])).toEqual([
+      { type: "function", function: { name: "read", description: "Read a file", parameters: schema } },
+    ]);
+  });
+});
+
+describe("Anthropic SSE helpers", () => {
+  test("maps finish reasons to stop reasons", () => {
+    expect(toAnthropicStopReason("stop")).toBe("end_turn");
+    expect(toAnthropicStopReason("tool_calls")).toBe("tool_use");
+  });
+
+  test("formats named SSE events", () => {
+    expect(createAnthropicSSEEvent({ type: "message_stop" })).toBe(
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import type { ExecRequest } from "../../src/lib/api/agent-service";
+import {
+  createOpenCodePermissionApprover,
+  createTerminalApprover,
+  type ApprovalRequest,
+  type ShellExecRequest,
+  type WriteExecRequest,
+} from "../../src/lib/openai-compat/approval";
+import { executeBuiltinTool } from "../../src/lib/openai-compat/builtin-tools";
+import { DEFAULT_EXECUTION_POLICY, type ExecutionPolicy } from "../../src/lib/openai-compat/execution-policy";
+import { createUnifiedDiff } from "../../src/lib/utils/diff";
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "cursor-approval-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function policy(overrides: Partial<ExecutionPolicy> = {}): ExecutionPolicy {
+  return { ...DEFAULT_EXECUTION_POLICY, workspaceRoot: root, ...overrides };
+}
+
+interface Sent {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Fake agent client that records the results sent back
+ */
+function recordingClient(): { client: Parameters<typeof executeBuiltinTool>[0]; sent: Sent[] } {
+  const sent: Sent[] = [];
+  const record = (method: string) => async (...args: unknown[]) => {
+    sent.push({ method, args });
+  };
+  const client = {
+    sendShellResult: record("shell"),
+    sendWriteResult: record("write"),
+  };
+  return { client: client as unknown as Parameters<typeof executeBuiltinTool>[0], sent };
+}
+
+function shell(command: string): ShellExecRequest {
+  return { type: "shell", id: 1, execId: "exec", command, cwd: root } as ShellExecRequest;
+}
+
+function write(path: string, fileText: string): WriteExecRequest {
+  return { type: "write", id: 2, execId: "exec", path, fileText } as WriteExecRequest;
+}
+
+describe("createUnifiedDiff", () => {
+  test("prints changed lines with context in hunks", () => {
+    const before = "a\nb\nc\nd\ne\nf\ng\nh\n";
+    const after = "a\nb\nc\nD\ne\nf\ng\nh\n";
+    expect(createUnifiedDiff("x.txt", before, after, 1)).toBe(
+      ["--- a/x.txt", "+++ b/x.txt", "@@ -3,3 +3,3 @@", " c", "-d", "+D", " e"].join("\n")
+    );
+  });
+
+  test("diffs new files against /dev/null and returns nothing for no change", () => {
+    expect(createUnifiedDiff("new.txt", "", "one\ntwo")).toBe(
+      ["--- /dev/null", "+++ b/new.txt", "@@ -0,0 +1,2 @@", "+one", "+two"].join("\n")
+    );
+    expect(createUnifiedDiff("same.txt", "x", "x")).toBe("");
+  });
+});
+
+describe("terminal approver", () => {
+  function terminal(...answers: string[]) {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let transcript = "";
+    output.on("data", (chunk) => {
+      transcript += chunk.toString();
+    });
+    input.write(answers.map(answer => `${answer}\n`).join(""));
+    return { approve: createTerminalApprover({ input, output }), transcript: () => transcript };
+  }
+
+  test("approves, denies and edits commands", async () => {
+    expect(await terminal("y").approve({ execRequest: shell("ls") })).toEqual({ action: "approve" });
+    expect(await terminal("n").approve({ execRequest: shell("ls") })).toEqual({
+      action: "deny",
+      reason: "denied by the user",
+    });
+    expect(await terminal("e", "ls -la").approve({ execRequest: shell("ls") })).toEqual({
+      action: "edit",
+      execRequest: shell("ls -la"),
+    });
+  });
+
+  test("shows the diff for writes", async () => {
+    const { approve, transcript } = terminal("yes");
+    const request: ApprovalRequest = { execRequest: write("a.txt", "new\n"), diff: "--- a/a.txt\n+++ b/a.txt" };
+    expect(await approve(request)).toEqual({ action: "approve" });
+    expect(transcript()).toContain("wants to write a.txt");
+    expect(transcript()).toContain("+++ b/a.txt");
+    expect(transcript()).not.toContain("[e]dit");
+  });
+});
+
+describe("OpenCode permission approver", () => {
+  test("applies the most specific bash pattern", async () => {
+    const approve = createOpenCodePermissionApprover(() => ({
+      bash: { "*": "allow", "git *": "ask", "git status": "allow", "rm *": "deny" },
+    }));
+
+    expect(await approve({ execRequest: shell("git status") })).toEqual({ action: "approve" });
+    expect(await approve({ execRequest: shell("ls") })).toEqual({ action: "approve" });
+    expect(await approve({ execRequest: shell("rm -rf .") })).toMatchObject({ action: "deny" });
+    const asked = await approve({ execRequest: shell("git push") });
+    expect(asked.action).toBe("deny");
+    expect(asked.action === "deny" && asked.reason).toContain("requires approval");
+  });
+
+  test("checks every command of a chained command line", async () => {
+    const approve = createOpenCodePermissionApprover(() => ({ bash: { "*": "deny", "git *": "allow", "npm *": "ask" } }));
+
+    expect(await approve({ execRequest: shell("git status && git diff") })).toEqual({ action: "approve" });
+    expect(await approve({ execRequest: shell("git status && rm -rf ~") })).toMatchObject({ action: "deny" });
+    const asked = await approve({ execRequest: shell("git pull; npm install") });
+    expect(asked.action === "deny" && asked.reason).toContain("requires approval");
+    const substituted = await approve({ execRequest: shell("git log $(rm -rf ~)") });
+    expect(substituted.action === "deny" && substituted.reason).toContain("command substitution");
+    expect(await approve({ execRequest: shell("git log `rm -rf ~`") })).toMatchObject({ action: "deny" });
+  });
+
+  test("uses the edit permission for writes and allows when unset", async () => {
+    let permissions: { edit?: "deny" } | undefined;
+    const approve = createOpenCodePermissionApprover(() => permissions);
+    expect(await approve({ execRequest: write("a.txt", "x") })).toEqual({ action: "approve" });
+
+    permissions = { edit: "deny" };
+    expect(await approve({ execRequest: write("a.txt", "x") })).toEqual({
+      action: "deny",
+      reason: `OpenCode's "edit" permission denies it`,
+    });
+  });
+});
+
+describe("built-in tools with an approval callback", () => {
+  test("returns denials to the agent without running the command", async () => {
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("touch created") as ExecRequest, () => {}, {
+      policy: policy(),
+      approve: async () => ({ action: "deny", reason: "not now" }),
+    });
+
+    const [, , , , stdout, stderr, exitCode] = sent[0]?.args ?? [];
+    expect(stdout).toBe("");
+    expect(stderr).toBe("Denied: not now");
+    expect(exitCode).toBe(126);
+    expect(existsSync(join(root, "created"))).toBe(false);
+  });
+
+  test("runs the edited command in place of the original", async () => {
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("echo original") as ExecRequest, () => {}, {
+      policy: policy(),
+      approve: async ({ execRequest }) => ({ action: "edit", execRequest: { ...execRequest, command: "echo edited" } }),
+    });
+    expect(sent[0]?.args[2]).toBe("echo edited");
+    expect(sent[0]?.args[4]).toBe("edited\n");
+  });
+
+  test("previews writes as a diff and reports denials as write errors", async () => {
+    writeFileSync(join(root, "file.txt"), "one\ntwo\n");
+    const requests: ApprovalRequest[] = [];
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, write(join(root, "file.txt"), "one\n2\n") as ExecRequest, () => {}, {
+      policy: policy(),
+      approve: async (request) => {
+        requests.push(request);
+        return { action: "deny" };
+      },
+    });
+
+    expect(requests[0]?.diff).toContain("-two\n+2");
+    expect(sent[0]?.args[2]).toEqual({
+      error: { path: join(root, "file.txt"), error: "Denied: denied" },
+    });
+    expect(await Bun.file(join(root, "file.txt")).text()).toBe("one\ntwo\n");
+  });
+
+  test("doesn't ask about requests the policy refuses", async () => {
+    let asked = false;
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("rm -rf .") as ExecRequest, () => {}, {
+      policy: policy({ denyCommands: ["rm *"] }),
+      approve: async () => {
+        asked = true;
+        return { action: "approve" };
+      },
+    });
+    expect(asked).toBe(false);
+    expect(sent[0]?.args[5]).toContain("Blocked by execution policy");
+  });
+});
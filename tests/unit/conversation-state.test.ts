@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  buildAgentChatRequest,
+  messagesToConversationState,
+  toConversationStateMessages,
+} from "../../src/lib/openai-compat/conversation-state";
+import {
+  computeBlobId,
+  encodeConversationState,
+  encodeConversationStateBlobs,
+} from "../../src/lib/api/proto/conversation-state";
+import { encodeConversationActionWithResume } from "../../src/lib/api/proto/agent-messages";
+import { parseProtoFields } from "../../src/lib/api/proto/decoding";
+import type { OpenAIMessage } from "../../src/lib/openai-compat/types";
+
+const toolConversation: OpenAIMessage[] = [
+  { role: "system", content: "Be brief" },
+  { role: "user", content: "Read a.txt" },
+  {
+    role: "assistant",
+    content: null,
+    tool_calls: [{ id: "call_1", type: "function", function: { name: "read", arguments: "{\"filePath\":\"a.txt\"}" } }],
+  },
+  { role: "tool", tool_call_id: "call_1", content: "hello" },
+];
+
+describe("toConversationStateMessages", () => {
+  test("encodes tool calls and results as structured parts", () => {
+    const result = toConversationStateMessages(toolConversation);
+    expect(result).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: [{ type: "text", text: "Read a.txt" }] },
+      {
+        role: "assistant",
+        content: [{ type: "tool-call", toolCallId: "call_1", toolName: "read", args: { filePath: "a.txt" } }],
+      },
+      {
+        role: "tool",
+        content: [{ type: "tool-result", toolCallId: "call_1", toolName: "read", result: "hello" }],
+      },
+    ]);
+  });
+
+  test("replays calls handed over from Cursor's side with Cursor's arguments", () => {
+    const todos = { todos: [{ id: "1", content: "Ship", status: "in_progress", priority: "high" }] };
+    const result = toConversationStateMessages([
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_cursorside2", type: "function", function: { name: "todowrite", arguments: JSON.stringify(todos) } },
+          { id: "call_3", type: "function", function: { name: "todowrite", arguments: JSON.stringify(todos) } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_cursorside2", content: "1 todo" },
+    ]);
+    expect(result[0]).toEqual({
+      role: "assistant",
+      content: [{
+        type: "tool-call",
+        toolCallId: "call_cursorside2",
+        toolName: "todowrite",
+        args: { todos: [{ id: "1", content: "Ship", status: "TODO_STATUS_IN_PROGRESS" }] },
+      }, {
+        // The client's own call keeps its arguments
+        type: "tool-call",
+        toolCallId: "call_3",
+        toolName: "todowrite",
+        args: todos,
+      }],
+    });
+    expect(result[1]).toEqual({ role: "tool", content: [{ type: "tool-result", toolCallId: "call_cursorside2", toolName: "todowrite", result: "1 todo" }] });
+  });
+});
+
+describe("messagesToConversationState", () => {
+  test("sends the last user message as the new turn", () => {
+    const state = messagesToConversationState([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello" },
+      { role: "user", content: "How are you?" },
+    ]);
+    expect(state?.message).toBe("How are you?");
+    expect(state?.history).toHaveLength(2);
+    expect(state?.resume).toBe(false);
+  });
+
+  test("resumes after tool results", () => {
+    const state = messagesToConversationState(toolConversation);
+    expect(state?.resume).toBe(true);
+    expect(state?.history).toHaveLength(4);
+  });
+
+  test("returns null when the conversation ends with an assistant message", () => {
+    expect(messagesToConversationState([{ role: "assistant", content: "Hi" }])).toBeNull();
+  });
+});
+
+describe("buildAgentChatRequest", () => {
+  const original = process.env.CURSOR_STRUCTURED_STATE;
+  afterEach(() => {
+    if (original === undefined) delete process.env.CURSOR_STRUCTURED_STATE;
+    else process.env.CURSOR_STRUCTURED_STATE = original;
+  });
+
+  test("uses structured state when enabled", () => {
+    process.env.CURSOR_STRUCTURED_STATE = "1";
+    const request = buildAgentChatRequest(toolConversation, { model: "default" });
+    expect(request.resume).toBe(true);
+    expect(request.history).toHaveLength(4);
+  });
+
+  test("sends a flattened prompt by default", () => {
+    delete process.env.CURSOR_STRUCTURED_STATE;
+    const request = buildAgentChatRequest(toolConversation, { model: "default" });
+    expect(request.history).toBeUndefined();
+    expect(request.message).toContain("[Tool result for call_1]: hello");
+  });
+});
+
+describe("conversation state encoding", () => {
+  test("references each message blob by its sha256 id", () => {
+    const blobs = encodeConversationStateBlobs([{ role: "user", content: "Hi" }]);
+    expect(blobs).toHaveLength(1);
+    expect(blobs[0]!.blobId.length).toBe(32);
+    expect(blobs[0]!.blobId).toEqual(computeBlobId(new TextEncoder().encode(JSON.stringify({ role: "user", content: "Hi" }))));
+
+    const fields = parseProtoFields(encodeConversationState(blobs.map(b => b.blobId)));
+    expect(fields.map(f => f.fieldNumber)).toEqual([1]);
+    expect(fields[0]!.value).toEqual(blobs[0]!.blobId);
+  });
+
+  test("resume action carries the request context when given", () => {
+    const context = new Uint8Array([0x22, 0x00]);
+    const action = parseProtoFields(encodeConversationActionWithResume(context));
+    expect(action[0]?.fieldNumber).toBe(2);
+    const resume = parseProtoFields(action[0]!.value as Uint8Array);
+    expect(resume[0]?.fieldNumber).toBe(1);
+    expect(resume[0]?.value).toEqual(context);
+  });
+});
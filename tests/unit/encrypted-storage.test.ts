@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createCredentialManager, EncryptedCredentialManager } from "../../src/lib/storage";
+
+const originalConfigHome = process.env.XDG_CONFIG_HOME;
+let configHome: string;
+
+beforeEach(() => {
+  configHome = mkdtempSync(join(tmpdir(), "cursor-encrypted-"));
+  process.env.XDG_CONFIG_HOME = configHome;
+});
+
+afterEach(() => {
+  if (originalConfigHome === undefined) delete process.env.XDG_CONFIG_HOME;
+  else process.env.XDG_CONFIG_HOME = originalConfigHome;
+  delete process.env.CURSOR_CREDENTIAL_ENCRYPTION;
+  rmSync(configHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === "win32" || process.platform === "darwin")("EncryptedCredentialManager", () => {
+  test("stores credentials encrypted", async () => {
+    const cm = new EncryptedCredentialManager("cursor", undefined, { passphrase: "pw", secretStore: null });
+    await cm.setAuthentication("access-token", "refresh-token", "api-key");
+
+    const raw = readFileSync(cm.getStoragePath(), "utf-8");
+    expect(cm.getStoragePath()).toEndWith("auth.enc.json");
+    expect(raw).not.toContain("access-token");
+    expect(JSON.parse(raw)).toMatchObject({ version: 1, keySource: "passphrase" });
+
+    const reader = new EncryptedCredentialManager("cursor", undefined, { passphrase: "pw", secretStore: null });
+    expect(await reader.getAllCredentials()).toEqual({ accessToken: "access-token", refreshToken: "refresh-token", apiKey: "api-key" });
+  });
+
+  test("migrates a plaintext auth.json on first read", async () => {
+    mkdirSync(join(configHome, "cursor"), { recursive: true });
+    const plaintextPath = join(configHome, "cursor", "auth.json");
+    writeFileSync(plaintextPath, JSON.stringify({ accessToken: "legacy", profiles: { work: { accessToken: "work" } } }));
+
+    const cm = new EncryptedCredentialManager("cursor", undefined, { passphrase: "pw", secretStore: null });
+    expect(await cm.getAccessToken()).toBe("legacy");
+    expect(await cm.forProfile("work").getAccessToken()).toBe("work");
+    expect(existsSync(plaintextPath)).toBe(false);
+    expect(readFileSync(cm.getStoragePath(), "utf-8")).not.toContain("legacy");
+  });
+
+  test("fails clearly instead of treating an undecryptable file as empty", async () => {
+    await new EncryptedCredentialManager("cursor", undefined, { passphrase: "right", secretStore: null })
+      .setAuthentication("token", "refresh");
+
+    const wrong = new EncryptedCredentialManager("cursor", undefined, { passphrase: "wrong", secretStore: null });
+    await expect(wrong.getAccessToken()).rejects.toThrow("Cannot decrypt");
+    await expect(wrong.setAuthentication("other", "other")).rejects.toThrow("Cannot decrypt");
+
+    const missing = new EncryptedCredentialManager("cursor", undefined, { secretStore: null });
+    await expect(missing.getAccessToken()).rejects.toThrow("is protected by a passphrase; set CURSOR_SECRET_PASSPHRASE");
+  });
+
+  test("rotates to a new passphrase and back to the machine key", async () => {
+    const cm = new EncryptedCredentialManager("cursor", undefined, { passphrase: "old", secretStore: null });
+    await cm.setAuthentication("token", "refresh");
+    const before = JSON.parse(readFileSync(cm.getStoragePath(), "utf-8"));
+
+    await cm.rotateKey("new");
+    const after = JSON.parse(readFileSync(cm.getStoragePath(), "utf-8"));
+    expect(after.salt).not.toBe(before.salt);
+    await expect(new EncryptedCredentialManager("cursor", undefined, { passphrase: "old", secretStore: null }).getAccessToken())
+      .rejects.toThrow("Cannot decrypt");
+    expect(await new EncryptedCredentialManager("cursor", undefined, { passphrase: "new", secretStore: null }).getAccessToken())
+      .toBe("token");
+
+    await cm.rotateKey();
+    expect(JSON.parse(readFileSync(cm.getStoragePath(), "utf-8")).keySource).toBe("machine");
+    expect(await new EncryptedCredentialManager("cursor", undefined, { secretStore: null }).getAccessToken()).toBe("token");
+  });
+
+  test("createCredentialManager selects encryption by configuration", () => {
+    expect(createCredentialManager("cursor", undefined, { secretStore: null })).not.toBeInstanceOf(EncryptedCredentialManager);
+
+    process.env.CURSOR_CREDENTIAL_ENCRYPTION = "1";
+    expect(createCredentialManager("cursor", undefined, { secretStore: null })).toBeInstanceOf(EncryptedCredentialManager);
+    expect(createCredentialManager("cursor", undefined, { encrypted: false, secretStore: null }))
+      .not.toBeInstanceOf(EncryptedCredentialManager);
+  });
+});
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, symlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExecRequest } from "../../src/lib/api/agent-service";
+import { executeBuiltinTool } from "../../src/lib/openai-compat/builtin-tools";
+import {
+  checkCommand,
+  DEFAULT_EXECUTION_POLICY,
+  executionPolicyFromEnv,
+  resolveToolPath,
+  splitShellCommands,
+  type ExecutionPolicy,
+} from "../../src/lib/openai-compat/execution-policy";
+
+let root: string;
+let outside: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), "cursor-workspace-"));
+  outside = mkdtempSync(join(tmpdir(), "cursor-outside-"));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+  rmSync(outside, { recursive: true, force: true });
+});
+
+function policy(overrides: Partial<ExecutionPolicy> = {}): ExecutionPolicy {
+  return { ...DEFAULT_EXECUTION_POLICY, workspaceRoot: root, ...overrides };
+}
+
+interface Sent {
+  method: string;
+  args: unknown[];
+}
+
+/**
+ * Fake agent client that records the results sent back
+ */
+function recordingClient(): { client: Parameters<typeof executeBuiltinTool>[0]; sent: Sent[] } {
+  const sent: Sent[] = [];
+  const record = (method: string) => async (...args: unknown[]) => {
+    sent.push({ method, args });
+  };
+  const client = {
+    sendShellResult: record("shell"),
+    sendReadResult: record("read"),
+    sendLsResult: record("ls"),
+    sendGrepResult: record("grep"),
+    sendWriteResult: record("write"),
+  };
+  return { client: client as unknown as Parameters<typeof executeBuiltinTool>[0], sent };
+}
+
+function shell(command: string, cwd?: string): ExecRequest {
+  return { type: "shell", id: 1, execId: "exec", command, cwd } as ExecRequest;
+}
+
+function write(path: string, fileText: string): ExecRequest {
+  return { type: "write", id: 2, execId: "exec", path, fileText } as ExecRequest;
+}
+
+describe("command rules", () => {
+  test("splits compound commands but not redirections", () => {
+    expect(splitShellCommands("git status && rm -rf . ; ls | wc -l")).toEqual(["git status", "rm -rf .", "ls", "wc -l"]);
+    expect(splitShellCommands("make 2>&1")).toEqual(["make 2>&1"]);
+  });
+
+  test("denies commands matching a denied pattern anywhere in the line", () => {
+    const rules = policy({ denyCommands: ["rm *", "*sudo*"] });
+    expect(checkCommand(rules, "ls -la").error).toBeUndefined();
+    expect(checkCommand(rules, "ls && rm -rf .").error).toBe('"rm -rf ." matches the denied pattern "rm *"');
+    expect(checkCommand(rules, "echo hi | sudo tee /etc/x").error).toContain("*sudo*");
+  });
+
+  test("requires every command to be allowed when an allowlist is set", () => {
+    const rules = policy({ allowCommands: ["git *", "ls", "ls *"] });
+    expect(checkCommand(rules, "git status && ls").error).toBeUndefined();
+    expect(checkCommand(rules, "git status && curl example.com").error).toBe('"curl example.com" is not in the allowed commands');
+    expect(checkCommand(rules, "git log $(rm -rf .)").error).toContain("command substitution");
+  });
+
+  test("reads the policy from the environment", () => {
+    const rules = executionPolicyFromEnv({
+      CURSOR_WORKSPACE_ROOT: root,
+      CURSOR_SHELL_ALLOW: "git *, ls",
+      CURSOR_TOOL_DRY_RUN: "1",
+      CURSOR_SHELL_TIMEOUT_MS: "5000",
+    });
+    expect(rules).toMatchObject({
+      workspaceRoot: root,
+      allowCommands: ["git *", "ls"],
+      denyCommands: [],
+      dryRun: true,
+      commandTimeoutMs: 5000,
+      maxOutputBytes: DEFAULT_EXECUTION_POLICY.maxOutputBytes,
+    });
+  });
+});
+
+describe("workspace confinement", () => {
+  test("allows paths inside the root and rejects paths outside it", () => {
+    expect(resolveToolPath(policy(), "src/new-file.ts")).toEqual({ path: join(root, "src/new-file.ts") });
+    expect(resolveToolPath(policy(), "../escape.txt")).toHaveProperty("error");
+    expect(resolveToolPath(policy(), join(outside, "file"))).toHaveProperty("error");
+    expect(resolveToolPath(policy({ workspaceRoot: undefined }), join(outside, "file"))).toEqual({ path: join(outside, "file") });
+  });
+
+  test.skipIf(process.platform === "win32")("follows symlinks out of the workspace", () => {
+    symlinkSync(outside, join(root, "link"));
+    expect(resolveToolPath(policy(), "link/new-file")).toEqual({
+      error: `link/new-file is outside the workspace root ${root}`,
+    });
+  });
+});
+
+describe("built-in tools under a policy", () => {
+  test("returns refused commands as shell errors", async () => {
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("rm -rf .", root), () => {}, { policy: policy({ denyCommands: ["rm *"] }) });
+
+    expect(sent).toHaveLength(1);
+    const [, , , , stdout, stderr, exitCode] = sent[0]?.args ?? [];
+    expect(stdout).toBe("");
+    expect(stderr).toBe('Blocked by execution policy: "rm -rf ." matches the denied pattern "rm *"');
+    expect(exitCode).toBe(126);
+  });
+
+  test("refuses shell working directories outside the workspace", async () => {
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("ls", outside), () => {}, { policy: policy() });
+    expect(sent[0]?.args[5]).toContain("is outside the workspace root");
+  });
+
+  test("returns writes outside the workspace as write errors", async () => {
+    const { client, sent } = recordingClient();
+    const target = join(outside, "file.txt");
+    await executeBuiltinTool(client, write(target, "data"), () => {}, { policy: policy() });
+
+    expect(sent[0]?.args[2]).toEqual({
+      error: { path: target, error: `Blocked by execution policy: ${target} is outside the workspace root ${root}` },
+    });
+    expect(existsSync(target)).toBe(false);
+  });
+
+  test("reports instead of executing in dry-run mode", async () => {
+    const { client, sent } = recordingClient();
+    const rules = policy({ dryRun: true });
+    await executeBuiltinTool(client, shell("touch created", root), () => {}, { policy: rules });
+    await executeBuiltinTool(client, write(join(root, "file.txt"), "data"), () => {}, { policy: rules });
+
+    expect(sent[0]?.args[5]).toBe(`Dry run: would run \`touch created\` in ${root}`);
+    expect(sent[1]?.args[2]).toEqual({
+      error: { path: join(root, "file.txt"), error: `Dry run: would write 4 bytes to ${join(root, "file.txt")}` },
+    });
+    expect(existsSync(join(root, "created"))).toBe(false);
+    expect(existsSync(join(root, "file.txt"))).toBe(false);
+  });
+
+  test("kills commands that exceed the timeout", async () => {
+    const { client, sent } = recordingClient();
+    const startedAt = Date.now();
+    await executeBuiltinTool(client, shell("sleep 10", root), () => {}, { policy: policy({ commandTimeoutMs: 100 }) });
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    const [, , , , , stderr, exitCode] = sent[0]?.args ?? [];
+    expect(stderr).toContain("Command timed out after 100ms");
+    expect(exitCode).toBe(124);
+  });
+
+  test.skipIf(process.platform === "win32")("kills the whole process group on timeout", async () => {
+    const { client } = recordingClient();
+    await executeBuiltinTool(client, shell("(sleep 1; touch late) & sleep 10", root), () => {}, { policy: policy({ commandTimeoutMs: 100 }) });
+
+    await Bun.sleep(1500);
+    expect(existsSync(join(root, "late"))).toBe(false);
+  });
+
+  test.skipIf(process.platform === "win32")("doesn't wait past the timeout for background processes holding the output", async () => {
+    const { client, sent } = recordingClient();
+    const startedAt = Date.now();
+    await executeBuiltinTool(client, shell("sleep 10 & echo started", root), () => {}, { policy: policy({ commandTimeoutMs: 100 }) });
+
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+    const [, , , , stdout, stderr, exitCode] = sent[0]?.args ?? [];
+    expect(stdout).toBe("started\n");
+    expect(stderr).toContain("Background processes still holding the output open");
+    expect(exitCode).toBe(0);
+  });
+
+  test("returns refused searches as grep errors", async () => {
+    const { client, sent } = recordingClient();
+    const grep = { type: "grep", id: 3, execId: "exec", pattern: "secret", path: outside } as ExecRequest;
+    await executeBuiltinTool(client, grep, () => {}, { policy: policy() });
+
+    expect(sent[0]?.args[4]).toEqual([]);
+    expect(sent[0]?.args[5]).toBe(`Blocked by execution policy: ${outside} is outside the workspace root ${root}`);
+  });
+
+  test("drops glob matches outside the workspace", async () => {
+    mkdirSync(join(root, "sub"));
+    await Bun.write(join(root, "sub/inside.txt"), "");
+    await Bun.write(join(outside, "leak.txt"), "");
+    const { client, sent } = recordingClient();
+    const glob = { type: "grep", id: 3, execId: "exec", pattern: "", glob: "**/*.txt", path: join(root, "sub") } as ExecRequest;
+    const escape = { ...glob, glob: `../../${outside.split("/").pop()}/*.txt` } as ExecRequest;
+    await executeBuiltinTool(client, glob, () => {}, { policy: policy() });
+    await executeBuiltinTool(client, escape, () => {}, { policy: policy() });
+
+    expect(sent[0]?.args[4]).toEqual(["inside.txt"]);
+    expect(sent[1]?.args[4]).toEqual([]);
+  });
+
+  test("caps shell output", async () => {
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("printf '%0100d' 0", root), () => {}, { policy: policy({ maxOutputBytes: 10 }) });
+
+    const [, , , , stdout, , exitCode] = sent[0]?.args ?? [];
+    expect(stdout).toBe("0000000000\n[output truncated: 90 of 100 bytes omitted]");
+    expect(exitCode).toBe(0);
+  });
+
+  test("runs allowed commands and writes inside the workspace", async () => {
+    mkdirSync(join(root, "sub"));
+    const { client, sent } = recordingClient();
+    await executeBuiltinTool(client, shell("echo hi", join(root, "sub")), () => {}, { policy: policy({ allowCommands: ["echo *"] }) });
+    await executeBuiltinTool(client, write("sub/out.txt", "a\nb"), () => {}, { policy: policy() });
+
+    expect(sent[0]?.args[4]).toBe("hi\n");
+    expect(sent[1]?.args[2]).toMatchObject({ success: { path: "sub/out.txt", linesCreated: 2 } });
+    expect(await Bun.file(join(root, "sub/out.txt")).text()).toBe("a\nb");
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { LoginManager } from "../../src/lib/auth/login";
+import { startHeadlessLogin } from "../../src/lib/auth/headless-login";
+import { encodeQrCode, formatBits, reedSolomonRemainder, renderQrCode } from "../../src/lib/utils/qr-code";
+
+describe("QR code", () => {
+  test("computes Reed-Solomon error correction codewords", () => {
+    // "HELLO WORLD" at 1-M, the worked example from the QR code specification tutorials
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(reedSolomonRemainder(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  test("computes format bits for error correction level L", () => {
+    expect(formatBits(0).toString(2).padStart(15, "0")).toBe("111011111000100");
+    expect(formatBits(1).toString(2).padStart(15, "0")).toBe("111001011110011");
+  });
+
+  test("fits a login URL and draws the finder patterns", () => {
+    const url = "https://cursor.com/loginDeepControl?challenge=" + "a".repeat(43) +
+      "&uuid=123e4567-e89b-12d3-a456-426614174000&mode=login&redirectTarget=cli";
+    const matrix = encodeQrCode(url);
+    expect(matrix.length).toBe(49);
+
+    const size = matrix.length;
+    for (const [row, col] of [[0, 0], [0, size - 7], [size - 7, 0]] as const) {
+      // Dark outer ring, light ring, dark 3x3 center
+      expect(matrix[row]?.[col]).toBe(true);
+      expect(matrix[row + 1]?.[col + 1]).toBe(false);
+      expect(matrix[row + 3]?.[col + 3]).toBe(true);
+    }
+  });
+
+  test("renders two modules per character row", () => {
+    const lines = renderQrCode("https://example.com", { margin: 2 }).split("\n");
+    // Version 2 is 25 modules wide, plus a 2-module margin on each side
+    expect(lines[0]?.length).toBe(29);
+    expect(lines.length).toBe(Math.ceil(29 / 2));
+  });
+
+  test("rejects text that does not fit", () => {
+    expect(() => encodeQrCode("x".repeat(1000))).toThrow();
+  });
+});
+
+describe("headless login", () => {
+  let server: ReturnType<typeof Bun.serve> | undefined;
+
+  afterEach(() => {
+    server?.stop(true);
+    server = undefined;
+  });
+
+  /**
+   * Polling endpoint that answers 404 (pending) until `pendingPolls` polls have happened
+   */
+  function startPollingServer(pendingPolls: number): LoginManager {
+    let polls = 0;
+    server = Bun.serve({
+      port: 0,
+      fetch() {
+        polls++;
+        if (polls <= pendingPolls) return new Response("", { status: 404 });
+        return Response.json({ accessToken: "access", refreshToken: "refresh" });
+      },
+    });
+    return new LoginManager({ pollingEndpoint: `http://localhost:${server.port}/auth/poll` });
+  }
+
+  test("prints the URL with a QR code and reports progress until sign-in", async () => {
+    const progress: number[] = [];
+    const login = await startHeadlessLogin({
+      loginManager: startPollingServer(1),
+      onProgress: elapsed => progress.push(elapsed),
+    });
+
+    expect(login.instructions).toContain(login.loginUrl);
+    expect(login.instructions).toContain("▀");
+    expect(await login.wait()).toEqual({ accessToken: "access", refreshToken: "refresh" });
+    expect(progress.length).toBe(1);
+  });
+
+  test("gives up after the timeout", async () => {
+    const login = await startHeadlessLogin({
+      loginManager: startPollingServer(Infinity),
+      timeoutMs: 200,
+      qrCode: false,
+    });
+
+    const startedAt = Date.now();
+    expect(await login.wait()).toBeNull();
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  test("serves a local status page until cancelled", async () => {
+    const login = await startHeadlessLogin({
+      loginManager: startPollingServer(Infinity),
+      callbackPort: 0,
+      qrCode: false,
+    });
+    expect(login.callbackUrl).toBeDefined();
+    expect(login.instructions).toContain(login.callbackUrl!);
+
+    const page = await fetch(login.callbackUrl!);
+    expect(await page.text()).toContain("Sign in to Cursor");
+    expect(await (await fetch(`${login.callbackUrl}status`)).json()).toEqual({ status: "pending" });
+
+    const waiting = login.wait();
+    login.cancel();
+    expect(await waiting).toBeNull();
+  });
+});
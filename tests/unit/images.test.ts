@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+  collectImageAttachments,
+  loadImageAttachment,
+  modelSupportsImages,
+} from "../../src/lib/openai-compat/images";
+import { DEFAULT_EXECUTION_POLICY } from "../../src/lib/openai-compat/execution-policy";
+import { encodeUserMessage } from "../../src/lib/api/proto/agent-messages";
+import { parseProtoFields } from "../../src/lib/api/proto/decoding";
+import { AgentMode } from "../../src/lib/api/proto/types";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const PNG_DATA_URL = `data:image/png;base64,${Buffer.from(PNG_BYTES).toString("base64")}`;
+
+describe("loadImageAttachment", () => {
+  test("decodes base64 data URLs", async () => {
+    const image = await loadImageAttachment(PNG_DATA_URL);
+    expect(image.mimeType).toBe("image/png");
+    expect(Array.from(image.data)).toEqual(Array.from(PNG_BYTES));
+  });
+
+  test("reads local file URLs", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "cursor-images-"));
+    const path = join(dir, "shot.png");
+    writeFileSync(path, PNG_BYTES);
+
+    const image = await loadImageAttachment(pathToFileURL(path).toString());
+    expect(image.mimeType).toBe("image/png");
+    expect(image.path).toBe(path);
+    expect(Array.from(image.data)).toEqual(Array.from(PNG_BYTES));
+  });
+
+  test("confines file URLs to the workspace root", async () => {
+    const root = mkdtempSync(join(tmpdir(), "cursor-images-root-"));
+    const outside = join(mkdtempSync(join(tmpdir(), "cursor-images-")), "shot.png");
+    writeFileSync(outside, PNG_BYTES);
+
+    await expect(loadImageAttachment(pathToFileURL(outside).toString(), { ...DEFAULT_EXECUTION_POLICY, workspaceRoot: root }))
+      .rejects.toThrow("Blocked by execution policy");
+  });
+
+  test("rejects remote URLs", async () => {
+    await expect(loadImageAttachment("https://example.com/a.png")).rejects.toThrow("Unsupported image URL scheme");
+  });
+});
+
+describe("collectImageAttachments", () => {
+  test("returns no images for text-only messages", async () => {
+    const result = await collectImageAttachments([{ role: "user", content: "Hi" }], "cursor-small");
+    expect(result).toEqual({ images: [] });
+  });
+
+  test("collects image parts from user messages", async () => {
+    const result = await collectImageAttachments([
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "What is this?" },
+          { type: "image_url", image_url: { url: PNG_DATA_URL } },
+        ],
+      },
+    ], "claude-4.5-sonnet");
+    expect("images" in result && result.images.length).toBe(1);
+  });
+
+  test("only attaches images from the latest user message", async () => {
+    const result = await collectImageAttachments([
+      { role: "user", content: [{ type: "image_url", image_url: { url: PNG_DATA_URL } }] },
+      { role: "assistant", content: "A PNG header." },
+      { role: "user", content: [{ type: "text", text: "Thanks" }] },
+    ], "claude-4.5-sonnet");
+    expect(result).toEqual({ images: [] });
+  });
+
+  test("reports a clear error for models without image input", async () => {
+    const result = await collectImageAttachments([
+      { role: "user", content: [{ type: "image_url", image_url: { url: PNG_DATA_URL } }] },
+    ], "cursor-small");
+    expect(result).toEqual({ error: 'Model "cursor-small" does not support image input' });
+    expect(modelSupportsImages("gpt-5")).toBe(true);
+  });
+
+  test("follows the model catalog over name patterns", async () => {
+    const images = [{ role: "user" as const, content: [{ type: "image_url" as const, image_url: { url: PNG_DATA_URL } }] }];
+    const visionInfo = { modelId: "cursor-small", aliases: [], vision: true };
+
+    expect(modelSupportsImages("cursor-small", visionInfo)).toBe(true);
+    expect(modelSupportsImages("gpt-5", { vision: false })).toBe(false);
+    expect("images" in await collectImageAttachments(images, "cursor-small", { modelInfo: visionInfo })).toBe(true);
+  });
+});
+
+describe("encodeUserMessage with images", () => {
+  test("adds selected_context (field 3) only when images are attached", async () => {
+    const plain = parseProtoFields(encodeUserMessage("hi", "id", AgentMode.AGENT));
+    expect(plain.map(f => f.fieldNumber)).toEqual([1, 2, 4]);
+
+    const image = await loadImageAttachment(PNG_DATA_URL);
+    const withImage = parseProtoFields(encodeUserMessage("hi", "id", AgentMode.AGENT, [image]));
+    expect(withImage.map(f => f.fieldNumber)).toEqual([1, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildAgentClientMessageWithInteractionResponse,
+  parseInteractionQuery,
+  parseInteractionUpdate,
+} from "../../src/lib/api/proto/interaction";
+import { parseProtoFields } from "../../src/lib/api/proto/decoding";
+import {
+  concatBytes,
+  encodeBoolField,
+  encodeMessageField,
+  encodeStringField,
+  encodeUint32Field,
+} from "../../src/lib/api/proto/encoding";
+import { askQuestionResponse } from "../../src/lib/openai-compat/interaction-queries";
+
+describe("parseInteractionUpdate", () => {
+  test("decodes text_delta (field 1)", () => {
+    const update = encodeMessageField(1, encodeStringField(1, "Hello"));
+    const parsed = parseInteractionUpdate(update);
+    expect(parsed.text).toBe("Hello");
+    expect(parsed.thinking).toBeNull();
+  });
+
+  test("decodes thinking_delta (field 4)", () => {
+    const update = encodeMessageField(4, encodeStringField(1, "Let me think"));
+    const parsed = parseInteractionUpdate(update);
+    expect(parsed.thinking).toBe("Let me think");
+    expect(parsed.text).toBeNull();
+  });
+});
+
+describe("parseInteractionQuery", () => {
+  test("decodes an ask_question query with its questions and options", () => {
+    const question = concatBytes(
+      encodeStringField(1, "q1"),
+      encodeStringField(2, "Which database?"),
+      encodeMessageField(3, concatBytes(encodeStringField(1, "pg"), encodeStringField(2, "Postgres"))),
+      encodeMessageField(3, concatBytes(encodeStringField(1, "sqlite"), encodeStringField(2, "SQLite"))),
+      encodeBoolField(4, true)
+    );
+    const query = concatBytes(
+      encodeUint32Field(1, 3),
+      encodeMessageField(3, concatBytes(
+        encodeMessageField(1, concatBytes(encodeStringField(1, "Setup"), encodeMessageField(2, question))),
+        encodeStringField(2, "tool_1")
+      ))
+    );
+
+    expect(parseInteractionQuery(query)).toEqual({
+      type: "ask_question",
+      id: 3,
+      title: "Setup",
+      questions: [{
+        id: "q1",
+        prompt: "Which database?",
+        options: [{ id: "pg", label: "Postgres" }, { id: "sqlite", label: "SQLite" }],
+        allowMultiple: true,
+      }],
+      toolCallId: "tool_1",
+    });
+  });
+
+  test("decodes switch_mode, web_search and exa_fetch arguments", () => {
+    const query = (field: number, args: Uint8Array) =>
+      concatBytes(encodeUint32Field(1, 1), encodeMessageField(field, encodeMessageField(1, args)));
+
+    expect(parseInteractionQuery(query(4, concatBytes(encodeStringField(1, "plan"), encodeStringField(2, "Needs a plan")))))
+      .toMatchObject({ type: "switch_mode", targetModeId: "plan", explanation: "Needs a plan" });
+    expect(parseInteractionQuery(query(2, encodeStringField(1, "bun release notes"))))
+      .toMatchObject({ type: "web_search", searchTerm: "bun release notes" });
+    expect(parseInteractionQuery(query(6, concatBytes(encodeStringField(1, "https://a.test"), encodeStringField(1, "https://b.test")))))
+      .toMatchObject({ type: "exa_fetch", urls: ["https://a.test", "https://b.test"] });
+    expect(parseInteractionQuery(encodeUint32Field(1, 9))).toEqual({ type: "unknown", id: 9 });
+  });
+});
+
+describe("buildAgentClientMessageWithInteractionResponse", () => {
+  /** Field number and body of the response inside AgentClientMessage.interaction_response */
+  function unwrap(message: Uint8Array): { id: unknown; field: number; body: Uint8Array } {
+    const [outer] = parseProtoFields(message);
+    expect(outer?.fieldNumber).toBe(6);
+    const [id, response] = parseProtoFields(outer?.value as Uint8Array);
+    return { id: id?.value, field: response?.fieldNumber ?? 0, body: response?.value as Uint8Array };
+  }
+
+  test("encodes approvals and rejections with the query's field", () => {
+    const approved = unwrap(buildAgentClientMessageWithInteractionResponse(5, { type: "switch_mode", approved: true }));
+    expect(Number(approved.id)).toBe(5);
+    expect(approved.field).toBe(4);
+    expect(parseProtoFields(approved.body)[0]?.fieldNumber).toBe(1);
+
+    const rejected = unwrap(buildAgentClientMessageWithInteractionResponse(6, { type: "exa_search", approved: false, reason: "offline" }));
+    expect(rejected.field).toBe(5);
+    const [rejection] = parseProtoFields(rejected.body);
+    expect(rejection?.fieldNumber).toBe(2);
+    expect(new TextDecoder().decode(parseProtoFields(rejection?.value as Uint8Array)[0]?.value as Uint8Array)).toBe("offline");
+  });
+
+  test("encodes ask_question answers", () => {
+    const { field, body } = unwrap(buildAgentClientMessageWithInteractionResponse(3, {
+      type: "ask_question",
+      answers: [{ questionId: "q1", selectedOptionIds: ["pg"], freeText: "with pgvector" }],
+    }));
+    expect(field).toBe(3);
+
+    const result = parseProtoFields(body)[0]?.value as Uint8Array;
+    const success = parseProtoFields(result)[0];
+    expect(success?.fieldNumber).toBe(1);
+    const answer = parseProtoFields(parseProtoFields(success?.value as Uint8Array)[0]?.value as Uint8Array);
+    expect(answer.map(f => new TextDecoder().decode(f.value as Uint8Array))).toEqual(["q1", "pg", "with pgvector"]);
+  });
+});
+
+describe("askQuestionResponse", () => {
+  const query = {
+    type: "ask_question" as const,
+    id: 1,
+    questions: [{ id: "q1", prompt: "Which database?", options: [{ id: "pg", label: "Postgres" }], allowMultiple: false }],
+  };
+
+  test("selects the option named by a plain-text answer", () => {
+    expect(askQuestionResponse(query, "postgres")).toEqual({
+      type: "ask_question",
+      answers: [{ questionId: "q1", selectedOptionIds: ["pg"] }],
+    });
+  });
+
+  test("takes other text as a free-text answer", () => {
+    expect(askQuestionResponse(query, "SQLite for now")).toEqual({
+      type: "ask_question",
+      answers: [{ questionId: "q1", selectedOptionIds: [], freeText: "SQLite for now" }],
+    });
+  });
+
+  test("passes structured answers through", () => {
+    const result = JSON.stringify({ answers: [{ questionId: "q1", selectedOptionIds: ["pg"], freeText: "with pgvector" }] });
+    expect(askQuestionResponse(query, result)).toEqual({
+      type: "ask_question",
+      answers: [{ questionId: "q1", selectedOptionIds: ["pg"], freeText: "with pgvector" }],
+    });
+  });
+
+  test("rejects an empty answer", () => {
+    expect(askQuestionResponse(query, "  ")).toMatchObject({ type: "ask_question", reason: expect.any(String) });
+  });
+});
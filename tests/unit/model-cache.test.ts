@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { clearModelCache, getCachedModels, type CursorModelInfo } from "../../src/lib/api/cursor-models";
+
+let dir: string;
+let server: ReturnType<typeof Bun.serve> | undefined;
+let served: Array<Record<string, unknown>>;
+let requests: number;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "cursor-models-"));
+  process.env.CURSOR_MODEL_CACHE = "1";
+  process.env.CURSOR_MODEL_CACHE_PATH = join(dir, "models.json");
+  served = [];
+  requests = 0;
+  clearModelCache();
+});
+
+afterEach(() => {
+  server?.stop(true);
+  server = undefined;
+  process.env.CURSOR_MODEL_CACHE = "0";
+  delete process.env.CURSOR_MODEL_CACHE_PATH;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function startModelServer(): string {
+  server = Bun.serve({
+    port: 0,
+    fetch() {
+      requests++;
+      return Response.json({ models: served });
+    },
+  });
+  return `http://localhost:${server.port}`;
+}
+
+function readCacheFile(): { entries: Record<string, { fetchedAt: number; models: CursorModelInfo[] }> } {
+  return JSON.parse(readFileSync(join(dir, "models.json"), "utf-8"));
+}
+
+describe("model catalog", () => {
+  test("reads capability fields from GetUsableModels", async () => {
+    served = [
+      {
+        modelId: "claude-thinking",
+        displayModelId: "sonnet-thinking",
+        thinkingDetails: {},
+        supportsImages: true,
+        supportsMaxMode: true,
+        contextTokenLimit: "200000",
+        contextTokenLimitForMaxMode: 1000000,
+      },
+      { modelId: "plain" },
+    ];
+    const baseUrl = startModelServer();
+
+    const [thinking, plain] = await getCachedModels("token", baseUrl);
+    expect(thinking).toMatchObject({
+      thinking: true,
+      vision: true,
+      maxMode: true,
+      contextTokens: 200000,
+      maxModeContextTokens: 1000000,
+    });
+    expect(plain).toEqual({
+      modelId: "plain",
+      displayModelId: undefined,
+      aliases: [],
+      displayName: undefined,
+      displayNameShort: undefined,
+      thinking: undefined,
+      vision: undefined,
+      maxMode: undefined,
+      contextTokens: undefined,
+      maxModeContextTokens: undefined,
+    });
+  });
+
+  test("serves the persisted catalog when the API is unreachable", async () => {
+    served = [{ modelId: "persisted" }];
+    const baseUrl = startModelServer();
+    expect((await getCachedModels("token", baseUrl)).map(m => m.modelId)).toEqual(["persisted"]);
+    expect(readCacheFile().entries[baseUrl]?.models[0]?.modelId).toBe("persisted");
+
+    // Simulate a restart without network
+    server?.stop(true);
+    server = undefined;
+    clearModelCache();
+
+    expect((await getCachedModels("token", baseUrl)).map(m => m.modelId)).toEqual(["persisted"]);
+  });
+
+  test("returns a stale catalog at once and refreshes it in the background", async () => {
+    const baseUrl = startModelServer();
+    served = [{ modelId: "fresh" }];
+    writeFileSync(join(dir, "models.json"), JSON.stringify({
+      version: 1,
+      entries: { [baseUrl]: { fetchedAt: Date.now() - 60 * 60 * 1000, models: [{ modelId: "stale", aliases: [] }] } },
+    }));
+
+    expect((await getCachedModels("token", baseUrl)).map(m => m.modelId)).toEqual(["stale"]);
+
+    for (let i = 0; i < 50 && readCacheFile().entries[baseUrl]?.models[0]?.modelId !== "fresh"; i++) {
+      await Bun.sleep(10);
+    }
+    expect((await getCachedModels("token", baseUrl)).map(m => m.modelId)).toEqual(["fresh"]);
+    expect(requests).toBe(1);
+  });
+
+  test("keeps the saved catalog when the API lists no models", async () => {
+    served = [{ modelId: "saved" }];
+    const baseUrl = startModelServer();
+    await getCachedModels("token", baseUrl);
+
+    served = [];
+    clearModelCache();
+    writeFileSync(join(dir, "models.json"), JSON.stringify({
+      version: 1,
+      entries: { [baseUrl]: { fetchedAt: 0, models: [{ modelId: "saved", aliases: [] }] } },
+    }));
+    expect((await getCachedModels("token", baseUrl)).map(m => m.modelId)).toEqual(["saved"]);
+
+    for (let i = 0; i < 50 && requests < 2; i++) await Bun.sleep(10);
+    await Bun.sleep(20);
+    expect(readCacheFile().entries[baseUrl]?.models.map(m => m.modelId)).toEqual(["saved"]);
+  });
+
+  test("keeps a separate catalog per account", async () => {
+    const token = (sub: string) => `h.${Buffer.from(JSON.stringify({ sub })).toString("base64url")}.s`;
+    const baseUrl = startModelServer();
+    served = [{ modelId: "pro-model" }];
+    expect((await getCachedModels(token("user_pro"), baseUrl)).map(m => m.modelId)).toEqual(["pro-model"]);
+
+    served = [{ modelId: "free-model" }];
+    expect((await getCachedModels(token("user_free"), baseUrl)).map(m => m.modelId)).toEqual(["free-model"]);
+    expect((await getCachedModels(token("user_pro"), baseUrl)).map(m => m.modelId)).toEqual(["pro-model"]);
+    expect(Object.keys(readCacheFile().entries).sort()).toEqual([`${baseUrl}#user_free`, `${baseUrl}#user_pro`]);
+  });
+
+  test("returns an empty list without a catalog or network", async () => {
+    const baseUrl = startModelServer();
+    server?.stop(true);
+    server = undefined;
+
+    expect(await getCachedModels("token", baseUrl)).toEqual([]);
+  });
+});
@@ -1,115 +1,145 @@
-import { describe, test, expect } from "bun:test";
-import { ModelInfoMap } from "llm-info";
-
-const CURSOR_TO_LLM_INFO_MAP: Record<string, string> = {
-  "sonnet-4.5": "claude-sonnet-4-5-20250929",
-  "sonnet-4.5-thinking": "claude-sonnet-4-5-20250929",
-  "opus-4.5": "claude-opus-4-5-20251101",
-  "opus-4.5-thinking": "claude-opus-4-5-20251101",
-  "opus-4.1": "claude-opus-4-1-20250805",
-  "gemini-3-pro": "gemini-3-pro-preview",
-  "gemini-3-flash": "gemini-2.5-flash",
-  "gpt-5.2": "gpt-5.2",
-  "gpt-5.2-high": "gpt-5.2",
-  "gpt-5.1": "gpt-5",
-  "gpt-5.1-high": "gpt-5",
-  "gpt-5.1-codex": "gpt-5",
-  "gpt-5.1-codex-high": "gpt-5",
-  "gpt-5.1-codex-max": "gpt-5",
-  "gpt-5.1-codex-max-high": "gpt-5",
-  "grok": "grok-4",
-};
-
-const DEFAULT_LIMITS = { context: 128000, output: 16384 };
-
-function getModelLimits(cursorModelId: string): { context: number; output: number } {
-  const llmInfoId = CURSOR_TO_LLM_INFO_MAP[cursorModelId];
-  if (!llmInfoId) return DEFAULT_LIMITS;
-
-  const info = (ModelInfoMap as Record<string, { contextWindowTokenLimit?: number; outputTokenLimit?: number }>)[
-    llmInfoId
-  ];
-  if (!info) return DEFAULT_LIMITS;
-
-  return {
-    context: info.contextWindowTokenLimit ?? DEFAULT_LIMITS.context,
-    output: info.outputTokenLimit ?? DEFAULT_LIMITS.output,
-  };
-}
+import { afterEach, beforeEach, describe, test, expect } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  DEFAULT_MODEL_LIMITS,
+  findLlmInfoModel,
+  loadModelLimitOverrides,
+  normalizeModelId,
+  resolveModelLimits,
+} from "../../src/lib/api/model-limits";
 
 describe("Model Limits", () => {
-  describe("getModelLimits", () => {
-    test("returns correct limits for Claude sonnet-4.5", () => {
-      const limits = getModelLimits("sonnet-4.5");
-      expect(limits.context).toBe(200000);
-      expect(limits.output).toBe(64000);
+  describe("normalizeModelId", () => {
+    test("strips variant suffixes", () => {
+      expect(normalizeModelId("sonnet-4.5-thinking")).toBe("sonnet-4.5");
+      expect(normalizeModelId("gpt-5.2-high")).toBe("gpt-5.2");
+      expect(normalizeModelId("gpt-5.1-codex-max-high")).toBe("gpt-5.1");
+      expect(normalizeModelId("gpt-5.1-codex-mini")).toBe("gpt-5.1-mini");
     });
 
-    test("returns correct limits for Claude opus-4.5", () => {
-      const limits = getModelLimits("opus-4.5");
-      expect(limits.context).toBe(200000);
-      expect(limits.output).toBe(64000);
+    test("normalizes llm-info IDs to the same key", () => {
+      expect(normalizeModelId("claude-sonnet-4-5-20250929")).toBe("sonnet-4.5");
+      expect(normalizeModelId("claude-3-5-sonnet-20241022")).toBe("sonnet-3.5");
+      expect(normalizeModelId("claude-4.5-sonnet")).toBe("sonnet-4.5");
+      expect(normalizeModelId("gemini-3-pro-preview")).toBe("gemini-3-pro");
+      expect(normalizeModelId("gemini-2.5-pro-exp-03-25")).toBe("gemini-2.5-pro");
+      expect(normalizeModelId("gpt-4o-2024-08-06")).toBe("gpt-4o");
     });
 
-    test("returns correct limits for GPT-5.2", () => {
-      const limits = getModelLimits("gpt-5.2");
-      expect(limits.context).toBe(400000);
-      expect(limits.output).toBe(128000);
+    test("keeps suffixes that name a different model", () => {
+      expect(normalizeModelId("gpt-5-mini")).toBe("gpt-5-mini");
+      expect(normalizeModelId("grok-code-fast-1")).toBe("grok-code-fast-1");
     });
+  });
 
-    test("returns correct limits for GPT-5.1", () => {
-      const limits = getModelLimits("gpt-5.1");
-      expect(limits.context).toBe(400000);
-      expect(limits.output).toBe(128000);
+  describe("findLlmInfoModel", () => {
+    test("matches the same family and version", () => {
+      expect(findLlmInfoModel("sonnet-4.5")).toBe("claude-sonnet-4-5-20250929");
+      expect(findLlmInfoModel("opus-4.5-thinking")).toBe("claude-opus-4-5-20251101");
+      expect(findLlmInfoModel("opus-4.1")).toBe("claude-opus-4-1-20250805");
+      expect(findLlmInfoModel("gemini-3-pro")).toBe("gemini-3-pro-preview");
+      expect(findLlmInfoModel("gpt-5.2-high")).toBe("gpt-5.2");
     });
 
-    test("returns correct limits for Gemini 3 Pro", () => {
-      const limits = getModelLimits("gemini-3-pro");
-      expect(limits.context).toBe(1048576);
-      expect(limits.output).toBe(65536);
+    test("falls back to the closest lower version", () => {
+      expect(findLlmInfoModel("gpt-5.1")).toBe("gpt-5");
+      expect(findLlmInfoModel("gpt-5.1-codex-max")).toBe("gpt-5");
+      expect(findLlmInfoModel("sonnet-4.7-thinking")).toBe("claude-sonnet-4-5-20250929");
+      expect(findLlmInfoModel("opus-4.6")).toBe("claude-opus-4-5-20251101");
     });
 
-    test("returns correct limits for Grok", () => {
-      const limits = getModelLimits("grok");
-      expect(limits.context).toBe(256000);
-      expect(limits.output).toBe(32768);
+    test("falls back to the closest version in the family", () => {
+      expect(findLlmInfoModel("gemini-3-flash")).toBe("gemini-2.5-flash");
+      expect(findLlmInfoModel("gpt-5.1-codex-mini")).toBe("gpt-5-mini");
+      expect(findLlmInfoModel("grok")).toBe("grok-4");
     });
 
-    test("returns default limits for unknown models", () => {
-      const limits = getModelLimits("unknown-model");
-      expect(limits.context).toBe(DEFAULT_LIMITS.context);
-      expect(limits.output).toBe(DEFAULT_LIMITS.output);
+    test("finds nothing for unrelated models", () => {
+      expect(findLlmInfoModel("auto")).toBeUndefined();
+      expect(findLlmInfoModel("composer-1")).toBeUndefined();
+    });
+  });
+
+  describe("resolveModelLimits", () => {
+    test("returns llm-info limits for known families", () => {
+      expect(resolveModelLimits("sonnet-4.5")).toMatchObject({ context: 200000, output: 64000 });
+      expect(resolveModelLimits("gpt-5.2")).toMatchObject({ context: 400000, output: 128000 });
+      expect(resolveModelLimits("gemini-3-pro")).toMatchObject({ context: 1048576, output: 65536 });
+      expect(resolveModelLimits("grok")).toMatchObject({ context: 256000, output: 32768 });
+      expect(resolveModelLimits("sonnet-4.5").source).toEqual({ context: "llm-info", output: "llm-info" });
     });
 
-    test("returns default limits for auto model", () => {
-      const limits = getModelLimits("auto");
-      expect(limits.context).toBe(DEFAULT_LIMITS.context);
-      expect(limits.output).toBe(DEFAULT_LIMITS.output);
+    test("variants use the same limits as the base model", () => {
+      expect(resolveModelLimits("sonnet-4.5-thinking")).toEqual(resolveModelLimits("sonnet-4.5"));
+      expect(resolveModelLimits("gpt-5.2-high")).toEqual(resolveModelLimits("gpt-5.2"));
     });
 
-    test("thinking variants use same limits as base model", () => {
-      const sonnetLimits = getModelLimits("sonnet-4.5");
-      const sonnetThinkingLimits = getModelLimits("sonnet-4.5-thinking");
-      expect(sonnetThinkingLimits).toEqual(sonnetLimits);
+    test("returns default limits for unknown models", () => {
+      expect(resolveModelLimits("auto")).toEqual({
+        ...DEFAULT_MODEL_LIMITS,
+        source: { context: "default", output: "default" },
+        llmInfoModel: undefined,
+      });
+    });
 
-      const opusLimits = getModelLimits("opus-4.5");
-      const opusThinkingLimits = getModelLimits("opus-4.5-thinking");
-      expect(opusThinkingLimits).toEqual(opusLimits);
+    test("prefers the context size reported by Cursor", () => {
+      const limits = resolveModelLimits("sonnet-4.5", {
+        model: { modelId: "claude-4.5-sonnet", aliases: [], contextTokens: 1000000 },
+      });
+      expect(limits).toMatchObject({ context: 1000000, output: 64000 });
+      expect(limits.source).toEqual({ context: "cursor", output: "llm-info" });
     });
 
-    test("high variants use same limits as base model", () => {
-      const gpt52Limits = getModelLimits("gpt-5.2");
-      const gpt52HighLimits = getModelLimits("gpt-5.2-high");
-      expect(gpt52HighLimits).toEqual(gpt52Limits);
+    test("applies overrides over everything else", () => {
+      const overrides = {
+        "composer-*": { context: 200000, output: 32000 },
+        "composer-1-fast": { output: 16000 },
+      };
+      expect(resolveModelLimits("composer-1", { overrides })).toMatchObject({
+        context: 200000,
+        output: 32000,
+        source: { context: "override", output: "override" },
+      });
+      // An exact key wins over a pattern, and fields it leaves out fall through
+      expect(resolveModelLimits("Composer-1-fast", { overrides })).toMatchObject({
+        context: DEFAULT_MODEL_LIMITS.context,
+        output: 16000,
+        source: { context: "default", output: "override" },
+      });
     });
   });
 
-  describe("CURSOR_TO_LLM_INFO_MAP validity", () => {
-    test("all mapped llm-info IDs exist in ModelInfoMap", () => {
-      for (const [cursorId, llmInfoId] of Object.entries(CURSOR_TO_LLM_INFO_MAP)) {
-        const info = (ModelInfoMap as Record<string, unknown>)[llmInfoId];
-        expect(info).toBeDefined();
-      }
+  describe("loadModelLimitOverrides", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "cursor-limits-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    test("reads overrides and treats a missing file as empty", () => {
+      const path = join(dir, "model-limits.json");
+      expect(loadModelLimitOverrides(path)).toEqual({ overrides: {} });
+
+      writeFileSync(path, JSON.stringify({ "GPT-5*": { context: 272000 } }));
+      expect(loadModelLimitOverrides(path)).toEqual({ overrides: { "gpt-5*": { context: 272000, output: undefined } } });
+    });
+
+    test("reports invalid files", () => {
+      const path = join(dir, "model-limits.json");
+      writeFileSync(path, "{ not json");
+      expect(loadModelLimitOverrides(path).error).toStartWith(`Invalid JSON in ${path}`);
+
+      writeFileSync(path, JSON.stringify({ "gpt-5": { context: "big" } }));
+      expect(loadModelLimitOverrides(path)).toEqual({
+        overrides: {},
+        error: `${path}: limits for "gpt-5" must be positive integers`,
+      });
     });
   });
 });
@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import {
+  responsesInputToMessages,
+  responsesOutputToMessages,
+  responsesToolsToOpenAI,
+} from "../../src/lib/openai-compat/responses";
+
+describe("responsesInputToMessages", () => {
+  test("treats string input as a user message", () => {
+    expect(responsesInputToMessages("Hello")).toEqual([{ role: "user", content: "Hello" }]);
+  });
+
+  test("maps developer role to system and content parts to text parts", () => {
+    const result = responsesInputToMessages([
+      { role: "developer", content: "Be brief" },
+      { type: "message", role: "user", content: [{ type: "input_text", text: "Hi" }] },
+    ]);
+    expect(result).toEqual([
+      { role: "system", content: "Be brief" },
+      { role: "user", content: [{ type: "text", text: "Hi" }] },
+    ]);
+  });
+
+  test("merges consecutive function_call items into one assistant message", () => {
+    const result = responsesInputToMessages([
+      { type: "function_call", call_id: "sess_abc__call_1", name: "read", arguments: "{\"filePath\":\"a\"}" },
+      { type: "function_call", call_id: "sess_abc__call_2", name: "read", arguments: "{\"filePath\":\"b\"}" },
+      { type: "function_call_output", call_id: "sess_abc__call_1", output: "A" },
+      { type: "function_call_output", call_id: "sess_abc__call_2", output: "B" },
+    ]);
+    expect(result).toHaveLength(3);
+    expect(result[0]?.role).toBe("assistant");
+    expect(result[0]?.tool_calls?.map(tc => tc.id)).toEqual(["sess_abc__call_1", "sess_abc__call_2"]);
+    expect(result[1]).toEqual({ role: "tool", tool_call_id: "sess_abc__call_1", content: "A" });
+    expect(result[2]).toEqual({ role: "tool", tool_call_id: "sess_abc__call_2", content: "B" });
+  });
+});
+
+describe("responsesToolsToOpenAI", () => {
+  test("returns undefined when no function tools are given", () => {
+    expect(responsesToolsToOpenAI(undefined)).toBeUndefined();
+    expect(responsesToolsToOpenAI([])).toBeUndefined();
+  });
+
+  test("nests flat function tools", () => {
+    const parameters = { type: "object", properties: {} };
+    expect(responsesToolsToOpenAI([{ type: "function", name: "bash", description: "Run", parameters }])).toEqual([
+      { type: "function", function: { name: "bash", description: "Run", parameters } },
+    ]);
+  });
+});
+
+describe("responsesOutputToMessages", () => {
+  test("returns no messages for empty output", () => {
+    expect(responsesOutputToMessages([])).toEqual([]);
+  });
+
+  test("folds text and function calls into one assistant message", () => {
+    const result = responsesOutputToMessages([
+      {
+        type: "message",
+        id: "msg_1",
+        status: "completed",
+        role: "assistant",
+        content: [{ type: "output_text", text: "Reading", annotations: [] }],
+      },
+      { type: "function_call", id: "fc_1", call_id: "call_1", name: "read", arguments: "{}", status: "completed" },
+    ]);
+    expect(result).toEqual([{
+      role: "assistant",
+      content: "Reading",
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "read", arguments: "{}" } }],
+    }]);
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, statSync, existsSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createEncryptedFileSecretStore,
+  createFileSecretStore,
+  createKeychainSecretStore,
+  createSecretToolStore,
+  type CommandRunner,
+} from "../../src/lib/auth/secret-store";
+import { cursorCliAuthFilePath, readCursorCliAccessToken } from "../../src/lib/auth/keychain";
+import { FileCredentialManager } from "../../src/lib/storage";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "cursor-secrets-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+interface RecordedCall {
+  file: string;
+  args: string[];
+  input?: string;
+}
+
+/**
+ * Stub secret-tool: an in-memory Secret Service keyed by the "service" attribute
+ */
+function stubSecretTool(items = new Map<string, string>()): { run: CommandRunner; calls: RecordedCall[] } {
+  const calls: RecordedCall[] = [];
+  const run: CommandRunner = async (file, args, input) => {
+    calls.push({ file, args, input });
+    // Every command ends with the "service" attribute value
+    const [command] = args;
+    const key = args.at(-1) ?? "";
+    if (command === "lookup") {
+      const secret = items.get(key);
+      return secret === undefined ? { stdout: "", stderr: "", code: 1 } : { stdout: secret, stderr: "", code: 0 };
+    }
+    if (command === "store") {
+      items.set(key, input ?? "");
+      return { stdout: "", stderr: "", code: 0 };
+    }
+    items.delete(key);
+    return { stdout: "", stderr: "", code: 0 };
+  };
+  return { run, calls };
+}
+
+describe("secret-tool store", () => {
+  test("stores secrets through stdin and reads them back", async () => {
+    const { run, calls } = stubSecretTool();
+    const store = createSecretToolStore({ run });
+
+    await store.set("my-key", "s3cret");
+    expect(await store.get("my-key")).toBe("s3cret");
+    expect(calls[0]?.args).toEqual(["store", "--label=my-key", "service", "my-key"]);
+    expect(calls[0]?.input).toBe("s3cret");
+    expect(calls.some(call => call.args.includes("s3cret"))).toBe(false);
+
+    await store.delete("my-key");
+    expect(await store.get("my-key")).toBeNull();
+  });
+
+  test("is unavailable without the binary or a D-Bus session", async () => {
+    const missing = createSecretToolStore({ run: async () => ({ stdout: "", stderr: "", code: 127 }) });
+    const noSession = createSecretToolStore({
+      run: async () => ({ stdout: "", stderr: "Cannot autolaunch D-Bus without X11 $DISPLAY", code: 1 }),
+    });
+
+    expect(await missing.isAvailable()).toBe(false);
+    expect(await noSession.isAvailable()).toBe(false);
+    expect(await createSecretToolStore({ run: stubSecretTool().run }).isAvailable()).toBe(true);
+  });
+
+  test("reports store failures", async () => {
+    const store = createSecretToolStore({ run: async () => ({ stdout: "", stderr: "locked", code: 1 }) });
+    await expect(store.set("key", "value")).rejects.toThrow("Failed to store secret with secret-tool: locked");
+  });
+});
+
+describe("keychain store", () => {
+  test("maps operations onto the security CLI", async () => {
+    const calls: RecordedCall[] = [];
+    const store = createKeychainSecretStore({
+      run: async (file, args, input) => {
+        calls.push({ file, args, input });
+        if (args[0] === "find-generic-password") return { stdout: "token\n", stderr: "", code: 0 };
+        // delete of a missing item
+        return { stdout: "", stderr: "not found", code: args[0] === "delete-generic-password" ? 44 : 0 };
+      },
+    });
+
+    expect(await store.get("cursor-access-token")).toBe("token");
+    await store.set("key", "value");
+    await store.delete("key");
+
+    expect(calls.map(call => call.args[0])).toEqual(["find-generic-password", "add-generic-password", "delete-generic-password"]);
+    // The secret goes through stdin, never the command line
+    expect(calls[1]?.args).toEqual(["add-generic-password", "-U", "-s", "key", "-a", "opencode-cursor-auth", "-w"]);
+    expect(calls[1]?.input).toBe("value\nvalue\n");
+  });
+});
+
+describe("file stores", () => {
+  test("plain file keeps secrets private and deletes itself when empty", async () => {
+    const path = join(dir, "secrets.json");
+    const store = createFileSecretStore(path);
+
+    await store.set("a", "one");
+    expect(await store.get("a")).toBe("one");
+    if (process.platform !== "win32") {
+      expect(statSync(path).mode & 0o777).toBe(0o600);
+    }
+
+    await store.delete("a");
+    expect(existsSync(path)).toBe(false);
+  });
+
+  test("encrypted file round-trips without storing plaintext", async () => {
+    const path = join(dir, "secrets.enc.json");
+    const store = createEncryptedFileSecretStore(path, { passphrase: "correct horse" });
+
+    await store.set("token", "very-secret-token");
+    expect(readFileSync(path, "utf-8")).not.toContain("very-secret-token");
+    expect(await store.get("token")).toBe("very-secret-token");
+    expect(await createEncryptedFileSecretStore(path, { passphrase: "correct horse" }).get("token")).toBe("very-secret-token");
+  });
+
+  test("encrypted file rejects the wrong passphrase", async () => {
+    const path = join(dir, "secrets.enc.json");
+    await createEncryptedFileSecretStore(path, { passphrase: "right" }).set("token", "value");
+
+    await expect(createEncryptedFileSecretStore(path, { passphrase: "wrong" }).get("token"))
+      .rejects.toThrow(`Cannot decrypt ${path}: Decryption failed: wrong passphrase or corrupted data`);
+  });
+});
+
+describe.skipIf(process.platform === "win32" || process.platform === "darwin")("Linux secret stores", () => {
+  test("imports the Cursor CLI token from the Secret Service, then auth.json", async () => {
+    const authFilePath = join(dir, "auth.json");
+    writeFileSync(authFilePath, JSON.stringify({ accessToken: "file-token" }));
+
+    const withItem = stubSecretTool(new Map([["cursor-access-token", "keyring-token"]]));
+    expect(await readCursorCliAccessToken({ run: withItem.run, authFilePath })).toBe("keyring-token");
+
+    const empty = stubSecretTool();
+    expect(await readCursorCliAccessToken({ run: empty.run, authFilePath })).toBe("file-token");
+  });
+
+  test("locates Cursor CLI's auth.json independently of our own storage", () => {
+    expect(cursorCliAuthFilePath({ CURSOR_CLI_AUTH_FILE: "/tmp/cli-auth.json" })).toBe("/tmp/cli-auth.json");
+    if (process.platform === "linux") {
+      expect(cursorCliAuthFilePath({ XDG_CONFIG_HOME: "/xdg" })).toBe("/xdg/cursor/auth.json");
+    }
+  });
+
+  test("FileCredentialManager keeps tokens in the secret store", async () => {
+    const originalConfigHome = process.env.XDG_CONFIG_HOME;
+    process.env.XDG_CONFIG_HOME = dir;
+    try {
+      const items = new Map<string, string>();
+      const store = createSecretToolStore({ run: stubSecretTool(items).run });
+      const cm = new FileCredentialManager("cursor", undefined, store);
+      await cm.setAuthentication("access", "refresh", "key");
+
+      const file = JSON.parse(readFileSync(cm.getStoragePath(), "utf-8"));
+      expect(file).toEqual({ secretStore: "secret-tool" });
+      expect(await new FileCredentialManager("cursor", undefined, store).getAllCredentials())
+        .toEqual({ accessToken: "access", refreshToken: "refresh", apiKey: "key" });
+
+      await cm.clearAuthentication();
+      expect(items.size).toBe(0);
+      expect(existsSync(cm.getStoragePath())).toBe(false);
+    } finally {
+      if (originalConfigHome === undefined) delete process.env.XDG_CONFIG_HOME;
+      else process.env.XDG_CONFIG_HOME = originalConfigHome;
+    }
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync, existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DEFAULT_PROFILE, FileCredentialManager } from "../../src/lib/storage";
+
+const originalConfigHome = process.env.XDG_CONFIG_HOME;
+let configHome: string;
+
+beforeEach(() => {
+  configHome = mkdtempSync(join(tmpdir(), "cursor-profiles-"));
+  process.env.XDG_CONFIG_HOME = configHome;
+});
+
+afterEach(() => {
+  if (originalConfigHome === undefined) delete process.env.XDG_CONFIG_HOME;
+  else process.env.XDG_CONFIG_HOME = originalConfigHome;
+  rmSync(configHome, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === "win32" || process.platform === "darwin")("FileCredentialManager profiles", () => {
+  test("reads a legacy single-account file as the default profile", async () => {
+    mkdirSync(join(configHome, "cursor"), { recursive: true });
+    writeFileSync(join(configHome, "cursor", "auth.json"), JSON.stringify({ accessToken: "legacy", refreshToken: "r" }));
+
+    const cm = new FileCredentialManager("cursor");
+    expect(await cm.getAccessToken()).toBe("legacy");
+    expect(await cm.listProfiles()).toEqual([DEFAULT_PROFILE]);
+  });
+
+  test("keeps profiles separate and the default profile at the top level", async () => {
+    const cm = new FileCredentialManager("cursor");
+    await cm.setAuthentication("personal-token", "personal-refresh");
+    await cm.forProfile("work").setAuthentication("work-token", "work-refresh", "work-key");
+
+    expect(await new FileCredentialManager("cursor").getAccessToken()).toBe("personal-token");
+    expect(await new FileCredentialManager("cursor", "work").getApiKey()).toBe("work-key");
+    expect(await cm.listProfiles()).toEqual([DEFAULT_PROFILE, "work"]);
+
+    const file = JSON.parse(readFileSync(cm.getStoragePath(), "utf-8"));
+    expect(file.accessToken).toBe("personal-token");
+    expect(file.profiles.work.accessToken).toBe("work-token");
+  });
+
+  test("switches the default profile for unbound managers", async () => {
+    const cm = new FileCredentialManager("cursor");
+    await cm.setAuthentication("personal-token", "");
+    await cm.forProfile("work").setAuthentication("work-token", "");
+
+    await cm.setDefaultProfile("work");
+
+    expect(await new FileCredentialManager("cursor").getAccessToken()).toBe("work-token");
+    expect(await cm.getDefaultProfile()).toBe("work");
+    await expect(cm.setDefaultProfile("missing")).rejects.toThrow("Unknown profile: missing");
+  });
+
+  test("removing profiles resets the default and deletes the emptied file", async () => {
+    const cm = new FileCredentialManager("cursor");
+    await cm.setAuthentication("personal-token", "");
+    await cm.forProfile("work").setAuthentication("work-token", "");
+    await cm.setDefaultProfile("work");
+
+    await cm.removeProfile("work");
+    expect(await cm.getDefaultProfile()).toBe(DEFAULT_PROFILE);
+    expect(await cm.listProfiles()).toEqual([DEFAULT_PROFILE]);
+
+    await cm.clearAuthentication();
+    expect(existsSync(cm.getStoragePath())).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { createReplayDeduper, resolveStreamRecovery } from "../../src/lib/api/stream-recovery";
+
+describe("createReplayDeduper", () => {
+  test("drops a replay split across deltas", () => {
+    const deduper = createReplayDeduper("Hello world");
+    expect(deduper.push("Hel")).toBe("");
+    expect(deduper.push("lo wor")).toBe("");
+    expect(deduper.push("ld, again")).toBe(", again");
+    expect(deduper.push(" and more")).toBe(" and more");
+  });
+
+  test("passes on only the new text when the stream diverges", () => {
+    const deduper = createReplayDeduper("Hello world");
+    expect(deduper.push("Hel")).toBe("");
+    // "Hel" was delivered before the reconnect; sending it again would duplicate it
+    expect(deduper.push("p me")).toBe("p me");
+    expect(deduper.push(", please")).toBe(", please");
+  });
+
+  test("passes everything through when nothing was emitted", () => {
+    expect(createReplayDeduper("").push("Fresh")).toBe("Fresh");
+  });
+});
+
+describe("resolveStreamRecovery", () => {
+  const original = process.env.CURSOR_STREAM_RECOVERY;
+
+  afterEach(() => {
+    if (original === undefined) delete process.env.CURSOR_STREAM_RECOVERY;
+    else process.env.CURSOR_STREAM_RECOVERY = original;
+  });
+
+  test("applies defaults", () => {
+    delete process.env.CURSOR_STREAM_RECOVERY;
+    expect(resolveStreamRecovery()).toEqual({ maxReconnects: 3, idleTimeoutMs: 60000, backoffMs: 500 });
+  });
+
+  test("CURSOR_STREAM_RECOVERY=0 disables reconnects", () => {
+    process.env.CURSOR_STREAM_RECOVERY = "0";
+    expect(resolveStreamRecovery({ maxReconnects: 5 }).maxReconnects).toBe(0);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import type { AgentTurnEvent } from "../../src/lib/openai-compat/agent-turn";
+import { validateJsonSchema } from "../../src/lib/openai-compat/json-schema";
+import {
+  extractJsonText,
+  runStructuredTurn,
+  validateStructuredOutput,
+  withResponseFormatInstruction,
+} from "../../src/lib/openai-compat/structured-output";
+import type { OpenAIMessage, OpenAIResponseFormat } from "../../src/lib/openai-compat/types";
+
+const personFormat: OpenAIResponseFormat = {
+  type: "json_schema",
+  json_schema: {
+    name: "person",
+    schema: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        age: { type: "integer", minimum: 0 },
+      },
+      required: ["name", "age"],
+      additionalProperties: false,
+    },
+  },
+};
+
+describe("validateJsonSchema", () => {
+  test("accepts matching values", () => {
+    expect(validateJsonSchema({ name: "Ada", age: 36 }, { type: "object", required: ["name"] })).toEqual([]);
+  });
+
+  test("reports nested type errors with paths", () => {
+    const schema = { type: "object", properties: { tags: { type: "array", items: { type: "string" } } } };
+    expect(validateJsonSchema({ tags: ["a", 1] }, schema)).toEqual(["$.tags[1]: expected string, got integer"]);
+  });
+
+  test("resolves local $refs", () => {
+    const schema = {
+      $defs: { color: { enum: ["red", "green"] } },
+      type: "object",
+      properties: { color: { $ref: "#/$defs/color" } },
+    };
+    expect(validateJsonSchema({ color: "red" }, schema)).toEqual([]);
+    expect(validateJsonSchema({ color: "blue" }, schema)).toHaveLength(1);
+  });
+
+  test("checks anyOf and nullable types", () => {
+    expect(validateJsonSchema(null, { type: ["string", "null"] })).toEqual([]);
+    expect(validateJsonSchema(3, { anyOf: [{ type: "string" }, { type: "boolean" }] })).toHaveLength(1);
+  });
+});
+
+describe("validateStructuredOutput", () => {
+  test("strips code fences and normalizes JSON", () => {
+    expect(extractJsonText("Here you go:\n```json\n{\"a\": 1}\n```")).toBe("{\"a\": 1}");
+    expect(validateStructuredOutput("Sure! {\"name\": \"Ada\", \"age\": 36}", personFormat)).toEqual({
+      json: "{\"name\":\"Ada\",\"age\":36}",
+    });
+  });
+
+  test("reports schema violations", () => {
+    const result = validateStructuredOutput("{\"name\": \"Ada\", \"extra\": true}", personFormat);
+    expect(result).toEqual({
+      errors: ["$: missing required property \"age\"", "$: unexpected property \"extra\""],
+    });
+  });
+
+  test("json_object requires an object", () => {
+    expect(validateStructuredOutput("[1, 2]", { type: "json_object" })).toEqual({ errors: ["Output must be a JSON object"] });
+  });
+});
+
+describe("runStructuredTurn", () => {
+  function scriptedTurns(outputs: string[]) {
+    const seen: OpenAIMessage[][] = [];
+    const startTurn = async function* (messages: OpenAIMessage[]): AsyncGenerator<AgentTurnEvent> {
+      seen.push(messages);
+      yield { type: "text", content: outputs[seen.length - 1] ?? "" };
+      yield { type: "end", finishReason: "stop" };
+    };
+    return { seen, startTurn };
+  }
+
+  async function collect(turn: AsyncIterable<AgentTurnEvent>): Promise<AgentTurnEvent[]> {
+    const events: AgentTurnEvent[] = [];
+    for await (const event of turn) events.push(event);
+    return events;
+  }
+
+  const messages = withResponseFormatInstruction([{ role: "user", content: "Who?" }], { type: "json_object" });
+
+  test("injects the format instruction as a system message", () => {
+    expect(messages[0]?.role).toBe("system");
+    expect(messages[0]?.content).toContain("JSON object");
+  });
+
+  test("retries once with validation errors", async () => {
+    const { seen, startTurn } = scriptedTurns(["not json", "{\"ok\": true}"]);
+    const events = await collect(runStructuredTurn(startTurn, messages, { type: "json_object" }, () => {}));
+
+    expect(events).toEqual([
+      { type: "text", content: "{\"ok\":true}" },
+      { type: "end", finishReason: "stop" },
+    ]);
+    expect(seen).toHaveLength(2);
+    expect(seen[1]?.at(-1)?.content).toContain("Output is not valid JSON");
+  });
+
+  test("returns a typed error when the retry also fails", async () => {
+    const { startTurn } = scriptedTurns(["nope", "still nope"]);
+    const events = await collect(runStructuredTurn(startTurn, messages, { type: "json_object" }, () => {}));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "error", errorType: "invalid_response_format" });
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createTokenProvider } from "../../src/lib/auth/token-provider";
+import { refreshAccessToken } from "../../src/lib/auth/helpers";
+
+function makeJwt(expiresInSeconds: number): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const exp = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  return `${encode({ alg: "none" })}.${encode({ sub: "user", exp })}.sig`;
+}
+
+describe("createTokenProvider", () => {
+  test("returns the current token while it is fresh", async () => {
+    let refreshes = 0;
+    const token = makeJwt(3600);
+    const provider = createTokenProvider({
+      accessToken: token,
+      refresh: async () => { refreshes++; return makeJwt(3600); },
+      backgroundRefresh: false,
+    });
+
+    expect(await provider.getAccessToken()).toBe(token);
+    expect(refreshes).toBe(0);
+  });
+
+  test("single-flights refreshes for concurrent callers near expiry", async () => {
+    let refreshes = 0;
+    const fresh = makeJwt(3600);
+    const provider = createTokenProvider({
+      accessToken: makeJwt(60),
+      refresh: async () => {
+        refreshes++;
+        await Bun.sleep(20);
+        return fresh;
+      },
+      backgroundRefresh: false,
+    });
+
+    const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken(), provider.getAccessToken()]);
+
+    expect(tokens).toEqual([fresh, fresh, fresh]);
+    expect(refreshes).toBe(1);
+    expect(await provider.getAccessToken()).toBe(fresh);
+  });
+
+  test("keeps the old token when a refresh fails", async () => {
+    const stale = makeJwt(60);
+    const provider = createTokenProvider({
+      accessToken: stale,
+      refresh: async () => null,
+      backgroundRefresh: false,
+    });
+
+    expect(await provider.getAccessToken()).toBe(stale);
+    expect(await provider.refresh()).toBeNull();
+  });
+
+  test("only refreshes opaque tokens on demand", async () => {
+    let refreshes = 0;
+    const provider = createTokenProvider({
+      accessToken: "opaque-token",
+      refresh: async () => { refreshes++; return "renewed-token"; },
+    });
+
+    expect(await provider.getAccessToken()).toBe("opaque-token");
+    expect(await provider.refresh()).toBe("renewed-token");
+    expect(await provider.getAccessToken()).toBe("renewed-token");
+    expect(refreshes).toBe(1);
+    provider.dispose();
+  });
+});
+
+describe("refreshAccessToken", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let requests = 0;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch() {
+        requests++;
+        await Bun.sleep(20);
+        return Response.json({ accessToken: `access-${requests}`, refreshToken: "next-refresh" });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test("shares one request between concurrent refreshes of the same token", async () => {
+    const endpoint = `http://localhost:${server.port}`;
+    const results = await Promise.all([
+      refreshAccessToken("refresh-token", endpoint),
+      refreshAccessToken("refresh-token", endpoint),
+    ]);
+
+    expect(requests).toBe(1);
+    expect(results[0]).toEqual({ accessToken: "access-1", refreshToken: "next-refresh" });
+    expect(results[1]).toBe(results[0]);
+  });
+});
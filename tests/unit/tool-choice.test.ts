@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { AgentMode, type OpenAIToolDefinition } from "../../src/lib/api/agent-service";
+import type { AgentTurnEvent } from "../../src/lib/openai-compat/agent-turn";
+import {
+  enforceToolChoice,
+  normalizeOpenAIToolChoice,
+  resolveToolChoice,
+  type ToolChoice,
+} from "../../src/lib/openai-compat/tool-choice";
+import { anthropicToolChoiceToToolChoice } from "../../src/lib/anthropic-compat/utils";
+
+const tools: OpenAIToolDefinition[] = [
+  { type: "function", function: { name: "read_file", parameters: {} } },
+  { type: "function", function: { name: "write_file", parameters: {} } },
+];
+
+function toolCall(name: string, index: number): AgentTurnEvent {
+  return {
+    type: "tool_call",
+    toolCall: { index, id: `call_${index}`, name, arguments: {}, execRequest: {} as never },
+  };
+}
+
+async function collect(events: AgentTurnEvent[], choice: ToolChoice): Promise<AgentTurnEvent[]> {
+  async function* turn() {
+    yield* events;
+  }
+  const result: AgentTurnEvent[] = [];
+  for await (const event of enforceToolChoice(turn(), choice, () => {})) {
+    result.push(event);
+  }
+  return result;
+}
+
+describe("normalizeOpenAIToolChoice", () => {
+  test("defaults to auto", () => {
+    expect(normalizeOpenAIToolChoice(undefined)).toBe("auto");
+  });
+
+  test("accepts chat completions and Responses function shapes", () => {
+    expect(normalizeOpenAIToolChoice({ type: "function", function: { name: "read_file" } })).toEqual({ name: "read_file" });
+    expect(normalizeOpenAIToolChoice({ type: "function", name: "read_file" })).toEqual({ name: "read_file" });
+  });
+});
+
+describe("anthropicToolChoiceToToolChoice", () => {
+  test("maps any to required and tool to a named function", () => {
+    expect(anthropicToolChoiceToToolChoice({ type: "any" })).toBe("required");
+    expect(anthropicToolChoiceToToolChoice({ type: "tool", name: "read_file" })).toEqual({ name: "read_file" });
+    expect(anthropicToolChoiceToToolChoice(undefined)).toBe("auto");
+  });
+});
+
+describe("resolveToolChoice", () => {
+  test("none drops tools and runs in ask mode", () => {
+    expect(resolveToolChoice(tools, "none")).toEqual({ tools: undefined, mode: AgentMode.ASK });
+  });
+
+  test("required keeps all tools and adds instructions", () => {
+    const result = resolveToolChoice(tools, "required");
+    if ("error" in result) throw new Error(result.error);
+    expect(result.tools).toEqual(tools);
+    expect(result.toolInstructions).toContain("MUST call");
+  });
+
+  test("specific function registers only that tool", () => {
+    const result = resolveToolChoice(tools, { name: "write_file" });
+    if ("error" in result) throw new Error(result.error);
+    expect(result.tools?.map(t => t.function.name)).toEqual(["write_file"]);
+    expect(result.toolInstructions).toContain("write_file");
+  });
+
+  test("rejects unknown functions and missing tools", () => {
+    expect(resolveToolChoice(tools, { name: "delete_file" })).toHaveProperty("error");
+    expect(resolveToolChoice(undefined, "required")).toHaveProperty("error");
+  });
+});
+
+describe("enforceToolChoice", () => {
+  test("passes auto turns through unchanged", async () => {
+    const events: AgentTurnEvent[] = [{ type: "text", content: "hi" }, { type: "end", finishReason: "stop" }];
+    expect(await collect(events, "auto")).toEqual(events);
+  });
+
+  test("errors when a required call is missing", async () => {
+    const result = await collect([{ type: "text", content: "hi" }, { type: "end", finishReason: "stop" }], "required");
+    expect(result[1]).toEqual({ type: "error", message: "tool_choice violated: the model did not call a tool" });
+  });
+
+  test("drops calls to other tools and re-indexes the rest", async () => {
+    const result = await collect([
+      toolCall("read_file", 0),
+      toolCall("write_file", 1),
+      { type: "end", finishReason: "tool_calls" },
+    ], { name: "write_file" });
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ type: "tool_call", toolCall: { name: "write_file", index: 0 } });
+    expect(result[1]).toEqual({ type: "end", finishReason: "tool_calls" });
+  });
+});
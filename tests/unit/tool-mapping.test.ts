@@ -0,0 +1,182 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AgentMode, type AgentStreamChunk } from "../../src/lib/api/agent-service";
+import { runAgentTurn, type AgentTurnEvent, type AgentTurnParams } from "../../src/lib/openai-compat/agent-turn";
+import {
+  cursorSideToolCall,
+  cursorToolCallToOpenCode,
+  editFromWrite,
+  openCodeToolCallToCursor,
+  writeAsOpenCodeEdit,
+} from "../../src/lib/openai-compat/tool-mapping";
+import { DEFAULT_EXECUTION_POLICY } from "../../src/lib/openai-compat/execution-policy";
+import { makeCursorSideToolCallId, makeToolCallId } from "../../src/lib/session-reuse";
+
+const dir = mkdtempSync(join(tmpdir(), "tool-mapping-"));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("tool catalog", () => {
+  test("maps Cursor tools to OpenCode tools by type or name", () => {
+    expect(cursorToolCallToOpenCode("shell_tool_call", { command: "ls", working_directory: "/repo" }))
+      .toEqual({ name: "bash", arguments: { command: "ls", workdir: "/repo" } });
+    expect(cursorToolCallToOpenCode("edit", { filePath: "/a.ts", oldString: "a", newString: "b" }))
+      .toEqual({ name: "edit", arguments: { filePath: "/a.ts", oldString: "a", newString: "b" } });
+    expect(cursorToolCallToOpenCode("delete_tool_call", { filePath: "/tmp/it's here" }))
+      .toEqual({ name: "bash", arguments: { command: "rm -- '/tmp/it'\\''s here'", description: "Delete /tmp/it's here" } });
+    expect(cursorToolCallToOpenCode("create_plan_tool_call", {})).toBeNull();
+  });
+
+  test("maps todos in both directions", () => {
+    const cursorTodos = {
+      todos: [
+        { id: "1", content: "Write tests", status: "TODO_STATUS_IN_PROGRESS" },
+        { id: "2", content: "Ship", status: "TODO_STATUS_PENDING" },
+      ],
+    };
+    const mapped = cursorToolCallToOpenCode("update_todos_tool_call", cursorTodos);
+    expect(mapped).toEqual({
+      name: "todowrite",
+      arguments: {
+        todos: [
+          { id: "1", content: "Write tests", status: "in_progress", priority: "medium" },
+          { id: "2", content: "Ship", status: "pending", priority: "medium" },
+        ],
+      },
+    });
+    expect(openCodeToolCallToCursor("todowrite", mapped?.arguments ?? {}))
+      .toEqual({ toolType: "update_todos_tool_call", arguments: cursorTodos });
+  });
+
+  test("maps OpenCode tools back to Cursor tools", () => {
+    expect(openCodeToolCallToCursor("bash", { command: "ls", workdir: "/repo" }))
+      .toEqual({ toolType: "shell_tool_call", arguments: { command: "ls", working_directory: "/repo" } });
+    expect(openCodeToolCallToCursor("task", { description: "Explore", prompt: "Find the parser", subagent_type: "general" }))
+      .toEqual({ toolType: "task_tool_call", arguments: { description: "Explore", prompt: "Find the parser", subagent_type: "general" } });
+    expect(openCodeToolCallToCursor("mcp_custom", {})).toBeNull();
+  });
+
+  test("maps single-hunk apply_diff calls to edits and back", () => {
+    const diff = "--- a/a.ts\n+++ b/a.ts\n@@ -1,3 +1,3 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n";
+    expect(cursorToolCallToOpenCode("apply_agent_diff_tool_call", { filePath: "/a.ts", diff })).toEqual({
+      name: "edit",
+      arguments: { filePath: "/a.ts", oldString: "const a = 1;\nconst b = 2;\n", newString: "const a = 1;\nconst b = 3;\n" },
+    });
+    // Several hunks aren't one edit; the turn runner derives it from the write instead
+    expect(cursorToolCallToOpenCode("apply_diff", { filePath: "/a.ts", diff: "@@ -1 +1 @@\n-a\n+b\n@@ -9 +9 @@\n-c\n+d\n" }))
+      .toEqual({ name: "edit", arguments: { filePath: "/a.ts" } });
+  });
+
+  test("replays only Cursor-side tools as the Cursor tool", () => {
+    const id = makeCursorSideToolCallId("sess1", "tool_1");
+    expect(cursorSideToolCall(id, "todowrite", { todos: [{ id: "1", content: "Ship", status: "completed", priority: "high" }] }))
+      .toEqual({ name: "todowrite", arguments: { todos: [{ id: "1", content: "Ship", status: "TODO_STATUS_COMPLETED" }] } });
+    expect(cursorSideToolCall(makeCursorSideToolCallId(undefined, "tool_2"), "webfetch", { url: "https://a.test", format: "markdown" }))
+      .toEqual({ name: "webfetch", arguments: { url: "https://a.test", format: "markdown" } });
+    expect(cursorSideToolCall(id, "bash", { command: "ls" })).toBeNull();
+    expect(cursorSideToolCall(id, "edit", { filePath: "/a.ts", oldString: "a", newString: "b" })).toBeNull();
+  });
+
+  test("leaves the client's own calls to the same tools alone", () => {
+    expect(cursorSideToolCall("call_abc", "todowrite", { todos: [] })).toBeNull();
+    expect(cursorSideToolCall(makeToolCallId("sess1", "abc"), "webfetch", { url: "https://a.test" })).toBeNull();
+  });
+});
+
+describe("editFromWrite", () => {
+  test("keeps only the changed lines", () => {
+    expect(editFromWrite("a\nb\nc\nd\n", "a\nb\nX\nd\n")).toEqual({ oldString: "c\n", newString: "X\n" });
+  });
+
+  test("adds context until oldString is unique", () => {
+    expect(editFromWrite("x\n}\ny\n}\n", "x\n}\ny\n}\nz\n")).toEqual({ oldString: "y\n}\n", newString: "y\n}\nz\n" });
+  });
+
+  test("leaves new files and no-op writes as writes", () => {
+    expect(editFromWrite("", "new\n")).toBeNull();
+    expect(editFromWrite("same\n", "same\n")).toBeNull();
+  });
+});
+
+describe("writeAsOpenCodeEdit", () => {
+  const path = join(dir, "a.ts");
+  writeFileSync(path, "const a = 1;\nconst b = 2;\n");
+  const write = { type: "write" as const, id: 1, execId: "exec1", path, fileText: "const a = 1;\nconst b = 3;\n" };
+
+  test("uses the native edit arguments when they reproduce the write", async () => {
+    expect(await writeAsOpenCodeEdit(write, { oldString: "b = 2", newString: "b = 3" }, DEFAULT_EXECUTION_POLICY))
+      .toEqual({ filePath: path, oldString: "b = 2", newString: "b = 3" });
+  });
+
+  test("derives the edit from the file otherwise", async () => {
+    expect(await writeAsOpenCodeEdit(write, { diff: "@@ ..." }, DEFAULT_EXECUTION_POLICY))
+      .toEqual({ filePath: path, oldString: "const b = 2;\n", newString: "const b = 3;\n" });
+    expect(await writeAsOpenCodeEdit({ ...write, path: join(dir, "missing.ts") }, undefined, DEFAULT_EXECUTION_POLICY))
+      .toBeNull();
+  });
+
+  async function runEditTurn(script: AgentStreamChunk[]): Promise<AgentTurnEvent[]> {
+    const noop = async () => {};
+    const client = {
+      async *chatStream() {
+        yield* script;
+      },
+      sendToolResult: noop,
+      sendShellResult: noop,
+      sendReadResult: noop,
+      sendLsResult: noop,
+      sendGrepResult: noop,
+      sendWriteResult: noop,
+      sendResumeAction: noop,
+    } as unknown as AgentTurnParams["client"];
+    const events: AgentTurnEvent[] = [];
+    const turn = runAgentTurn({
+      client,
+      request: {
+        message: "edit",
+        model: "default",
+        mode: AgentMode.AGENT,
+        tools: [{ type: "function", function: { name: "edit", parameters: {} } }],
+      },
+      messages: [{ role: "user", content: "edit" }],
+      toolsProvided: true,
+      fallbackToolCallId: index => `call_test_${index}`,
+      log: () => {},
+    });
+    for await (const event of turn) events.push(event);
+    return events;
+  }
+
+  function toolCallsOf(events: AgentTurnEvent[]): Array<[string, Record<string, unknown>]> {
+    return events.flatMap(event => (event.type === "tool_call" ? [[event.toolCall.name, event.toolCall.arguments] as [string, Record<string, unknown>]] : []));
+  }
+
+  test("turns the write that finishes an edit into an edit tool call", async () => {
+    const events = await runEditTurn([
+      { type: "tool_call_started", toolCall: { callId: "tc1", modelCallId: "", toolType: "edit_tool_call", name: "edit", arguments: "{}" } },
+      { type: "exec_request", execRequest: write },
+      { type: "done" },
+    ]);
+
+    expect(toolCallsOf(events)).toEqual([
+      ["edit", { filePath: path, oldString: "const b = 2;\n", newString: "const b = 3;\n" }],
+    ]);
+  });
+
+  test("uses the apply_diff hunk as the edit when it reproduces the write", async () => {
+    const diff = "@@ -1,2 +1,2 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n";
+    const events = await runEditTurn([
+      {
+        type: "tool_call_started",
+        toolCall: { callId: "tc2", modelCallId: "", toolType: "apply_agent_diff_tool_call", name: "apply_diff", arguments: JSON.stringify({ filePath: path, diff }) },
+      },
+      { type: "exec_request", execRequest: write },
+      { type: "done" },
+    ]);
+
+    expect(toolCallsOf(events)).toEqual([
+      ["edit", { filePath: path, oldString: "const a = 1;\nconst b = 2;\n", newString: "const a = 1;\nconst b = 3;\n" }],
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import { createPageFetcher, createSearxngProvider, isPrivateAddress, webProviderFromEnv } from "../../src/lib/openai-compat/web-provider";
+import { htmlToMarkdown } from "../../src/lib/utils/html-to-markdown";
+
+describe("htmlToMarkdown", () => {
+  test("keeps headings, links, lists, emphasis and code", () => {
+    const html = `<html><head><title>Docs &amp; Guides</title><style>p { color: red }</style></head>
+      <body><nav><a href="/">Home</a></nav>
+      <main>
+        <h1>Install</h1>
+        <p>Run the <strong>installer</strong> from <a href="/download">the downloads page</a>.</p>
+        <ul><li>Fast</li><li><em>Small</em></li></ul>
+        <pre><code>bun add x &lt;y&gt;
+bun run</code></pre>
+        <script>alert("hi")</script>
+      </main></body></html>`;
+
+    const { title, markdown } = htmlToMarkdown(html, "https://example.com/docs/");
+    expect(title).toBe("Docs & Guides");
+    expect(markdown).toBe([
+      "# Install",
+      "",
+      "Run the **installer** from [the downloads page](https://example.com/download).",
+      "",
+      "- Fast",
+      "- _Small_",
+      "",
+      "```",
+      "bun add x <y>",
+      "bun run",
+      "```",
+    ].join("\n"));
+  });
+});
+
+describe("SearXNG provider", () => {
+  test("queries the JSON API and maps results", async () => {
+    const requested: string[] = [];
+    const provider = createSearxngProvider({
+      baseUrl: "http://searx.internal:8080",
+      fetch: async (url) => {
+        requested.push(url);
+        return Response.json({
+          results: [
+            { title: "Bun", url: "https://bun.sh", content: "A fast JavaScript runtime", publishedDate: null },
+            { title: "No URL" },
+            { title: "Bun docs", url: "https://bun.sh/docs", content: "" },
+            { title: "Third", url: "https://example.com" },
+          ],
+        });
+      },
+    });
+
+    const results = await provider.search("bun runtime", { limit: 2 });
+    expect(new URL(requested[0] ?? "").searchParams.toString()).toBe("q=bun+runtime&format=json");
+    expect(requested[0]).toStartWith("http://searx.internal:8080/search?");
+    expect(results).toEqual([
+      { title: "Bun", url: "https://bun.sh", text: "A fast JavaScript runtime", publishedDate: undefined },
+      { title: "Bun docs", url: "https://bun.sh/docs", text: undefined, publishedDate: undefined },
+    ]);
+  });
+
+  test("is configured from CURSOR_SEARXNG_URL", () => {
+    expect(webProviderFromEnv({})).toBeUndefined();
+    expect(webProviderFromEnv({ CURSOR_SEARXNG_URL: "http://searx.internal" })).toBeDefined();
+  });
+});
+
+describe("page fetcher", () => {
+  // Every test host resolves to a public address unless a test says otherwise
+  const publicLookup = async () => ["93.184.216.34"];
+
+  test("converts HTML pages and truncates long ones", async () => {
+    const fetchPage = createPageFetcher({
+      maxChars: 12,
+      lookup: publicLookup,
+      fetch: async () => new Response("<title>T</title><p>Hello page content</p>", {
+        headers: { "content-type": "text/html; charset=utf-8" },
+      }),
+    });
+
+    expect(await fetchPage("https://example.com/a", {})).toEqual({
+      url: "https://example.com/a",
+      title: "T",
+      text: "Hello page c\n\n[content truncated at 12 characters]",
+    });
+  });
+
+  test("refuses binary content, failed responses and non-HTTP URLs", async () => {
+    const respond = (response: Response) => createPageFetcher({ fetch: async () => response, lookup: publicLookup });
+
+    await expect(respond(new Response("x", { headers: { "content-type": "application/pdf" } }))("https://a.test/f.pdf", {}))
+      .rejects.toThrow("Unsupported content type: application/pdf");
+    await expect(respond(new Response("gone", { status: 404 }))("https://a.test/", {})).rejects.toThrow("HTTP 404");
+    await expect(respond(new Response(""))("file:///etc/passwd", {})).rejects.toThrow("Unsupported URL scheme: file:");
+  });
+
+  test("refuses private, loopback, link-local and metadata targets", async () => {
+    const fetched: string[] = [];
+    const fetchPage = createPageFetcher({
+      fetch: async (url) => {
+        fetched.push(url);
+        return new Response("secret");
+      },
+      lookup: async (hostname) => hostname === "intranet.test" ? ["93.184.216.34", "10.0.0.5"] : ["93.184.216.34"],
+    });
+
+    for (const url of [
+      "http://127.0.0.1:8080/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://intranet.test/",
+    ]) {
+      await expect(fetchPage(url, {})).rejects.toThrow("private or local address");
+    }
+    expect(fetched).toEqual([]);
+  });
+
+  test("checks every redirect hop", async () => {
+    const fetched: string[] = [];
+    const fetchPage = createPageFetcher({
+      fetch: async (url) => {
+        fetched.push(url);
+        if (url === "https://public.test/start") return new Response(null, { status: 302, headers: { location: "/next" } });
+        if (url === "https://public.test/next") return new Response(null, { status: 301, headers: { location: "http://metadata.test/" } });
+        return new Response("secret");
+      },
+      lookup: async (hostname) => hostname === "metadata.test" ? ["169.254.169.254"] : ["93.184.216.34"],
+    });
+
+    await expect(fetchPage("https://public.test/start", {})).rejects.toThrow("Refusing to fetch metadata.test");
+    expect(fetched).toEqual(["https://public.test/start", "https://public.test/next"]);
+  });
+
+  test("stops reading bodies at the byte cap", async () => {
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new TextEncoder().encode("all work and no play "));
+      },
+    });
+    const fetchPage = createPageFetcher({
+      maxBytes: 16,
+      lookup: publicLookup,
+      fetch: async () => new Response(endless, { headers: { "content-type": "text/plain" } }),
+    });
+
+    expect((await fetchPage("https://a.test/log", {})).text).toBe("all work and no \n\n[content truncated at 16 bytes]");
+  });
+
+  test("checks the address it connects to, not just the first DNS answer", async () => {
+    let requests = 0;
+    const server = Bun.serve({ port: 0, hostname: "127.0.0.1", fetch: () => { requests++; return new Response("secret"); } });
+    let lookups = 0;
+    // Public for the first answer, then rebound to loopback
+    const fetchPage = createPageFetcher({ lookup: async () => lookups++ === 0 ? ["93.184.216.34"] : ["127.0.0.1"] });
+
+    try {
+      await expect(fetchPage(`http://rebind.test:${server.port}/`, {})).rejects.toThrow("private or local address");
+      expect(lookups).toBe(2);
+      expect(requests).toBe(0);
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("classifies addresses", () => {
+    for (const address of ["10.1.2.3", "172.31.0.1", "192.168.1.1", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe"]) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ["93.184.216.34", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+});